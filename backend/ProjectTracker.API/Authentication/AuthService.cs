@@ -74,6 +74,7 @@ public class AuthService : IAuthService
                 LastName = createdUser.LastName,
                 FullName = createdUser.FullName,
                 IsActive = createdUser.IsActive,
+                Role = createdUser.Role,
                 CreatedAt = createdUser.CreatedAt
             };
 
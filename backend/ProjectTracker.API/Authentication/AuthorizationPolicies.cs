@@ -0,0 +1,13 @@
+namespace ProjectTracker.API.Authentication;
+
+/// <summary>
+/// Names of the authorization policies registered in ConfigurationExtensions.AddAuthorizationPolicies
+/// Usage: [Authorize(Policy = AuthorizationPolicies.AdminOnly)]
+/// </summary>
+public static class AuthorizationPolicies
+{
+    /// <summary>
+    /// Requires the Admin role claim
+    /// </summary>
+    public const string AdminOnly = "AdminOnly";
+}
@@ -47,7 +47,8 @@ public class JwtTokenProvider : IJwtTokenProvider
                 new DateTimeOffset(DateTime.UtcNow).ToUnixTimeSeconds().ToString(),
                 ClaimValueTypes.Integer64),
             new Claim("userId", user.Id.ToString()),
-            new Claim("isActive", user.IsActive.ToString())
+            new Claim("isActive", user.IsActive.ToString()),
+            new Claim("role", user.Role)
         };
 
         var key = new SymmetricSecurityKey(Encoding.ASCII.GetBytes(_jwtOptions.SecretKey));
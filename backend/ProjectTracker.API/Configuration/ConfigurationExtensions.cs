@@ -7,6 +7,8 @@ using Swashbuckle.AspNetCore.SwaggerGen;
 using ProjectTracker.API.Authentication;
 using ProjectTracker.API.Data;
 using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Services;
 
 namespace ProjectTracker.API.Configuration;
 
@@ -71,7 +73,7 @@ public static class ConfigurationExtensions
                 )
                 .AllowAnyMethod()
                 .AllowAnyHeader()
-                .WithExposedHeaders("Server-Timing") // Expose MiniProfiler timing header
+                .WithExposedHeaders("Server-Timing", "Content-Disposition", "X-Total-Count", "ETag") // MiniProfiler timing, export file name, row count and project version
                 .AllowCredentials();
             });
         });
@@ -114,6 +116,16 @@ public static class ConfigurationExtensions
             // Handle token validation errors
             options.Events = new JwtBearerEvents
             {
+                // WebSockets cannot send the Authorization header: hub clients pass the token on the query string
+                OnMessageReceived = context =>
+                {
+                    var accessToken = context.Request.Query["access_token"];
+                    if (!string.IsNullOrEmpty(accessToken) && context.HttpContext.Request.Path.StartsWithSegments("/api/hubs"))
+                    {
+                        context.Token = accessToken;
+                    }
+                    return Task.CompletedTask;
+                },
                 OnAuthenticationFailed = context =>
                 {
                     context.Response.StatusCode = StatusCodes.Status401Unauthorized;
@@ -130,6 +142,14 @@ public static class ConfigurationExtensions
 
                     var response = new { message = "Authorization token is missing or invalid" };
                     return context.Response.WriteAsJsonAsync(response);
+                },
+                OnForbidden = context =>
+                {
+                    context.Response.StatusCode = StatusCodes.Status403Forbidden;
+                    context.Response.ContentType = "application/json";
+
+                    var response = new { message = "You do not have permission to access this resource" };
+                    return context.Response.WriteAsJsonAsync(response);
                 }
             };
         });
@@ -138,6 +158,18 @@ public static class ConfigurationExtensions
         return services;
     }
 
+    /// <summary>
+    /// Register role-based authorization policies checked by [Authorize(Policy = ...)].
+    /// Roles come from the role claim of the access token.
+    /// </summary>
+    public static IServiceCollection AddAuthorizationPolicies(this IServiceCollection services)
+    {
+        services.AddAuthorizationBuilder()
+            .AddPolicy(AuthorizationPolicies.AdminOnly, policy => policy.RequireRole(UserRoles.Admin));
+
+        return services;
+    }
+
     /// <summary>
     /// Register authentication services including password hashing, JWT token generation, and auth business logic.
     /// </summary>
@@ -159,6 +191,86 @@ public static class ConfigurationExtensions
         services.AddScoped<IUserRepository, UserRepository>();
         services.AddScoped<IProjectRepository, ProjectRepository>();
         services.AddScoped<ITranslationRepository, TranslationRepository>();
+        services.AddScoped<ISavedViewRepository, SavedViewRepository>();
+        services.AddScoped<IProjectTaskRepository, ProjectTaskRepository>();
+        services.AddScoped<IProjectCommentRepository, ProjectCommentRepository>();
+        services.AddScoped<IProjectAttachmentRepository, ProjectAttachmentRepository>();
+        services.AddScoped<ITagRepository, TagRepository>();
+        services.AddScoped<IProjectMemberRepository, ProjectMemberRepository>();
+        services.AddScoped<IProjectHistoryRepository, ProjectHistoryRepository>();
+        services.AddScoped<INotificationRepository, NotificationRepository>();
+
+        return services;
+    }
+
+    /// <summary>
+    /// Register the storage backend for project attachments selected by the FileStorage:Provider setting.
+    /// </summary>
+    public static IServiceCollection AddFileStorage(
+        this IServiceCollection services,
+        IConfiguration configuration)
+    {
+        var storageOptions = configuration
+            .GetSection(FileStorageOptions.SectionName)
+            .Get<FileStorageOptions>() ?? new FileStorageOptions();
+
+        switch (storageOptions.Provider)
+        {
+            case "Local":
+                services.AddSingleton<IFileStorage, LocalFileStorage>();
+                break;
+            default:
+                throw new InvalidOperationException($"Unknown file storage provider: {storageOptions.Provider}");
+        }
+
+        services.AddSingleton(storageOptions);
+        return services;
+    }
+
+    /// <summary>
+    /// Register the project trash: permanent deletes and the background purge of projects
+    /// older than the Trash:RetentionDays setting.
+    /// </summary>
+    public static IServiceCollection AddTrash(
+        this IServiceCollection services,
+        IConfiguration configuration)
+    {
+        var trashOptions = configuration
+            .GetSection(TrashOptions.SectionName)
+            .Get<TrashOptions>() ?? new TrashOptions();
+
+        services.AddSingleton(trashOptions);
+        services.AddScoped<IProjectPurgeService, ProjectPurgeService>();
+        services.AddHostedService<TrashPurgeBackgroundService>();
+
+        return services;
+    }
+
+    /// <summary>
+    /// Register the notification center options and the background job that generates
+    /// the due date reminders selected by the Notifications settings.
+    /// </summary>
+    public static IServiceCollection AddNotifications(
+        this IServiceCollection services,
+        IConfiguration configuration)
+    {
+        var notificationOptions = configuration
+            .GetSection(NotificationOptions.SectionName)
+            .Get<NotificationOptions>() ?? new NotificationOptions();
+
+        services.AddSingleton(notificationOptions);
+        services.AddHostedService<NotificationBackgroundService>();
+
+        return services;
+    }
+
+    /// <summary>
+    /// Register SignalR and the publisher that pushes project changes to connected clients.
+    /// </summary>
+    public static IServiceCollection AddRealtime(this IServiceCollection services)
+    {
+        services.AddSignalR();
+        services.AddScoped<IProjectUpdatePublisher, ProjectUpdatePublisher>();
 
         return services;
     }
@@ -175,6 +287,15 @@ public static class ConfigurationExtensions
         // Add memory cache for application-level caching
         services.AddMemoryCache();
 
+        // Streaming CSV/XLSX project export writer
+        services.AddScoped<IProjectExportService, ProjectExportService>();
+
+        // Project roles (owner, editors and viewers) checked by the project controllers
+        services.AddScoped<IProjectAccessService, ProjectAccessService>();
+
+        // Audit trail of project changes recorded by the project controllers
+        services.AddScoped<IProjectHistoryService, ProjectHistoryService>();
+
         return services;
     }
 
@@ -0,0 +1,21 @@
+namespace ProjectTracker.API.Configuration;
+
+/// <summary>
+/// Attachment storage configuration options from appsettings.json
+/// </summary>
+public class FileStorageOptions
+{
+    public const string SectionName = "FileStorage";
+
+    // Storage backend: only "Local" is implemented
+    public string Provider { get; set; } = "Local";
+
+    // Root folder of the local backend (relative paths are resolved against the content root)
+    public string LocalPath { get; set; } = "App_Data/attachments";
+    public long MaxFileSizeBytes { get; set; } = 10 * 1024 * 1024;
+    public string[] AllowedExtensions { get; set; } =
+    [
+        ".pdf", ".doc", ".docx", ".xls", ".xlsx", ".ppt", ".pptx", ".txt", ".csv", ".md",
+        ".png", ".jpg", ".jpeg", ".gif", ".webp", ".zip"
+    ];
+}
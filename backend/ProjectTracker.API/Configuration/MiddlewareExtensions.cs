@@ -1,4 +1,5 @@
 using DbUp;
+using ProjectTracker.API.Hubs;
 using ProjectTracker.API.Middleware;
 using StackExchange.Profiling;
 using StackExchange.Profiling.Storage;
@@ -62,6 +63,9 @@ public static class MiddlewareExtensions
         // Controller routes
         app.MapControllers();
 
+        // Real-time hubs
+        app.MapHub<ProjectHub>("/api/hubs/projects");
+
         return app;
     }
 
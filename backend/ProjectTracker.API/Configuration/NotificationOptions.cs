@@ -0,0 +1,18 @@
+namespace ProjectTracker.API.Configuration;
+
+/// <summary>
+/// Notification center configuration options from appsettings.json
+/// </summary>
+public class NotificationOptions
+{
+    public const string SectionName = "Notifications";
+
+    // Projects due within this many days (today included) get a DueSoon reminder
+    public int DueSoonDays { get; set; } = 3;
+
+    // How often the background job looks for projects due soon or overdue
+    public int CheckIntervalMinutes { get; set; } = 60;
+
+    // Days a notification is kept before it is deleted
+    public int RetentionDays { get; set; } = 90;
+}
@@ -0,0 +1,15 @@
+namespace ProjectTracker.API.Configuration;
+
+/// <summary>
+/// Project trash configuration options from appsettings.json
+/// </summary>
+public class TrashOptions
+{
+    public const string SectionName = "Trash";
+
+    // Days a deleted project stays restorable before it is purged
+    public int RetentionDays { get; set; } = 30;
+
+    // How often the background purge looks for expired projects
+    public int PurgeIntervalMinutes { get; set; } = 60;
+}
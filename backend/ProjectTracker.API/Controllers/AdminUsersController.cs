@@ -0,0 +1,120 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Authentication;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Admin;
+using ProjectTracker.API.Models.Dtos.Auth;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for administrators managing the registered users
+/// Role and status changes apply to the user's next token refresh
+/// </summary>
+[ApiController]
+[Route("api/admin/users")]
+[Authorize(Policy = AuthorizationPolicies.AdminOnly)]
+public class AdminUsersController : ControllerBase
+{
+    private readonly IUserRepository _userRepository;
+    private readonly ILogger<AdminUsersController> _logger;
+
+    public AdminUsersController(
+        IUserRepository userRepository,
+        ILogger<AdminUsersController> logger)
+    {
+        _userRepository = userRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get all registered users, newest first
+    /// GET: api/admin/users
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<UserResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<IEnumerable<UserResponse>>> GetAll()
+    {
+        _logger.LogInformation("Fetching users for administrator {UserId}", GetUserId());
+
+        var users = await _userRepository.GetAllAsync();
+
+        return Ok(users.Select(MapToResponse));
+    }
+
+    /// <summary>
+    /// Change the role or status of a user
+    /// Deactivating a user also revokes their refresh tokens
+    /// PUT: api/admin/users/{id}
+    /// </summary>
+    [HttpPut("{id}")]
+    [ProducesResponseType(typeof(UserResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<UserResponse>> Update(int id, [FromBody] UpdateUserRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Updating user {TargetUserId} by administrator {UserId}", id, userId);
+
+        var existing = await _userRepository.GetByIdAsync(id);
+        if (existing is null)
+        {
+            return NotFound(new { message = "User not found" });
+        }
+
+        // Keeps at least the acting administrator able to manage users
+        if (id == userId && (request.Role != existing.Role || request.IsActive != existing.IsActive))
+        {
+            return BadRequest(new { message = "You cannot change your own role or status" });
+        }
+
+        var deactivated = existing.IsActive && !request.IsActive;
+
+        existing.Role = request.Role;
+        existing.IsActive = request.IsActive;
+        await _userRepository.UpdateAsync(existing);
+
+        if (deactivated)
+        {
+            await _userRepository.RevokeAllRefreshTokensAsync(id);
+        }
+
+        var updated = await _userRepository.GetByIdAsync(id);
+        return Ok(MapToResponse(updated!));
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    /// <summary>
+    /// Map entity to response DTO
+    /// </summary>
+    private static UserResponse MapToResponse(User user)
+    {
+        return new UserResponse
+        {
+            Id = user.Id,
+            Email = user.Email,
+            FirstName = user.FirstName,
+            LastName = user.LastName,
+            FullName = user.FullName,
+            IsActive = user.IsActive,
+            Role = user.Role,
+            CreatedAt = user.CreatedAt
+        };
+    }
+}
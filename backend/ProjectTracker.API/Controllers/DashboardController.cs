@@ -0,0 +1,92 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Dtos.Dashboard;
+using System.ComponentModel.DataAnnotations;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for the dashboard statistics
+/// All counts are aggregated in the database, the projects themselves are not loaded
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class DashboardController : ControllerBase
+{
+    private static readonly string[] Statuses = ["Active", "OnHold", "Completed", "Cancelled"];
+
+    private readonly IProjectRepository _projectRepository;
+    private readonly ILogger<DashboardController> _logger;
+
+    public DashboardController(IProjectRepository projectRepository, ILogger<DashboardController> logger)
+    {
+        _projectRepository = projectRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the project statistics of the authenticated user
+    /// today is the client's local date (defaults to the UTC date) so that the due counts
+    /// match the date filters of the project list; weeks is the length of the completion trend
+    /// GET: api/dashboard?today=2025-06-30&weeks=12
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(DashboardResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<DashboardResponse>> Get(
+        [FromQuery] DateTime? today = null,
+        [FromQuery, Range(1, 52)] int weeks = 12)
+    {
+        var userId = GetUserId();
+        var date = (today ?? DateTime.UtcNow).Date;
+        _logger.LogInformation("Fetching dashboard for user {UserId} on {Today}", userId, date);
+
+        var stats = await _projectRepository.GetStatsAsync(userId, date);
+
+        // Monday of the current week, then back to the first week of the trend
+        var currentWeek = date.AddDays(-(((int)date.DayOfWeek + 6) % 7));
+        var firstWeek = currentWeek.AddDays(-7 * (weeks - 1));
+        var completions = await _projectRepository.GetCompletionTimesAsync(userId, firstWeek);
+
+        var trend = Enumerable.Range(0, weeks)
+            .Select(i => firstWeek.AddDays(7 * i))
+            .Select(weekStart => new CompletionTrendPoint
+            {
+                WeekStart = weekStart,
+                Completed = completions.Count(t => t >= weekStart && t < weekStart.AddDays(7))
+            })
+            .ToList();
+
+        return Ok(new DashboardResponse
+        {
+            Total = stats.ByStatus.Values.Sum(),
+            ByStatus = Statuses
+                .Select(s => new StatusCountResponse { Status = s, Count = stats.ByStatus.GetValueOrDefault(s) })
+                .ToList(),
+            ByPriority = Enumerable.Range(1, 5)
+                .Select(p => new PriorityCountResponse { Priority = p, Count = stats.ByPriority.GetValueOrDefault(p) })
+                .ToList(),
+            Overdue = stats.Overdue,
+            DueThisWeek = stats.DueThisWeek,
+            Today = date,
+            WeekEnd = date.AddDays(6),
+            CompletionTrend = trend
+        });
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+}
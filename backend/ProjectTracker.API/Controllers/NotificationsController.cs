@@ -0,0 +1,168 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Notifications;
+using System.ComponentModel.DataAnnotations;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for the notification center of the authenticated user
+/// Notifications are generated by the server (due date reminders and changes made by other users);
+/// the user reads them, marks them as read and chooses which types to receive
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class NotificationsController : ControllerBase
+{
+    private readonly INotificationRepository _notificationRepository;
+    private readonly ILogger<NotificationsController> _logger;
+
+    public NotificationsController(
+        INotificationRepository notificationRepository,
+        ILogger<NotificationsController> logger)
+    {
+        _notificationRepository = notificationRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the latest notifications and the number of unread ones
+    /// GET: api/notifications?unreadOnly=false&take=20
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(NotificationListResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<NotificationListResponse>> GetAll(
+        [FromQuery] bool unreadOnly = false,
+        [FromQuery, Range(1, 100)] int take = 20)
+    {
+        var userId = GetUserId();
+
+        var notifications = await _notificationRepository.GetByUserIdAsync(userId, unreadOnly, take);
+        var unreadCount = await _notificationRepository.GetUnreadCountAsync(userId);
+
+        return Ok(new NotificationListResponse
+        {
+            Items = notifications.Select(MapToResponse).ToList(),
+            UnreadCount = unreadCount
+        });
+    }
+
+    /// <summary>
+    /// Mark a notification as read
+    /// POST: api/notifications/5/read
+    /// </summary>
+    [HttpPost("{id}/read")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> MarkAsRead(int id)
+    {
+        var userId = GetUserId();
+
+        if (!await _notificationRepository.MarkAsReadAsync(userId, id))
+        {
+            return NotFound(new { message = "Notification not found" });
+        }
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Mark every notification of the user as read
+    /// POST: api/notifications/read-all
+    /// </summary>
+    [HttpPost("read-all")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    public async Task<IActionResult> MarkAllAsRead()
+    {
+        var userId = GetUserId();
+
+        var count = await _notificationRepository.MarkAllAsReadAsync(userId);
+        _logger.LogInformation("User {UserId} marked {Count} notifications as read", userId, count);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Get the notification types the user receives
+    /// GET: api/notifications/preferences
+    /// </summary>
+    [HttpGet("preferences")]
+    [ProducesResponseType(typeof(NotificationPreferencesResponse), StatusCodes.Status200OK)]
+    public async Task<ActionResult<NotificationPreferencesResponse>> GetPreferences()
+    {
+        var preferences = await _notificationRepository.GetPreferencesAsync(GetUserId());
+        return Ok(MapToResponse(preferences));
+    }
+
+    /// <summary>
+    /// Choose the notification types the user receives
+    /// Turning a type off stops new notifications; existing ones are kept
+    /// PUT: api/notifications/preferences
+    /// </summary>
+    [HttpPut("preferences")]
+    [ProducesResponseType(typeof(NotificationPreferencesResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<NotificationPreferencesResponse>> UpdatePreferences(
+        [FromBody] UpdateNotificationPreferencesRequest request)
+    {
+        var userId = GetUserId();
+
+        var preferences = new NotificationPreferences
+        {
+            UserId = userId,
+            DueSoon = request.DueSoon,
+            Overdue = request.Overdue,
+            ProjectChanged = request.ProjectChanged
+        };
+        await _notificationRepository.SavePreferencesAsync(preferences);
+        _logger.LogInformation("User {UserId} updated notification preferences", userId);
+
+        return Ok(MapToResponse(preferences));
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    private static NotificationResponse MapToResponse(Notification notification)
+    {
+        return new NotificationResponse
+        {
+            Id = notification.Id,
+            Type = notification.Type,
+            ProjectId = notification.ProjectId,
+            ProjectTitle = notification.ProjectTitle ?? string.Empty,
+            Action = notification.Action,
+            ActorId = notification.ActorId,
+            ActorName = notification.ActorName,
+            ActorEmail = notification.ActorEmail,
+            DueDate = notification.DueDate,
+            IsRead = notification.IsRead,
+            CreatedAt = notification.CreatedAt
+        };
+    }
+
+    private static NotificationPreferencesResponse MapToResponse(NotificationPreferences preferences)
+    {
+        return new NotificationPreferencesResponse
+        {
+            DueSoon = preferences.DueSoon,
+            Overdue = preferences.Overdue,
+            ProjectChanged = preferences.ProjectChanged
+        };
+    }
+}
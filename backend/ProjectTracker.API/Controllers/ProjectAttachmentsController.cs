@@ -0,0 +1,254 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.StaticFiles;
+using ProjectTracker.API.Configuration;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Attachments;
+using ProjectTracker.API.Services;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for files attached to a project
+/// Metadata is stored in the database, content in the configured IFileStorage backend
+/// </summary>
+[ApiController]
+[Route("api/projects/{projectId}/attachments")]
+[Authorize]
+public class ProjectAttachmentsController : ControllerBase
+{
+    private readonly IProjectAttachmentRepository _attachmentRepository;
+    private readonly IProjectAccessService _accessService;
+    private readonly IFileStorage _fileStorage;
+    private readonly FileStorageOptions _storageOptions;
+    private readonly ILogger<ProjectAttachmentsController> _logger;
+
+    private static readonly FileExtensionContentTypeProvider ContentTypes = new();
+
+    public ProjectAttachmentsController(
+        IProjectAttachmentRepository attachmentRepository,
+        IProjectAccessService accessService,
+        IFileStorage fileStorage,
+        FileStorageOptions storageOptions,
+        ILogger<ProjectAttachmentsController> logger)
+    {
+        _attachmentRepository = attachmentRepository;
+        _accessService = accessService;
+        _fileStorage = fileStorage;
+        _storageOptions = storageOptions;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the attachments of a project, newest first
+    /// GET: api/projects/{projectId}/attachments
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<AttachmentResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<IEnumerable<AttachmentResponse>>> GetAll(int projectId)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching attachments of project {ProjectId} for user {UserId}", projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var attachments = await _attachmentRepository.GetByProjectIdAsync(projectId);
+
+        return Ok(attachments.Select(MapToResponse));
+    }
+
+    /// <summary>
+    /// Upload a file (multipart/form-data, field "file")
+    /// Size and extension are checked against the FileStorage settings
+    /// POST: api/projects/{projectId}/attachments
+    /// </summary>
+    [HttpPost]
+    [Consumes("multipart/form-data")]
+    [ProducesResponseType(typeof(AttachmentResponse), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<AttachmentResponse>> Upload(int projectId, IFormFile file, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation(
+            "Uploading attachment to project {ProjectId} for user {UserId} - Size: {SizeBytes}",
+            projectId, userId, file.Length);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanEdit(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to edit this project" });
+        }
+
+        var fileName = Path.GetFileName(file.FileName).Trim();
+        var extension = Path.GetExtension(fileName).ToLowerInvariant();
+
+        if (file.Length == 0 || string.IsNullOrEmpty(fileName))
+        {
+            return BadRequest(new { message = "The file is empty" });
+        }
+        if (fileName.Length > 255)
+        {
+            return BadRequest(new { message = "The file name cannot exceed 255 characters" });
+        }
+        if (file.Length > _storageOptions.MaxFileSizeBytes)
+        {
+            return BadRequest(new { message = $"The file exceeds the maximum size of {_storageOptions.MaxFileSizeBytes / (1024 * 1024)} MB" });
+        }
+        if (!_storageOptions.AllowedExtensions.Contains(extension, StringComparer.OrdinalIgnoreCase))
+        {
+            return BadRequest(new { message = $"Files of type '{extension}' are not allowed" });
+        }
+
+        // The content type is derived from the extension; the one sent by the browser is not trusted
+        if (!ContentTypes.TryGetContentType(fileName, out var contentType))
+        {
+            contentType = "application/octet-stream";
+        }
+
+        string storageKey;
+        await using (var content = file.OpenReadStream())
+        {
+            storageKey = await _fileStorage.SaveAsync(content, projectId.ToString(), extension, cancellationToken);
+        }
+
+        var attachment = new ProjectAttachment
+        {
+            ProjectId = projectId,
+            UserId = userId,
+            FileName = fileName,
+            ContentType = contentType,
+            SizeBytes = file.Length,
+            StorageKey = storageKey
+        };
+
+        try
+        {
+            attachment.Id = await _attachmentRepository.CreateAsync(attachment);
+        }
+        catch
+        {
+            // Remove the stored file when its metadata cannot be saved
+            await _fileStorage.DeleteAsync(storageKey, CancellationToken.None);
+            throw;
+        }
+
+        var created = await _attachmentRepository.GetByIdAsync(attachment.Id) ?? attachment;
+
+        return CreatedAtAction(nameof(Download), new { projectId, id = attachment.Id }, MapToResponse(created));
+    }
+
+    /// <summary>
+    /// Download the content of an attachment
+    /// GET: api/projects/{projectId}/attachments/{id}/content
+    /// </summary>
+    [HttpGet("{id}/content")]
+    [ProducesResponseType(typeof(FileStreamResult), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Download(int projectId, int id, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Downloading attachment {AttachmentId} of project {ProjectId} for user {UserId}", id, projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var attachment = await _attachmentRepository.GetByIdAsync(id);
+        if (attachment is null || attachment.ProjectId != projectId)
+        {
+            return NotFound(new { message = "Attachment not found" });
+        }
+
+        var content = await _fileStorage.OpenReadAsync(attachment.StorageKey, cancellationToken);
+        if (content is null)
+        {
+            return NotFound(new { message = "Attachment content not found" });
+        }
+
+        // Always served as a download (Content-Disposition: attachment), never rendered inline
+        return File(content, attachment.ContentType, attachment.FileName);
+    }
+
+    /// <summary>
+    /// Delete an attachment and its stored file
+    /// DELETE: api/projects/{projectId}/attachments/{id}
+    /// </summary>
+    [HttpDelete("{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Delete(int projectId, int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Deleting attachment {AttachmentId} of project {ProjectId} for user {UserId}", id, projectId, userId);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanEdit(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to edit this project" });
+        }
+
+        var attachment = await _attachmentRepository.GetByIdAsync(id);
+        if (attachment is null || attachment.ProjectId != projectId)
+        {
+            return NotFound(new { message = "Attachment not found" });
+        }
+
+        await _attachmentRepository.DeleteAsync(id);
+        await _fileStorage.DeleteAsync(attachment.StorageKey);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    /// <summary>
+    /// Map entity to response DTO
+    /// </summary>
+    private static AttachmentResponse MapToResponse(ProjectAttachment attachment)
+    {
+        return new AttachmentResponse
+        {
+            Id = attachment.Id,
+            ProjectId = attachment.ProjectId,
+            FileName = attachment.FileName,
+            ContentType = attachment.ContentType,
+            SizeBytes = attachment.SizeBytes,
+            UploadedById = attachment.UserId,
+            UploadedByName = attachment.UploadedByName,
+            UploadedByEmail = attachment.UploadedByEmail,
+            CreatedAt = attachment.CreatedAt
+        };
+    }
+}
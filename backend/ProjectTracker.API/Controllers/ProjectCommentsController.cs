@@ -0,0 +1,217 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Services;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Comments;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for project comment threads
+/// Comments are visible to everyone with access to the project; only the author can edit or delete them
+/// </summary>
+[ApiController]
+[Route("api/projects/{projectId}/comments")]
+[Authorize]
+public class ProjectCommentsController : ControllerBase
+{
+    private readonly IProjectCommentRepository _commentRepository;
+    private readonly IProjectAccessService _accessService;
+    private readonly ILogger<ProjectCommentsController> _logger;
+
+    public ProjectCommentsController(
+        IProjectCommentRepository commentRepository,
+        IProjectAccessService accessService,
+        ILogger<ProjectCommentsController> logger)
+    {
+        _commentRepository = commentRepository;
+        _accessService = accessService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get all comments of a project in posting order (replies reference their thread via ParentCommentId)
+    /// GET: api/projects/{projectId}/comments
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<CommentResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<IEnumerable<CommentResponse>>> GetAll(int projectId)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching comments of project {ProjectId} for user {UserId}", projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var comments = await _commentRepository.GetByProjectIdAsync(projectId);
+
+        return Ok(comments.Select(c => MapToResponse(c, userId)));
+    }
+
+    /// <summary>
+    /// Post a comment, or a reply when ParentCommentId is set
+    /// POST: api/projects/{projectId}/comments
+    /// </summary>
+    [HttpPost]
+    [ProducesResponseType(typeof(CommentResponse), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<CommentResponse>> Create(int projectId, [FromBody] CreateCommentRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Creating comment on project {ProjectId} for user {UserId}", projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Body))
+        {
+            return BadRequest(new { message = "Comment text is required" });
+        }
+
+        int? threadId = null;
+        if (request.ParentCommentId.HasValue)
+        {
+            var parent = await _commentRepository.GetByIdAsync(request.ParentCommentId.Value);
+            if (parent is null || parent.ProjectId != projectId)
+            {
+                return BadRequest(new { message = "Parent comment not found in this project" });
+            }
+
+            // Threads are one level deep: a reply to a reply joins the same thread
+            threadId = parent.ParentCommentId ?? parent.Id;
+        }
+
+        var comment = new ProjectComment
+        {
+            ProjectId = projectId,
+            ParentCommentId = threadId,
+            UserId = userId,
+            Body = request.Body.Trim()
+        };
+
+        comment.Id = await _commentRepository.CreateAsync(comment);
+
+        var created = await _commentRepository.GetByIdAsync(comment.Id) ?? comment;
+
+        return CreatedAtAction(nameof(GetAll), new { projectId }, MapToResponse(created, userId));
+    }
+
+    /// <summary>
+    /// Edit the text of one of your own comments
+    /// PUT: api/projects/{projectId}/comments/{id}
+    /// </summary>
+    [HttpPut("{id}")]
+    [ProducesResponseType(typeof(CommentResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<CommentResponse>> Update(int projectId, int id, [FromBody] UpdateCommentRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Updating comment {CommentId} of project {ProjectId} for user {UserId}", id, projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var existing = await _commentRepository.GetByIdAsync(id);
+        if (existing is null || existing.ProjectId != projectId || existing.IsDeleted)
+        {
+            return NotFound(new { message = "Comment not found" });
+        }
+
+        if (existing.UserId != userId)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only the author can edit a comment" });
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Body))
+        {
+            return BadRequest(new { message = "Comment text is required" });
+        }
+
+        await _commentRepository.UpdateBodyAsync(id, request.Body.Trim());
+
+        var updated = await _commentRepository.GetByIdAsync(id) ?? existing;
+
+        return Ok(MapToResponse(updated, userId));
+    }
+
+    /// <summary>
+    /// Delete one of your own comments
+    /// A comment with replies is replaced by a placeholder so the thread is kept
+    /// DELETE: api/projects/{projectId}/comments/{id}
+    /// </summary>
+    [HttpDelete("{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Delete(int projectId, int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Deleting comment {CommentId} of project {ProjectId} for user {UserId}", id, projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var existing = await _commentRepository.GetByIdAsync(id);
+        if (existing is null || existing.ProjectId != projectId || existing.IsDeleted)
+        {
+            return NotFound(new { message = "Comment not found" });
+        }
+
+        if (existing.UserId != userId)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only the author can delete a comment" });
+        }
+
+        await _commentRepository.DeleteAsync(id);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    /// <summary>
+    /// Map entity to response DTO for the requesting user
+    /// </summary>
+    private static CommentResponse MapToResponse(ProjectComment comment, int userId)
+    {
+        return new CommentResponse
+        {
+            Id = comment.Id,
+            ProjectId = comment.ProjectId,
+            ParentCommentId = comment.ParentCommentId,
+            Body = comment.IsDeleted ? string.Empty : comment.Body,
+            AuthorId = comment.UserId,
+            AuthorName = comment.AuthorName,
+            AuthorEmail = comment.AuthorEmail,
+            IsOwn = comment.UserId == userId,
+            IsDeleted = comment.IsDeleted,
+            CreatedAt = comment.CreatedAt,
+            EditedAt = comment.EditedAt
+        };
+    }
+}
@@ -0,0 +1,93 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Services;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.History;
+using System.Security.Claims;
+using System.Text.Json;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for the audit history of a project
+/// The history is read-only and visible to everyone with access to the project;
+/// entries are recorded by the project controllers through IProjectHistoryService
+/// </summary>
+[ApiController]
+[Route("api/projects/{projectId}/history")]
+[Authorize]
+public class ProjectHistoryController : ControllerBase
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly IProjectHistoryRepository _historyRepository;
+    private readonly IProjectAccessService _accessService;
+    private readonly ILogger<ProjectHistoryController> _logger;
+
+    public ProjectHistoryController(
+        IProjectHistoryRepository historyRepository,
+        IProjectAccessService accessService,
+        ILogger<ProjectHistoryController> logger)
+    {
+        _historyRepository = historyRepository;
+        _accessService = accessService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the history of a project, newest first
+    /// GET: api/projects/{projectId}/history
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<HistoryEntryResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<IEnumerable<HistoryEntryResponse>>> GetAll(int projectId)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching history of project {ProjectId} for user {UserId}", projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var entries = await _historyRepository.GetByProjectIdAsync(projectId);
+
+        return Ok(entries.Select(MapToResponse));
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    private static HistoryEntryResponse MapToResponse(ProjectHistoryEntry entry)
+    {
+        var changes = JsonSerializer.Deserialize<List<ProjectFieldChange>>(entry.Changes, JsonOptions) ?? [];
+
+        return new HistoryEntryResponse
+        {
+            Id = entry.Id,
+            Action = entry.Action,
+            ActorId = entry.UserId,
+            ActorName = entry.ActorName,
+            ActorEmail = entry.ActorEmail,
+            CreatedAt = entry.CreatedAt,
+            Changes = changes.Select(c => new FieldChangeResponse
+            {
+                Field = c.Field,
+                OldValue = c.OldValue,
+                NewValue = c.NewValue
+            }).ToList()
+        };
+    }
+}
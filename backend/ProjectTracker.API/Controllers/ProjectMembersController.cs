@@ -0,0 +1,244 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Members;
+using ProjectTracker.API.Services;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for sharing a project with other registered users
+/// Everyone with access sees the members; only the owner invites, changes roles and removes members,
+/// and members can leave a project themselves
+/// </summary>
+[ApiController]
+[Route("api/projects/{projectId}/members")]
+[Authorize]
+public class ProjectMembersController : ControllerBase
+{
+    private readonly IProjectMemberRepository _memberRepository;
+    private readonly IProjectRepository _projectRepository;
+    private readonly IUserRepository _userRepository;
+    private readonly IProjectAccessService _accessService;
+    private readonly ILogger<ProjectMembersController> _logger;
+
+    public ProjectMembersController(
+        IProjectMemberRepository memberRepository,
+        IProjectRepository projectRepository,
+        IUserRepository userRepository,
+        IProjectAccessService accessService,
+        ILogger<ProjectMembersController> logger)
+    {
+        _memberRepository = memberRepository;
+        _projectRepository = projectRepository;
+        _userRepository = userRepository;
+        _accessService = accessService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the owner and the members of a project
+    /// GET: api/projects/{projectId}/members
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<MemberResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<IEnumerable<MemberResponse>>> GetAll(int projectId)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching members of project {ProjectId} for user {UserId}", projectId, userId);
+
+        var project = await _projectRepository.GetByIdAsync(projectId);
+        if (project is null || await _accessService.GetRoleAsync(project, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var response = new List<MemberResponse>();
+
+        var owner = await _userRepository.GetByIdAsync(project.UserId);
+        if (owner is not null)
+        {
+            response.Add(new MemberResponse
+            {
+                UserId = owner.Id,
+                Email = owner.Email,
+                Name = string.IsNullOrEmpty(owner.FullName) ? null : owner.FullName,
+                Role = ProjectRoles.Owner,
+                IsCurrentUser = owner.Id == userId,
+                AddedAt = project.CreatedAt
+            });
+        }
+
+        var members = await _memberRepository.GetByProjectIdAsync(projectId);
+        response.AddRange(members.Select(m => MapToResponse(m, userId)));
+
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Invite a registered user to the project by email
+    /// POST: api/projects/{projectId}/members
+    /// </summary>
+    [HttpPost]
+    [ProducesResponseType(typeof(MemberResponse), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<ActionResult<MemberResponse>> Create(int projectId, [FromBody] AddMemberRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Adding member to project {ProjectId} for user {UserId}", projectId, userId);
+
+        var project = await _projectRepository.GetByIdAsync(projectId);
+        var role = project is null ? null : await _accessService.GetRoleAsync(project, userId);
+        if (project is null || role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanManage(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only the owner can manage members" });
+        }
+
+        var user = await _userRepository.GetByEmailAsync(request.Email.Trim());
+        if (user is null || !user.IsActive)
+        {
+            return BadRequest(new { message = "No registered user with this email" });
+        }
+
+        if (user.Id == project.UserId)
+        {
+            return BadRequest(new { message = "The owner is already a member of the project" });
+        }
+
+        if (await _memberRepository.GetAsync(projectId, user.Id) is not null)
+        {
+            return Conflict(new { message = "User is already a member of the project" });
+        }
+
+        await _memberRepository.AddAsync(new ProjectMember
+        {
+            ProjectId = projectId,
+            UserId = user.Id,
+            Role = request.Role
+        });
+
+        var created = await _memberRepository.GetAsync(projectId, user.Id);
+        if (created is null)
+        {
+            return NotFound(new { message = "Member not found" });
+        }
+
+        return CreatedAtAction(nameof(GetAll), new { projectId }, MapToResponse(created, userId));
+    }
+
+    /// <summary>
+    /// Change the role of a member
+    /// PUT: api/projects/{projectId}/members/{memberUserId}
+    /// </summary>
+    [HttpPut("{memberUserId}")]
+    [ProducesResponseType(typeof(MemberResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<MemberResponse>> Update(int projectId, int memberUserId, [FromBody] UpdateMemberRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation(
+            "Updating member {MemberUserId} of project {ProjectId} for user {UserId}",
+            memberUserId, projectId, userId);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanManage(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only the owner can manage members" });
+        }
+
+        if (!await _memberRepository.UpdateRoleAsync(projectId, memberUserId, request.Role))
+        {
+            return NotFound(new { message = "Member not found" });
+        }
+
+        var updated = await _memberRepository.GetAsync(projectId, memberUserId);
+        if (updated is null)
+        {
+            return NotFound(new { message = "Member not found" });
+        }
+
+        return Ok(MapToResponse(updated, userId));
+    }
+
+    /// <summary>
+    /// Remove a member (owner), or leave the project (the member themselves)
+    /// DELETE: api/projects/{projectId}/members/{memberUserId}
+    /// </summary>
+    [HttpDelete("{memberUserId}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Delete(int projectId, int memberUserId)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation(
+            "Removing member {MemberUserId} of project {ProjectId} for user {UserId}",
+            memberUserId, projectId, userId);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanManage(role) && memberUserId != userId)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only the owner can manage members" });
+        }
+
+        if (!await _memberRepository.RemoveAsync(projectId, memberUserId))
+        {
+            return NotFound(new { message = "Member not found" });
+        }
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    /// <summary>
+    /// Map entity to response DTO for the requesting user
+    /// </summary>
+    private static MemberResponse MapToResponse(ProjectMember member, int userId)
+    {
+        return new MemberResponse
+        {
+            UserId = member.UserId,
+            Email = member.Email ?? string.Empty,
+            Name = member.Name,
+            Role = member.Role,
+            IsCurrentUser = member.UserId == userId,
+            AddedAt = member.CreatedAt
+        };
+    }
+}
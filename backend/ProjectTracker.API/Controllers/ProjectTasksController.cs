@@ -0,0 +1,293 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Services;
+using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Tasks;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for managing the task checklist of a project
+/// Everyone with access to the project sees the tasks; owners and editors change them
+/// </summary>
+[ApiController]
+[Route("api/projects/{projectId}/tasks")]
+[Authorize]
+public class ProjectTasksController : ControllerBase
+{
+    private readonly IProjectTaskRepository _taskRepository;
+    private readonly IProjectAccessService _accessService;
+    private readonly IUserRepository _userRepository;
+    private readonly ILogger<ProjectTasksController> _logger;
+
+    public ProjectTasksController(
+        IProjectTaskRepository taskRepository,
+        IProjectAccessService accessService,
+        IUserRepository userRepository,
+        ILogger<ProjectTasksController> logger)
+    {
+        _taskRepository = taskRepository;
+        _accessService = accessService;
+        _userRepository = userRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get all tasks of a project (top-level tasks first, then subtasks, each in checklist order)
+    /// GET: api/projects/{projectId}/tasks
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<TaskResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<IEnumerable<TaskResponse>>> GetAll(int projectId)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching tasks of project {ProjectId} for user {UserId}", projectId, userId);
+
+        if (await _accessService.GetRoleAsync(projectId, userId) is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        var tasks = await _taskRepository.GetByProjectIdAsync(projectId);
+
+        return Ok(tasks.Select(MapToResponse));
+    }
+
+    /// <summary>
+    /// Add a task, or a subtask when ParentTaskId is set, at the end of the list
+    /// POST: api/projects/{projectId}/tasks
+    /// </summary>
+    [HttpPost]
+    [ProducesResponseType(typeof(TaskResponse), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TaskResponse>> Create(int projectId, [FromBody] CreateTaskRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Creating task in project {ProjectId} for user {UserId}", projectId, userId);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanEdit(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to edit this project" });
+        }
+
+        if (request.ParentTaskId.HasValue)
+        {
+            var parent = await _taskRepository.GetByIdAsync(request.ParentTaskId.Value);
+            if (parent is null || parent.ProjectId != projectId)
+            {
+                return BadRequest(new { message = "Parent task not found in this project" });
+            }
+            if (parent.ParentTaskId.HasValue)
+            {
+                return BadRequest(new { message = "Subtasks cannot have subtasks" });
+            }
+        }
+
+        var (assigneeId, assigneeError) = await ResolveAssigneeAsync(request.AssigneeEmail);
+        if (assigneeError is not null)
+        {
+            return BadRequest(new { message = assigneeError });
+        }
+
+        var task = new ProjectTask
+        {
+            ProjectId = projectId,
+            ParentTaskId = request.ParentTaskId,
+            Title = request.Title.Trim(),
+            AssigneeId = assigneeId,
+            DueDate = request.DueDate
+        };
+
+        task.Id = await _taskRepository.CreateAsync(task);
+
+        var created = await _taskRepository.GetByIdAsync(task.Id) ?? task;
+
+        return CreatedAtAction(nameof(GetAll), new { projectId }, MapToResponse(created));
+    }
+
+    /// <summary>
+    /// Update a task (title, done flag, assignee, due date)
+    /// PUT: api/projects/{projectId}/tasks/{id}
+    /// </summary>
+    [HttpPut("{id}")]
+    [ProducesResponseType(typeof(TaskResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TaskResponse>> Update(int projectId, int id, [FromBody] UpdateTaskRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Updating task {TaskId} of project {ProjectId} for user {UserId}", id, projectId, userId);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanEdit(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to edit this project" });
+        }
+
+        var existing = await _taskRepository.GetByIdAsync(id);
+        if (existing is null || existing.ProjectId != projectId)
+        {
+            return NotFound(new { message = "Task not found" });
+        }
+
+        var (assigneeId, assigneeError) = await ResolveAssigneeAsync(request.AssigneeEmail);
+        if (assigneeError is not null)
+        {
+            return BadRequest(new { message = assigneeError });
+        }
+
+        existing.Title = request.Title.Trim();
+        existing.IsDone = request.IsDone;
+        existing.AssigneeId = assigneeId;
+        existing.DueDate = request.DueDate;
+
+        await _taskRepository.UpdateAsync(existing);
+
+        var updated = await _taskRepository.GetByIdAsync(id) ?? existing;
+
+        return Ok(MapToResponse(updated));
+    }
+
+    /// <summary>
+    /// Change the order of the tasks under one parent (or of the top-level tasks)
+    /// PUT: api/projects/{projectId}/tasks/order
+    /// </summary>
+    [HttpPut("order")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Reorder(int projectId, [FromBody] ReorderTasksRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Reordering tasks of project {ProjectId} for user {UserId}", projectId, userId);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanEdit(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to edit this project" });
+        }
+
+        if (request.TaskIds.Distinct().Count() != request.TaskIds.Count)
+        {
+            return BadRequest(new { message = "Task IDs must be unique" });
+        }
+
+        await _taskRepository.ReorderAsync(projectId, request.ParentTaskId, request.TaskIds);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Delete a task and its subtasks
+    /// DELETE: api/projects/{projectId}/tasks/{id}
+    /// </summary>
+    [HttpDelete("{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Delete(int projectId, int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Deleting task {TaskId} of project {ProjectId} for user {UserId}", id, projectId, userId);
+
+        var role = await _accessService.GetRoleAsync(projectId, userId);
+        if (role is null)
+        {
+            return NotFound(new { message = "Project not found" });
+        }
+
+        if (!ProjectRoles.CanEdit(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to edit this project" });
+        }
+
+        var existing = await _taskRepository.GetByIdAsync(id);
+        if (existing is null || existing.ProjectId != projectId)
+        {
+            return NotFound(new { message = "Task not found" });
+        }
+
+        await _taskRepository.DeleteAsync(id);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Resolve the assignee email to an active user (no email means unassigned)
+    /// </summary>
+    private async Task<(int? assigneeId, string? error)> ResolveAssigneeAsync(string? email)
+    {
+        if (string.IsNullOrWhiteSpace(email))
+        {
+            return (null, null);
+        }
+
+        var user = await _userRepository.GetByEmailAsync(email.Trim());
+        if (user is null || !user.IsActive)
+        {
+            return (null, "Assignee is not a registered user");
+        }
+
+        return (user.Id, null);
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    /// <summary>
+    /// Map entity to response DTO
+    /// </summary>
+    private static TaskResponse MapToResponse(ProjectTask task)
+    {
+        return new TaskResponse
+        {
+            Id = task.Id,
+            ProjectId = task.ProjectId,
+            ParentTaskId = task.ParentTaskId,
+            Title = task.Title,
+            IsDone = task.IsDone,
+            AssigneeId = task.AssigneeId,
+            AssigneeEmail = task.AssigneeEmail,
+            AssigneeName = task.AssigneeName,
+            DueDate = task.DueDate,
+            SortOrder = task.SortOrder,
+            CompletedAt = task.CompletedAt,
+            CreatedAt = task.CreatedAt,
+            UpdatedAt = task.UpdatedAt
+        };
+    }
+}
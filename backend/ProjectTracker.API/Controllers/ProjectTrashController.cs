@@ -0,0 +1,157 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Configuration;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Projects;
+using ProjectTracker.API.Services;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for the trash of deleted projects
+/// Only the owner deletes a project, so the trash lists the projects the user owns;
+/// they can be restored or purged until the retention period ends
+/// </summary>
+[ApiController]
+[Route("api/projects/trash")]
+[Authorize]
+public class ProjectTrashController : ControllerBase
+{
+    private readonly IProjectRepository _projectRepository;
+    private readonly IProjectPurgeService _purgeService;
+    private readonly IProjectHistoryService _historyService;
+    private readonly TrashOptions _trashOptions;
+    private readonly ILogger<ProjectTrashController> _logger;
+
+    public ProjectTrashController(
+        IProjectRepository projectRepository,
+        IProjectPurgeService purgeService,
+        IProjectHistoryService historyService,
+        TrashOptions trashOptions,
+        ILogger<ProjectTrashController> logger)
+    {
+        _projectRepository = projectRepository;
+        _purgeService = purgeService;
+        _historyService = historyService;
+        _trashOptions = trashOptions;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the projects in the user's trash, most recently deleted first
+    /// GET: api/projects/trash
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<DeletedProjectResponse>), StatusCodes.Status200OK)]
+    public async Task<ActionResult<IEnumerable<DeletedProjectResponse>>> GetAll()
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching trash for user {UserId}", userId);
+
+        var projects = await _projectRepository.GetDeletedByUserIdAsync(userId);
+
+        return Ok(projects.Select(MapToResponse));
+    }
+
+    /// <summary>
+    /// Restore projects from the trash; returns the IDs actually restored
+    /// (IDs not in the user's trash are ignored)
+    /// POST: api/projects/trash/restore
+    /// </summary>
+    [HttpPost("restore")]
+    [ProducesResponseType(typeof(IEnumerable<int>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<IEnumerable<int>>> Restore([FromBody] RestoreProjectsRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Restoring {Count} projects for user {UserId}", request.Ids.Count, userId);
+
+        var trashedIds = (await _projectRepository.GetDeletedByUserIdAsync(userId))
+            .Select(p => p.Id)
+            .ToHashSet();
+        var ids = request.Ids.Distinct().Where(trashedIds.Contains).ToList();
+
+        if (ids.Count > 0)
+        {
+            await _projectRepository.RestoreManyAsync(userId, ids);
+            await _historyService.RecordRestoredAsync(userId, ids);
+        }
+
+        _logger.LogInformation("Restored {Count} projects for user {UserId}", ids.Count, userId);
+
+        return Ok(ids);
+    }
+
+    /// <summary>
+    /// Permanently delete a project in the trash
+    /// DELETE: api/projects/trash/{id}
+    /// </summary>
+    [HttpDelete("{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Purge(int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Purging project {ProjectId} for user {UserId}", id, userId);
+
+        var trashed = await _projectRepository.GetDeletedByUserIdAsync(userId);
+        if (!trashed.Any(p => p.Id == id))
+        {
+            return NotFound(new { message = "Project not found in trash" });
+        }
+
+        await _purgeService.PurgeAsync([id]);
+
+        _logger.LogInformation("Purged project {ProjectId}", id);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Permanently delete every project in the user's trash
+    /// DELETE: api/projects/trash
+    /// </summary>
+    [HttpDelete]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    public async Task<IActionResult> EmptyTrash()
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Emptying trash for user {UserId}", userId);
+
+        var ids = (await _projectRepository.GetDeletedByUserIdAsync(userId)).Select(p => p.Id).ToList();
+        var purged = await _purgeService.PurgeAsync(ids);
+
+        _logger.LogInformation("Purged {Count} projects from trash of user {UserId}", purged, userId);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    private DeletedProjectResponse MapToResponse(Project project)
+    {
+        var deletedAt = project.DeletedAt ?? DateTime.UtcNow;
+        return new DeletedProjectResponse
+        {
+            Id = project.Id,
+            Title = project.Title,
+            Status = project.Status,
+            Priority = project.Priority,
+            DeletedAt = deletedAt,
+            PurgeAt = deletedAt.AddDays(_trashOptions.RetentionDays)
+        };
+    }
+}
@@ -4,6 +4,9 @@ using ProjectTracker.API.Data.Repositories;
 using ProjectTracker.API.Models.Common;
 using ProjectTracker.API.Models.Entities;
 using ProjectTracker.API.Models.Dtos.Projects;
+using ProjectTracker.API.Models.Dtos.Tags;
+using ProjectTracker.API.Services;
+using System.ComponentModel.DataAnnotations;
 using System.Security.Claims;
 
 namespace ProjectTracker.API.Controllers;
@@ -18,18 +21,39 @@ namespace ProjectTracker.API.Controllers;
 public class ProjectsController : ControllerBase
 {
     private readonly IProjectRepository _projectRepository;
+    private readonly IProjectExportService _exportService;
+    private readonly ITranslationRepository _translationRepository;
+    private readonly IProjectTaskRepository _taskRepository;
+    private readonly ITagRepository _tagRepository;
+    private readonly IProjectMemberRepository _memberRepository;
+    private readonly IProjectAccessService _accessService;
+    private readonly IProjectHistoryService _historyService;
     private readonly ILogger<ProjectsController> _logger;
 
     public ProjectsController(
         IProjectRepository projectRepository,
+        IProjectExportService exportService,
+        ITranslationRepository translationRepository,
+        IProjectTaskRepository taskRepository,
+        ITagRepository tagRepository,
+        IProjectMemberRepository memberRepository,
+        IProjectAccessService accessService,
+        IProjectHistoryService historyService,
         ILogger<ProjectsController> logger)
     {
         _projectRepository = projectRepository;
+        _exportService = exportService;
+        _translationRepository = translationRepository;
+        _taskRepository = taskRepository;
+        _tagRepository = tagRepository;
+        _memberRepository = memberRepository;
+        _accessService = accessService;
+        _historyService = historyService;
         _logger = logger;
     }
 
     /// <summary>
-    /// Get all projects for the authenticated user with optional search, filter, and sorting
+    /// Get all projects the authenticated user owns or is a member of, with optional search, filter, and sorting
     /// GET: api/projects?search=keyword&status=Active&sortBy=title&sortOrder=asc
     /// </summary>
     [HttpGet]
@@ -81,7 +105,8 @@ public class ProjectsController : ControllerBase
             _ => projects.OrderBy(p => p.Title) // Default
         };
 
-        var response = projects.Select(MapToResponse);
+        var response = projects.Select(MapToResponse).ToList();
+        await FillRolesAsync(userId, response);
 
         return Ok(response);
     }
@@ -99,53 +124,235 @@ public class ProjectsController : ControllerBase
         _logger.LogInformation("Fetching project {ProjectId} for user {UserId}", id, userId);
 
         var project = await _projectRepository.GetByIdAsync(id);
+        var role = project is null ? null : await _accessService.GetRoleAsync(project, userId);
 
-        if (project is null || project.UserId != userId)
+        if (project is null || role is null)
         {
             return NotFound(new { message = "Project not found" });
         }
 
-        return Ok(MapToResponse(project));
+        var response = MapToResponse(project);
+        response.Role = role;
+        await FillTagsAsync([response]);
+
+        Response.Headers.ETag = ToETag(project.RowVersion);
+        return Ok(response);
     }
 
     /// <summary>
-    /// Get paginated projects with search and sorting
+    /// Get paginated projects with search, sorting and filters
     /// GET: api/projects/paged?pageNumber=1&pageSize=10&searchTerm=test&sortBy=title&sortDirection=asc
+    ///      &status=Active&status=OnHold&priorityMin=2&priorityMax=5
+    ///      &startDateFrom=2025-01-01&startDateTo=2025-03-31&dueDateFrom=2025-06-01&dueDateTo=2025-12-31
+    ///      &tagIds=3&tagIds=7&tagMatch=all
     /// </summary>
     [HttpGet("paged")]
     [ProducesResponseType(typeof(PaginatedResponse<ProjectResponse>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
     public async Task<ActionResult<PaginatedResponse<ProjectResponse>>> GetPaged(
         [FromQuery] int pageNumber = 1,
         [FromQuery] int pageSize = 10,
         [FromQuery] string? searchTerm = null,
         [FromQuery] string? sortBy = "CreatedAt",
-        [FromQuery] string sortDirection = "desc")
+        [FromQuery] string sortDirection = "desc",
+        [FromQuery] string[]? status = null,
+        [FromQuery] int? priorityMin = null,
+        [FromQuery] int? priorityMax = null,
+        [FromQuery] DateTime? startDateFrom = null,
+        [FromQuery] DateTime? startDateTo = null,
+        [FromQuery] DateTime? dueDateFrom = null,
+        [FromQuery] DateTime? dueDateTo = null,
+        [FromQuery] int[]? tagIds = null,
+        [FromQuery] string tagMatch = "any")
     {
         var userId = GetUserId();
         _logger.LogInformation(
-            "Fetching paged projects for user {UserId} - Page: {PageNumber}, Size: {PageSize}",
-            userId, pageNumber, pageSize);
+            "Fetching paged projects for user {UserId} - Page: {PageNumber}, Size: {PageSize}, Status: {Status}, Priority: {PriorityMin}-{PriorityMax}",
+            userId, pageNumber, pageSize, status, priorityMin, priorityMax);
+
+        if (priorityMin.HasValue && priorityMax.HasValue && priorityMin > priorityMax)
+        {
+            return BadRequest(new { message = "Minimum priority cannot be greater than maximum priority" });
+        }
 
-        var request = new PaginationRequest
+        if (!IsValidTagMatch(tagMatch))
+        {
+            return BadRequest(new { message = "Tag match must be any or all" });
+        }
+
+        var request = new ProjectFilterRequest
         {
             PageNumber = pageNumber,
             PageSize = pageSize,
             SearchTerm = searchTerm,
             SortBy = sortBy,
-            SortDirection = sortDirection
+            SortDirection = sortDirection,
+            Status = status,
+            PriorityMin = priorityMin,
+            PriorityMax = priorityMax,
+            StartDateFrom = startDateFrom,
+            StartDateTo = startDateTo,
+            DueDateFrom = dueDateFrom,
+            DueDateTo = dueDateTo,
+            TagIds = tagIds,
+            TagMatch = tagMatch
         };
 
         var (items, total) = await _projectRepository.GetPagedAsync(userId, request);
+        var pageItems = items.Select(MapToResponse).ToList();
+
+        // Roll up checklist progress for the rows of the page
+        var progress = await _taskRepository.GetProgressAsync(pageItems.Select(p => p.Id).ToList());
+        foreach (var item in pageItems)
+        {
+            if (progress.TryGetValue(item.Id, out var counts))
+            {
+                item.TaskCount = counts.TotalTasks;
+                item.CompletedTaskCount = counts.DoneTasks;
+            }
+        }
+
+        await FillTagsAsync(pageItems);
+        await FillRolesAsync(userId, pageItems);
+
         var response = PaginatedResponse<ProjectResponse>.Create(
            pageNumber,
            pageSize,
            total,
-           items.Select(MapToResponse).ToList()
+           pageItems
        );
 
         return Ok(response);
     }
 
+    /// <summary>
+    /// Export all projects matching the filters as CSV or XLSX
+    /// The file is streamed while rows are read; X-Total-Count carries the row count for progress.
+    /// Columns (ordered), delimiter, BOM and date format follow the export options; headers use the culture.
+    /// GET: api/projects/export?format=xlsx&searchTerm=test&sortBy=title&sortDirection=asc&status=Active
+    ///      &columns=title&columns=dueDate&delimiter=semicolon&bom=true&dateFormat=dd/MM/yyyy&culture=it-IT
+    /// </summary>
+    [HttpGet("export")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> Export(
+        [FromQuery] string format = "csv",
+        [FromQuery] string? searchTerm = null,
+        [FromQuery] string? sortBy = "CreatedAt",
+        [FromQuery] string sortDirection = "desc",
+        [FromQuery] string[]? status = null,
+        [FromQuery] int? priorityMin = null,
+        [FromQuery] int? priorityMax = null,
+        [FromQuery] DateTime? startDateFrom = null,
+        [FromQuery] DateTime? startDateTo = null,
+        [FromQuery] DateTime? dueDateFrom = null,
+        [FromQuery] DateTime? dueDateTo = null,
+        [FromQuery] int[]? tagIds = null,
+        [FromQuery] string tagMatch = "any",
+        [FromQuery] string[]? columns = null,
+        [FromQuery] string delimiter = "comma",
+        [FromQuery] bool bom = false,
+        [FromQuery] string dateFormat = "yyyy-MM-dd",
+        [FromQuery] string culture = "en-US")
+    {
+        var userId = GetUserId();
+        var formatLower = format.ToLower();
+        _logger.LogInformation("Exporting projects for user {UserId} - Format: {Format}", userId, formatLower);
+
+        if (formatLower != "csv" && formatLower != "xlsx")
+        {
+            return BadRequest(new { message = "Format must be csv or xlsx" });
+        }
+
+        if (priorityMin.HasValue && priorityMax.HasValue && priorityMin > priorityMax)
+        {
+            return BadRequest(new { message = "Minimum priority cannot be greater than maximum priority" });
+        }
+
+        if (!IsValidTagMatch(tagMatch))
+        {
+            return BadRequest(new { message = "Tag match must be any or all" });
+        }
+
+        var exportOptions = new ProjectExportOptions { IncludeBom = bom };
+
+        if (columns is { Length: > 0 })
+        {
+            if (columns.Any(c => !ProjectExportOptions.ColumnHeaderKeys.ContainsKey(c)))
+            {
+                return BadRequest(new { message = "Unknown export column" });
+            }
+            exportOptions.Columns = columns.Distinct().ToArray();
+        }
+
+        if (!ProjectExportOptions.Delimiters.TryGetValue(delimiter, out var delimiterChar))
+        {
+            return BadRequest(new { message = "Delimiter must be comma, semicolon or tab" });
+        }
+        exportOptions.Delimiter = delimiterChar;
+
+        if (!ProjectExportOptions.DateFormats.Contains(dateFormat))
+        {
+            return BadRequest(new { message = "Unsupported date format" });
+        }
+        exportOptions.DateFormat = dateFormat;
+
+        // Only known cultures: the code is used to locate the translation file
+        var cultures = await _translationRepository.GetCulturesAsync();
+        if (!cultures.Any(c => c.Code == culture))
+        {
+            return BadRequest(new { message = "Unsupported culture" });
+        }
+        exportOptions.CultureCode = culture;
+
+        var request = new ProjectFilterRequest
+        {
+            SearchTerm = searchTerm,
+            SortBy = sortBy,
+            SortDirection = sortDirection,
+            Status = status,
+            PriorityMin = priorityMin,
+            PriorityMax = priorityMax,
+            StartDateFrom = startDateFrom,
+            StartDateTo = startDateTo,
+            DueDateFrom = dueDateFrom,
+            DueDateTo = dueDateTo,
+            TagIds = tagIds,
+            TagMatch = tagMatch
+        };
+
+        var total = await _projectRepository.CountFilteredAsync(userId, request);
+        var fileName = $"projects-{DateTime.UtcNow:yyyyMMdd-HHmmss}.{formatLower}";
+
+        Response.ContentType = formatLower == "xlsx"
+            ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            : "text/csv; charset=utf-8";
+        Response.Headers.ContentDisposition = $"attachment; filename=\"{fileName}\"";
+        Response.Headers["X-Total-Count"] = total.ToString();
+
+        // Client disconnects (download cancelled) abort the query and the write
+        var cancellationToken = HttpContext.RequestAborted;
+        var projects = _projectRepository.StreamFilteredAsync(userId, request, cancellationToken);
+
+        try
+        {
+            if (formatLower == "xlsx")
+            {
+                await _exportService.WriteXlsxAsync(Response.Body, projects, request, exportOptions, cancellationToken);
+            }
+            else
+            {
+                await _exportService.WriteCsvAsync(Response.Body, projects, exportOptions, cancellationToken);
+            }
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogInformation("Export cancelled by client for user {UserId}", userId);
+        }
+
+        return new EmptyResult();
+    }
+
     /// <summary>
     /// Search projects
     /// GET: api/projects/search?term=project
@@ -163,7 +370,8 @@ public class ProjectsController : ControllerBase
         }
 
         var projects = await _projectRepository.SearchAsync(userId, term);
-        var response = projects.Select(MapToResponse);
+        var response = projects.Select(MapToResponse).ToList();
+        await FillRolesAsync(userId, response);
 
         return Ok(response);
     }
@@ -180,6 +388,12 @@ public class ProjectsController : ControllerBase
         var userId = GetUserId();
         _logger.LogInformation("Creating new project for user {UserId}", userId);
 
+        var tagIds = request.TagIds?.Distinct().ToList() ?? [];
+        if (!await OwnsTagsAsync(userId, tagIds))
+        {
+            return BadRequest(new { message = "Unknown tag" });
+        }
+
         var project = new Project
         {
             UserId = userId,
@@ -194,33 +408,253 @@ public class ProjectsController : ControllerBase
         var id = await _projectRepository.CreateAsync(project);
         project.Id = id;
 
+        if (tagIds.Count > 0)
+        {
+            await _tagRepository.SetProjectTagsAsync(id, tagIds);
+        }
+
+        await _historyService.RecordCreatedAsync(userId, [project]);
+
         _logger.LogInformation("Created project {ProjectId} for user {UserId}", id, userId);
 
+        var response = MapToResponse(project);
+        await FillTagsAsync([response]);
+
         return CreatedAtAction(
             nameof(GetById),
             new { id },
-            MapToResponse(project));
+            response);
+    }
+
+    /// <summary>
+    /// Import projects in bulk (rows mapped from a CSV/XLSX file on the client)
+    /// Each row is validated with the same rules as Create; valid rows are created
+    /// in one transaction and invalid rows are reported with their errors
+    /// POST: api/projects/import
+    /// </summary>
+    [HttpPost("import")]
+    [ProducesResponseType(typeof(ImportProjectsResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<ImportProjectsResponse>> Import([FromBody] ImportProjectsRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Importing {Count} projects for user {UserId}", request.Rows.Count, userId);
+
+        var response = new ImportProjectsResponse();
+        var projects = new List<Project>();
+
+        foreach (var row in request.Rows)
+        {
+            var createRequest = new CreateProjectRequest
+            {
+                Title = row.Title?.Trim() ?? string.Empty,
+                Description = string.IsNullOrWhiteSpace(row.Description) ? null : row.Description.Trim(),
+                Status = string.IsNullOrWhiteSpace(row.Status) ? "Active" : row.Status.Trim(),
+                Priority = row.Priority ?? 1,
+                StartDate = row.StartDate,
+                DueDate = row.DueDate
+            };
+
+            var results = new List<ValidationResult>();
+            if (!Validator.TryValidateObject(createRequest, new ValidationContext(createRequest), results, validateAllProperties: true))
+            {
+                response.Failed.Add(new ImportRowError
+                {
+                    RowNumber = row.RowNumber,
+                    Errors = results.Select(r => r.ErrorMessage ?? "Invalid value").ToList()
+                });
+                continue;
+            }
+
+            projects.Add(new Project
+            {
+                UserId = userId,
+                Title = createRequest.Title,
+                Description = createRequest.Description,
+                Status = createRequest.Status,
+                Priority = createRequest.Priority,
+                StartDate = createRequest.StartDate,
+                DueDate = createRequest.DueDate
+            });
+        }
+
+        if (projects.Count > 0)
+        {
+            response.CreatedIds = await _projectRepository.CreateManyAsync(projects);
+            response.Created = response.CreatedIds.Count;
+
+            for (var i = 0; i < projects.Count; i++)
+            {
+                projects[i].Id = response.CreatedIds[i];
+            }
+            await _historyService.RecordCreatedAsync(userId, projects);
+        }
+
+        _logger.LogInformation(
+            "Imported {Created} projects for user {UserId}, {Failed} rows failed",
+            response.Created, userId, response.Failed.Count);
+
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Apply a status change, priority change or delete to many projects in one request
+    /// Targets the given IDs or every project matching the filter; each project is checked
+    /// individually (including the user's role on it) and the response reports which ones
+    /// succeeded and why others failed
+    /// POST: api/projects/bulk
+    /// </summary>
+    [HttpPost("bulk")]
+    [ProducesResponseType(typeof(BulkProjectActionResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<BulkProjectActionResponse>> Bulk([FromBody] BulkProjectActionRequest request)
+    {
+        var userId = GetUserId();
+        var action = request.Action.ToLowerInvariant();
+
+        var ids = request.Filter is not null
+            ? await _projectRepository.GetFilteredIdsAsync(userId, request.Filter)
+            : request.Ids!.Distinct().ToList();
+
+        if (ids.Count > BulkProjectActionRequest.MaxItems)
+        {
+            return BadRequest(new { message = $"A bulk action can affect at most {BulkProjectActionRequest.MaxItems} projects" });
+        }
+
+        _logger.LogInformation("Bulk {Action} on {Count} projects for user {UserId}", action, ids.Count, userId);
+
+        // Canonical casing of the requested status
+        var status = action == "status"
+            ? new[] { "Active", "OnHold", "Completed", "Cancelled" }
+                .First(s => s.Equals(request.Status, StringComparison.OrdinalIgnoreCase))
+            : null;
+
+        var projects = (await _projectRepository.GetByIdsAsync(userId, ids)).ToDictionary(p => p.Id);
+        var memberRoles = await _memberRepository.GetRolesAsync(
+            userId,
+            projects.Values.Where(p => p.UserId != userId).Select(p => p.Id).ToList());
+        var response = new BulkProjectActionResponse();
+
+        foreach (var id in ids)
+        {
+            if (!projects.TryGetValue(id, out var project))
+            {
+                response.Failed.Add(new BulkProjectItemError { Id = id, Error = "Project not found" });
+                continue;
+            }
+
+            var role = project.UserId == userId ? ProjectRoles.Owner : memberRoles.GetValueOrDefault(id);
+            if (action == "delete" ? !ProjectRoles.CanManage(role) : !ProjectRoles.CanEdit(role))
+            {
+                response.Failed.Add(new BulkProjectItemError
+                {
+                    Id = id,
+                    Title = project.Title,
+                    Error = action == "delete" ? "Only the owner can delete a project" : "You do not have permission to edit this project"
+                });
+                continue;
+            }
+
+            // Same rule as CreateProjectRequest/UpdateProjectRequest validation
+            if (status == "Completed" && (!project.StartDate.HasValue || !project.DueDate.HasValue))
+            {
+                response.Failed.Add(new BulkProjectItemError
+                {
+                    Id = id,
+                    Title = project.Title,
+                    Error = "Completed projects must have both start and due dates"
+                });
+                continue;
+            }
+
+            response.Succeeded.Add(id);
+        }
+
+        if (response.Succeeded.Count > 0)
+        {
+            if (action == "delete")
+            {
+                // Moved to the trash: restorable until purged (see ProjectTrashController)
+                await _projectRepository.SoftDeleteManyAsync(userId, response.Succeeded);
+                await _historyService.RecordDeletedAsync(userId, response.Succeeded);
+            }
+            else
+            {
+                var priority = action == "priority" ? request.Priority : null;
+                await _projectRepository.UpdateManyAsync(userId, response.Succeeded, status, priority);
+
+                var updates = response.Succeeded.Select(id =>
+                {
+                    var after = Snapshot(projects[id]);
+                    after.Status = status ?? after.Status;
+                    after.Priority = priority ?? after.Priority;
+                    return (projects[id], after);
+                }).ToList();
+                await _historyService.RecordUpdatedAsync(userId, updates);
+            }
+        }
+
+        _logger.LogInformation(
+            "Bulk {Action} for user {UserId}: {Succeeded} succeeded, {Failed} failed",
+            action, userId, response.Succeeded.Count, response.Failed.Count);
+
+        return Ok(response);
     }
 
     /// <summary>
     /// Update an existing project
+    /// With an If-Match header (the version or ETag from GET) a stale write is rejected with 409
+    /// and the current project in the body, so the client can resolve the conflict and retry
     /// PUT: api/projects/{id}
     /// </summary>
     [HttpPut("{id}")]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
     public async Task<IActionResult> Update(int id, [FromBody] UpdateProjectRequest request)
     {
         var userId = GetUserId();
         _logger.LogInformation("Updating project {ProjectId} for user {UserId}", id, userId);
 
         var existing = await _projectRepository.GetByIdAsync(id);
-        if (existing is null || existing.UserId != userId)
+        var role = existing is null ? null : await _accessService.GetRoleAsync(existing, userId);
+        if (existing is null || role is null)
         {
             return NotFound(new { message = "Project not found" });
         }
 
+        if (!ProjectRoles.CanEdit(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "You do not have permission to edit this project" });
+        }
+
+        // "*" (or no header) updates whatever version is current
+        byte[]? expectedRowVersion = null;
+        var ifMatch = Request.Headers.IfMatch.ToString();
+        if (!string.IsNullOrEmpty(ifMatch) && ifMatch != "*")
+        {
+            expectedRowVersion = ParseETag(ifMatch);
+            if (expectedRowVersion is null)
+            {
+                return BadRequest(new { message = "Invalid If-Match header" });
+            }
+
+            if (!expectedRowVersion.AsSpan().SequenceEqual(existing.RowVersion))
+            {
+                return await ConflictAsync(existing, role);
+            }
+        }
+
+        // Tags belong to the project owner, also when an editor saves the project
+        var tagIds = request.TagIds?.Distinct().ToList();
+        if (tagIds is not null && !await OwnsTagsAsync(existing.UserId, tagIds))
+        {
+            return BadRequest(new { message = "Unknown tag" });
+        }
+
+        var before = Snapshot(existing);
         existing.Title = request.Title;
         existing.Description = request.Description;
         existing.Status = request.Status;
@@ -228,19 +662,88 @@ public class ProjectsController : ControllerBase
         existing.StartDate = request.StartDate;
         existing.DueDate = request.DueDate;
 
-        await _projectRepository.UpdateAsync(existing);
+        var rowVersion = await _projectRepository.UpdateAsync(existing, expectedRowVersion);
+        if (rowVersion is null)
+        {
+            // Saved or deleted by someone else between the read and the update
+            var current = await _projectRepository.GetByIdAsync(id);
+            return current is null
+                ? NotFound(new { message = "Project not found" })
+                : await ConflictAsync(current, role);
+        }
+
+        if (tagIds is not null)
+        {
+            await _tagRepository.SetProjectTagsAsync(id, tagIds);
+        }
+
+        await _historyService.RecordUpdatedAsync(userId, [(before, existing)]);
 
         _logger.LogInformation("Updated project {ProjectId}", id);
 
+        Response.Headers.ETag = ToETag(rowVersion);
         return NoContent();
     }
 
     /// <summary>
-    /// Delete a project
+    /// 409 response for a stale update, carrying the current project and its ETag
+    /// </summary>
+    private async Task<IActionResult> ConflictAsync(Project current, string role)
+    {
+        _logger.LogInformation("Rejected stale update of project {ProjectId}", current.Id);
+
+        var response = MapToResponse(current);
+        response.Role = role;
+        await FillTagsAsync([response]);
+
+        Response.Headers.ETag = ToETag(current.RowVersion);
+        return Conflict(new
+        {
+            message = "This project was changed by someone else since you loaded it",
+            current = response
+        });
+    }
+
+    /// <summary>
+    /// Copy of the tracked project fields, taken before a change for the history diff
+    /// </summary>
+    private static Project Snapshot(Project project) => new()
+    {
+        Id = project.Id,
+        UserId = project.UserId,
+        Title = project.Title,
+        Description = project.Description,
+        Status = project.Status,
+        Priority = project.Priority,
+        StartDate = project.StartDate,
+        DueDate = project.DueDate
+    };
+
+    private static string ToETag(byte[] rowVersion) => $"\"{Convert.ToBase64String(rowVersion)}\"";
+
+    /// <summary>
+    /// Parse an If-Match value ("version", W/"version" or the bare version) into a row version
+    /// </summary>
+    private static byte[]? ParseETag(string eTag)
+    {
+        var value = eTag.Trim();
+        if (value.StartsWith("W/", StringComparison.Ordinal))
+        {
+            value = value[2..];
+        }
+        value = value.Trim('"');
+
+        var buffer = new byte[value.Length];
+        return Convert.TryFromBase64String(value, buffer, out var written) ? buffer[..written] : null;
+    }
+
+    /// <summary>
+    /// Delete a project: it moves to the owner's trash and can be restored until it is purged
     /// DELETE: api/projects/{id}
     /// </summary>
     [HttpDelete("{id}")]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     public async Task<IActionResult> Delete(int id)
     {
@@ -248,18 +751,78 @@ public class ProjectsController : ControllerBase
         _logger.LogInformation("Deleting project {ProjectId} for user {UserId}", id, userId);
 
         var existing = await _projectRepository.GetByIdAsync(id);
-        if (existing is null || existing.UserId != userId)
+        var role = existing is null ? null : await _accessService.GetRoleAsync(existing, userId);
+        if (existing is null || role is null)
         {
             return NotFound(new { message = "Project not found" });
         }
 
-        await _projectRepository.DeleteAsync(id);
+        if (!ProjectRoles.CanManage(role))
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = "Only the owner can delete a project" });
+        }
 
-        _logger.LogInformation("Deleted project {ProjectId}", id);
+        await _projectRepository.SoftDeleteAsync(id);
+        await _historyService.RecordDeletedAsync(userId, [id]);
+
+        _logger.LogInformation("Moved project {ProjectId} to trash", id);
 
         return NoContent();
     }
 
+    /// <summary>
+    /// Check that every tag belongs to the user
+    /// </summary>
+    private async Task<bool> OwnsTagsAsync(int userId, IReadOnlyList<int> tagIds)
+    {
+        if (tagIds.Count == 0)
+        {
+            return true;
+        }
+
+        var tags = await _tagRepository.GetByIdsAsync(userId, tagIds);
+        return tags.Count == tagIds.Count;
+    }
+
+    /// <summary>
+    /// Attach the tag chips to the given project responses
+    /// </summary>
+    private async Task FillTagsAsync(IReadOnlyList<ProjectResponse> items)
+    {
+        var tags = await _tagRepository.GetByProjectIdsAsync(items.Select(p => p.Id).ToList());
+        foreach (var item in items)
+        {
+            if (tags.TryGetValue(item.Id, out var projectTags))
+            {
+                item.Tags = projectTags
+                    .Select(t => new ProjectTagResponse { Id = t.TagId, Name = t.Name, Color = t.Color })
+                    .ToList();
+            }
+        }
+    }
+
+    /// <summary>
+    /// Set the role of the user on the given project responses (projects not owned are shared with the user)
+    /// </summary>
+    private async Task FillRolesAsync(int userId, IReadOnlyList<ProjectResponse> items)
+    {
+        var roles = await _memberRepository.GetRolesAsync(
+            userId,
+            items.Where(p => p.UserId != userId).Select(p => p.Id).ToList());
+        foreach (var item in items)
+        {
+            item.Role = item.UserId == userId
+                ? ProjectRoles.Owner
+                : roles.GetValueOrDefault(item.Id, ProjectRoles.Viewer);
+        }
+    }
+
+    private static bool IsValidTagMatch(string tagMatch)
+    {
+        return tagMatch.Equals("any", StringComparison.OrdinalIgnoreCase)
+            || tagMatch.Equals("all", StringComparison.OrdinalIgnoreCase);
+    }
+
     /// <summary>
     /// Extract user ID from JWT claims
     /// </summary>
@@ -289,7 +852,8 @@ public class ProjectsController : ControllerBase
             StartDate = project.StartDate,
             DueDate = project.DueDate,
             CreatedAt = project.CreatedAt,
-            UpdatedAt = project.UpdatedAt
+            UpdatedAt = project.UpdatedAt,
+            Version = Convert.ToBase64String(project.RowVersion)
         };
     }
 }
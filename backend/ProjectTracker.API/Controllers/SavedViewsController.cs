@@ -0,0 +1,217 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.SavedViews;
+using System.Security.Claims;
+using System.Text.Json;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for managing saved views (named project list filter presets)
+/// Views are private to the authenticated user
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class SavedViewsController : ControllerBase
+{
+    private readonly ISavedViewRepository _savedViewRepository;
+    private readonly ILogger<SavedViewsController> _logger;
+
+    public SavedViewsController(
+        ISavedViewRepository savedViewRepository,
+        ILogger<SavedViewsController> logger)
+    {
+        _savedViewRepository = savedViewRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get all saved views for the authenticated user
+    /// GET: api/savedviews
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<SavedViewResponse>), StatusCodes.Status200OK)]
+    public async Task<ActionResult<IEnumerable<SavedViewResponse>>> GetAll()
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching saved views for user {UserId}", userId);
+
+        var views = await _savedViewRepository.GetByUserIdAsync(userId);
+
+        return Ok(views.Select(MapToResponse));
+    }
+
+    /// <summary>
+    /// Save the current filters as a named view
+    /// POST: api/savedviews
+    /// </summary>
+    [HttpPost]
+    [ProducesResponseType(typeof(SavedViewResponse), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<SavedViewResponse>> Create([FromBody] CreateSavedViewRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Creating saved view for user {UserId}", userId);
+
+        if (request.Filters.ValueKind != JsonValueKind.Object)
+        {
+            return BadRequest(new { message = "Filters must be a JSON object" });
+        }
+
+        var view = new SavedView
+        {
+            UserId = userId,
+            Name = request.Name.Trim(),
+            Filters = request.Filters.GetRawText()
+        };
+
+        view.Id = await _savedViewRepository.CreateAsync(view);
+
+        if (request.IsDefault)
+        {
+            await _savedViewRepository.SetDefaultAsync(userId, view.Id);
+        }
+
+        var created = await _savedViewRepository.GetByIdAsync(view.Id) ?? view;
+
+        return CreatedAtAction(nameof(GetAll), null, MapToResponse(created));
+    }
+
+    /// <summary>
+    /// Rename a saved view or replace its filters
+    /// PUT: api/savedviews/{id}
+    /// </summary>
+    [HttpPut("{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Update(int id, [FromBody] UpdateSavedViewRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Updating saved view {SavedViewId} for user {UserId}", id, userId);
+
+        if (request.Filters.ValueKind != JsonValueKind.Object)
+        {
+            return BadRequest(new { message = "Filters must be a JSON object" });
+        }
+
+        var existing = await _savedViewRepository.GetByIdAsync(id);
+        if (existing is null || existing.UserId != userId)
+        {
+            return NotFound(new { message = "Saved view not found" });
+        }
+
+        existing.Name = request.Name.Trim();
+        existing.Filters = request.Filters.GetRawText();
+
+        await _savedViewRepository.UpdateAsync(existing);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Pin a saved view as the default for the project list
+    /// POST: api/savedviews/{id}/default
+    /// </summary>
+    [HttpPost("{id}/default")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> SetDefault(int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Pinning saved view {SavedViewId} as default for user {UserId}", id, userId);
+
+        var existing = await _savedViewRepository.GetByIdAsync(id);
+        if (existing is null || existing.UserId != userId)
+        {
+            return NotFound(new { message = "Saved view not found" });
+        }
+
+        await _savedViewRepository.SetDefaultAsync(userId, id);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Unpin the default saved view
+    /// DELETE: api/savedviews/{id}/default
+    /// </summary>
+    [HttpDelete("{id}/default")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> ClearDefault(int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Unpinning saved view {SavedViewId} for user {UserId}", id, userId);
+
+        var existing = await _savedViewRepository.GetByIdAsync(id);
+        if (existing is null || existing.UserId != userId)
+        {
+            return NotFound(new { message = "Saved view not found" });
+        }
+
+        if (existing.IsDefault)
+        {
+            await _savedViewRepository.SetDefaultAsync(userId, null);
+        }
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Delete a saved view
+    /// DELETE: api/savedviews/{id}
+    /// </summary>
+    [HttpDelete("{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Delete(int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Deleting saved view {SavedViewId} for user {UserId}", id, userId);
+
+        var existing = await _savedViewRepository.GetByIdAsync(id);
+        if (existing is null || existing.UserId != userId)
+        {
+            return NotFound(new { message = "Saved view not found" });
+        }
+
+        await _savedViewRepository.DeleteAsync(id);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    /// <summary>
+    /// Map entity to response DTO
+    /// </summary>
+    private static SavedViewResponse MapToResponse(SavedView view)
+    {
+        using var filters = JsonDocument.Parse(view.Filters);
+
+        return new SavedViewResponse
+        {
+            Id = view.Id,
+            Name = view.Name,
+            Filters = filters.RootElement.Clone(),
+            IsDefault = view.IsDefault,
+            CreatedAt = view.CreatedAt,
+            UpdatedAt = view.UpdatedAt
+        };
+    }
+}
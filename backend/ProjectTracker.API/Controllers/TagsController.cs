@@ -0,0 +1,212 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Entities;
+using ProjectTracker.API.Models.Dtos.Tags;
+using System.Security.Claims;
+
+namespace ProjectTracker.API.Controllers;
+
+/// <summary>
+/// Controller for managing project tags (create, rename, recolor, merge and delete)
+/// Tags are private to the authenticated user; names are unique per user
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class TagsController : ControllerBase
+{
+    private readonly ITagRepository _tagRepository;
+    private readonly ILogger<TagsController> _logger;
+
+    public TagsController(
+        ITagRepository tagRepository,
+        ILogger<TagsController> logger)
+    {
+        _tagRepository = tagRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get all tags of the authenticated user with their usage counts
+    /// GET: api/tags
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<TagResponse>), StatusCodes.Status200OK)]
+    public async Task<ActionResult<IEnumerable<TagResponse>>> GetAll()
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Fetching tags for user {UserId}", userId);
+
+        var tags = await _tagRepository.GetByUserIdAsync(userId);
+
+        return Ok(tags.Select(MapToResponse));
+    }
+
+    /// <summary>
+    /// Create a tag
+    /// POST: api/tags
+    /// </summary>
+    [HttpPost]
+    [ProducesResponseType(typeof(TagResponse), StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<ActionResult<TagResponse>> Create([FromBody] CreateTagRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Creating tag for user {UserId}", userId);
+
+        var name = request.Name.Trim();
+        if (name.Length == 0)
+        {
+            return BadRequest(new { message = "Tag name is required" });
+        }
+
+        if (await _tagRepository.GetByNameAsync(userId, name) is not null)
+        {
+            return Conflict(new { message = "A tag with this name already exists" });
+        }
+
+        var tag = new Tag
+        {
+            UserId = userId,
+            Name = name,
+            Color = request.Color.ToUpperInvariant()
+        };
+
+        tag.Id = await _tagRepository.CreateAsync(tag);
+        var created = await _tagRepository.GetByIdAsync(tag.Id) ?? tag;
+
+        return CreatedAtAction(nameof(GetAll), null, MapToResponse(created));
+    }
+
+    /// <summary>
+    /// Rename and/or recolor a tag
+    /// PUT: api/tags/{id}
+    /// </summary>
+    [HttpPut("{id}")]
+    [ProducesResponseType(typeof(TagResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    [ProducesResponseType(StatusCodes.Status409Conflict)]
+    public async Task<ActionResult<TagResponse>> Update(int id, [FromBody] UpdateTagRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Updating tag {TagId} for user {UserId}", id, userId);
+
+        var existing = await _tagRepository.GetByIdAsync(id);
+        if (existing is null || existing.UserId != userId)
+        {
+            return NotFound(new { message = "Tag not found" });
+        }
+
+        var name = request.Name.Trim();
+        if (name.Length == 0)
+        {
+            return BadRequest(new { message = "Tag name is required" });
+        }
+
+        var sameName = await _tagRepository.GetByNameAsync(userId, name);
+        if (sameName is not null && sameName.Id != id)
+        {
+            return Conflict(new { message = "A tag with this name already exists" });
+        }
+
+        existing.Name = name;
+        existing.Color = request.Color.ToUpperInvariant();
+
+        await _tagRepository.UpdateAsync(existing);
+        var updated = await _tagRepository.GetByIdAsync(id) ?? existing;
+
+        return Ok(MapToResponse(updated));
+    }
+
+    /// <summary>
+    /// Merge other tags into this one: their projects get this tag and they are deleted
+    /// POST: api/tags/{id}/merge
+    /// </summary>
+    [HttpPost("{id}/merge")]
+    [ProducesResponseType(typeof(TagResponse), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TagResponse>> Merge(int id, [FromBody] MergeTagsRequest request)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Merging tags into tag {TagId} for user {UserId}", id, userId);
+
+        var target = await _tagRepository.GetByIdAsync(id);
+        if (target is null || target.UserId != userId)
+        {
+            return NotFound(new { message = "Tag not found" });
+        }
+
+        var sourceIds = request.SourceTagIds.Distinct().Where(sourceId => sourceId != id).ToList();
+        if (sourceIds.Count == 0)
+        {
+            return BadRequest(new { message = "Select at least one other tag to merge" });
+        }
+
+        var sources = await _tagRepository.GetByIdsAsync(userId, sourceIds);
+        if (sources.Count != sourceIds.Count)
+        {
+            return NotFound(new { message = "Tag not found" });
+        }
+
+        await _tagRepository.MergeAsync(id, sourceIds);
+        var merged = await _tagRepository.GetByIdAsync(id) ?? target;
+
+        return Ok(MapToResponse(merged));
+    }
+
+    /// <summary>
+    /// Delete a tag (it is removed from all projects)
+    /// DELETE: api/tags/{id}
+    /// </summary>
+    [HttpDelete("{id}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> Delete(int id)
+    {
+        var userId = GetUserId();
+        _logger.LogInformation("Deleting tag {TagId} for user {UserId}", id, userId);
+
+        var existing = await _tagRepository.GetByIdAsync(id);
+        if (existing is null || existing.UserId != userId)
+        {
+            return NotFound(new { message = "Tag not found" });
+        }
+
+        await _tagRepository.DeleteAsync(id);
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Extract user ID from JWT claims
+    /// </summary>
+    private int GetUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !int.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("Invalid user ID in token");
+        }
+        return userId;
+    }
+
+    /// <summary>
+    /// Map entity to response DTO
+    /// </summary>
+    private static TagResponse MapToResponse(Tag tag)
+    {
+        return new TagResponse
+        {
+            Id = tag.Id,
+            Name = tag.Name,
+            Color = tag.Color,
+            ProjectCount = tag.ProjectCount,
+            CreatedAt = tag.CreatedAt,
+            UpdatedAt = tag.UpdatedAt
+        };
+    }
+}
@@ -0,0 +1,20 @@
+-- Create SavedViews table (named filter presets for the project list)
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'SavedViews' AND type = 'U')
+BEGIN
+    CREATE TABLE [SavedViews] (
+        [Id] INT PRIMARY KEY IDENTITY(1,1),
+        [UserId] INT NOT NULL,
+        [Name] NVARCHAR(100) NOT NULL,
+        [Filters] NVARCHAR(MAX) NOT NULL,
+        [IsDefault] BIT NOT NULL DEFAULT 0,
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        [UpdatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id]) ON DELETE CASCADE
+    );
+END
+
+-- Create index on UserId for faster lookups
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_SavedViews_UserId' AND object_id = OBJECT_ID('[SavedViews]'))
+BEGIN
+    CREATE INDEX [IX_SavedViews_UserId] ON [SavedViews]([UserId]);
+END
@@ -0,0 +1,33 @@
+-- Create ProjectTasks table (checklist items of a project, one level of subtasks)
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'ProjectTasks' AND type = 'U')
+BEGIN
+    CREATE TABLE [ProjectTasks] (
+        [Id] INT PRIMARY KEY IDENTITY(1,1),
+        [ProjectId] INT NOT NULL,
+        [ParentTaskId] INT NULL,
+        [Title] NVARCHAR(200) NOT NULL,
+        [IsDone] BIT NOT NULL DEFAULT 0,
+        [AssigneeId] INT NULL,
+        [DueDate] DATETIME2,
+        [SortOrder] INT NOT NULL DEFAULT 0,
+        [CompletedAt] DATETIME2,
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        [UpdatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([ProjectId]) REFERENCES [Projects]([Id]) ON DELETE CASCADE,
+        -- No cascades below: SQL Server rejects multiple cascade paths, subtasks are deleted by the repository
+        FOREIGN KEY ([ParentTaskId]) REFERENCES [ProjectTasks]([Id]),
+        FOREIGN KEY ([AssigneeId]) REFERENCES [Users]([Id])
+    );
+END
+
+-- Create index on ProjectId for checklist loading and progress roll-up
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectTasks_ProjectId' AND object_id = OBJECT_ID('[ProjectTasks]'))
+BEGIN
+    CREATE INDEX [IX_ProjectTasks_ProjectId] ON [ProjectTasks]([ProjectId]) INCLUDE ([IsDone]);
+END
+
+-- Create index on ParentTaskId for subtask lookups
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectTasks_ParentTaskId' AND object_id = OBJECT_ID('[ProjectTasks]'))
+BEGIN
+    CREATE INDEX [IX_ProjectTasks_ParentTaskId] ON [ProjectTasks]([ParentTaskId]);
+END
@@ -0,0 +1,31 @@
+-- Create ProjectComments table (discussion threads: top-level comments and their replies)
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'ProjectComments' AND type = 'U')
+BEGIN
+    CREATE TABLE [ProjectComments] (
+        [Id] INT PRIMARY KEY IDENTITY(1,1),
+        [ProjectId] INT NOT NULL,
+        [ParentCommentId] INT NULL,
+        [UserId] INT NOT NULL,
+        [Body] NVARCHAR(4000) NOT NULL,
+        [IsDeleted] BIT NOT NULL DEFAULT 0,
+        [EditedAt] DATETIME2,
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        [UpdatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([ProjectId]) REFERENCES [Projects]([Id]) ON DELETE CASCADE,
+        -- No cascades below: SQL Server rejects multiple cascade paths, replies are deleted by the repository
+        FOREIGN KEY ([ParentCommentId]) REFERENCES [ProjectComments]([Id]),
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id])
+    );
+END
+
+-- Create index on ProjectId for loading the threads of a project
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectComments_ProjectId' AND object_id = OBJECT_ID('[ProjectComments]'))
+BEGIN
+    CREATE INDEX [IX_ProjectComments_ProjectId] ON [ProjectComments]([ProjectId]);
+END
+
+-- Create index on ParentCommentId for reply lookups
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectComments_ParentCommentId' AND object_id = OBJECT_ID('[ProjectComments]'))
+BEGIN
+    CREATE INDEX [IX_ProjectComments_ParentCommentId] ON [ProjectComments]([ParentCommentId]);
+END
@@ -0,0 +1,23 @@
+-- Create ProjectAttachments table (metadata of files kept in the configured file storage)
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'ProjectAttachments' AND type = 'U')
+BEGIN
+    CREATE TABLE [ProjectAttachments] (
+        [Id] INT PRIMARY KEY IDENTITY(1,1),
+        [ProjectId] INT NOT NULL,
+        [UserId] INT NOT NULL,
+        [FileName] NVARCHAR(255) NOT NULL,
+        [ContentType] NVARCHAR(100) NOT NULL,
+        [SizeBytes] BIGINT NOT NULL,
+        [StorageKey] NVARCHAR(500) NOT NULL,
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([ProjectId]) REFERENCES [Projects]([Id]) ON DELETE CASCADE,
+        -- No cascade: SQL Server rejects multiple cascade paths from Users
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id])
+    );
+END
+
+-- Create index on ProjectId for listing the attachments of a project
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectAttachments_ProjectId' AND object_id = OBJECT_ID('[ProjectAttachments]'))
+BEGIN
+    CREATE INDEX [IX_ProjectAttachments_ProjectId] ON [ProjectAttachments]([ProjectId]);
+END
@@ -0,0 +1,38 @@
+-- Create Tags table (free-form colored labels, private to each user)
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'Tags' AND type = 'U')
+BEGIN
+    CREATE TABLE [Tags] (
+        [Id] INT PRIMARY KEY IDENTITY(1,1),
+        [UserId] INT NOT NULL,
+        [Name] NVARCHAR(50) NOT NULL,
+        [Color] NVARCHAR(7) NOT NULL,
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        [UpdatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id]) ON DELETE CASCADE
+    );
+END
+
+-- Tag names are unique per user
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'UX_Tags_UserId_Name' AND object_id = OBJECT_ID('[Tags]'))
+BEGIN
+    CREATE UNIQUE INDEX [UX_Tags_UserId_Name] ON [Tags]([UserId], [Name]);
+END
+
+-- Create ProjectTags table (tags assigned to projects)
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'ProjectTags' AND type = 'U')
+BEGIN
+    CREATE TABLE [ProjectTags] (
+        [ProjectId] INT NOT NULL,
+        [TagId] INT NOT NULL,
+        PRIMARY KEY ([ProjectId], [TagId]),
+        FOREIGN KEY ([ProjectId]) REFERENCES [Projects]([Id]) ON DELETE CASCADE,
+        -- No cascade: SQL Server rejects multiple cascade paths from Users (links are removed by the repository)
+        FOREIGN KEY ([TagId]) REFERENCES [Tags]([Id])
+    );
+END
+
+-- Create index on TagId for tag filters and tag usage counts
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectTags_TagId' AND object_id = OBJECT_ID('[ProjectTags]'))
+BEGIN
+    CREATE INDEX [IX_ProjectTags_TagId] ON [ProjectTags]([TagId]);
+END
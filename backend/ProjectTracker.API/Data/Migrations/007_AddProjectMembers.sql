@@ -0,0 +1,23 @@
+-- Create ProjectMembers table (users the owner shared a project with)
+-- The owner is Projects.UserId and has no row here; members are Editors or Viewers
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'ProjectMembers' AND type = 'U')
+BEGIN
+    CREATE TABLE [ProjectMembers] (
+        [ProjectId] INT NOT NULL,
+        [UserId] INT NOT NULL,
+        [Role] NVARCHAR(20) NOT NULL,
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        [UpdatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        PRIMARY KEY ([ProjectId], [UserId]),
+        FOREIGN KEY ([ProjectId]) REFERENCES [Projects]([Id]) ON DELETE CASCADE,
+        -- No cascade: SQL Server rejects multiple cascade paths from Users
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id]),
+        CONSTRAINT [CK_ProjectMembers_Role] CHECK ([Role] IN ('Editor', 'Viewer'))
+    );
+END
+
+-- Create index on UserId for listing the projects shared with a user
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectMembers_UserId' AND object_id = OBJECT_ID('[ProjectMembers]'))
+BEGIN
+    CREATE INDEX [IX_ProjectMembers_UserId] ON [ProjectMembers]([UserId]);
+END
@@ -0,0 +1,8 @@
+-- Add application-wide Role column to Users (User or Admin)
+-- Promote the first administrator manually: UPDATE [Users] SET [Role] = 'Admin' WHERE [Email] = '...'
+IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE name = 'Role' AND object_id = OBJECT_ID('[Users]'))
+BEGIN
+    ALTER TABLE [Users] ADD [Role] NVARCHAR(20) NOT NULL
+        CONSTRAINT [DF_Users_Role] DEFAULT 'User'
+        CONSTRAINT [CK_Users_Role] CHECK ([Role] IN ('User', 'Admin'));
+END
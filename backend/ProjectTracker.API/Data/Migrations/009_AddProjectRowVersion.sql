@@ -0,0 +1,6 @@
+-- Add RowVersion to Projects for optimistic concurrency
+-- SQL Server bumps it on every update; clients send it back in If-Match and stale writes get 409
+IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE name = 'RowVersion' AND object_id = OBJECT_ID('[Projects]'))
+BEGIN
+    ALTER TABLE [Projects] ADD [RowVersion] ROWVERSION NOT NULL;
+END
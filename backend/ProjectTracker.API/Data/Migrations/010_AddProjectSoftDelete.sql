@@ -0,0 +1,12 @@
+-- Add DeletedAt to Projects for soft delete: deleted projects stay in the owner's trash
+-- until restored or purged (manually or after the Trash:RetentionDays retention period)
+IF NOT EXISTS (SELECT 1 FROM sys.columns WHERE name = 'DeletedAt' AND object_id = OBJECT_ID('[Projects]'))
+BEGIN
+    ALTER TABLE [Projects] ADD [DeletedAt] DATETIME2 NULL;
+END
+
+-- Create filtered index for the trash listing and the retention purge
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Projects_DeletedAt' AND object_id = OBJECT_ID('[Projects]'))
+BEGIN
+    CREATE INDEX [IX_Projects_DeletedAt] ON [Projects]([DeletedAt]) INCLUDE ([UserId]) WHERE [DeletedAt] IS NOT NULL;
+END
@@ -0,0 +1,23 @@
+-- Create ProjectHistory table (audit trail: who created, changed, deleted or restored a project)
+-- Changes holds the changed fields as a JSON array of { field, oldValue, newValue }
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'ProjectHistory' AND type = 'U')
+BEGIN
+    CREATE TABLE [ProjectHistory] (
+        [Id] INT PRIMARY KEY IDENTITY(1,1),
+        [ProjectId] INT NOT NULL,
+        [UserId] INT NOT NULL,
+        [Action] NVARCHAR(20) NOT NULL,
+        [Changes] NVARCHAR(MAX) NOT NULL DEFAULT '[]',
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([ProjectId]) REFERENCES [Projects]([Id]) ON DELETE CASCADE,
+        -- No cascade: SQL Server rejects multiple cascade paths from Users
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id]),
+        CONSTRAINT [CK_ProjectHistory_Action] CHECK ([Action] IN ('Created', 'Updated', 'StatusChanged', 'Deleted', 'Restored'))
+    );
+END
+
+-- Create index on ProjectId for loading the history of a project, newest first
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_ProjectHistory_ProjectId_CreatedAt' AND object_id = OBJECT_ID('[ProjectHistory]'))
+BEGIN
+    CREATE INDEX [IX_ProjectHistory_ProjectId_CreatedAt] ON [ProjectHistory]([ProjectId], [CreatedAt] DESC);
+END
@@ -0,0 +1,50 @@
+-- Create Notifications table (in-app notification center)
+-- DueSoon/Overdue reminders are generated by the background job once per project due date;
+-- ProjectChanged is generated when another user changes a project the recipient owns or is a member of
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'Notifications' AND type = 'U')
+BEGIN
+    CREATE TABLE [Notifications] (
+        [Id] INT PRIMARY KEY IDENTITY(1,1),
+        [UserId] INT NOT NULL,
+        [ProjectId] INT NOT NULL,
+        [Type] NVARCHAR(20) NOT NULL,
+        -- ProjectChanged: who changed the project and the history action
+        [ActorId] INT NULL,
+        [Action] NVARCHAR(20) NULL,
+        -- DueSoon/Overdue: the due date the reminder was sent for
+        [DueDate] DATE NULL,
+        [IsRead] BIT NOT NULL DEFAULT 0,
+        [CreatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([ProjectId]) REFERENCES [Projects]([Id]) ON DELETE CASCADE,
+        -- No cascade: SQL Server rejects multiple cascade paths from Users
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id]),
+        FOREIGN KEY ([ActorId]) REFERENCES [Users]([Id]),
+        CONSTRAINT [CK_Notifications_Type] CHECK ([Type] IN ('DueSoon', 'Overdue', 'ProjectChanged'))
+    );
+END
+
+-- Create index on UserId for listing the notifications of a user, newest first
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Notifications_UserId_CreatedAt' AND object_id = OBJECT_ID('[Notifications]'))
+BEGIN
+    CREATE INDEX [IX_Notifications_UserId_CreatedAt] ON [Notifications]([UserId], [CreatedAt] DESC) INCLUDE ([IsRead]);
+END
+
+-- Create index for the duplicate check of the due date reminders
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Notifications_ProjectId_Type_DueDate' AND object_id = OBJECT_ID('[Notifications]'))
+BEGIN
+    CREATE INDEX [IX_Notifications_ProjectId_Type_DueDate] ON [Notifications]([ProjectId], [Type], [DueDate]) WHERE [DueDate] IS NOT NULL;
+END
+
+-- Create NotificationPreferences table (events a user wants to be notified about)
+-- Users without a row receive every notification type
+IF NOT EXISTS (SELECT 1 FROM sys.tables WHERE name = 'NotificationPreferences' AND type = 'U')
+BEGIN
+    CREATE TABLE [NotificationPreferences] (
+        [UserId] INT PRIMARY KEY,
+        [DueSoon] BIT NOT NULL DEFAULT 1,
+        [Overdue] BIT NOT NULL DEFAULT 1,
+        [ProjectChanged] BIT NOT NULL DEFAULT 1,
+        [UpdatedAt] DATETIME2 DEFAULT GETUTCDATE(),
+        FOREIGN KEY ([UserId]) REFERENCES [Users]([Id]) ON DELETE CASCADE
+    );
+END
@@ -0,0 +1,19 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for Notification and NotificationPreferences operations
+/// </summary>
+public interface INotificationRepository
+{
+    Task<IEnumerable<Notification>> GetByUserIdAsync(int userId, bool unreadOnly, int take);
+    Task<int> GetUnreadCountAsync(int userId);
+    Task<bool> MarkAsReadAsync(int userId, int id);
+    Task<int> MarkAllAsReadAsync(int userId);
+    Task<int> AddProjectChangedAsync(IReadOnlyList<ProjectHistoryEntry> entries);
+    Task<int> AddDueDateRemindersAsync(DateTime today, DateTime dueSoonEnd);
+    Task<int> DeleteCreatedBeforeAsync(DateTime cutoff);
+    Task<NotificationPreferences> GetPreferencesAsync(int userId);
+    Task SavePreferencesAsync(NotificationPreferences preferences);
+}
@@ -0,0 +1,15 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for ProjectAttachment operations
+/// </summary>
+public interface IProjectAttachmentRepository
+{
+    Task<ProjectAttachment?> GetByIdAsync(int id);
+    Task<IEnumerable<ProjectAttachment>> GetByProjectIdAsync(int projectId);
+    Task<List<string>> GetStorageKeysByProjectIdsAsync(IReadOnlyList<int> projectIds);
+    Task<int> CreateAsync(ProjectAttachment attachment);
+    Task<bool> DeleteAsync(int id);
+}
@@ -0,0 +1,15 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for ProjectComment operations
+/// </summary>
+public interface IProjectCommentRepository
+{
+    Task<ProjectComment?> GetByIdAsync(int id);
+    Task<IEnumerable<ProjectComment>> GetByProjectIdAsync(int projectId);
+    Task<int> CreateAsync(ProjectComment comment);
+    Task<bool> UpdateBodyAsync(int id, string body);
+    Task<bool> DeleteAsync(int id);
+}
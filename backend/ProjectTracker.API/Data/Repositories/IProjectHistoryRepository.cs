@@ -0,0 +1,12 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for ProjectHistoryEntry operations
+/// </summary>
+public interface IProjectHistoryRepository
+{
+    Task<IEnumerable<ProjectHistoryEntry>> GetByProjectIdAsync(int projectId);
+    Task AddManyAsync(IReadOnlyList<ProjectHistoryEntry> entries);
+}
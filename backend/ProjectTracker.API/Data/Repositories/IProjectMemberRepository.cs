@@ -0,0 +1,17 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for project memberships (users a project is shared with)
+/// </summary>
+public interface IProjectMemberRepository
+{
+    Task<ProjectMember?> GetAsync(int projectId, int userId);
+    Task<IEnumerable<ProjectMember>> GetByProjectIdAsync(int projectId);
+    Task<Dictionary<int, string>> GetRolesAsync(int userId, IReadOnlyList<int> projectIds);
+    Task<Dictionary<int, List<int>>> GetUserIdsAsync(IReadOnlyList<int> projectIds);
+    Task AddAsync(ProjectMember member);
+    Task<bool> UpdateRoleAsync(int projectId, int userId, string role);
+    Task<bool> RemoveAsync(int projectId, int userId);
+}
@@ -1,4 +1,5 @@
 using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Dtos.Projects;
 using ProjectTracker.API.Models.Entities;
 
 namespace ProjectTracker.API.Data.Repositories;
@@ -10,10 +11,29 @@ public interface IProjectRepository
 {
     Task<Project?> GetByIdAsync(int id);
     Task<IEnumerable<Project>> GetByUserIdAsync(int userId);
-    Task<(IEnumerable<Project> items, int total)> GetPagedAsync(int userId, PaginationRequest request);
+    Task<(IEnumerable<Project> items, int total)> GetPagedAsync(int userId, ProjectFilterRequest request);
+    Task<int> CountFilteredAsync(int userId, ProjectFilterRequest request);
+    Task<List<int>> GetFilteredIdsAsync(int userId, ProjectFilterRequest request);
+    Task<List<Project>> GetByIdsAsync(int userId, IReadOnlyList<int> ids);
+    IAsyncEnumerable<Project> StreamFilteredAsync(int userId, ProjectFilterRequest request, CancellationToken cancellationToken = default);
     Task<(IEnumerable<Project> items, int total)> GetInfiniteScrollAsync(int userId, int skip, int take);
     Task<int> CreateAsync(Project project);
-    Task<bool> UpdateAsync(Project project);
-    Task<bool> DeleteAsync(int id);
+    Task<List<int>> CreateManyAsync(IReadOnlyList<Project> projects);
+    // Returns the new row version, or null when the project is gone or no longer matches expectedRowVersion
+    Task<byte[]?> UpdateAsync(Project project, byte[]? expectedRowVersion = null);
+    Task<int> UpdateManyAsync(int userId, IReadOnlyList<int> ids, string? status, int? priority);
+
+    // Soft delete: the projects move to the owner's trash and disappear from every other query
+    Task<bool> SoftDeleteAsync(int id);
+    Task<int> SoftDeleteManyAsync(int userId, IReadOnlyList<int> ids);
+    Task<IEnumerable<Project>> GetDeletedByUserIdAsync(int userId);
+    Task<int> RestoreManyAsync(int userId, IReadOnlyList<int> ids);
+    Task<List<int>> GetDeletedBeforeAsync(DateTime deletedBefore, int take);
+    // Permanent delete of trashed projects (tasks, comments, attachments rows, members and tags cascade)
+    Task<int> PurgeManyAsync(IReadOnlyList<int> ids);
     Task<IEnumerable<Project>> SearchAsync(int userId, string searchTerm);
+
+    // Dashboard aggregates
+    Task<ProjectStats> GetStatsAsync(int userId, DateTime today);
+    Task<List<DateTime>> GetCompletionTimesAsync(int userId, DateTime since);
 }
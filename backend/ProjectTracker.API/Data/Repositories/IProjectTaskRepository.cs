@@ -0,0 +1,17 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for ProjectTask operations
+/// </summary>
+public interface IProjectTaskRepository
+{
+    Task<ProjectTask?> GetByIdAsync(int id);
+    Task<IEnumerable<ProjectTask>> GetByProjectIdAsync(int projectId);
+    Task<int> CreateAsync(ProjectTask task);
+    Task<bool> UpdateAsync(ProjectTask task);
+    Task<bool> DeleteAsync(int id);
+    Task<int> ReorderAsync(int projectId, int? parentTaskId, IReadOnlyList<int> orderedIds);
+    Task<Dictionary<int, TaskProgress>> GetProgressAsync(IReadOnlyList<int> projectIds);
+}
@@ -0,0 +1,16 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for SavedView operations
+/// </summary>
+public interface ISavedViewRepository
+{
+    Task<SavedView?> GetByIdAsync(int id);
+    Task<IEnumerable<SavedView>> GetByUserIdAsync(int userId);
+    Task<int> CreateAsync(SavedView view);
+    Task<bool> UpdateAsync(SavedView view);
+    Task<bool> DeleteAsync(int id);
+    Task<bool> SetDefaultAsync(int userId, int? viewId);
+}
@@ -0,0 +1,20 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Repository interface for Tag operations and project tag assignments
+/// </summary>
+public interface ITagRepository
+{
+    Task<Tag?> GetByIdAsync(int id);
+    Task<IEnumerable<Tag>> GetByUserIdAsync(int userId);
+    Task<Tag?> GetByNameAsync(int userId, string name);
+    Task<List<Tag>> GetByIdsAsync(int userId, IReadOnlyList<int> ids);
+    Task<int> CreateAsync(Tag tag);
+    Task<bool> UpdateAsync(Tag tag);
+    Task<bool> DeleteAsync(int id);
+    Task<int> MergeAsync(int targetTagId, IReadOnlyList<int> sourceTagIds);
+    Task<Dictionary<int, List<ProjectTag>>> GetByProjectIdsAsync(IReadOnlyList<int> projectIds);
+    Task SetProjectTagsAsync(int projectId, IReadOnlyList<int> tagIds);
+}
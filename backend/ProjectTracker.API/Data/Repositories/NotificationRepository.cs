@@ -0,0 +1,256 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of INotificationRepository
+/// </summary>
+public class NotificationRepository : INotificationRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<NotificationRepository> _logger;
+
+    // Owner and members of a project: the recipients of its notifications
+    private const string Recipients = @"
+                    SELECT p.[UserId] FROM [Projects] p WHERE p.[Id] = {0}
+                    UNION
+                    SELECT m.[UserId] FROM [ProjectMembers] m WHERE m.[ProjectId] = {0}";
+
+    public NotificationRepository(DbConnection dbConnection, ILogger<NotificationRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the latest notifications of a user, newest first
+    /// </summary>
+    public async Task<IEnumerable<Notification>> GetByUserIdAsync(int userId, bool unreadOnly, int take)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT TOP (@Take) n.[Id], n.[UserId], n.[ProjectId], n.[Type], n.[ActorId], n.[Action],
+                       n.[DueDate], n.[IsRead], n.[CreatedAt],
+                       p.[Title] AS [ProjectTitle],
+                       a.[Email] AS [ActorEmail],
+                       NULLIF(LTRIM(RTRIM(CONCAT(a.[FirstName], ' ', a.[LastName]))), '') AS [ActorName]
+                FROM [Notifications] n
+                INNER JOIN [Projects] p ON p.[Id] = n.[ProjectId]
+                LEFT JOIN [Users] a ON a.[Id] = n.[ActorId]
+                WHERE n.[UserId] = @UserId AND (@UnreadOnly = 0 OR n.[IsRead] = 0)
+                ORDER BY n.[CreatedAt] DESC, n.[Id] DESC";
+
+            return await connection.QueryAsync<Notification>(
+                sql,
+                new { UserId = userId, UnreadOnly = unreadOnly, Take = take });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving notifications for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<int> GetUnreadCountAsync(int userId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "SELECT COUNT(*) FROM [Notifications] WHERE [UserId] = @UserId AND [IsRead] = 0";
+
+            return await connection.QuerySingleAsync<int>(sql, new { UserId = userId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error counting unread notifications for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Mark a notification of the user as read; false when it does not exist or belongs to someone else
+    /// </summary>
+    public async Task<bool> MarkAsReadAsync(int userId, int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "UPDATE [Notifications] SET [IsRead] = 1 WHERE [Id] = @Id AND [UserId] = @UserId";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { Id = id, UserId = userId });
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error marking notification {Id} as read for user {UserId}", id, userId);
+            throw;
+        }
+    }
+
+    public async Task<int> MarkAllAsReadAsync(int userId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "UPDATE [Notifications] SET [IsRead] = 1 WHERE [UserId] = @UserId AND [IsRead] = 0";
+
+            return await connection.ExecuteAsync(sql, new { UserId = userId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error marking all notifications as read for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Notify the owner and members of each changed project, except the user who made the change
+    /// and users who turned ProjectChanged notifications off
+    /// </summary>
+    public async Task<int> AddProjectChangedAsync(IReadOnlyList<ProjectHistoryEntry> entries)
+    {
+        try
+        {
+            if (entries.Count == 0)
+            {
+                return 0;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = $@"
+                INSERT INTO [Notifications] ([UserId], [ProjectId], [Type], [ActorId], [Action])
+                SELECT r.[UserId], @ProjectId, 'ProjectChanged', @UserId, @Action
+                FROM ({string.Format(Recipients, "@ProjectId")}
+                ) r
+                LEFT JOIN [NotificationPreferences] np ON np.[UserId] = r.[UserId]
+                WHERE r.[UserId] <> @UserId AND COALESCE(np.[ProjectChanged], 1) = 1";
+
+            var rowsAffected = await connection.ExecuteAsync(
+                sql,
+                entries.Select(e => new { e.ProjectId, e.UserId, e.Action }),
+                transaction);
+
+            transaction.Commit();
+            return rowsAffected;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error adding change notifications for {Count} projects", entries.Count);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Remind the owner and members of open projects that are overdue (due before today) or due soon
+    /// (due before dueSoonEnd); each recipient gets one reminder of each type per due date
+    /// </summary>
+    public async Task<int> AddDueDateRemindersAsync(DateTime today, DateTime dueSoonEnd)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = $@"
+                INSERT INTO [Notifications] ([UserId], [ProjectId], [Type], [DueDate])
+                SELECT r.[UserId], p.[Id], t.[Type], p.[DueDate]
+                FROM [Projects] p
+                CROSS APPLY (
+                    SELECT CASE WHEN p.[DueDate] < @Today THEN 'Overdue' ELSE 'DueSoon' END AS [Type]
+                ) t
+                CROSS APPLY ({string.Format(Recipients, "p.[Id]")}
+                ) r
+                LEFT JOIN [NotificationPreferences] np ON np.[UserId] = r.[UserId]
+                WHERE p.[DeletedAt] IS NULL
+                  AND p.[Status] IN ('Active', 'OnHold')
+                  AND p.[DueDate] < @DueSoonEnd
+                  AND ((t.[Type] = 'Overdue' AND COALESCE(np.[Overdue], 1) = 1)
+                    OR (t.[Type] = 'DueSoon' AND COALESCE(np.[DueSoon], 1) = 1))
+                  AND NOT EXISTS (
+                      SELECT 1 FROM [Notifications] n
+                      WHERE n.[ProjectId] = p.[Id] AND n.[Type] = t.[Type]
+                        AND n.[DueDate] = p.[DueDate] AND n.[UserId] = r.[UserId])";
+
+            return await connection.ExecuteAsync(sql, new { Today = today.Date, DueSoonEnd = dueSoonEnd.Date });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error adding due date reminders for {Today}", today);
+            throw;
+        }
+    }
+
+    public async Task<int> DeleteCreatedBeforeAsync(DateTime cutoff)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "DELETE FROM [Notifications] WHERE [CreatedAt] < @Cutoff";
+
+            return await connection.ExecuteAsync(sql, new { Cutoff = cutoff });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting notifications created before {Cutoff}", cutoff);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get the preferences of a user (the defaults when the user never saved any)
+    /// </summary>
+    public async Task<NotificationPreferences> GetPreferencesAsync(int userId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT [UserId], [DueSoon], [Overdue], [ProjectChanged]
+                FROM [NotificationPreferences]
+                WHERE [UserId] = @UserId";
+
+            return await connection.QueryFirstOrDefaultAsync<NotificationPreferences>(sql, new { UserId = userId })
+                ?? new NotificationPreferences { UserId = userId };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving notification preferences for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task SavePreferencesAsync(NotificationPreferences preferences)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [NotificationPreferences]
+                SET [DueSoon] = @DueSoon, [Overdue] = @Overdue, [ProjectChanged] = @ProjectChanged,
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE [UserId] = @UserId;
+
+                IF @@ROWCOUNT = 0
+                    INSERT INTO [NotificationPreferences] ([UserId], [DueSoon], [Overdue], [ProjectChanged])
+                    VALUES (@UserId, @DueSoon, @Overdue, @ProjectChanged);";
+
+            await connection.ExecuteAsync(sql, preferences);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving notification preferences for user {UserId}", preferences.UserId);
+            throw;
+        }
+    }
+}
@@ -0,0 +1,155 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of IProjectAttachmentRepository
+/// </summary>
+public class ProjectAttachmentRepository : IProjectAttachmentRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<ProjectAttachmentRepository> _logger;
+
+    // SQL Server allows 2100 parameters per command: IN lists are sent in chunks
+    private const int BatchChunkSize = 1000;
+
+    private const string SelectColumns = @"
+                SELECT a.[Id], a.[ProjectId], a.[UserId], a.[FileName], a.[ContentType], a.[SizeBytes],
+                       a.[StorageKey], a.[CreatedAt],
+                       u.[Email] AS [UploadedByEmail],
+                       NULLIF(LTRIM(RTRIM(CONCAT(u.[FirstName], ' ', u.[LastName]))), '') AS [UploadedByName]
+                FROM [ProjectAttachments] a
+                INNER JOIN [Users] u ON u.[Id] = a.[UserId]";
+
+    public ProjectAttachmentRepository(DbConnection dbConnection, ILogger<ProjectAttachmentRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    public async Task<ProjectAttachment?> GetByIdAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE a.[Id] = @Id";
+
+            return await connection.QueryFirstOrDefaultAsync<ProjectAttachment>(sql, new { Id = id });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving attachment {AttachmentId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get the attachments of a project, newest first
+    /// </summary>
+    public async Task<IEnumerable<ProjectAttachment>> GetByProjectIdAsync(int projectId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE a.[ProjectId] = @ProjectId
+                ORDER BY a.[CreatedAt] DESC, a.[Id] DESC";
+
+            return await connection.QueryAsync<ProjectAttachment>(sql, new { ProjectId = projectId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving attachments for project {ProjectId}", projectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Storage keys of all files attached to the given projects
+    /// Read before deleting projects: the rows go with the cascade, the files must be removed separately
+    /// </summary>
+    public async Task<List<string>> GetStorageKeysByProjectIdsAsync(IReadOnlyList<int> projectIds)
+    {
+        try
+        {
+            var keys = new List<string>();
+            if (projectIds.Count == 0)
+            {
+                return keys;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "SELECT [StorageKey] FROM [ProjectAttachments] WHERE [ProjectId] IN @ProjectIds";
+
+            foreach (var chunk in projectIds.Chunk(BatchChunkSize))
+            {
+                keys.AddRange(await connection.QueryAsync<string>(sql, new { ProjectIds = chunk }));
+            }
+
+            return keys;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving attachment storage keys for {Count} projects", projectIds.Count);
+            throw;
+        }
+    }
+
+    public async Task<int> CreateAsync(ProjectAttachment attachment)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                INSERT INTO [ProjectAttachments] ([ProjectId], [UserId], [FileName], [ContentType], [SizeBytes], [StorageKey])
+                VALUES (@ProjectId, @UserId, @FileName, @ContentType, @SizeBytes, @StorageKey);
+                SELECT CAST(SCOPE_IDENTITY() as int)";
+
+            var id = await connection.QuerySingleAsync<int>(
+                sql,
+                new
+                {
+                    attachment.ProjectId,
+                    attachment.UserId,
+                    attachment.FileName,
+                    attachment.ContentType,
+                    attachment.SizeBytes,
+                    attachment.StorageKey
+                });
+
+            _logger.LogInformation("Attachment created with id {AttachmentId} on project {ProjectId}", id, attachment.ProjectId);
+            return id;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating attachment on project {ProjectId}", attachment.ProjectId);
+            throw;
+        }
+    }
+
+    public async Task<bool> DeleteAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "DELETE FROM [ProjectAttachments] WHERE [Id] = @Id";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { Id = id });
+
+            _logger.LogInformation("Attachment {AttachmentId} deleted", id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting attachment {AttachmentId}", id);
+            throw;
+        }
+    }
+}
@@ -0,0 +1,165 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of IProjectCommentRepository
+/// </summary>
+public class ProjectCommentRepository : IProjectCommentRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<ProjectCommentRepository> _logger;
+
+    private const string SelectColumns = @"
+                SELECT c.[Id], c.[ProjectId], c.[ParentCommentId], c.[UserId], c.[Body], c.[IsDeleted],
+                       c.[EditedAt], c.[CreatedAt], c.[UpdatedAt],
+                       u.[Email] AS [AuthorEmail],
+                       NULLIF(LTRIM(RTRIM(CONCAT(u.[FirstName], ' ', u.[LastName]))), '') AS [AuthorName]
+                FROM [ProjectComments] c
+                INNER JOIN [Users] u ON u.[Id] = c.[UserId]";
+
+    public ProjectCommentRepository(DbConnection dbConnection, ILogger<ProjectCommentRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    public async Task<ProjectComment?> GetByIdAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE c.[Id] = @Id";
+
+            return await connection.QueryFirstOrDefaultAsync<ProjectComment>(sql, new { Id = id });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving comment {CommentId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get all comments of a project in posting order
+    /// </summary>
+    public async Task<IEnumerable<ProjectComment>> GetByProjectIdAsync(int projectId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE c.[ProjectId] = @ProjectId
+                ORDER BY c.[CreatedAt], c.[Id]";
+
+            return await connection.QueryAsync<ProjectComment>(sql, new { ProjectId = projectId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving comments for project {ProjectId}", projectId);
+            throw;
+        }
+    }
+
+    public async Task<int> CreateAsync(ProjectComment comment)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                INSERT INTO [ProjectComments] ([ProjectId], [ParentCommentId], [UserId], [Body])
+                VALUES (@ProjectId, @ParentCommentId, @UserId, @Body);
+                SELECT CAST(SCOPE_IDENTITY() as int)";
+
+            var id = await connection.QuerySingleAsync<int>(
+                sql,
+                new { comment.ProjectId, comment.ParentCommentId, comment.UserId, comment.Body });
+
+            _logger.LogInformation("Comment created with id {CommentId} on project {ProjectId}", id, comment.ProjectId);
+            return id;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating comment on project {ProjectId}", comment.ProjectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Replace the text of a comment and record when it was edited
+    /// </summary>
+    public async Task<bool> UpdateBodyAsync(int id, string body)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [ProjectComments]
+                SET [Body] = @Body,
+                    [EditedAt] = GETUTCDATE(),
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE [Id] = @Id AND [IsDeleted] = 0";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { Id = id, Body = body });
+
+            _logger.LogInformation("Comment {CommentId} updated", id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating comment {CommentId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Delete a comment in one transaction:
+    /// a comment with replies is blanked and kept as a placeholder so the thread stays readable,
+    /// otherwise it is removed, together with its parent if that was a placeholder left without replies
+    /// </summary>
+    public async Task<bool> DeleteAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = @"
+                DECLARE @ParentCommentId INT = (SELECT [ParentCommentId] FROM [ProjectComments] WHERE [Id] = @Id);
+
+                IF EXISTS (SELECT 1 FROM [ProjectComments] WHERE [ParentCommentId] = @Id)
+                BEGIN
+                    UPDATE [ProjectComments]
+                    SET [Body] = N'', [IsDeleted] = 1, [UpdatedAt] = GETUTCDATE()
+                    WHERE [Id] = @Id;
+                END
+                ELSE
+                BEGIN
+                    DELETE FROM [ProjectComments] WHERE [Id] = @Id;
+
+                    DELETE FROM [ProjectComments]
+                    WHERE [Id] = @ParentCommentId
+                      AND [IsDeleted] = 1
+                      AND NOT EXISTS (SELECT 1 FROM [ProjectComments] WHERE [ParentCommentId] = @ParentCommentId);
+                END";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { Id = id }, transaction);
+
+            transaction.Commit();
+
+            _logger.LogInformation("Comment {CommentId} deleted", id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting comment {CommentId}", id);
+            throw;
+        }
+    }
+}
@@ -0,0 +1,76 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of IProjectHistoryRepository
+/// </summary>
+public class ProjectHistoryRepository : IProjectHistoryRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<ProjectHistoryRepository> _logger;
+
+    public ProjectHistoryRepository(DbConnection dbConnection, ILogger<ProjectHistoryRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the history of a project, newest first
+    /// </summary>
+    public async Task<IEnumerable<ProjectHistoryEntry>> GetByProjectIdAsync(int projectId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT h.[Id], h.[ProjectId], h.[UserId], h.[Action], h.[Changes], h.[CreatedAt],
+                       u.[Email] AS [ActorEmail],
+                       NULLIF(LTRIM(RTRIM(CONCAT(u.[FirstName], ' ', u.[LastName]))), '') AS [ActorName]
+                FROM [ProjectHistory] h
+                INNER JOIN [Users] u ON u.[Id] = h.[UserId]
+                WHERE h.[ProjectId] = @ProjectId
+                ORDER BY h.[CreatedAt] DESC, h.[Id] DESC";
+
+            return await connection.QueryAsync<ProjectHistoryEntry>(sql, new { ProjectId = projectId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving history for project {ProjectId}", projectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Insert history entries in one transaction
+    /// </summary>
+    public async Task AddManyAsync(IReadOnlyList<ProjectHistoryEntry> entries)
+    {
+        try
+        {
+            if (entries.Count == 0)
+            {
+                return;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = @"
+                INSERT INTO [ProjectHistory] ([ProjectId], [UserId], [Action], [Changes])
+                VALUES (@ProjectId, @UserId, @Action, @Changes)";
+
+            await connection.ExecuteAsync(sql, entries, transaction);
+
+            transaction.Commit();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error adding {Count} project history entries", entries.Count);
+            throw;
+        }
+    }
+}
@@ -0,0 +1,220 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of IProjectMemberRepository
+/// </summary>
+public class ProjectMemberRepository : IProjectMemberRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<ProjectMemberRepository> _logger;
+
+    // SQL Server allows 2100 parameters per command: IN lists are sent in chunks
+    private const int BatchChunkSize = 1000;
+
+    private const string SelectColumns = @"
+                SELECT m.[ProjectId], m.[UserId], m.[Role], m.[CreatedAt], m.[UpdatedAt],
+                       u.[Email],
+                       NULLIF(LTRIM(RTRIM(CONCAT(u.[FirstName], ' ', u.[LastName]))), '') AS [Name]
+                FROM [ProjectMembers] m
+                INNER JOIN [Users] u ON u.[Id] = m.[UserId]";
+
+    public ProjectMemberRepository(DbConnection dbConnection, ILogger<ProjectMemberRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    public async Task<ProjectMember?> GetAsync(int projectId, int userId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE m.[ProjectId] = @ProjectId AND m.[UserId] = @UserId";
+
+            return await connection.QueryFirstOrDefaultAsync<ProjectMember>(
+                sql,
+                new { ProjectId = projectId, UserId = userId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving member {UserId} of project {ProjectId}", userId, projectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get the members of a project, editors first, then by email
+    /// </summary>
+    public async Task<IEnumerable<ProjectMember>> GetByProjectIdAsync(int projectId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE m.[ProjectId] = @ProjectId
+                ORDER BY CASE m.[Role] WHEN 'Editor' THEN 0 ELSE 1 END, u.[Email]";
+
+            return await connection.QueryAsync<ProjectMember>(sql, new { ProjectId = projectId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving members of project {ProjectId}", projectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Role of the user on each of the given projects they are a member of, keyed by project
+    /// </summary>
+    public async Task<Dictionary<int, string>> GetRolesAsync(int userId, IReadOnlyList<int> projectIds)
+    {
+        try
+        {
+            var roles = new Dictionary<int, string>();
+            if (projectIds.Count == 0)
+            {
+                return roles;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT [ProjectId], [UserId], [Role]
+                FROM [ProjectMembers]
+                WHERE [UserId] = @UserId AND [ProjectId] IN @ProjectIds";
+
+            foreach (var chunk in projectIds.Chunk(BatchChunkSize))
+            {
+                var rows = await connection.QueryAsync<ProjectMember>(sql, new { UserId = userId, ProjectIds = chunk });
+                foreach (var row in rows)
+                {
+                    roles[row.ProjectId] = row.Role;
+                }
+            }
+
+            return roles;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving project roles of user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get the users with access to each project: the owner and the members
+    /// </summary>
+    public async Task<Dictionary<int, List<int>>> GetUserIdsAsync(IReadOnlyList<int> projectIds)
+    {
+        try
+        {
+            var userIds = new Dictionary<int, List<int>>();
+            if (projectIds.Count == 0)
+            {
+                return userIds;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT [Id] AS [ProjectId], [UserId] FROM [Projects] WHERE [Id] IN @ProjectIds
+                UNION
+                SELECT [ProjectId], [UserId] FROM [ProjectMembers] WHERE [ProjectId] IN @ProjectIds";
+
+            foreach (var chunk in projectIds.Chunk(BatchChunkSize))
+            {
+                var rows = await connection.QueryAsync<(int ProjectId, int UserId)>(sql, new { ProjectIds = chunk });
+                foreach (var (projectId, userId) in rows)
+                {
+                    if (!userIds.TryGetValue(projectId, out var users))
+                    {
+                        userIds[projectId] = users = [];
+                    }
+                    users.Add(userId);
+                }
+            }
+
+            return userIds;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving users of {Count} projects", projectIds.Count);
+            throw;
+        }
+    }
+
+    public async Task AddAsync(ProjectMember member)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                INSERT INTO [ProjectMembers] ([ProjectId], [UserId], [Role])
+                VALUES (@ProjectId, @UserId, @Role)";
+
+            await connection.ExecuteAsync(sql, new { member.ProjectId, member.UserId, member.Role });
+
+            _logger.LogInformation(
+                "User {UserId} added to project {ProjectId} as {Role}",
+                member.UserId, member.ProjectId, member.Role);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error adding member {UserId} to project {ProjectId}", member.UserId, member.ProjectId);
+            throw;
+        }
+    }
+
+    public async Task<bool> UpdateRoleAsync(int projectId, int userId, string role)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [ProjectMembers]
+                SET [Role] = @Role,
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE [ProjectId] = @ProjectId AND [UserId] = @UserId";
+
+            var rowsAffected = await connection.ExecuteAsync(
+                sql,
+                new { ProjectId = projectId, UserId = userId, Role = role });
+
+            _logger.LogInformation("Member {UserId} of project {ProjectId} is now {Role}", userId, projectId, role);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating member {UserId} of project {ProjectId}", userId, projectId);
+            throw;
+        }
+    }
+
+    public async Task<bool> RemoveAsync(int projectId, int userId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "DELETE FROM [ProjectMembers] WHERE [ProjectId] = @ProjectId AND [UserId] = @UserId";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { ProjectId = projectId, UserId = userId });
+
+            _logger.LogInformation("Member {UserId} removed from project {ProjectId}", userId, projectId);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error removing member {UserId} from project {ProjectId}", userId, projectId);
+            throw;
+        }
+    }
+}
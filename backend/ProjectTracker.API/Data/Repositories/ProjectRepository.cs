@@ -1,7 +1,9 @@
 using Dapper;
 using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Dtos.Projects;
 using ProjectTracker.API.Models.Entities;
 using System.Data;
+using System.Runtime.CompilerServices;
 using System.Text;
 
 namespace ProjectTracker.API.Data.Repositories;
@@ -14,6 +16,17 @@ public class ProjectRepository : IProjectRepository
     private readonly DbConnection _dbConnection;
     private readonly ILogger<ProjectRepository> _logger;
 
+    // SQL Server allows 2100 parameters per command: IN lists are sent in chunks
+    private const int BatchChunkSize = 1000;
+
+    // Projects not in the trash that the user owns or is a member of (see ProjectRoles)
+    private const string AccessibleByUser = @"([DeletedAt] IS NULL AND ([UserId] = @UserId OR EXISTS (SELECT 1 FROM [ProjectMembers] pm
+                WHERE pm.[ProjectId] = [Projects].[Id] AND pm.[UserId] = @UserId)))";
+
+    // Projects not in the trash that the user owns or edits as a member
+    private const string EditableByUser = @"([DeletedAt] IS NULL AND ([UserId] = @UserId OR EXISTS (SELECT 1 FROM [ProjectMembers] pm
+                WHERE pm.[ProjectId] = [Projects].[Id] AND pm.[UserId] = @UserId AND pm.[Role] = 'Editor')))";
+
     public ProjectRepository(DbConnection dbConnection, ILogger<ProjectRepository> logger)
     {
         _dbConnection = dbConnection;
@@ -28,9 +41,9 @@ public class ProjectRepository : IProjectRepository
 
             var sql = @"
                 SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
-                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt]
+                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion]
                 FROM [Projects]
-                WHERE [Id] = @Id";
+                WHERE [Id] = @Id AND [DeletedAt] IS NULL";
 
             var project = await connection.QueryFirstOrDefaultAsync<Project>(
                 sql,
@@ -45,17 +58,20 @@ public class ProjectRepository : IProjectRepository
         }
     }
 
+    /// <summary>
+    /// Get the projects the user owns or is a member of
+    /// </summary>
     public async Task<IEnumerable<Project>> GetByUserIdAsync(int userId)
     {
         try
         {
             using var connection = await _dbConnection.CreateConnectionAsync();
 
-            var sql = @"
+            var sql = $@"
                 SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
-                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt]
+                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion]
                 FROM [Projects]
-                WHERE [UserId] = @UserId
+                WHERE {AccessibleByUser}
                 ORDER BY [CreatedAt] DESC";
 
             var projects = await connection.QueryAsync<Project>(
@@ -73,22 +89,14 @@ public class ProjectRepository : IProjectRepository
 
     public async Task<(IEnumerable<Project> items, int total)> GetPagedAsync(
         int userId,
-        PaginationRequest request)
+        ProjectFilterRequest request)
     {
         try
         {
             using var connection = await _dbConnection.CreateConnectionAsync();
 
             // Build WHERE clause
-            var whereClause = new StringBuilder("WHERE [UserId] = @UserId");
-            var parameters = new DynamicParameters();
-            parameters.Add("@UserId", userId);
-
-            if (!string.IsNullOrWhiteSpace(request.SearchTerm))
-            {
-                whereClause.Append(" AND ([Title] LIKE @SearchTerm OR [Description] LIKE @SearchTerm)");
-                parameters.Add("@SearchTerm", $"%{request.SearchTerm}%");
-            }
+            var (whereClause, parameters) = BuildWhereClause(userId, request);
 
             // Get total count
             var countSql = $"SELECT COUNT(*) FROM [Projects] {whereClause}";
@@ -101,7 +109,7 @@ public class ProjectRepository : IProjectRepository
 
             var sql = $@"
                 SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
-                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt]
+                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion]
                 FROM [Projects]
                 {whereClause}
                 ORDER BY [{sortColumn}] {sortDirection}
@@ -122,6 +130,109 @@ public class ProjectRepository : IProjectRepository
         }
     }
 
+    public async Task<int> CountFilteredAsync(int userId, ProjectFilterRequest request)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var (whereClause, parameters) = BuildWhereClause(userId, request);
+            var sql = $"SELECT COUNT(*) FROM [Projects] {whereClause}";
+
+            return await connection.QuerySingleAsync<int>(sql, parameters);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error counting filtered projects for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// IDs of all projects matching the filters (paging is ignored)
+    /// </summary>
+    public async Task<List<int>> GetFilteredIdsAsync(int userId, ProjectFilterRequest request)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var (whereClause, parameters) = BuildWhereClause(userId, request);
+            var sql = $"SELECT [Id] FROM [Projects] {whereClause}";
+
+            return (await connection.QueryAsync<int>(sql, parameters)).ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving filtered project ids for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get the projects with the given IDs the user can access (other IDs are ignored)
+    /// </summary>
+    public async Task<List<Project>> GetByIdsAsync(int userId, IReadOnlyList<int> ids)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = $@"
+                SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
+                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion]
+                FROM [Projects]
+                WHERE {AccessibleByUser} AND [Id] IN @Ids";
+
+            var projects = new List<Project>(ids.Count);
+            foreach (var chunk in ids.Chunk(BatchChunkSize))
+            {
+                projects.AddRange(await connection.QueryAsync<Project>(sql, new { UserId = userId, Ids = chunk }));
+            }
+
+            return projects;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving projects by ids for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Stream all projects matching the filters (paging is ignored)
+    /// Rows are read unbuffered so large exports never sit in memory as a whole
+    /// </summary>
+    public async IAsyncEnumerable<Project> StreamFilteredAsync(
+        int userId,
+        ProjectFilterRequest request,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        // Iterators cannot yield inside try/catch: errors are logged by the caller
+        using var connection = await _dbConnection.CreateConnectionAsync();
+
+        var (whereClause, parameters) = BuildWhereClause(userId, request);
+        var sortColumn = GetSafeSortColumn(request.SortBy);
+        var sortDirection = request.SortDirection.ToLower() == "desc" ? "DESC" : "ASC";
+
+        var sql = $@"
+            SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
+                   [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion]
+            FROM [Projects]
+            {whereClause}
+            ORDER BY [{sortColumn}] {sortDirection}, [Id] {sortDirection}";
+
+        // QueryUnbufferedAsync is only available on DbConnection (ProfiledDbConnection derives from it)
+        var dbConnection = (System.Data.Common.DbConnection)connection;
+
+        await foreach (var project in dbConnection
+            .QueryUnbufferedAsync<Project>(sql, parameters)
+            .WithCancellation(cancellationToken))
+        {
+            yield return project;
+        }
+    }
+
     public async Task<(IEnumerable<Project> items, int total)> GetInfiniteScrollAsync(
         int userId,
         int skip,
@@ -132,17 +243,17 @@ public class ProjectRepository : IProjectRepository
             using var connection = await _dbConnection.CreateConnectionAsync();
 
             // Get total count
-            var countSql = "SELECT COUNT(*) FROM [Projects] WHERE [UserId] = @UserId";
+            var countSql = $"SELECT COUNT(*) FROM [Projects] WHERE {AccessibleByUser}";
             var total = await connection.QuerySingleAsync<int>(
                 countSql,
                 new { UserId = userId });
 
             // Get projects (take one extra to determine if there are more)
-            var sql = @"
+            var sql = $@"
                 SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
-                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt]
+                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion]
                 FROM [Projects]
-                WHERE [UserId] = @UserId
+                WHERE {AccessibleByUser}
                 ORDER BY [CreatedAt] DESC
                 OFFSET @Skip ROWS
                 FETCH NEXT @Take ROWS ONLY";
@@ -194,7 +305,49 @@ public class ProjectRepository : IProjectRepository
         }
     }
 
-    public async Task<bool> UpdateAsync(Project project)
+    public async Task<List<int>> CreateManyAsync(IReadOnlyList<Project> projects)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = @"
+                INSERT INTO [Projects] ([UserId], [Title], [Description], [Status], [Priority], [StartDate], [DueDate])
+                VALUES (@UserId, @Title, @Description, @Status, @Priority, @StartDate, @DueDate);
+                SELECT CAST(SCOPE_IDENTITY() as int)";
+
+            var ids = new List<int>(projects.Count);
+            foreach (var project in projects)
+            {
+                ids.Add(await connection.QuerySingleAsync<int>(
+                    sql,
+                    new
+                    {
+                        project.UserId,
+                        project.Title,
+                        project.Description,
+                        project.Status,
+                        project.Priority,
+                        project.StartDate,
+                        project.DueDate
+                    },
+                    transaction));
+            }
+
+            transaction.Commit();
+
+            _logger.LogInformation("Created {Count} projects in batch", ids.Count);
+            return ids;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating projects in batch");
+            throw;
+        }
+    }
+
+    public async Task<byte[]?> UpdateAsync(Project project, byte[]? expectedRowVersion = null)
     {
         try
         {
@@ -209,9 +362,11 @@ public class ProjectRepository : IProjectRepository
                     [StartDate] = @StartDate,
                     [DueDate] = @DueDate,
                     [UpdatedAt] = GETUTCDATE()
-                WHERE [Id] = @Id AND [UserId] = @UserId";
+                OUTPUT INSERTED.[RowVersion]
+                WHERE [Id] = @Id AND [UserId] = @UserId AND [DeletedAt] IS NULL
+                  AND (@ExpectedRowVersion IS NULL OR [RowVersion] = @ExpectedRowVersion)";
 
-            var rowsAffected = await connection.ExecuteAsync(
+            var rowVersion = await connection.QuerySingleOrDefaultAsync<byte[]>(
                 sql,
                 new
                 {
@@ -222,11 +377,18 @@ public class ProjectRepository : IProjectRepository
                     project.Status,
                     project.Priority,
                     project.StartDate,
-                    project.DueDate
+                    project.DueDate,
+                    ExpectedRowVersion = expectedRowVersion
                 });
 
+            if (rowVersion is null)
+            {
+                _logger.LogInformation("Project {ProjectId} not updated: missing or changed concurrently", project.Id);
+                return null;
+            }
+
             _logger.LogInformation("Project {ProjectId} updated", project.Id);
-            return rowsAffected > 0;
+            return rowVersion;
         }
         catch (Exception ex)
         {
@@ -235,17 +397,58 @@ public class ProjectRepository : IProjectRepository
         }
     }
 
-    public async Task<bool> DeleteAsync(int id)
+    /// <summary>
+    /// Set status and/or priority (null = unchanged) of the projects the user can edit in one transaction
+    /// </summary>
+    public async Task<int> UpdateManyAsync(int userId, IReadOnlyList<int> ids, string? status, int? priority)
     {
         try
         {
             using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = $@"
+                UPDATE [Projects]
+                SET [Status] = COALESCE(@Status, [Status]),
+                    [Priority] = COALESCE(@Priority, [Priority]),
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE {EditableByUser} AND [Id] IN @Ids";
+
+            var rowsAffected = 0;
+            foreach (var chunk in ids.Chunk(BatchChunkSize))
+            {
+                rowsAffected += await connection.ExecuteAsync(
+                    sql,
+                    new { UserId = userId, Ids = chunk, Status = status, Priority = priority },
+                    transaction);
+            }
 
-            var sql = "DELETE FROM [Projects] WHERE [Id] = @Id";
+            transaction.Commit();
+
+            _logger.LogInformation("Bulk updated {Count} projects for user {UserId}", rowsAffected, userId);
+            return rowsAffected;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error bulk updating projects for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<bool> SoftDeleteAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [Projects]
+                SET [DeletedAt] = GETUTCDATE()
+                WHERE [Id] = @Id AND [DeletedAt] IS NULL";
 
             var rowsAffected = await connection.ExecuteAsync(sql, new { Id = id });
 
-            _logger.LogInformation("Project {ProjectId} deleted", id);
+            _logger.LogInformation("Project {ProjectId} moved to trash", id);
             return rowsAffected > 0;
         }
         catch (Exception ex)
@@ -255,7 +458,43 @@ public class ProjectRepository : IProjectRepository
         }
     }
 
-    public async Task<IEnumerable<Project>> SearchAsync(int userId, string searchTerm)
+    /// <summary>
+    /// Move the projects the user owns with the given IDs to the trash in one transaction
+    /// </summary>
+    public async Task<int> SoftDeleteManyAsync(int userId, IReadOnlyList<int> ids)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = @"
+                UPDATE [Projects]
+                SET [DeletedAt] = GETUTCDATE()
+                WHERE [UserId] = @UserId AND [Id] IN @Ids AND [DeletedAt] IS NULL";
+
+            var rowsAffected = 0;
+            foreach (var chunk in ids.Chunk(BatchChunkSize))
+            {
+                rowsAffected += await connection.ExecuteAsync(sql, new { UserId = userId, Ids = chunk }, transaction);
+            }
+
+            transaction.Commit();
+
+            _logger.LogInformation("Bulk moved {Count} projects to trash for user {UserId}", rowsAffected, userId);
+            return rowsAffected;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error bulk deleting projects for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Projects in the user's trash, most recently deleted first
+    /// </summary>
+    public async Task<IEnumerable<Project>> GetDeletedByUserIdAsync(int userId)
     {
         try
         {
@@ -263,9 +502,119 @@ public class ProjectRepository : IProjectRepository
 
             var sql = @"
                 SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
-                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt]
+                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion], [DeletedAt]
                 FROM [Projects]
-                WHERE [UserId] = @UserId
+                WHERE [UserId] = @UserId AND [DeletedAt] IS NOT NULL
+                ORDER BY [DeletedAt] DESC";
+
+            return await connection.QueryAsync<Project>(sql, new { UserId = userId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving deleted projects for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Take the projects the user owns with the given IDs out of the trash in one transaction
+    /// </summary>
+    public async Task<int> RestoreManyAsync(int userId, IReadOnlyList<int> ids)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = @"
+                UPDATE [Projects]
+                SET [DeletedAt] = NULL
+                WHERE [UserId] = @UserId AND [Id] IN @Ids AND [DeletedAt] IS NOT NULL";
+
+            var rowsAffected = 0;
+            foreach (var chunk in ids.Chunk(BatchChunkSize))
+            {
+                rowsAffected += await connection.ExecuteAsync(sql, new { UserId = userId, Ids = chunk }, transaction);
+            }
+
+            transaction.Commit();
+
+            _logger.LogInformation("Restored {Count} projects from trash for user {UserId}", rowsAffected, userId);
+            return rowsAffected;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error restoring projects for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// IDs of trashed projects deleted before the given time (oldest first), for the retention purge
+    /// </summary>
+    public async Task<List<int>> GetDeletedBeforeAsync(DateTime deletedBefore, int take)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT TOP (@Take) [Id]
+                FROM [Projects]
+                WHERE [DeletedAt] IS NOT NULL AND [DeletedAt] < @DeletedBefore
+                ORDER BY [DeletedAt]";
+
+            var ids = await connection.QueryAsync<int>(sql, new { DeletedBefore = deletedBefore, Take = take });
+            return ids.ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving projects deleted before {DeletedBefore}", deletedBefore);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Permanently delete trashed projects with the given IDs in one transaction
+    /// </summary>
+    public async Task<int> PurgeManyAsync(IReadOnlyList<int> ids)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = "DELETE FROM [Projects] WHERE [Id] IN @Ids AND [DeletedAt] IS NOT NULL";
+
+            var rowsAffected = 0;
+            foreach (var chunk in ids.Chunk(BatchChunkSize))
+            {
+                rowsAffected += await connection.ExecuteAsync(sql, new { Ids = chunk }, transaction);
+            }
+
+            transaction.Commit();
+
+            _logger.LogInformation("Purged {Count} projects", rowsAffected);
+            return rowsAffected;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error purging {Count} projects", ids.Count);
+            throw;
+        }
+    }
+
+    public async Task<IEnumerable<Project>> SearchAsync(int userId, string searchTerm)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = $@"
+                SELECT [Id], [UserId], [Title], [Description], [Status], [Priority],
+                       [StartDate], [DueDate], [CreatedAt], [UpdatedAt], [RowVersion]
+                FROM [Projects]
+                WHERE {AccessibleByUser}
                   AND ([Title] LIKE @SearchTerm OR [Description] LIKE @SearchTerm)
                 ORDER BY [CreatedAt] DESC";
 
@@ -282,6 +631,176 @@ public class ProjectRepository : IProjectRepository
         }
     }
 
+    /// <summary>
+    /// Counts by status and priority, overdue and due in the 7 days from today, in one round trip
+    /// </summary>
+    public async Task<ProjectStats> GetStatsAsync(int userId, DateTime today)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = $@"
+                SELECT [Status] AS [Key], COUNT(*) AS [Count]
+                FROM [Projects]
+                WHERE {AccessibleByUser}
+                GROUP BY [Status];
+
+                SELECT [Priority] AS [Key], COUNT(*) AS [Count]
+                FROM [Projects]
+                WHERE {AccessibleByUser}
+                GROUP BY [Priority];
+
+                SELECT
+                    COUNT(CASE WHEN [DueDate] < @Today THEN 1 END) AS [Overdue],
+                    COUNT(CASE WHEN [DueDate] >= @Today AND [DueDate] < @WeekEnd THEN 1 END) AS [DueThisWeek]
+                FROM [Projects]
+                WHERE {AccessibleByUser} AND [Status] IN ('Active', 'OnHold')";
+
+            using var results = await connection.QueryMultipleAsync(
+                sql,
+                new { UserId = userId, Today = today.Date, WeekEnd = today.Date.AddDays(7) });
+
+            var byStatus = (await results.ReadAsync<(string Key, int Count)>()).ToDictionary(r => r.Key, r => r.Count);
+            var byPriority = (await results.ReadAsync<(int Key, int Count)>()).ToDictionary(r => r.Key, r => r.Count);
+            var due = await results.ReadSingleAsync<(int Overdue, int DueThisWeek)>();
+
+            return new ProjectStats
+            {
+                ByStatus = byStatus,
+                ByPriority = byPriority,
+                Overdue = due.Overdue,
+                DueThisWeek = due.DueThisWeek
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving project statistics for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// When accessible projects were completed since the given time, from the project history
+    /// (created as Completed or changed to Completed; a project completed twice counts twice)
+    /// </summary>
+    public async Task<List<DateTime>> GetCompletionTimesAsync(int userId, DateTime since)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = $@"
+                SELECT h.[CreatedAt]
+                FROM [ProjectHistory] h
+                WHERE h.[ProjectId] IN (SELECT [Id] FROM [Projects] WHERE {AccessibleByUser})
+                  AND h.[CreatedAt] >= @Since
+                  AND EXISTS (SELECT 1 FROM OPENJSON(h.[Changes])
+                        WITH ([Field] NVARCHAR(20) '$.field', [NewValue] NVARCHAR(50) '$.newValue') c
+                        WHERE c.[Field] = 'status' AND c.[NewValue] = 'Completed')";
+
+            var times = await connection.QueryAsync<DateTime>(sql, new { UserId = userId, Since = since });
+            return times.ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving completion times for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Build the WHERE clause for the projects the user can access with search term and filters
+    /// </summary>
+    private static (StringBuilder whereClause, DynamicParameters parameters) BuildWhereClause(
+        int userId,
+        ProjectFilterRequest request)
+    {
+        var whereClause = new StringBuilder($"WHERE {AccessibleByUser}");
+        var parameters = new DynamicParameters();
+        parameters.Add("@UserId", userId);
+
+        if (!string.IsNullOrWhiteSpace(request.SearchTerm))
+        {
+            whereClause.Append(" AND ([Title] LIKE @SearchTerm OR [Description] LIKE @SearchTerm)");
+            parameters.Add("@SearchTerm", $"%{request.SearchTerm}%");
+        }
+
+        AppendFilters(whereClause, parameters, request);
+
+        return (whereClause, parameters);
+    }
+
+    /// <summary>
+    /// Append status, priority, date range and tag filters to the WHERE clause
+    /// "To" dates are inclusive: compared against the start of the following day
+    /// </summary>
+    private static void AppendFilters(StringBuilder whereClause, DynamicParameters parameters, ProjectFilterRequest request)
+    {
+        var statuses = request.Status?
+            .Where(s => !string.IsNullOrWhiteSpace(s))
+            .ToArray();
+        if (statuses is { Length: > 0 })
+        {
+            whereClause.Append(" AND [Status] IN @Statuses");
+            parameters.Add("@Statuses", statuses);
+        }
+
+        if (request.PriorityMin.HasValue)
+        {
+            whereClause.Append(" AND [Priority] >= @PriorityMin");
+            parameters.Add("@PriorityMin", request.PriorityMin.Value);
+        }
+
+        if (request.PriorityMax.HasValue)
+        {
+            whereClause.Append(" AND [Priority] <= @PriorityMax");
+            parameters.Add("@PriorityMax", request.PriorityMax.Value);
+        }
+
+        if (request.StartDateFrom.HasValue)
+        {
+            whereClause.Append(" AND [StartDate] >= @StartDateFrom");
+            parameters.Add("@StartDateFrom", request.StartDateFrom.Value.Date);
+        }
+
+        if (request.StartDateTo.HasValue)
+        {
+            whereClause.Append(" AND [StartDate] < @StartDateTo");
+            parameters.Add("@StartDateTo", request.StartDateTo.Value.Date.AddDays(1));
+        }
+
+        if (request.DueDateFrom.HasValue)
+        {
+            whereClause.Append(" AND [DueDate] >= @DueDateFrom");
+            parameters.Add("@DueDateFrom", request.DueDateFrom.Value.Date);
+        }
+
+        if (request.DueDateTo.HasValue)
+        {
+            whereClause.Append(" AND [DueDate] < @DueDateTo");
+            parameters.Add("@DueDateTo", request.DueDateTo.Value.Date.AddDays(1));
+        }
+
+        var tagIds = request.TagIds?.Distinct().ToArray();
+        if (tagIds is { Length: > 0 })
+        {
+            if (string.Equals(request.TagMatch, "all", StringComparison.OrdinalIgnoreCase))
+            {
+                // Every selected tag: count the matching links of the project
+                whereClause.Append(@" AND (SELECT COUNT(*) FROM [ProjectTags] pt
+                    WHERE pt.[ProjectId] = [Projects].[Id] AND pt.[TagId] IN @TagIds) = @TagCount");
+                parameters.Add("@TagCount", tagIds.Length);
+            }
+            else
+            {
+                whereClause.Append(@" AND EXISTS (SELECT 1 FROM [ProjectTags] pt
+                    WHERE pt.[ProjectId] = [Projects].[Id] AND pt.[TagId] IN @TagIds)");
+            }
+            parameters.Add("@TagIds", tagIds);
+        }
+    }
+
     /// <summary>
     /// Prevent SQL injection by validating sort column names
     /// </summary>
@@ -0,0 +1,238 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of IProjectTaskRepository
+/// </summary>
+public class ProjectTaskRepository : IProjectTaskRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<ProjectTaskRepository> _logger;
+
+    // Keeps IN lists well below the SQL Server parameter limit (2100)
+    private const int BatchChunkSize = 1000;
+
+    private const string SelectColumns = @"
+                SELECT t.[Id], t.[ProjectId], t.[ParentTaskId], t.[Title], t.[IsDone], t.[AssigneeId],
+                       t.[DueDate], t.[SortOrder], t.[CompletedAt], t.[CreatedAt], t.[UpdatedAt],
+                       u.[Email] AS [AssigneeEmail],
+                       NULLIF(LTRIM(RTRIM(CONCAT(u.[FirstName], ' ', u.[LastName]))), '') AS [AssigneeName]
+                FROM [ProjectTasks] t
+                LEFT JOIN [Users] u ON u.[Id] = t.[AssigneeId]";
+
+    public ProjectTaskRepository(DbConnection dbConnection, ILogger<ProjectTaskRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    public async Task<ProjectTask?> GetByIdAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE t.[Id] = @Id";
+
+            return await connection.QueryFirstOrDefaultAsync<ProjectTask>(sql, new { Id = id });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving task {TaskId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get all tasks of a project, top-level tasks first, each group in checklist order
+    /// </summary>
+    public async Task<IEnumerable<ProjectTask>> GetByProjectIdAsync(int projectId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE t.[ProjectId] = @ProjectId
+                ORDER BY CASE WHEN t.[ParentTaskId] IS NULL THEN 0 ELSE 1 END, t.[SortOrder], t.[Id]";
+
+            return await connection.QueryAsync<ProjectTask>(sql, new { ProjectId = projectId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving tasks for project {ProjectId}", projectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Create a task at the end of its parent's list
+    /// </summary>
+    public async Task<int> CreateAsync(ProjectTask task)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                INSERT INTO [ProjectTasks] ([ProjectId], [ParentTaskId], [Title], [IsDone], [AssigneeId], [DueDate], [SortOrder])
+                SELECT @ProjectId, @ParentTaskId, @Title, 0, @AssigneeId, @DueDate, ISNULL(MAX([SortOrder]) + 1, 0)
+                FROM [ProjectTasks]
+                WHERE [ProjectId] = @ProjectId
+                  AND (([ParentTaskId] IS NULL AND @ParentTaskId IS NULL) OR [ParentTaskId] = @ParentTaskId);
+                SELECT CAST(SCOPE_IDENTITY() as int)";
+
+            var id = await connection.QuerySingleAsync<int>(
+                sql,
+                new { task.ProjectId, task.ParentTaskId, task.Title, task.AssigneeId, task.DueDate });
+
+            _logger.LogInformation("Task created with id {TaskId} in project {ProjectId}", id, task.ProjectId);
+            return id;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating task in project {ProjectId}", task.ProjectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Update a task; CompletedAt is set when the task is checked and cleared when unchecked
+    /// </summary>
+    public async Task<bool> UpdateAsync(ProjectTask task)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [ProjectTasks]
+                SET [Title] = @Title,
+                    [CompletedAt] = CASE
+                        WHEN @IsDone = 0 THEN NULL
+                        WHEN [IsDone] = 0 THEN GETUTCDATE()
+                        ELSE [CompletedAt] END,
+                    [IsDone] = @IsDone,
+                    [AssigneeId] = @AssigneeId,
+                    [DueDate] = @DueDate,
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE [Id] = @Id";
+
+            var rowsAffected = await connection.ExecuteAsync(
+                sql,
+                new { task.Id, task.Title, task.IsDone, task.AssigneeId, task.DueDate });
+
+            _logger.LogInformation("Task {TaskId} updated", task.Id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating task {TaskId}", task.Id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Delete a task together with its subtasks
+    /// </summary>
+    public async Task<bool> DeleteAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "DELETE FROM [ProjectTasks] WHERE [Id] = @Id OR [ParentTaskId] = @Id";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { Id = id });
+
+            _logger.LogInformation("Task {TaskId} deleted ({Count} rows including subtasks)", id, rowsAffected);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting task {TaskId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Renumber the tasks of one parent in the given order, in one transaction
+    /// IDs that are not children of that parent in that project are ignored
+    /// </summary>
+    public async Task<int> ReorderAsync(int projectId, int? parentTaskId, IReadOnlyList<int> orderedIds)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var sql = @"
+                UPDATE [ProjectTasks]
+                SET [SortOrder] = @SortOrder,
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE [Id] = @Id
+                  AND [ProjectId] = @ProjectId
+                  AND (([ParentTaskId] IS NULL AND @ParentTaskId IS NULL) OR [ParentTaskId] = @ParentTaskId)";
+
+            var rowsAffected = await connection.ExecuteAsync(
+                sql,
+                orderedIds.Select((id, index) => new { Id = id, SortOrder = index, ProjectId = projectId, ParentTaskId = parentTaskId }),
+                transaction);
+
+            transaction.Commit();
+
+            _logger.LogInformation("Reordered {Count} tasks in project {ProjectId}", rowsAffected, projectId);
+            return rowsAffected;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reordering tasks in project {ProjectId}", projectId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Count total and completed tasks (subtasks included) for each of the given projects
+    /// Projects without tasks are not present in the result
+    /// </summary>
+    public async Task<Dictionary<int, TaskProgress>> GetProgressAsync(IReadOnlyList<int> projectIds)
+    {
+        try
+        {
+            var progress = new Dictionary<int, TaskProgress>();
+            if (projectIds.Count == 0)
+            {
+                return progress;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT [ProjectId],
+                       COUNT(*) AS [TotalTasks],
+                       SUM(CASE WHEN [IsDone] = 1 THEN 1 ELSE 0 END) AS [DoneTasks]
+                FROM [ProjectTasks]
+                WHERE [ProjectId] IN @ProjectIds
+                GROUP BY [ProjectId]";
+
+            foreach (var chunk in projectIds.Chunk(BatchChunkSize))
+            {
+                var rows = await connection.QueryAsync<TaskProgress>(sql, new { ProjectIds = chunk });
+                foreach (var row in rows)
+                {
+                    progress[row.ProjectId] = row;
+                }
+            }
+
+            return progress;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving task progress for {Count} projects", projectIds.Count);
+            throw;
+        }
+    }
+}
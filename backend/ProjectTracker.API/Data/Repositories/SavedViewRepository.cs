@@ -0,0 +1,160 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of ISavedViewRepository
+/// </summary>
+public class SavedViewRepository : ISavedViewRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<SavedViewRepository> _logger;
+
+    public SavedViewRepository(DbConnection dbConnection, ILogger<SavedViewRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    public async Task<SavedView?> GetByIdAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT [Id], [UserId], [Name], [Filters], [IsDefault], [CreatedAt], [UpdatedAt]
+                FROM [SavedViews]
+                WHERE [Id] = @Id";
+
+            return await connection.QueryFirstOrDefaultAsync<SavedView>(sql, new { Id = id });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving saved view {SavedViewId}", id);
+            throw;
+        }
+    }
+
+    public async Task<IEnumerable<SavedView>> GetByUserIdAsync(int userId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT [Id], [UserId], [Name], [Filters], [IsDefault], [CreatedAt], [UpdatedAt]
+                FROM [SavedViews]
+                WHERE [UserId] = @UserId
+                ORDER BY [Name]";
+
+            return await connection.QueryAsync<SavedView>(sql, new { UserId = userId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving saved views for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<int> CreateAsync(SavedView view)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                INSERT INTO [SavedViews] ([UserId], [Name], [Filters], [IsDefault])
+                VALUES (@UserId, @Name, @Filters, 0);
+                SELECT CAST(SCOPE_IDENTITY() as int)";
+
+            var id = await connection.QuerySingleAsync<int>(
+                sql,
+                new { view.UserId, view.Name, view.Filters });
+
+            _logger.LogInformation("Saved view created with id {SavedViewId}", id);
+            return id;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating saved view");
+            throw;
+        }
+    }
+
+    public async Task<bool> UpdateAsync(SavedView view)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [SavedViews]
+                SET [Name] = @Name,
+                    [Filters] = @Filters,
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE [Id] = @Id AND [UserId] = @UserId";
+
+            var rowsAffected = await connection.ExecuteAsync(
+                sql,
+                new { view.Id, view.UserId, view.Name, view.Filters });
+
+            _logger.LogInformation("Saved view {SavedViewId} updated", view.Id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating saved view {SavedViewId}", view.Id);
+            throw;
+        }
+    }
+
+    public async Task<bool> DeleteAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = "DELETE FROM [SavedViews] WHERE [Id] = @Id";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { Id = id });
+
+            _logger.LogInformation("Saved view {SavedViewId} deleted", id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting saved view {SavedViewId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Pin a view as the user's default (or clear the default when viewId is null)
+    /// Single statement so at most one view per user is ever marked as default
+    /// </summary>
+    public async Task<bool> SetDefaultAsync(int userId, int? viewId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [SavedViews]
+                SET [IsDefault] = CASE WHEN [Id] = @ViewId THEN 1 ELSE 0 END,
+                    [UpdatedAt] = CASE WHEN [Id] = @ViewId OR [IsDefault] = 1 THEN GETUTCDATE() ELSE [UpdatedAt] END
+                WHERE [UserId] = @UserId";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { UserId = userId, ViewId = viewId });
+
+            _logger.LogInformation("Default saved view for user {UserId} set to {SavedViewId}", userId, viewId);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error setting default saved view for user {UserId}", userId);
+            throw;
+        }
+    }
+}
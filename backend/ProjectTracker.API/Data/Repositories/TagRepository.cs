@@ -0,0 +1,330 @@
+using Dapper;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Data.Repositories;
+
+/// <summary>
+/// Dapper-based implementation of ITagRepository
+/// </summary>
+public class TagRepository : ITagRepository
+{
+    private readonly DbConnection _dbConnection;
+    private readonly ILogger<TagRepository> _logger;
+
+    // SQL Server allows 2100 parameters per command: IN lists are sent in chunks
+    private const int BatchChunkSize = 1000;
+
+    private const string SelectColumns = @"
+                SELECT t.[Id], t.[UserId], t.[Name], t.[Color], t.[CreatedAt], t.[UpdatedAt],
+                       (SELECT COUNT(*) FROM [ProjectTags] pt
+                        INNER JOIN [Projects] p ON p.[Id] = pt.[ProjectId]
+                        WHERE pt.[TagId] = t.[Id] AND p.[DeletedAt] IS NULL) AS [ProjectCount]
+                FROM [Tags] t";
+
+    public TagRepository(DbConnection dbConnection, ILogger<TagRepository> logger)
+    {
+        _dbConnection = dbConnection;
+        _logger = logger;
+    }
+
+    public async Task<Tag?> GetByIdAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE t.[Id] = @Id";
+
+            return await connection.QueryFirstOrDefaultAsync<Tag>(sql, new { Id = id });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving tag {TagId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get all tags of a user in name order, with the number of projects using each
+    /// </summary>
+    public async Task<IEnumerable<Tag>> GetByUserIdAsync(int userId)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE t.[UserId] = @UserId
+                ORDER BY t.[Name]";
+
+            return await connection.QueryAsync<Tag>(sql, new { UserId = userId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving tags for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Find a tag of the user by name (case-insensitive, following the database collation)
+    /// </summary>
+    public async Task<Tag?> GetByNameAsync(int userId, string name)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE t.[UserId] = @UserId AND t.[Name] = @Name";
+
+            return await connection.QueryFirstOrDefaultAsync<Tag>(sql, new { UserId = userId, Name = name });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving tag by name for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Get the user's tags with the given IDs (IDs of other users are ignored)
+    /// </summary>
+    public async Task<List<Tag>> GetByIdsAsync(int userId, IReadOnlyList<int> ids)
+    {
+        try
+        {
+            var tags = new List<Tag>(ids.Count);
+            if (ids.Count == 0)
+            {
+                return tags;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = SelectColumns + @"
+                WHERE t.[UserId] = @UserId AND t.[Id] IN @Ids";
+
+            foreach (var chunk in ids.Chunk(BatchChunkSize))
+            {
+                tags.AddRange(await connection.QueryAsync<Tag>(sql, new { UserId = userId, Ids = chunk }));
+            }
+
+            return tags;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving tags by ids for user {UserId}", userId);
+            throw;
+        }
+    }
+
+    public async Task<int> CreateAsync(Tag tag)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                INSERT INTO [Tags] ([UserId], [Name], [Color])
+                VALUES (@UserId, @Name, @Color);
+                SELECT CAST(SCOPE_IDENTITY() as int)";
+
+            var id = await connection.QuerySingleAsync<int>(sql, new { tag.UserId, tag.Name, tag.Color });
+
+            _logger.LogInformation("Tag created with id {TagId}", id);
+            return id;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating tag for user {UserId}", tag.UserId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Rename and/or recolor a tag
+    /// </summary>
+    public async Task<bool> UpdateAsync(Tag tag)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                UPDATE [Tags]
+                SET [Name] = @Name,
+                    [Color] = @Color,
+                    [UpdatedAt] = GETUTCDATE()
+                WHERE [Id] = @Id";
+
+            var rowsAffected = await connection.ExecuteAsync(sql, new { tag.Id, tag.Name, tag.Color });
+
+            _logger.LogInformation("Tag {TagId} updated", tag.Id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating tag {TagId}", tag.Id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Delete a tag and remove it from its projects
+    /// </summary>
+    public async Task<bool> DeleteAsync(int id)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            await connection.ExecuteAsync("DELETE FROM [ProjectTags] WHERE [TagId] = @Id", new { Id = id }, transaction);
+            var rowsAffected = await connection.ExecuteAsync("DELETE FROM [Tags] WHERE [Id] = @Id", new { Id = id }, transaction);
+
+            transaction.Commit();
+
+            _logger.LogInformation("Tag {TagId} deleted", id);
+            return rowsAffected > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting tag {TagId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Merge tags into a target tag in one transaction: projects of the source tags get
+    /// the target tag (once), then the source tags are deleted
+    /// Returns the number of projects that gained the target tag
+    /// </summary>
+    public async Task<int> MergeAsync(int targetTagId, IReadOnlyList<int> sourceTagIds)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            var relinkSql = @"
+                INSERT INTO [ProjectTags] ([ProjectId], [TagId])
+                SELECT DISTINCT pt.[ProjectId], @TargetTagId
+                FROM [ProjectTags] pt
+                WHERE pt.[TagId] IN @SourceTagIds
+                  AND NOT EXISTS (
+                      SELECT 1 FROM [ProjectTags] existing
+                      WHERE existing.[ProjectId] = pt.[ProjectId] AND existing.[TagId] = @TargetTagId)";
+
+            var relinked = await connection.ExecuteAsync(
+                relinkSql,
+                new { TargetTagId = targetTagId, SourceTagIds = sourceTagIds },
+                transaction);
+
+            await connection.ExecuteAsync(
+                "DELETE FROM [ProjectTags] WHERE [TagId] IN @SourceTagIds",
+                new { SourceTagIds = sourceTagIds },
+                transaction);
+            await connection.ExecuteAsync(
+                "DELETE FROM [Tags] WHERE [Id] IN @SourceTagIds",
+                new { SourceTagIds = sourceTagIds },
+                transaction);
+            await connection.ExecuteAsync(
+                "UPDATE [Tags] SET [UpdatedAt] = GETUTCDATE() WHERE [Id] = @TargetTagId",
+                new { TargetTagId = targetTagId },
+                transaction);
+
+            transaction.Commit();
+
+            _logger.LogInformation(
+                "Merged {Count} tags into tag {TagId}, {Relinked} projects relinked",
+                sourceTagIds.Count, targetTagId, relinked);
+            return relinked;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error merging tags into tag {TagId}", targetTagId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Tags of the given projects in name order, grouped by project
+    /// </summary>
+    public async Task<Dictionary<int, List<ProjectTag>>> GetByProjectIdsAsync(IReadOnlyList<int> projectIds)
+    {
+        try
+        {
+            var tags = new Dictionary<int, List<ProjectTag>>();
+            if (projectIds.Count == 0)
+            {
+                return tags;
+            }
+
+            using var connection = await _dbConnection.CreateConnectionAsync();
+
+            var sql = @"
+                SELECT pt.[ProjectId], pt.[TagId], t.[Name], t.[Color]
+                FROM [ProjectTags] pt
+                INNER JOIN [Tags] t ON t.[Id] = pt.[TagId]
+                WHERE pt.[ProjectId] IN @ProjectIds
+                ORDER BY t.[Name]";
+
+            foreach (var chunk in projectIds.Chunk(BatchChunkSize))
+            {
+                var rows = await connection.QueryAsync<ProjectTag>(sql, new { ProjectIds = chunk });
+                foreach (var row in rows)
+                {
+                    if (!tags.TryGetValue(row.ProjectId, out var projectTags))
+                    {
+                        projectTags = [];
+                        tags[row.ProjectId] = projectTags;
+                    }
+                    projectTags.Add(row);
+                }
+            }
+
+            return tags;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving tags for {Count} projects", projectIds.Count);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Replace the tags of a project with the given ones in one transaction
+    /// </summary>
+    public async Task SetProjectTagsAsync(int projectId, IReadOnlyList<int> tagIds)
+    {
+        try
+        {
+            using var connection = await _dbConnection.CreateConnectionAsync();
+            using var transaction = connection.BeginTransaction();
+
+            await connection.ExecuteAsync(
+                "DELETE FROM [ProjectTags] WHERE [ProjectId] = @ProjectId",
+                new { ProjectId = projectId },
+                transaction);
+
+            if (tagIds.Count > 0)
+            {
+                await connection.ExecuteAsync(
+                    "INSERT INTO [ProjectTags] ([ProjectId], [TagId]) VALUES (@ProjectId, @TagId)",
+                    tagIds.Distinct().Select(tagId => new { ProjectId = projectId, TagId = tagId }),
+                    transaction);
+            }
+
+            transaction.Commit();
+
+            _logger.LogInformation("Set {Count} tags on project {ProjectId}", tagIds.Count, projectId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error setting tags of project {ProjectId}", projectId);
+            throw;
+        }
+    }
+}
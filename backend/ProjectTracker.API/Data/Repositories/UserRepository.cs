@@ -25,8 +25,8 @@ public class UserRepository : IUserRepository
             using var connection = await _dbConnection.CreateConnectionAsync();
 
             var sql = @"
-                SELECT [Id], [Email], [PasswordHash], [FirstName], [LastName], 
-                       [IsActive], [CreatedAt], [UpdatedAt]
+                SELECT [Id], [Email], [PasswordHash], [FirstName], [LastName],
+                       [IsActive], [Role], [CreatedAt], [UpdatedAt]
                 FROM [Users]
                 WHERE [Id] = @Id";
 
@@ -51,7 +51,7 @@ public class UserRepository : IUserRepository
 
             var sql = @"
                 SELECT [Id], [Email], [PasswordHash], [FirstName], [LastName],
-                       [IsActive], [CreatedAt], [UpdatedAt]
+                       [IsActive], [Role], [CreatedAt], [UpdatedAt]
                 FROM [Users]
                 WHERE [Email] = @Email";
 
@@ -76,7 +76,7 @@ public class UserRepository : IUserRepository
 
             var sql = @"
                 SELECT [Id], [Email], [PasswordHash], [FirstName], [LastName],
-                       [IsActive], [CreatedAt], [UpdatedAt]
+                       [IsActive], [Role], [CreatedAt], [UpdatedAt]
                 FROM [Users]
                 ORDER BY [CreatedAt] DESC";
 
@@ -109,7 +109,8 @@ public class UserRepository : IUserRepository
                     user.PasswordHash,
                     user.FirstName,
                     user.LastName,
-                    user.IsActive
+                    user.IsActive,
+                    user.Role
                 });
 
             _logger.LogInformation("User created with id {UserId}", id);
@@ -134,6 +135,7 @@ public class UserRepository : IUserRepository
                     [FirstName] = @FirstName,
                     [LastName] = @LastName,
                     [IsActive] = @IsActive,
+                    [Role] = @Role,
                     [UpdatedAt] = GETUTCDATE()
                 WHERE [Id] = @Id";
 
@@ -0,0 +1,16 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.SignalR;
+
+namespace ProjectTracker.API.Hubs;
+
+/// <summary>
+/// Real-time channel for project changes (mapped at /api/hubs/projects)
+/// The server only pushes: clients receive "ProjectsChanged" with the changes made to projects
+/// they own or are a member of (see IProjectUpdatePublisher). Connections are addressed by user ID
+/// (the NameIdentifier claim of the access token, passed as access_token on the query string)
+/// </summary>
+[Authorize]
+public class ProjectHub : Hub
+{
+    public const string ProjectsChangedMethod = "ProjectsChanged";
+}
@@ -0,0 +1,14 @@
+namespace ProjectTracker.API.Models.Common;
+
+/// <summary>
+/// Actions recorded in the project history
+/// StatusChanged is an update that changed the status and nothing else (board moves, bulk status changes)
+/// </summary>
+public static class ProjectHistoryActions
+{
+    public const string Created = "Created";
+    public const string Updated = "Updated";
+    public const string StatusChanged = "StatusChanged";
+    public const string Deleted = "Deleted";
+    public const string Restored = "Restored";
+}
@@ -0,0 +1,27 @@
+namespace ProjectTracker.API.Models.Common;
+
+/// <summary>
+/// Roles of a user on a project and the permissions they grant
+/// The owner is the project's UserId; editors and viewers are project members
+/// </summary>
+public static class ProjectRoles
+{
+    public const string Owner = "Owner";
+    public const string Editor = "Editor";
+    public const string Viewer = "Viewer";
+
+    /// <summary>
+    /// Roles that can be given to a member
+    /// </summary>
+    public static readonly string[] MemberRoles = [Editor, Viewer];
+
+    /// <summary>
+    /// Edit the project and its tasks and attachments
+    /// </summary>
+    public static bool CanEdit(string? role) => role is Owner or Editor;
+
+    /// <summary>
+    /// Delete the project and manage its members
+    /// </summary>
+    public static bool CanManage(string? role) => role is Owner;
+}
@@ -0,0 +1,10 @@
+namespace ProjectTracker.API.Models.Common;
+
+/// <summary>
+/// Application-wide roles of a user, issued as the role claim of the access token
+/// </summary>
+public static class UserRoles
+{
+    public const string User = "User";
+    public const string Admin = "Admin";
+}
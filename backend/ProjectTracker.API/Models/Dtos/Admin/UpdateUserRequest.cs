@@ -0,0 +1,21 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Admin;
+
+/// <summary>
+/// Request model for an administrator changing the role or status of a user
+/// </summary>
+public class UpdateUserRequest
+{
+    /// <summary>
+    /// Application role: User or Admin
+    /// </summary>
+    [Required]
+    [RegularExpression("^(User|Admin)$", ErrorMessage = "Role must be User or Admin")]
+    public required string Role { get; set; }
+
+    /// <summary>
+    /// Inactive users cannot log in or refresh their tokens
+    /// </summary>
+    public bool IsActive { get; set; }
+}
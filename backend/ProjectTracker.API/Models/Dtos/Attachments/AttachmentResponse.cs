@@ -0,0 +1,52 @@
+namespace ProjectTracker.API.Models.Dtos.Attachments;
+
+/// <summary>
+/// Response model for a project attachment (metadata only, the content is downloaded separately)
+/// </summary>
+public class AttachmentResponse
+{
+    /// <summary>
+    /// Unique attachment identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Project the file is attached to
+    /// </summary>
+    public int ProjectId { get; set; }
+
+    /// <summary>
+    /// Original file name
+    /// </summary>
+    public string FileName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// MIME type derived from the file extension
+    /// </summary>
+    public string ContentType { get; set; } = string.Empty;
+
+    /// <summary>
+    /// File size in bytes
+    /// </summary>
+    public long SizeBytes { get; set; }
+
+    /// <summary>
+    /// Uploader user identifier
+    /// </summary>
+    public int UploadedById { get; set; }
+
+    /// <summary>
+    /// Uploader full name
+    /// </summary>
+    public string? UploadedByName { get; set; }
+
+    /// <summary>
+    /// Uploader email
+    /// </summary>
+    public string? UploadedByEmail { get; set; }
+
+    /// <summary>
+    /// Upload timestamp
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+}
@@ -35,6 +35,11 @@ public class UserResponse
     /// </summary>
     public bool IsActive { get; set; }
 
+    /// <summary>
+    /// Application role of the user: User or Admin
+    /// </summary>
+    public string Role { get; set; } = string.Empty;
+
     /// <summary>
     /// User account creation timestamp
     /// </summary>
@@ -0,0 +1,62 @@
+namespace ProjectTracker.API.Models.Dtos.Comments;
+
+/// <summary>
+/// Response model for a project comment
+/// </summary>
+public class CommentResponse
+{
+    /// <summary>
+    /// Unique comment identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Project the comment belongs to
+    /// </summary>
+    public int ProjectId { get; set; }
+
+    /// <summary>
+    /// First comment of the thread (null for top-level comments)
+    /// </summary>
+    public int? ParentCommentId { get; set; }
+
+    /// <summary>
+    /// Comment text (empty for deleted comments)
+    /// </summary>
+    public string Body { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Author user identifier
+    /// </summary>
+    public int AuthorId { get; set; }
+
+    /// <summary>
+    /// Author full name
+    /// </summary>
+    public string? AuthorName { get; set; }
+
+    /// <summary>
+    /// Author email
+    /// </summary>
+    public string? AuthorEmail { get; set; }
+
+    /// <summary>
+    /// Whether the authenticated user wrote the comment (and may edit or delete it)
+    /// </summary>
+    public bool IsOwn { get; set; }
+
+    /// <summary>
+    /// Whether the comment was deleted and is only kept for its replies
+    /// </summary>
+    public bool IsDeleted { get; set; }
+
+    /// <summary>
+    /// Comment creation timestamp
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Last edit timestamp (null if never edited)
+    /// </summary>
+    public DateTime? EditedAt { get; set; }
+}
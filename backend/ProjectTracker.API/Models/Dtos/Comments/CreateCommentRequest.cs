@@ -0,0 +1,21 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Comments;
+
+/// <summary>
+/// Request model for posting a comment or a reply on a project
+/// </summary>
+public class CreateCommentRequest
+{
+    /// <summary>
+    /// Comment text (maximum 4000 characters)
+    /// </summary>
+    [Required]
+    [StringLength(4000, MinimumLength = 1)]
+    public required string Body { get; set; }
+
+    /// <summary>
+    /// Comment being replied to (replies to a reply join the same thread)
+    /// </summary>
+    public int? ParentCommentId { get; set; }
+}
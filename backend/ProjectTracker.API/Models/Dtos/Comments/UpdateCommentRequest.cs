@@ -0,0 +1,16 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Comments;
+
+/// <summary>
+/// Request model for editing the text of a comment
+/// </summary>
+public class UpdateCommentRequest
+{
+    /// <summary>
+    /// Comment text (maximum 4000 characters)
+    /// </summary>
+    [Required]
+    [StringLength(4000, MinimumLength = 1)]
+    public required string Body { get; set; }
+}
@@ -0,0 +1,14 @@
+namespace ProjectTracker.API.Models.Dtos.Dashboard;
+
+/// <summary>
+/// Number of projects completed in a week
+/// </summary>
+public class CompletionTrendPoint
+{
+    /// <summary>
+    /// Monday of the week
+    /// </summary>
+    public DateTime WeekStart { get; set; }
+
+    public int Completed { get; set; }
+}
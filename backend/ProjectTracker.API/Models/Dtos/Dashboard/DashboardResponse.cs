@@ -0,0 +1,48 @@
+namespace ProjectTracker.API.Models.Dtos.Dashboard;
+
+/// <summary>
+/// Response model for the dashboard: project statistics of the authenticated user
+/// Counts cover the projects the user owns or is a member of (not the trash)
+/// </summary>
+public class DashboardResponse
+{
+    /// <summary>
+    /// Number of projects
+    /// </summary>
+    public int Total { get; set; }
+
+    /// <summary>
+    /// Number of projects per status, in workflow order (statuses without projects included)
+    /// </summary>
+    public List<StatusCountResponse> ByStatus { get; set; } = [];
+
+    /// <summary>
+    /// Number of projects per priority from 1 to 5
+    /// </summary>
+    public List<PriorityCountResponse> ByPriority { get; set; } = [];
+
+    /// <summary>
+    /// Open (Active or OnHold) projects due before Today
+    /// </summary>
+    public int Overdue { get; set; }
+
+    /// <summary>
+    /// Open projects due from Today to WeekEnd
+    /// </summary>
+    public int DueThisWeek { get; set; }
+
+    /// <summary>
+    /// Date the due counts are relative to
+    /// </summary>
+    public DateTime Today { get; set; }
+
+    /// <summary>
+    /// Last day counted as due this week (Today + 6 days)
+    /// </summary>
+    public DateTime WeekEnd { get; set; }
+
+    /// <summary>
+    /// Projects completed per week (weeks start on Monday), oldest week first
+    /// </summary>
+    public List<CompletionTrendPoint> CompletionTrend { get; set; } = [];
+}
@@ -0,0 +1,10 @@
+namespace ProjectTracker.API.Models.Dtos.Dashboard;
+
+/// <summary>
+/// Number of projects with a priority
+/// </summary>
+public class PriorityCountResponse
+{
+    public int Priority { get; set; }
+    public int Count { get; set; }
+}
@@ -0,0 +1,10 @@
+namespace ProjectTracker.API.Models.Dtos.Dashboard;
+
+/// <summary>
+/// Number of projects with a status
+/// </summary>
+public class StatusCountResponse
+{
+    public string Status { get; set; } = string.Empty;
+    public int Count { get; set; }
+}
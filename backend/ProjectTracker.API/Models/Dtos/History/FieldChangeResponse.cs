@@ -0,0 +1,22 @@
+namespace ProjectTracker.API.Models.Dtos.History;
+
+/// <summary>
+/// Response model for one changed field of a history entry
+/// </summary>
+public class FieldChangeResponse
+{
+    /// <summary>
+    /// Field name: title, description, status, priority, startDate or dueDate
+    /// </summary>
+    public string Field { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Value before the change (null when empty); dates as yyyy-MM-dd, status as its code
+    /// </summary>
+    public string? OldValue { get; set; }
+
+    /// <summary>
+    /// Value after the change (null when empty)
+    /// </summary>
+    public string? NewValue { get; set; }
+}
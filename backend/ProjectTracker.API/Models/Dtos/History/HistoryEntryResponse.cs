@@ -0,0 +1,42 @@
+namespace ProjectTracker.API.Models.Dtos.History;
+
+/// <summary>
+/// Response model for a project history entry
+/// </summary>
+public class HistoryEntryResponse
+{
+    /// <summary>
+    /// Unique entry identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// What happened: Created, Updated, StatusChanged, Deleted or Restored
+    /// </summary>
+    public string Action { get; set; } = string.Empty;
+
+    /// <summary>
+    /// User who made the change
+    /// </summary>
+    public int ActorId { get; set; }
+
+    /// <summary>
+    /// Actor full name
+    /// </summary>
+    public string? ActorName { get; set; }
+
+    /// <summary>
+    /// Actor email
+    /// </summary>
+    public string? ActorEmail { get; set; }
+
+    /// <summary>
+    /// When the change was made
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Changed fields with their values before and after
+    /// </summary>
+    public List<FieldChangeResponse> Changes { get; set; } = [];
+}
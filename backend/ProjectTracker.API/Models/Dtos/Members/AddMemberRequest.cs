@@ -0,0 +1,23 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Members;
+
+/// <summary>
+/// Request model for inviting a registered user to a project
+/// </summary>
+public class AddMemberRequest
+{
+    /// <summary>
+    /// Email of the user to invite
+    /// </summary>
+    [Required]
+    [EmailAddress]
+    public required string Email { get; set; }
+
+    /// <summary>
+    /// Role of the new member: Editor or Viewer
+    /// </summary>
+    [Required]
+    [RegularExpression("^(Editor|Viewer)$", ErrorMessage = "Role must be Editor or Viewer")]
+    public required string Role { get; set; }
+}
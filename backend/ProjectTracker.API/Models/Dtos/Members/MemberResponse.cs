@@ -0,0 +1,37 @@
+namespace ProjectTracker.API.Models.Dtos.Members;
+
+/// <summary>
+/// Response model for a project member (the owner is listed with the Owner role)
+/// </summary>
+public class MemberResponse
+{
+    /// <summary>
+    /// Member user identifier
+    /// </summary>
+    public int UserId { get; set; }
+
+    /// <summary>
+    /// Member email
+    /// </summary>
+    public string Email { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Member full name (null when the user has no name)
+    /// </summary>
+    public string? Name { get; set; }
+
+    /// <summary>
+    /// Role on the project: Owner, Editor or Viewer
+    /// </summary>
+    public string Role { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Whether the member is the requesting user
+    /// </summary>
+    public bool IsCurrentUser { get; set; }
+
+    /// <summary>
+    /// When the member was added (project creation for the owner)
+    /// </summary>
+    public DateTime AddedAt { get; set; }
+}
@@ -0,0 +1,16 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Members;
+
+/// <summary>
+/// Request model for changing the role of a project member
+/// </summary>
+public class UpdateMemberRequest
+{
+    /// <summary>
+    /// New role of the member: Editor or Viewer
+    /// </summary>
+    [Required]
+    [RegularExpression("^(Editor|Viewer)$", ErrorMessage = "Role must be Editor or Viewer")]
+    public required string Role { get; set; }
+}
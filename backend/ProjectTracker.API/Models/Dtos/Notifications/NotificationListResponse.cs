@@ -0,0 +1,17 @@
+namespace ProjectTracker.API.Models.Dtos.Notifications;
+
+/// <summary>
+/// Response model for the latest notifications of the user
+/// </summary>
+public class NotificationListResponse
+{
+    /// <summary>
+    /// Latest notifications, newest first
+    /// </summary>
+    public List<NotificationResponse> Items { get; set; } = [];
+
+    /// <summary>
+    /// Total number of unread notifications (also those not in Items)
+    /// </summary>
+    public int UnreadCount { get; set; }
+}
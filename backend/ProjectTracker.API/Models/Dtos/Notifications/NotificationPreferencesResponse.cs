@@ -0,0 +1,22 @@
+namespace ProjectTracker.API.Models.Dtos.Notifications;
+
+/// <summary>
+/// Response model for the notification types a user receives
+/// </summary>
+public class NotificationPreferencesResponse
+{
+    /// <summary>
+    /// Reminders for projects due within the next days
+    /// </summary>
+    public bool DueSoon { get; set; }
+
+    /// <summary>
+    /// Reminders for projects past their due date
+    /// </summary>
+    public bool Overdue { get; set; }
+
+    /// <summary>
+    /// Changes made by other users to the user's projects
+    /// </summary>
+    public bool ProjectChanged { get; set; }
+}
@@ -0,0 +1,62 @@
+namespace ProjectTracker.API.Models.Dtos.Notifications;
+
+/// <summary>
+/// Response model for an in-app notification
+/// </summary>
+public class NotificationResponse
+{
+    /// <summary>
+    /// Unique notification identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Notification type: DueSoon, Overdue or ProjectChanged
+    /// </summary>
+    public string Type { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Project the notification is about
+    /// </summary>
+    public int ProjectId { get; set; }
+
+    /// <summary>
+    /// Current title of the project
+    /// </summary>
+    public string ProjectTitle { get; set; } = string.Empty;
+
+    /// <summary>
+    /// ProjectChanged: history action (Updated, StatusChanged, Deleted or Restored)
+    /// </summary>
+    public string? Action { get; set; }
+
+    /// <summary>
+    /// ProjectChanged: user who changed the project
+    /// </summary>
+    public int? ActorId { get; set; }
+
+    /// <summary>
+    /// ProjectChanged: actor full name
+    /// </summary>
+    public string? ActorName { get; set; }
+
+    /// <summary>
+    /// ProjectChanged: actor email
+    /// </summary>
+    public string? ActorEmail { get; set; }
+
+    /// <summary>
+    /// DueSoon/Overdue: due date of the project when the reminder was sent
+    /// </summary>
+    public DateTime? DueDate { get; set; }
+
+    /// <summary>
+    /// Whether the user has read the notification
+    /// </summary>
+    public bool IsRead { get; set; }
+
+    /// <summary>
+    /// When the notification was created
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+}
@@ -0,0 +1,22 @@
+namespace ProjectTracker.API.Models.Dtos.Notifications;
+
+/// <summary>
+/// Request model for choosing the notification types a user receives
+/// </summary>
+public class UpdateNotificationPreferencesRequest
+{
+    /// <summary>
+    /// Reminders for projects due within the next days
+    /// </summary>
+    public bool DueSoon { get; set; } = true;
+
+    /// <summary>
+    /// Reminders for projects past their due date
+    /// </summary>
+    public bool Overdue { get; set; } = true;
+
+    /// <summary>
+    /// Changes made by other users to the user's projects
+    /// </summary>
+    public bool ProjectChanged { get; set; } = true;
+}
@@ -0,0 +1,89 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Request model for a bulk action on projects
+/// Targets either explicit IDs or every project matching a filter ("select all matching")
+/// </summary>
+public class BulkProjectActionRequest : IValidatableObject
+{
+    /// <summary>
+    /// Maximum number of projects affected by a single request
+    /// </summary>
+    public const int MaxItems = 5000;
+
+    /// <summary>
+    /// Supported actions
+    /// </summary>
+    public static readonly string[] Actions = ["status", "priority", "delete"];
+
+    /// <summary>
+    /// Action to perform: status, priority or delete
+    /// </summary>
+    [Required]
+    public required string Action { get; set; }
+
+    /// <summary>
+    /// Selected project IDs (ignored when Filter is set)
+    /// </summary>
+    [MaxLength(MaxItems)]
+    public List<int>? Ids { get; set; }
+
+    /// <summary>
+    /// Filters of the project list; all matching projects are affected (paging is ignored)
+    /// </summary>
+    public ProjectFilterRequest? Filter { get; set; }
+
+    /// <summary>
+    /// New status (status action)
+    /// </summary>
+    [StringLength(50)]
+    public string? Status { get; set; }
+
+    /// <summary>
+    /// New priority from 1 to 5 (priority action)
+    /// </summary>
+    [Range(1, 5)]
+    public int? Priority { get; set; }
+
+    /// <summary>
+    /// Check that the action has a target and the value it needs
+    /// </summary>
+    public IEnumerable<ValidationResult> Validate(ValidationContext validationContext)
+    {
+        if (!Actions.Contains(Action, StringComparer.OrdinalIgnoreCase))
+        {
+            yield return new ValidationResult(
+                $"Action must be one of: {string.Join(", ", Actions)}",
+                new[] { nameof(Action) }
+            );
+        }
+
+        if (Filter is null && (Ids is null || Ids.Count == 0))
+        {
+            yield return new ValidationResult(
+                "Either ids or filter must be provided",
+                new[] { nameof(Ids), nameof(Filter) }
+            );
+        }
+
+        var validStatuses = new[] { "Active", "OnHold", "Completed", "Cancelled" };
+        if (Action.Equals("status", StringComparison.OrdinalIgnoreCase) &&
+            (string.IsNullOrWhiteSpace(Status) || !validStatuses.Contains(Status, StringComparer.OrdinalIgnoreCase)))
+        {
+            yield return new ValidationResult(
+                "Status must be one of: Active, OnHold, Completed, Cancelled",
+                new[] { nameof(Status) }
+            );
+        }
+
+        if (Action.Equals("priority", StringComparison.OrdinalIgnoreCase) && !Priority.HasValue)
+        {
+            yield return new ValidationResult(
+                "Priority is required",
+                new[] { nameof(Priority) }
+            );
+        }
+    }
+}
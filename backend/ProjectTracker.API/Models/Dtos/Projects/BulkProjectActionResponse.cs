@@ -0,0 +1,32 @@
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Per-item result of a bulk action
+/// </summary>
+public class BulkProjectActionResponse
+{
+    /// <summary>
+    /// IDs of the projects the action was applied to
+    /// </summary>
+    public List<int> Succeeded { get; set; } = [];
+
+    /// <summary>
+    /// Projects the action could not be applied to, with the reason
+    /// </summary>
+    public List<BulkProjectItemError> Failed { get; set; } = [];
+}
+
+/// <summary>
+/// Failure of a bulk action for a single project
+/// </summary>
+public class BulkProjectItemError
+{
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Project title (null when the project was not found)
+    /// </summary>
+    public string? Title { get; set; }
+
+    public required string Error { get; set; }
+}
@@ -43,6 +43,11 @@ public class CreateProjectRequest : IValidatableObject
     /// </summary>
     public DateTime? DueDate { get; set; }
 
+    /// <summary>
+    /// Tags to assign to the new project
+    /// </summary>
+    public int[]? TagIds { get; set; }
+
     /// <summary>
     /// Model-level validation using .NET 10 IValidatableObject
     /// Called automatically by ASP.NET Core validation pipeline
@@ -0,0 +1,37 @@
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Response model for a project in the trash
+/// </summary>
+public class DeletedProjectResponse
+{
+    /// <summary>
+    /// Unique project identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Project title
+    /// </summary>
+    public string Title { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Project status when it was deleted
+    /// </summary>
+    public string Status { get; set; } = "Active";
+
+    /// <summary>
+    /// Project priority level (1-5)
+    /// </summary>
+    public int Priority { get; set; } = 1;
+
+    /// <summary>
+    /// When the project was moved to the trash
+    /// </summary>
+    public DateTime DeletedAt { get; set; }
+
+    /// <summary>
+    /// When the project will be purged automatically
+    /// </summary>
+    public DateTime PurgeAt { get; set; }
+}
@@ -0,0 +1,48 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Request model for importing projects in bulk (CSV/XLSX rows mapped on the client)
+/// Rows are validated one by one so valid rows are created even when others fail
+/// </summary>
+public class ImportProjectsRequest
+{
+    /// <summary>
+    /// Maximum number of rows accepted in a single import
+    /// </summary>
+    public const int MaxRows = 1000;
+
+    /// <summary>
+    /// Rows to import
+    /// </summary>
+    [Required]
+    [MinLength(1)]
+    [MaxLength(MaxRows)]
+    public List<ImportProjectRow> Rows { get; set; } = [];
+}
+
+/// <summary>
+/// Single imported row
+/// Deliberately without validation attributes: each row is checked against
+/// CreateProjectRequest rules in the controller and reported individually
+/// </summary>
+public class ImportProjectRow
+{
+    /// <summary>
+    /// Row number in the source file (used to report errors)
+    /// </summary>
+    public int RowNumber { get; set; }
+
+    public string? Title { get; set; }
+
+    public string? Description { get; set; }
+
+    public string? Status { get; set; }
+
+    public int? Priority { get; set; }
+
+    public DateTime? StartDate { get; set; }
+
+    public DateTime? DueDate { get; set; }
+}
@@ -0,0 +1,32 @@
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Result of a bulk project import
+/// </summary>
+public class ImportProjectsResponse
+{
+    /// <summary>
+    /// Number of projects created
+    /// </summary>
+    public int Created { get; set; }
+
+    /// <summary>
+    /// IDs of the created projects (in row order)
+    /// </summary>
+    public List<int> CreatedIds { get; set; } = [];
+
+    /// <summary>
+    /// Rows that failed validation and were not created
+    /// </summary>
+    public List<ImportRowError> Failed { get; set; } = [];
+}
+
+/// <summary>
+/// Validation errors for a single imported row
+/// </summary>
+public class ImportRowError
+{
+    public int RowNumber { get; set; }
+
+    public List<string> Errors { get; set; } = [];
+}
@@ -0,0 +1,32 @@
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Real-time message for a project created, changed, deleted or restored by a user
+/// </summary>
+public class ProjectChangedMessage
+{
+    /// <summary>
+    /// Changed project
+    /// </summary>
+    public int ProjectId { get; set; }
+
+    /// <summary>
+    /// History action: Created, Updated, StatusChanged, Deleted or Restored
+    /// </summary>
+    public string Action { get; set; } = string.Empty;
+
+    /// <summary>
+    /// User who made the change
+    /// </summary>
+    public int ActorId { get; set; }
+
+    /// <summary>
+    /// Actor full name
+    /// </summary>
+    public string? ActorName { get; set; }
+
+    /// <summary>
+    /// Actor email
+    /// </summary>
+    public string? ActorEmail { get; set; }
+}
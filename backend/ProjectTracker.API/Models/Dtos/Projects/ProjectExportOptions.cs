@@ -0,0 +1,81 @@
+using System.Globalization;
+
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Options for the project export: columns (in order), CSV delimiter, UTF-8 BOM,
+/// date format and the culture used for headers and culture-specific dates
+/// </summary>
+public class ProjectExportOptions
+{
+    /// <summary>
+    /// Exportable columns and the translation key (projects category) of their header
+    /// </summary>
+    public static readonly IReadOnlyDictionary<string, string> ColumnHeaderKeys = new Dictionary<string, string>
+    {
+        ["id"] = "id",
+        ["title"] = "projectTitle",
+        ["description"] = "description",
+        ["status"] = "status",
+        ["priority"] = "priority",
+        ["startDate"] = "startDate",
+        ["dueDate"] = "dueDate",
+        ["createdAt"] = "createdAt",
+        ["updatedAt"] = "updatedAt"
+    };
+
+    /// <summary>
+    /// Date patterns accepted from the client; "shortDate" uses the pattern of the culture in ShortDatePatterns
+    /// </summary>
+    public static readonly string[] DateFormats = ["yyyy-MM-dd", "dd/MM/yyyy", "MM/dd/yyyy", "dd.MM.yyyy", "shortDate"];
+
+    /// <summary>
+    /// Pattern of "shortDate" per culture, same table as SHORT_DATE_PATTERNS in the client so that
+    /// client-side and server-side exports write identical dates (other cultures: ISO)
+    /// </summary>
+    public static readonly IReadOnlyDictionary<string, string> ShortDatePatterns = new Dictionary<string, string>
+    {
+        ["en-US"] = "M/d/yyyy",
+        ["it-IT"] = "dd/MM/yyyy"
+    };
+
+    /// <summary>
+    /// Delimiter names accepted from the client
+    /// </summary>
+    public static readonly IReadOnlyDictionary<string, char> Delimiters = new Dictionary<string, char>
+    {
+        ["comma"] = ',',
+        ["semicolon"] = ';',
+        ["tab"] = '\t'
+    };
+
+    public string[] Columns { get; set; } =
+        ["id", "title", "description", "status", "priority", "startDate", "dueDate", "createdAt"];
+
+    public char Delimiter { get; set; } = ',';
+
+    public bool IncludeBom { get; set; }
+
+    /// <summary>
+    /// One of DateFormats
+    /// </summary>
+    public string DateFormat { get; set; } = "yyyy-MM-dd";
+
+    /// <summary>
+    /// Culture code for translated headers (e.g. en-US)
+    /// </summary>
+    public string CultureCode { get; set; } = "en-US";
+
+    /// <summary>
+    /// .NET date pattern and format provider for CSV dates
+    /// </summary>
+    public (string pattern, IFormatProvider provider) GetDatePattern()
+    {
+        var pattern = DateFormat == "shortDate"
+            ? ShortDatePatterns.GetValueOrDefault(CultureCode, "yyyy-MM-dd")
+            : DateFormat;
+
+        // Invariant culture: "/" in the patterns is written as a slash, not the culture's date separator
+        return (pattern, CultureInfo.InvariantCulture);
+    }
+}
@@ -0,0 +1,55 @@
+using ProjectTracker.API.Models.Common;
+
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Pagination request with project-specific filters
+/// All filters are optional; date range bounds are inclusive
+/// </summary>
+public class ProjectFilterRequest : PaginationRequest
+{
+    /// <summary>
+    /// Statuses to include (multi-select)
+    /// </summary>
+    public string[]? Status { get; set; }
+
+    /// <summary>
+    /// Minimum priority (1-5)
+    /// </summary>
+    public int? PriorityMin { get; set; }
+
+    /// <summary>
+    /// Maximum priority (1-5)
+    /// </summary>
+    public int? PriorityMax { get; set; }
+
+    /// <summary>
+    /// Earliest start date
+    /// </summary>
+    public DateTime? StartDateFrom { get; set; }
+
+    /// <summary>
+    /// Latest start date
+    /// </summary>
+    public DateTime? StartDateTo { get; set; }
+
+    /// <summary>
+    /// Earliest due date
+    /// </summary>
+    public DateTime? DueDateFrom { get; set; }
+
+    /// <summary>
+    /// Latest due date
+    /// </summary>
+    public DateTime? DueDateTo { get; set; }
+
+    /// <summary>
+    /// Tags to filter by (multi-select)
+    /// </summary>
+    public int[]? TagIds { get; set; }
+
+    /// <summary>
+    /// How selected tags combine: "any" (at least one tag, default) or "all" (every tag)
+    /// </summary>
+    public string TagMatch { get; set; } = "any";
+}
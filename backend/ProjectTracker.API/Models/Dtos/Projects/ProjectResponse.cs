@@ -1,3 +1,6 @@
+using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Dtos.Tags;
+
 namespace ProjectTracker.API.Models.Dtos.Projects;
 
 /// <summary>
@@ -54,4 +57,30 @@ public class ProjectResponse
     /// Last update timestamp
     /// </summary>
     public DateTime UpdatedAt { get; set; }
+
+    /// <summary>
+    /// Concurrency token (base64 row version), also sent as the ETag header
+    /// Send it back in If-Match when updating to reject stale writes with 409
+    /// </summary>
+    public string Version { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Number of tasks and subtasks (only filled in by the paged list)
+    /// </summary>
+    public int TaskCount { get; set; }
+
+    /// <summary>
+    /// Number of completed tasks and subtasks (only filled in by the paged list)
+    /// </summary>
+    public int CompletedTaskCount { get; set; }
+
+    /// <summary>
+    /// Tags assigned to the project, in name order
+    /// </summary>
+    public List<ProjectTagResponse> Tags { get; set; } = [];
+
+    /// <summary>
+    /// Role of the requesting user on the project: Owner, Editor or Viewer
+    /// </summary>
+    public string Role { get; set; } = ProjectRoles.Owner;
 }
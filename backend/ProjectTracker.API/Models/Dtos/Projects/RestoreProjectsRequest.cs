@@ -0,0 +1,17 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Projects;
+
+/// <summary>
+/// Request model for restoring projects from the trash
+/// </summary>
+public class RestoreProjectsRequest
+{
+    /// <summary>
+    /// IDs of the trashed projects to restore
+    /// </summary>
+    [Required]
+    [MinLength(1)]
+    [MaxLength(BulkProjectActionRequest.MaxItems)]
+    public required List<int> Ids { get; set; }
+}
@@ -43,6 +43,11 @@ public class UpdateProjectRequest : IValidatableObject
     /// </summary>
     public DateTime? DueDate { get; set; }
 
+    /// <summary>
+    /// Tags of the project (replaces the current ones; null leaves them unchanged)
+    /// </summary>
+    public int[]? TagIds { get; set; }
+
     /// <summary>
     /// Model-level validation using .NET 10 IValidatableObject
     /// Called automatically by ASP.NET Core validation pipeline
@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
+
+namespace ProjectTracker.API.Models.Dtos.SavedViews;
+
+/// <summary>
+/// Request model for saving the current project list filters as a named view
+/// </summary>
+public class CreateSavedViewRequest
+{
+    /// <summary>
+    /// View name (maximum 100 characters)
+    /// </summary>
+    [Required]
+    [StringLength(100, MinimumLength = 1)]
+    public required string Name { get; set; }
+
+    /// <summary>
+    /// Search, filters and sort as a JSON object
+    /// </summary>
+    public JsonElement Filters { get; set; }
+
+    /// <summary>
+    /// Whether the view is applied by default when opening the project list
+    /// </summary>
+    public bool IsDefault { get; set; }
+}
@@ -0,0 +1,39 @@
+using System.Text.Json;
+
+namespace ProjectTracker.API.Models.Dtos.SavedViews;
+
+/// <summary>
+/// Response model for a saved view
+/// </summary>
+public class SavedViewResponse
+{
+    /// <summary>
+    /// Unique saved view identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// View name
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Search, filters and sort as a JSON object
+    /// </summary>
+    public JsonElement Filters { get; set; }
+
+    /// <summary>
+    /// Whether the view is the user's default
+    /// </summary>
+    public bool IsDefault { get; set; }
+
+    /// <summary>
+    /// Creation timestamp
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Last update timestamp
+    /// </summary>
+    public DateTime UpdatedAt { get; set; }
+}
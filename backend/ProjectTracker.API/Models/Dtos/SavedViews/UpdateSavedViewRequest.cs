@@ -0,0 +1,22 @@
+using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
+
+namespace ProjectTracker.API.Models.Dtos.SavedViews;
+
+/// <summary>
+/// Request model for renaming a saved view or replacing its filters
+/// </summary>
+public class UpdateSavedViewRequest
+{
+    /// <summary>
+    /// View name (maximum 100 characters)
+    /// </summary>
+    [Required]
+    [StringLength(100, MinimumLength = 1)]
+    public required string Name { get; set; }
+
+    /// <summary>
+    /// Search, filters and sort as a JSON object
+    /// </summary>
+    public JsonElement Filters { get; set; }
+}
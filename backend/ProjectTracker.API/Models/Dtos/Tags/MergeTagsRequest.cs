@@ -0,0 +1,16 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Tags;
+
+/// <summary>
+/// Request model for merging tags into another tag
+/// </summary>
+public class MergeTagsRequest
+{
+    /// <summary>
+    /// Tags to merge; they are deleted and their projects get the target tag
+    /// </summary>
+    [Required]
+    [MinLength(1)]
+    public int[] SourceTagIds { get; set; } = [];
+}
@@ -0,0 +1,22 @@
+namespace ProjectTracker.API.Models.Dtos.Tags;
+
+/// <summary>
+/// Tag as shown on a project (chip)
+/// </summary>
+public class ProjectTagResponse
+{
+    /// <summary>
+    /// Tag identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Tag name
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Chip color (#RRGGBB)
+    /// </summary>
+    public string Color { get; set; } = string.Empty;
+}
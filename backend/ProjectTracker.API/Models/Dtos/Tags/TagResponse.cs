@@ -0,0 +1,37 @@
+namespace ProjectTracker.API.Models.Dtos.Tags;
+
+/// <summary>
+/// Response model for a tag
+/// </summary>
+public class TagResponse
+{
+    /// <summary>
+    /// Unique tag identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Tag name
+    /// </summary>
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Chip color (#RRGGBB)
+    /// </summary>
+    public string Color { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Number of projects using the tag
+    /// </summary>
+    public int ProjectCount { get; set; }
+
+    /// <summary>
+    /// Creation timestamp
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Last update timestamp
+    /// </summary>
+    public DateTime UpdatedAt { get; set; }
+}
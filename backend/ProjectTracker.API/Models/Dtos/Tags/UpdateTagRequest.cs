@@ -0,0 +1,23 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Tags;
+
+/// <summary>
+/// Request model for renaming and/or recoloring a tag
+/// </summary>
+public class UpdateTagRequest
+{
+    /// <summary>
+    /// Tag name, unique per user (maximum 50 characters)
+    /// </summary>
+    [Required]
+    [StringLength(50, MinimumLength = 1)]
+    public required string Name { get; set; }
+
+    /// <summary>
+    /// Chip color as a hex value (#RRGGBB)
+    /// </summary>
+    [Required]
+    [RegularExpression("^#[0-9A-Fa-f]{6}$", ErrorMessage = "Color must be a hex value like #1E88E5")]
+    public required string Color { get; set; }
+}
@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Tasks;
+
+/// <summary>
+/// Request model for adding a task (or subtask) to a project
+/// </summary>
+public class CreateTaskRequest
+{
+    /// <summary>
+    /// Task title (maximum 200 characters)
+    /// </summary>
+    [Required]
+    [StringLength(200, MinimumLength = 1)]
+    public required string Title { get; set; }
+
+    /// <summary>
+    /// Parent task identifier when creating a subtask (only top-level tasks can have subtasks)
+    /// </summary>
+    public int? ParentTaskId { get; set; }
+
+    /// <summary>
+    /// Email of the registered user the task is assigned to
+    /// </summary>
+    [EmailAddress]
+    [StringLength(255)]
+    public string? AssigneeEmail { get; set; }
+
+    /// <summary>
+    /// Task due date
+    /// </summary>
+    public DateTime? DueDate { get; set; }
+}
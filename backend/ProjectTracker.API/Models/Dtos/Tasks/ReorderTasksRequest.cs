@@ -0,0 +1,22 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Tasks;
+
+/// <summary>
+/// Request model for changing the order of the tasks under one parent
+/// </summary>
+public class ReorderTasksRequest
+{
+    /// <summary>
+    /// Parent task identifier (null for the top-level tasks)
+    /// </summary>
+    public int? ParentTaskId { get; set; }
+
+    /// <summary>
+    /// Task identifiers in the new order
+    /// </summary>
+    [Required]
+    [MinLength(1)]
+    [MaxLength(1000)]
+    public List<int> TaskIds { get; set; } = [];
+}
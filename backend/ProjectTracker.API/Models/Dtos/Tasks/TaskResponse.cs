@@ -0,0 +1,72 @@
+namespace ProjectTracker.API.Models.Dtos.Tasks;
+
+/// <summary>
+/// Response model for a project task
+/// </summary>
+public class TaskResponse
+{
+    /// <summary>
+    /// Unique task identifier
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Project the task belongs to
+    /// </summary>
+    public int ProjectId { get; set; }
+
+    /// <summary>
+    /// Parent task identifier (null for top-level tasks)
+    /// </summary>
+    public int? ParentTaskId { get; set; }
+
+    /// <summary>
+    /// Task title
+    /// </summary>
+    public string Title { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Whether the task is done
+    /// </summary>
+    public bool IsDone { get; set; }
+
+    /// <summary>
+    /// Assigned user identifier
+    /// </summary>
+    public int? AssigneeId { get; set; }
+
+    /// <summary>
+    /// Assigned user email
+    /// </summary>
+    public string? AssigneeEmail { get; set; }
+
+    /// <summary>
+    /// Assigned user full name
+    /// </summary>
+    public string? AssigneeName { get; set; }
+
+    /// <summary>
+    /// Task due date
+    /// </summary>
+    public DateTime? DueDate { get; set; }
+
+    /// <summary>
+    /// Position among the tasks with the same parent
+    /// </summary>
+    public int SortOrder { get; set; }
+
+    /// <summary>
+    /// When the task was marked as done
+    /// </summary>
+    public DateTime? CompletedAt { get; set; }
+
+    /// <summary>
+    /// Task creation timestamp
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// Last update timestamp
+    /// </summary>
+    public DateTime UpdatedAt { get; set; }
+}
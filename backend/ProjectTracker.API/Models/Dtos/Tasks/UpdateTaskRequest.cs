@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace ProjectTracker.API.Models.Dtos.Tasks;
+
+/// <summary>
+/// Request model for updating a task
+/// </summary>
+public class UpdateTaskRequest
+{
+    /// <summary>
+    /// Task title (maximum 200 characters)
+    /// </summary>
+    [Required]
+    [StringLength(200, MinimumLength = 1)]
+    public required string Title { get; set; }
+
+    /// <summary>
+    /// Whether the task is done
+    /// </summary>
+    public bool IsDone { get; set; }
+
+    /// <summary>
+    /// Email of the registered user the task is assigned to (null to unassign)
+    /// </summary>
+    [EmailAddress]
+    [StringLength(255)]
+    public string? AssigneeEmail { get; set; }
+
+    /// <summary>
+    /// Task due date
+    /// </summary>
+    public DateTime? DueDate { get; set; }
+}
@@ -0,0 +1,26 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// In-app notification for a user about a project: DueSoon, Overdue or ProjectChanged
+/// </summary>
+public class Notification
+{
+    public int Id { get; set; }
+    public int UserId { get; set; }
+    public int ProjectId { get; set; }
+    public required string Type { get; set; }
+
+    // ProjectChanged: user who changed the project and the history action
+    public int? ActorId { get; set; }
+    public string? Action { get; set; }
+
+    // DueSoon/Overdue: due date the reminder was sent for
+    public DateTime? DueDate { get; set; }
+    public bool IsRead { get; set; }
+    public DateTime CreatedAt { get; set; }
+
+    // Project and actor details (not mapped to DB, populated by repository)
+    public string? ProjectTitle { get; set; }
+    public string? ActorEmail { get; set; }
+    public string? ActorName { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Notification types a user wants to receive (all enabled by default)
+/// </summary>
+public class NotificationPreferences
+{
+    public int UserId { get; set; }
+    public bool DueSoon { get; set; } = true;
+    public bool Overdue { get; set; } = true;
+    public bool ProjectChanged { get; set; } = true;
+}
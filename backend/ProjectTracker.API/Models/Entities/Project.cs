@@ -15,6 +15,9 @@ public class Project
     public DateTime? DueDate { get; set; }
     public DateTime CreatedAt { get; set; }
     public DateTime UpdatedAt { get; set; }
+    public byte[] RowVersion { get; set; } = [];
+    // Set while the project is in the owner's trash
+    public DateTime? DeletedAt { get; set; }
 
     // Navigation property (not mapped to DB, populated by repository)
     public User? User { get; set; }
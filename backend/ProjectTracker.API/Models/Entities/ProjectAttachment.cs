@@ -0,0 +1,20 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// File attached to a project; the content lives in the file storage under StorageKey
+/// </summary>
+public class ProjectAttachment
+{
+    public int Id { get; set; }
+    public int ProjectId { get; set; }
+    public int UserId { get; set; }
+    public required string FileName { get; set; }
+    public required string ContentType { get; set; }
+    public long SizeBytes { get; set; }
+    public required string StorageKey { get; set; }
+    public DateTime CreatedAt { get; set; }
+
+    // Uploader details (not mapped to DB, populated by repository)
+    public string? UploadedByEmail { get; set; }
+    public string? UploadedByName { get; set; }
+}
@@ -0,0 +1,23 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Comment on a project (top-level comment or reply in its thread)
+/// </summary>
+public class ProjectComment
+{
+    public int Id { get; set; }
+    public int ProjectId { get; set; }
+    public int? ParentCommentId { get; set; }
+    public int UserId { get; set; }
+    public required string Body { get; set; }
+
+    // Deleted comments that still have replies are kept as placeholders
+    public bool IsDeleted { get; set; }
+    public DateTime? EditedAt { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+
+    // Author details (not mapped to DB, populated by repository)
+    public string? AuthorEmail { get; set; }
+    public string? AuthorName { get; set; }
+}
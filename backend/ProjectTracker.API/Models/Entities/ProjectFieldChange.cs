@@ -0,0 +1,12 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Before and after value of one project field in a history entry
+/// Values are invariant strings: dates as yyyy-MM-dd, status as its code, null when empty
+/// </summary>
+public class ProjectFieldChange
+{
+    public required string Field { get; set; }
+    public string? OldValue { get; set; }
+    public string? NewValue { get; set; }
+}
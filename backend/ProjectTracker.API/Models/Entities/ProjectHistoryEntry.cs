@@ -0,0 +1,20 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Audit record of one change to a project (see ProjectHistoryActions)
+/// </summary>
+public class ProjectHistoryEntry
+{
+    public int Id { get; set; }
+    public int ProjectId { get; set; }
+    public int UserId { get; set; }
+    public required string Action { get; set; }
+
+    // Changed fields serialized as JSON (ProjectFieldChange array)
+    public string Changes { get; set; } = "[]";
+    public DateTime CreatedAt { get; set; }
+
+    // Actor details (not mapped to DB, populated by repository)
+    public string? ActorEmail { get; set; }
+    public string? ActorName { get; set; }
+}
@@ -0,0 +1,17 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// User a project is shared with, and their role (Editor or Viewer)
+/// </summary>
+public class ProjectMember
+{
+    public int ProjectId { get; set; }
+    public int UserId { get; set; }
+    public required string Role { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+
+    // Member details (not mapped to DB, populated by repository)
+    public string? Email { get; set; }
+    public string? Name { get; set; }
+}
@@ -0,0 +1,13 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Aggregate counts over the projects a user can access, used by the dashboard
+/// Overdue and due-this-week only count open projects (Active or OnHold)
+/// </summary>
+public class ProjectStats
+{
+    public Dictionary<string, int> ByStatus { get; set; } = [];
+    public Dictionary<int, int> ByPriority { get; set; } = [];
+    public int Overdue { get; set; }
+    public int DueThisWeek { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Tag assigned to a project (link row joined with the tag name and color)
+/// </summary>
+public class ProjectTag
+{
+    public int ProjectId { get; set; }
+    public int TagId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string Color { get; set; } = string.Empty;
+}
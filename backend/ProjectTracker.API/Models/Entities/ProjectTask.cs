@@ -0,0 +1,25 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Checklist task of a project (top-level task or subtask of one)
+/// </summary>
+public class ProjectTask
+{
+    public int Id { get; set; }
+    public int ProjectId { get; set; }
+    public int? ParentTaskId { get; set; }
+    public required string Title { get; set; }
+    public bool IsDone { get; set; }
+    public int? AssigneeId { get; set; }
+    public DateTime? DueDate { get; set; }
+
+    // Position among the tasks with the same parent
+    public int SortOrder { get; set; }
+    public DateTime? CompletedAt { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+
+    // Assignee details (not mapped to DB, populated by repository)
+    public string? AssigneeEmail { get; set; }
+    public string? AssigneeName { get; set; }
+}
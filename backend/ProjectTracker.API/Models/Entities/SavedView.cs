@@ -0,0 +1,17 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Named filter preset for the project list, owned by a user
+/// </summary>
+public class SavedView
+{
+    public int Id { get; set; }
+    public int UserId { get; set; }
+    public required string Name { get; set; }
+
+    // Serialized JSON of search, filters and sort
+    public required string Filters { get; set; }
+    public bool IsDefault { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
@@ -0,0 +1,17 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Colored tag that users assign to their projects
+/// </summary>
+public class Tag
+{
+    public int Id { get; set; }
+    public int UserId { get; set; }
+    public required string Name { get; set; }
+    public required string Color { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+
+    // Number of projects using the tag (populated by repository, not mapped to a column)
+    public int ProjectCount { get; set; }
+}
@@ -0,0 +1,11 @@
+namespace ProjectTracker.API.Models.Entities;
+
+/// <summary>
+/// Task counts of a project, used to roll up progress into the project list
+/// </summary>
+public class TaskProgress
+{
+    public int ProjectId { get; set; }
+    public int TotalTasks { get; set; }
+    public int DoneTasks { get; set; }
+}
@@ -1,3 +1,5 @@
+using ProjectTracker.API.Models.Common;
+
 namespace ProjectTracker.API.Models.Entities;
 
 /// <summary>
@@ -11,6 +13,7 @@ public class User
     public string? FirstName { get; set; }
     public string? LastName { get; set; }
     public bool IsActive { get; set; } = true;
+    public string Role { get; set; } = UserRoles.User;
     public DateTime CreatedAt { get; set; }
     public DateTime UpdatedAt { get; set; }
 
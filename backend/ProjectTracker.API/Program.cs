@@ -43,8 +43,13 @@ builder.Services.AddApiServices();
 builder.Services.AddCorsPolicy(builder.Configuration);
 builder.Services.AddHealthChecks();
 builder.Services.ConfigureJwtAuthentication(builder.Configuration);
+builder.Services.AddAuthorizationPolicies();
 builder.Services.AddAuthenticationServices();
 builder.Services.AddDataAccess();
+builder.Services.AddFileStorage(builder.Configuration);
+builder.Services.AddTrash(builder.Configuration);
+builder.Services.AddNotifications(builder.Configuration);
+builder.Services.AddRealtime();
 
 // Add MiniProfiler for API and SQL profiling (Development only)
 if (builder.Environment.IsDevelopment())
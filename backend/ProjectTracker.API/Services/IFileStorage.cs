@@ -0,0 +1,23 @@
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Storage backend for uploaded files
+/// Files are addressed by an opaque key generated by the backend
+/// </summary>
+public interface IFileStorage
+{
+    /// <summary>
+    /// Store a file and return its key
+    /// </summary>
+    Task<string> SaveAsync(Stream content, string folder, string extension, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Open a stored file for reading (null if it no longer exists)
+    /// </summary>
+    Task<Stream?> OpenReadAsync(string key, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Delete a stored file (no error if it does not exist)
+    /// </summary>
+    Task DeleteAsync(string key, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,21 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Resolves the role of a user on a project (see ProjectRoles for what each role may do)
+/// Every controller working on a project or its children checks access through this service
+/// </summary>
+public interface IProjectAccessService
+{
+    /// <summary>
+    /// Role of the user on the project: Owner, Editor or Viewer
+    /// Null when the project does not exist or is not shared with the user
+    /// </summary>
+    Task<string?> GetRoleAsync(int projectId, int userId);
+
+    /// <summary>
+    /// Role of the user on an already loaded project (null when not shared with the user)
+    /// </summary>
+    Task<string?> GetRoleAsync(Project project, int userId);
+}
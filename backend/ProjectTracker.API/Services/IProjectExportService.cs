@@ -0,0 +1,13 @@
+using ProjectTracker.API.Models.Dtos.Projects;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Writes project exports directly to an output stream, row by row
+/// </summary>
+public interface IProjectExportService
+{
+    Task WriteCsvAsync(Stream output, IAsyncEnumerable<Project> projects, ProjectExportOptions options, CancellationToken cancellationToken = default);
+    Task WriteXlsxAsync(Stream output, IAsyncEnumerable<Project> projects, ProjectFilterRequest filters, ProjectExportOptions options, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,31 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Records the project audit trail: the controllers report every create, update, delete
+/// and restore here with the acting user, and the field changes are computed from the
+/// project values before and after
+/// </summary>
+public interface IProjectHistoryService
+{
+    /// <summary>
+    /// Record newly created projects with their initial values (Id must be set)
+    /// </summary>
+    Task RecordCreatedAsync(int userId, IReadOnlyList<Project> projects);
+
+    /// <summary>
+    /// Record updates from the values before and after; projects with no changed field are skipped
+    /// </summary>
+    Task RecordUpdatedAsync(int userId, IReadOnlyList<(Project Before, Project After)> updates);
+
+    /// <summary>
+    /// Record projects moved to the trash
+    /// </summary>
+    Task RecordDeletedAsync(int userId, IReadOnlyList<int> projectIds);
+
+    /// <summary>
+    /// Record projects restored from the trash
+    /// </summary>
+    Task RecordRestoredAsync(int userId, IReadOnlyList<int> projectIds);
+}
@@ -0,0 +1,14 @@
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Permanently removes trashed projects together with their attachment files
+/// Used by the trash endpoints and by the retention purge
+/// </summary>
+public interface IProjectPurgeService
+{
+    /// <summary>
+    /// Delete the given trashed projects and their stored files; returns the number of projects purged
+    /// Callers pass IDs read from the trash: the files are removed by project ID
+    /// </summary>
+    Task<int> PurgeAsync(IReadOnlyList<int> projectIds, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,15 @@
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Pushes recorded project changes to the connected clients of the users with access
+/// to the changed projects (owner and members, the acting user included)
+/// </summary>
+public interface IProjectUpdatePublisher
+{
+    /// <summary>
+    /// Publish history entries of one actor; delivery is best effort and never throws
+    /// </summary>
+    Task PublishAsync(IReadOnlyList<ProjectHistoryEntry> entries);
+}
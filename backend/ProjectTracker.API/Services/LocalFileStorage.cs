@@ -0,0 +1,86 @@
+using ProjectTracker.API.Configuration;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// IFileStorage implementation writing to a folder on the local file system
+/// Keys are relative paths ("{folder}/{guid}{extension}") below the configured root
+/// </summary>
+public class LocalFileStorage : IFileStorage
+{
+    private readonly string _rootPath;
+    private readonly ILogger<LocalFileStorage> _logger;
+
+    public LocalFileStorage(FileStorageOptions options, IWebHostEnvironment environment, ILogger<LocalFileStorage> logger)
+    {
+        _rootPath = Path.GetFullPath(Path.Combine(environment.ContentRootPath, options.LocalPath));
+        _logger = logger;
+    }
+
+    public async Task<string> SaveAsync(Stream content, string folder, string extension, CancellationToken cancellationToken = default)
+    {
+        var key = $"{folder}/{Guid.NewGuid():N}{extension.ToLowerInvariant()}";
+        var path = ResolvePath(key);
+
+        try
+        {
+            Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+
+            await using var file = new FileStream(path, FileMode.CreateNew, FileAccess.Write, FileShare.None, 81920, useAsync: true);
+            await content.CopyToAsync(file, cancellationToken);
+
+            _logger.LogInformation("Stored file {StorageKey}", key);
+            return key;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error storing file {StorageKey}", key);
+
+            // Do not leave partial files behind (e.g. upload aborted by the client)
+            File.Delete(path);
+            throw;
+        }
+    }
+
+    public Task<Stream?> OpenReadAsync(string key, CancellationToken cancellationToken = default)
+    {
+        var path = ResolvePath(key);
+        if (!File.Exists(path))
+        {
+            _logger.LogWarning("Stored file {StorageKey} not found", key);
+            return Task.FromResult<Stream?>(null);
+        }
+
+        Stream stream = new FileStream(path, FileMode.Open, FileAccess.Read, FileShare.Read, 81920, useAsync: true);
+        return Task.FromResult<Stream?>(stream);
+    }
+
+    public Task DeleteAsync(string key, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            File.Delete(ResolvePath(key));
+
+            _logger.LogInformation("Deleted file {StorageKey}", key);
+            return Task.CompletedTask;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting file {StorageKey}", key);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Map a key to a path, rejecting keys that would escape the storage root
+    /// </summary>
+    private string ResolvePath(string key)
+    {
+        var path = Path.GetFullPath(Path.Combine(_rootPath, key));
+        if (!path.StartsWith(_rootPath + Path.DirectorySeparatorChar, StringComparison.Ordinal))
+        {
+            throw new InvalidOperationException($"Invalid storage key: {key}");
+        }
+        return path;
+    }
+}
@@ -0,0 +1,67 @@
+using ProjectTracker.API.Configuration;
+using ProjectTracker.API.Data.Repositories;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Generates the due date reminders of the notification center and deletes notifications
+/// older than Notifications:RetentionDays; runs every Notifications:CheckIntervalMinutes
+/// Reminders are not duplicated, so a run finds only projects that became due soon or overdue
+/// (or got a new due date) since the previous one. Dates are UTC dates.
+/// </summary>
+public class NotificationBackgroundService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly NotificationOptions _options;
+    private readonly ILogger<NotificationBackgroundService> _logger;
+
+    public NotificationBackgroundService(
+        IServiceScopeFactory scopeFactory,
+        NotificationOptions options,
+        ILogger<NotificationBackgroundService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _options = options;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(TimeSpan.FromMinutes(_options.CheckIntervalMinutes));
+
+        do
+        {
+            try
+            {
+                await GenerateRemindersAsync();
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                // Logged and retried on the next tick: a failed run must not stop the service
+                _logger.LogError(ex, "Error generating due date notifications");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+
+    private async Task GenerateRemindersAsync()
+    {
+        // Repositories are scoped: resolve them in a scope per run
+        using var scope = _scopeFactory.CreateScope();
+        var notificationRepository = scope.ServiceProvider.GetRequiredService<INotificationRepository>();
+
+        var now = DateTime.UtcNow;
+        var added = await notificationRepository.AddDueDateRemindersAsync(
+            now.Date,
+            now.Date.AddDays(_options.DueSoonDays));
+        var deleted = await notificationRepository.DeleteCreatedBeforeAsync(now.AddDays(-_options.RetentionDays));
+
+        if (added > 0 || deleted > 0)
+        {
+            _logger.LogInformation(
+                "Added {Added} due date notifications, deleted {Deleted} expired notifications",
+                added,
+                deleted);
+        }
+    }
+}
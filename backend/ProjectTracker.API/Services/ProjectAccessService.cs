@@ -0,0 +1,38 @@
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// IProjectAccessService implementation: the project's UserId is the owner,
+/// other users get the role of their membership
+/// </summary>
+public class ProjectAccessService : IProjectAccessService
+{
+    private readonly IProjectRepository _projectRepository;
+    private readonly IProjectMemberRepository _memberRepository;
+
+    public ProjectAccessService(IProjectRepository projectRepository, IProjectMemberRepository memberRepository)
+    {
+        _projectRepository = projectRepository;
+        _memberRepository = memberRepository;
+    }
+
+    public async Task<string?> GetRoleAsync(int projectId, int userId)
+    {
+        var project = await _projectRepository.GetByIdAsync(projectId);
+        return project is null ? null : await GetRoleAsync(project, userId);
+    }
+
+    public async Task<string?> GetRoleAsync(Project project, int userId)
+    {
+        if (project.UserId == userId)
+        {
+            return ProjectRoles.Owner;
+        }
+
+        var member = await _memberRepository.GetAsync(project.Id, userId);
+        return member?.Role;
+    }
+}
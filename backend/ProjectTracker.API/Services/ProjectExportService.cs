@@ -0,0 +1,459 @@
+using System.Globalization;
+using System.IO.Compression;
+using System.Text;
+using System.Text.Json;
+using System.Xml;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Dtos.Projects;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Streaming CSV and XLSX writer for project exports.
+/// Rows are written as they are read from the database and flushed periodically,
+/// so memory use stays flat and the client sees download progress.
+/// Headers are translated for the requested culture.
+/// </summary>
+public class ProjectExportService : IProjectExportService
+{
+    private const int FlushEveryRows = 200;
+
+    private const string SpreadsheetNamespace = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+    private const string RelationshipsNamespace = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+    // Cell style indexes into cellXfs (see StylesXml)
+    private const string StyleHeader = "1";
+    private const string StyleDate = "2";
+    private const string StyleDateTime = "3";
+
+    private enum ColumnKind { Number, Text, Date, DateTime }
+
+    private sealed record ExportColumn(ColumnKind Kind, double Width, string DefaultHeader, Func<Project, object?> GetValue);
+
+    private static readonly Dictionary<string, ExportColumn> ColumnDefinitions = new()
+    {
+        ["id"] = new(ColumnKind.Number, 8, "ID", p => p.Id),
+        ["title"] = new(ColumnKind.Text, 40, "Title", p => p.Title),
+        ["description"] = new(ColumnKind.Text, 50, "Description", p => p.Description),
+        ["status"] = new(ColumnKind.Text, 12, "Status", p => p.Status),
+        ["priority"] = new(ColumnKind.Number, 10, "Priority", p => p.Priority),
+        ["startDate"] = new(ColumnKind.Date, 12, "Start Date", p => p.StartDate),
+        ["dueDate"] = new(ColumnKind.Date, 12, "Due Date", p => p.DueDate),
+        ["createdAt"] = new(ColumnKind.DateTime, 20, "Created At", p => p.CreatedAt),
+        ["updatedAt"] = new(ColumnKind.DateTime, 20, "Updated At", p => p.UpdatedAt)
+    };
+
+    private static readonly UTF8Encoding Utf8NoBom = new(encoderShouldEmitUTF8Identifier: false);
+    private static readonly UTF8Encoding Utf8WithBom = new(encoderShouldEmitUTF8Identifier: true);
+
+    // First characters that make Excel evaluate a CSV cell as a formula
+    private static readonly char[] FormulaPrefixes = ['=', '+', '-', '@', '\t', '\r'];
+
+    private readonly ITranslationRepository _translationRepository;
+    private readonly ILogger<ProjectExportService> _logger;
+
+    public ProjectExportService(ITranslationRepository translationRepository, ILogger<ProjectExportService> logger)
+    {
+        _translationRepository = translationRepository;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Write projects as RFC 4180 CSV with the chosen columns, delimiter, BOM and date format
+    /// </summary>
+    public async Task WriteCsvAsync(
+        Stream output,
+        IAsyncEnumerable<Project> projects,
+        ProjectExportOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        var columns = options.Columns.Select(key => ColumnDefinitions[key]).ToArray();
+        var headers = await GetHeadersAsync(options);
+        var (datePattern, dateProvider) = options.GetDatePattern();
+        var delimiter = options.Delimiter.ToString();
+
+        await using var writer = new StreamWriter(output, options.IncludeBom ? Utf8WithBom : Utf8NoBom, leaveOpen: true);
+
+        await writer.WriteLineAsync(string.Join(delimiter, headers.Select(h => EscapeCsv(h, options.Delimiter))));
+
+        var rowCount = 0;
+        await foreach (var p in projects.WithCancellation(cancellationToken))
+        {
+            var values = columns.Select(column => column.GetValue(p) switch
+            {
+                null => string.Empty,
+                DateTime date when column.Kind == ColumnKind.Date =>
+                    date.ToString(datePattern, dateProvider),
+                DateTime date =>
+                    $"{date.ToString(datePattern, dateProvider)} {date.ToString("HH:mm", CultureInfo.InvariantCulture)}",
+                int number => number.ToString(CultureInfo.InvariantCulture),
+                var value => EscapeCsv(value.ToString(), options.Delimiter)
+            });
+            await writer.WriteLineAsync(string.Join(delimiter, values));
+
+            if (++rowCount % FlushEveryRows == 0)
+            {
+                await writer.FlushAsync(cancellationToken);
+            }
+        }
+
+        await writer.FlushAsync(cancellationToken);
+        _logger.LogInformation("CSV export completed with {RowCount} rows", rowCount);
+    }
+
+    /// <summary>
+    /// Write projects as an Office Open XML workbook.
+    /// Sheet 1: typed cells, frozen header row and autoFilter. Sheet 2: applied filters and export timestamp.
+    /// </summary>
+    public async Task WriteXlsxAsync(
+        Stream output,
+        IAsyncEnumerable<Project> projects,
+        ProjectFilterRequest filters,
+        ProjectExportOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        var columns = options.Columns.Select(key => ColumnDefinitions[key]).ToArray();
+        var headers = await GetHeadersAsync(options);
+
+        await using var archive = new ZipArchive(output, ZipArchiveMode.Create, leaveOpen: true);
+
+        await WriteEntryAsync(archive, "[Content_Types].xml", ContentTypesXml, cancellationToken);
+        await WriteEntryAsync(archive, "_rels/.rels", RootRelsXml, cancellationToken);
+        await WriteEntryAsync(archive, "xl/_rels/workbook.xml.rels", WorkbookRelsXml, cancellationToken);
+        await WriteEntryAsync(archive, "xl/styles.xml", StylesXml, cancellationToken);
+
+        var rowCount = await WriteProjectsSheetAsync(archive, projects, columns, headers, cancellationToken);
+        await WriteFiltersSheetAsync(archive, filters, rowCount, cancellationToken);
+
+        // The workbook is written last: its autoFilter range depends on the row count
+        var lastRef = $"${ColumnName(columns.Length - 1)}${rowCount + 1}";
+        var workbookXml =
+            "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+            $"<workbook xmlns=\"{SpreadsheetNamespace}\" xmlns:r=\"{RelationshipsNamespace}\">" +
+            "<bookViews><workbookView/></bookViews>" +
+            "<sheets><sheet name=\"Projects\" sheetId=\"1\" r:id=\"rId1\"/><sheet name=\"Filters\" sheetId=\"2\" r:id=\"rId2\"/></sheets>" +
+            $"<definedNames><definedName name=\"_xlnm._FilterDatabase\" localSheetId=\"0\" hidden=\"1\">'Projects'!$A$1:{lastRef}</definedName></definedNames>" +
+            "</workbook>";
+        await WriteEntryAsync(archive, "xl/workbook.xml", workbookXml, cancellationToken);
+
+        _logger.LogInformation("XLSX export completed with {RowCount} rows", rowCount);
+    }
+
+    /// <summary>
+    /// Translated headers for the selected columns (English fallback when a key is missing)
+    /// </summary>
+    private async Task<string[]> GetHeadersAsync(ProjectExportOptions options)
+    {
+        var translations = await _translationRepository.GetTranslationsAsync(options.CultureCode);
+        var projectTranslations = translations.TryGetValue("projects", out var category) && category is JsonElement element
+            ? element
+            : (JsonElement?)null;
+
+        return options.Columns.Select(key =>
+        {
+            var headerKey = ProjectExportOptions.ColumnHeaderKeys[key];
+            return projectTranslations?.TryGetProperty(headerKey, out var label) == true && label.ValueKind == JsonValueKind.String
+                ? label.GetString()!
+                : ColumnDefinitions[key].DefaultHeader;
+        }).ToArray();
+    }
+
+    /// <summary>
+    /// Stream the projects worksheet and return the number of data rows written
+    /// </summary>
+    private static async Task<int> WriteProjectsSheetAsync(
+        ZipArchive archive,
+        IAsyncEnumerable<Project> projects,
+        ExportColumn[] columns,
+        string[] headers,
+        CancellationToken cancellationToken)
+    {
+        var entry = archive.CreateEntry("xl/worksheets/sheet1.xml", CompressionLevel.Fastest);
+        await using var stream = await entry.OpenAsync(cancellationToken);
+        await using var xml = XmlWriter.Create(stream, new XmlWriterSettings { Async = true, Encoding = Utf8NoBom });
+
+        await WriteSheetStartAsync(xml, columns.Select(c => c.Width).ToArray());
+        await WriteHeaderRowAsync(xml, headers);
+
+        var rowCount = 0;
+        await foreach (var p in projects.WithCancellation(cancellationToken))
+        {
+            var row = ++rowCount + 1;
+            await xml.WriteStartElementAsync(null, "row", SpreadsheetNamespace);
+            await xml.WriteAttributeStringAsync(null, "r", null, row.ToString(CultureInfo.InvariantCulture));
+            for (var i = 0; i < columns.Length; i++)
+            {
+                var reference = $"{ColumnName(i)}{row}";
+                switch (columns[i].GetValue(p))
+                {
+                    case DateTime date:
+                        await WriteDateCellAsync(xml, reference,
+                            columns[i].Kind == ColumnKind.Date ? date.Date : date,
+                            columns[i].Kind == ColumnKind.Date ? StyleDate : StyleDateTime);
+                        break;
+                    case int number:
+                        await WriteNumberCellAsync(xml, reference, number);
+                        break;
+                    case var value:
+                        await WriteStringCellAsync(xml, reference, value?.ToString());
+                        break;
+                }
+            }
+            await xml.WriteEndElementAsync();
+
+            if (rowCount % FlushEveryRows == 0)
+            {
+                await xml.FlushAsync();
+            }
+        }
+
+        await xml.WriteEndElementAsync(); // sheetData
+
+        await xml.WriteStartElementAsync(null, "autoFilter", SpreadsheetNamespace);
+        await xml.WriteAttributeStringAsync(null, "ref", null, $"A1:{ColumnName(columns.Length - 1)}{rowCount + 1}");
+        await xml.WriteEndElementAsync();
+
+        await xml.WriteEndElementAsync(); // worksheet
+        await xml.WriteEndDocumentAsync();
+
+        return rowCount;
+    }
+
+    /// <summary>
+    /// Write the worksheet describing the export (timestamp, row count, active filters)
+    /// </summary>
+    private static async Task WriteFiltersSheetAsync(
+        ZipArchive archive,
+        ProjectFilterRequest filters,
+        int rowCount,
+        CancellationToken cancellationToken)
+    {
+        var entry = archive.CreateEntry("xl/worksheets/sheet2.xml", CompressionLevel.Fastest);
+        await using var stream = await entry.OpenAsync(cancellationToken);
+        await using var xml = XmlWriter.Create(stream, new XmlWriterSettings { Async = true, Encoding = Utf8NoBom });
+
+        await WriteSheetStartAsync(xml, [20, 30]);
+        await WriteHeaderRowAsync(xml, ["Filter", "Value"]);
+
+        var rows = new List<(string label, object? value)>
+        {
+            ("Exported At (UTC)", DateTime.UtcNow),
+            ("Rows", rowCount),
+            ("Search", filters.SearchTerm),
+            ("Status", filters.Status is { Length: > 0 } ? string.Join(", ", filters.Status) : null),
+            ("Priority Min", filters.PriorityMin),
+            ("Priority Max", filters.PriorityMax),
+            ("Start Date From", filters.StartDateFrom?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture)),
+            ("Start Date To", filters.StartDateTo?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture)),
+            ("Due Date From", filters.DueDateFrom?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture)),
+            ("Due Date To", filters.DueDateTo?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture)),
+            ("Sort By", filters.SortBy),
+            ("Sort Direction", filters.SortDirection)
+        };
+
+        var rowNumber = 1;
+        foreach (var (label, value) in rows.Where(r => r.value is not null && !Equals(r.value, string.Empty)))
+        {
+            var row = ++rowNumber;
+            await xml.WriteStartElementAsync(null, "row", SpreadsheetNamespace);
+            await xml.WriteAttributeStringAsync(null, "r", null, row.ToString(CultureInfo.InvariantCulture));
+            await WriteStringCellAsync(xml, $"A{row}", label);
+            switch (value)
+            {
+                case DateTime date:
+                    await WriteDateCellAsync(xml, $"B{row}", date, StyleDateTime);
+                    break;
+                case int number:
+                    await WriteNumberCellAsync(xml, $"B{row}", number);
+                    break;
+                default:
+                    await WriteStringCellAsync(xml, $"B{row}", value?.ToString());
+                    break;
+            }
+            await xml.WriteEndElementAsync();
+        }
+
+        await xml.WriteEndElementAsync(); // sheetData
+        await xml.WriteEndElementAsync(); // worksheet
+        await xml.WriteEndDocumentAsync();
+    }
+
+    /// <summary>
+    /// Worksheet preamble: frozen first row, column widths, open sheetData
+    /// </summary>
+    private static async Task WriteSheetStartAsync(XmlWriter xml, double[] widths)
+    {
+        await xml.WriteStartDocumentAsync(standalone: true);
+        await xml.WriteStartElementAsync(null, "worksheet", SpreadsheetNamespace);
+        await xml.WriteAttributeStringAsync("xmlns", "r", null, RelationshipsNamespace);
+
+        await xml.WriteRawAsync(
+            "<sheetViews><sheetView workbookViewId=\"0\">" +
+            "<pane ySplit=\"1\" topLeftCell=\"A2\" activePane=\"bottomLeft\" state=\"frozen\"/>" +
+            "<selection pane=\"bottomLeft\" activeCell=\"A2\" sqref=\"A2\"/>" +
+            "</sheetView></sheetViews>" +
+            "<sheetFormatPr defaultRowHeight=\"15\"/>");
+
+        await xml.WriteStartElementAsync(null, "cols", SpreadsheetNamespace);
+        for (var i = 0; i < widths.Length; i++)
+        {
+            await xml.WriteStartElementAsync(null, "col", SpreadsheetNamespace);
+            await xml.WriteAttributeStringAsync(null, "min", null, (i + 1).ToString(CultureInfo.InvariantCulture));
+            await xml.WriteAttributeStringAsync(null, "max", null, (i + 1).ToString(CultureInfo.InvariantCulture));
+            await xml.WriteAttributeStringAsync(null, "width", null, widths[i].ToString(CultureInfo.InvariantCulture));
+            await xml.WriteAttributeStringAsync(null, "customWidth", null, "1");
+            await xml.WriteEndElementAsync();
+        }
+        await xml.WriteEndElementAsync();
+
+        await xml.WriteStartElementAsync(null, "sheetData", SpreadsheetNamespace);
+    }
+
+    private static async Task WriteHeaderRowAsync(XmlWriter xml, string[] headers)
+    {
+        await xml.WriteStartElementAsync(null, "row", SpreadsheetNamespace);
+        await xml.WriteAttributeStringAsync(null, "r", null, "1");
+        for (var i = 0; i < headers.Length; i++)
+        {
+            await WriteStringCellAsync(xml, $"{ColumnName(i)}1", headers[i], StyleHeader);
+        }
+        await xml.WriteEndElementAsync();
+    }
+
+    private static async Task WriteStringCellAsync(XmlWriter xml, string reference, string? value, string? style = null)
+    {
+        if (string.IsNullOrEmpty(value)) return;
+
+        await xml.WriteStartElementAsync(null, "c", SpreadsheetNamespace);
+        await xml.WriteAttributeStringAsync(null, "r", null, reference);
+        if (style is not null)
+        {
+            await xml.WriteAttributeStringAsync(null, "s", null, style);
+        }
+        await xml.WriteAttributeStringAsync(null, "t", null, "inlineStr");
+        await xml.WriteStartElementAsync(null, "is", SpreadsheetNamespace);
+        await xml.WriteStartElementAsync(null, "t", SpreadsheetNamespace);
+        if (value.Trim() != value)
+        {
+            await xml.WriteAttributeStringAsync("xml", "space", null, "preserve");
+        }
+        await xml.WriteStringAsync(RemoveInvalidXmlChars(value));
+        await xml.WriteEndElementAsync();
+        await xml.WriteEndElementAsync();
+        await xml.WriteEndElementAsync();
+    }
+
+    private static async Task WriteNumberCellAsync(XmlWriter xml, string reference, int value)
+    {
+        await xml.WriteStartElementAsync(null, "c", SpreadsheetNamespace);
+        await xml.WriteAttributeStringAsync(null, "r", null, reference);
+        await xml.WriteElementStringAsync(null, "v", SpreadsheetNamespace, value.ToString(CultureInfo.InvariantCulture));
+        await xml.WriteEndElementAsync();
+    }
+
+    private static async Task WriteDateCellAsync(XmlWriter xml, string reference, DateTime? value, string style)
+    {
+        if (!value.HasValue) return;
+
+        await xml.WriteStartElementAsync(null, "c", SpreadsheetNamespace);
+        await xml.WriteAttributeStringAsync(null, "r", null, reference);
+        await xml.WriteAttributeStringAsync(null, "s", null, style);
+        await xml.WriteElementStringAsync(null, "v", SpreadsheetNamespace,
+            value.Value.ToOADate().ToString(CultureInfo.InvariantCulture));
+        await xml.WriteEndElementAsync();
+    }
+
+    private static async Task WriteEntryAsync(
+        ZipArchive archive,
+        string path,
+        string content,
+        CancellationToken cancellationToken)
+    {
+        var entry = archive.CreateEntry(path, CompressionLevel.Fastest);
+        await using var stream = await entry.OpenAsync(cancellationToken);
+        await stream.WriteAsync(Utf8NoBom.GetBytes(content), cancellationToken);
+    }
+
+    /// <summary>
+    /// Quote CSV values containing the delimiter, quotes or line breaks;
+    /// values starting with a formula character are prefixed with '
+    /// </summary>
+    private static string EscapeCsv(string? value, char delimiter)
+    {
+        if (string.IsNullOrEmpty(value)) return string.Empty;
+
+        // Text Excel would run as a formula (an editor's title such as =HYPERLINK(...)) is kept as text
+        if (FormulaPrefixes.Contains(value[0]))
+        {
+            value = "'" + value;
+        }
+
+        return value.IndexOfAny([delimiter, '"', '\n', '\r']) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+
+    /// <summary>
+    /// Zero-based column index to letters (0 = A, 26 = AA)
+    /// </summary>
+    private static string ColumnName(int index)
+    {
+        var name = string.Empty;
+        for (var n = index + 1; n > 0; n = (n - 1) / 26)
+        {
+            name = (char)('A' + (n - 1) % 26) + name;
+        }
+        return name;
+    }
+
+    /// <summary>
+    /// Drop control characters that are not allowed in XML 1.0
+    /// </summary>
+    private static string RemoveInvalidXmlChars(string value) =>
+        new(value.Where(XmlConvert.IsXmlChar).ToArray());
+
+    private const string ContentTypesXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<Types xmlns=\"http://schemas.openxmlformats.org/package/2006/content-types\">" +
+        "<Default Extension=\"rels\" ContentType=\"application/vnd.openxmlformats-package.relationships+xml\"/>" +
+        "<Default Extension=\"xml\" ContentType=\"application/xml\"/>" +
+        "<Override PartName=\"/xl/workbook.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml\"/>" +
+        "<Override PartName=\"/xl/styles.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml\"/>" +
+        "<Override PartName=\"/xl/worksheets/sheet1.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml\"/>" +
+        "<Override PartName=\"/xl/worksheets/sheet2.xml\" ContentType=\"application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml\"/>" +
+        "</Types>";
+
+    private const string RootRelsXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<Relationships xmlns=\"http://schemas.openxmlformats.org/package/2006/relationships\">" +
+        "<Relationship Id=\"rId1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument\" Target=\"xl/workbook.xml\"/>" +
+        "</Relationships>";
+
+    private const string WorkbookRelsXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<Relationships xmlns=\"http://schemas.openxmlformats.org/package/2006/relationships\">" +
+        "<Relationship Id=\"rId1\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet\" Target=\"worksheets/sheet1.xml\"/>" +
+        "<Relationship Id=\"rId2\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet\" Target=\"worksheets/sheet2.xml\"/>" +
+        "<Relationship Id=\"rId3\" Type=\"http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles\" Target=\"styles.xml\"/>" +
+        "</Relationships>";
+
+    // Styles: 0 = default, 1 = bold header, 2 = date, 3 = date and time
+    private const string StylesXml =
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>" +
+        "<styleSheet xmlns=\"http://schemas.openxmlformats.org/spreadsheetml/2006/main\">" +
+        "<numFmts count=\"2\"><numFmt numFmtId=\"164\" formatCode=\"yyyy-mm-dd\"/><numFmt numFmtId=\"165\" formatCode=\"yyyy-mm-dd hh:mm:ss\"/></numFmts>" +
+        "<fonts count=\"2\"><font><sz val=\"11\"/><name val=\"Calibri\"/><family val=\"2\"/></font><font><b/><sz val=\"11\"/><name val=\"Calibri\"/><family val=\"2\"/></font></fonts>" +
+        "<fills count=\"3\"><fill><patternFill patternType=\"none\"/></fill><fill><patternFill patternType=\"gray125\"/></fill>" +
+        "<fill><patternFill patternType=\"solid\"><fgColor rgb=\"FFE9ECEF\"/><bgColor indexed=\"64\"/></patternFill></fill></fills>" +
+        "<borders count=\"1\"><border><left/><right/><top/><bottom/><diagonal/></border></borders>" +
+        "<cellStyleXfs count=\"1\"><xf numFmtId=\"0\" fontId=\"0\" fillId=\"0\" borderId=\"0\"/></cellStyleXfs>" +
+        "<cellXfs count=\"4\">" +
+        "<xf numFmtId=\"0\" fontId=\"0\" fillId=\"0\" borderId=\"0\" xfId=\"0\"/>" +
+        "<xf numFmtId=\"0\" fontId=\"1\" fillId=\"2\" borderId=\"0\" xfId=\"0\" applyFont=\"1\" applyFill=\"1\"/>" +
+        "<xf numFmtId=\"164\" fontId=\"0\" fillId=\"0\" borderId=\"0\" xfId=\"0\" applyNumberFormat=\"1\"/>" +
+        "<xf numFmtId=\"165\" fontId=\"0\" fillId=\"0\" borderId=\"0\" xfId=\"0\" applyNumberFormat=\"1\"/>" +
+        "</cellXfs>" +
+        "<cellStyles count=\"1\"><cellStyle name=\"Normal\" xfId=\"0\" builtinId=\"0\"/></cellStyles>" +
+        "</styleSheet>";
+}
@@ -0,0 +1,122 @@
+using System.Globalization;
+using System.Text.Json;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Models.Common;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// IProjectHistoryService implementation: compares the tracked project fields
+/// and stores the differences as invariant strings
+/// Every recorded change except a creation also notifies the other users of the project,
+/// and every change is pushed to their connected clients
+/// </summary>
+public class ProjectHistoryService : IProjectHistoryService
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    // Tracked fields in display order (names match the client field keys)
+    private static readonly (string Field, Func<Project, string?> Value)[] Fields =
+    [
+        ("title", p => p.Title),
+        ("description", p => string.IsNullOrEmpty(p.Description) ? null : p.Description),
+        ("status", p => p.Status),
+        ("priority", p => p.Priority.ToString(CultureInfo.InvariantCulture)),
+        ("startDate", p => p.StartDate?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture)),
+        ("dueDate", p => p.DueDate?.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture))
+    ];
+
+    private readonly IProjectHistoryRepository _historyRepository;
+    private readonly INotificationRepository _notificationRepository;
+    private readonly IProjectUpdatePublisher _updatePublisher;
+
+    public ProjectHistoryService(
+        IProjectHistoryRepository historyRepository,
+        INotificationRepository notificationRepository,
+        IProjectUpdatePublisher updatePublisher)
+    {
+        _historyRepository = historyRepository;
+        _notificationRepository = notificationRepository;
+        _updatePublisher = updatePublisher;
+    }
+
+    public async Task RecordCreatedAsync(int userId, IReadOnlyList<Project> projects)
+    {
+        var entries = projects
+            .Select(p => CreateEntry(p.Id, userId, ProjectHistoryActions.Created, Diff(null, p)))
+            .ToList();
+
+        // Only the creator knows about a new project: nobody to notify, but their other clients are updated
+        await _historyRepository.AddManyAsync(entries);
+        await _updatePublisher.PublishAsync(entries);
+    }
+
+    public Task RecordUpdatedAsync(int userId, IReadOnlyList<(Project Before, Project After)> updates)
+    {
+        var entries = new List<ProjectHistoryEntry>();
+        foreach (var (before, after) in updates)
+        {
+            var changes = Diff(before, after);
+            if (changes.Count == 0)
+            {
+                continue;
+            }
+
+            var action = changes is [{ Field: "status" }]
+                ? ProjectHistoryActions.StatusChanged
+                : ProjectHistoryActions.Updated;
+            entries.Add(CreateEntry(after.Id, userId, action, changes));
+        }
+
+        return AddAndNotifyAsync(entries);
+    }
+
+    public Task RecordDeletedAsync(int userId, IReadOnlyList<int> projectIds)
+    {
+        return AddAndNotifyAsync(
+            projectIds.Select(id => CreateEntry(id, userId, ProjectHistoryActions.Deleted, [])).ToList());
+    }
+
+    public Task RecordRestoredAsync(int userId, IReadOnlyList<int> projectIds)
+    {
+        return AddAndNotifyAsync(
+            projectIds.Select(id => CreateEntry(id, userId, ProjectHistoryActions.Restored, [])).ToList());
+    }
+
+    private async Task AddAndNotifyAsync(IReadOnlyList<ProjectHistoryEntry> entries)
+    {
+        await _historyRepository.AddManyAsync(entries);
+        await _notificationRepository.AddProjectChangedAsync(entries);
+        await _updatePublisher.PublishAsync(entries);
+    }
+
+    /// <summary>
+    /// Changed fields between two versions of a project (every set field when before is null)
+    /// </summary>
+    private static List<ProjectFieldChange> Diff(Project? before, Project after)
+    {
+        var changes = new List<ProjectFieldChange>();
+        foreach (var (field, value) in Fields)
+        {
+            var oldValue = before is null ? null : value(before);
+            var newValue = value(after);
+            if (oldValue != newValue)
+            {
+                changes.Add(new ProjectFieldChange { Field = field, OldValue = oldValue, NewValue = newValue });
+            }
+        }
+        return changes;
+    }
+
+    private static ProjectHistoryEntry CreateEntry(int projectId, int userId, string action, List<ProjectFieldChange> changes)
+    {
+        return new ProjectHistoryEntry
+        {
+            ProjectId = projectId,
+            UserId = userId,
+            Action = action,
+            Changes = JsonSerializer.Serialize(changes, JsonOptions)
+        };
+    }
+}
@@ -0,0 +1,53 @@
+using ProjectTracker.API.Data.Repositories;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// IProjectPurgeService implementation: the storage keys are read before the rows are deleted
+/// (attachment rows are removed by the cascade), then the files are deleted
+/// </summary>
+public class ProjectPurgeService : IProjectPurgeService
+{
+    private readonly IProjectRepository _projectRepository;
+    private readonly IProjectAttachmentRepository _attachmentRepository;
+    private readonly IFileStorage _fileStorage;
+    private readonly ILogger<ProjectPurgeService> _logger;
+
+    public ProjectPurgeService(
+        IProjectRepository projectRepository,
+        IProjectAttachmentRepository attachmentRepository,
+        IFileStorage fileStorage,
+        ILogger<ProjectPurgeService> logger)
+    {
+        _projectRepository = projectRepository;
+        _attachmentRepository = attachmentRepository;
+        _fileStorage = fileStorage;
+        _logger = logger;
+    }
+
+    public async Task<int> PurgeAsync(IReadOnlyList<int> projectIds, CancellationToken cancellationToken = default)
+    {
+        if (projectIds.Count == 0)
+        {
+            return 0;
+        }
+
+        var storageKeys = await _attachmentRepository.GetStorageKeysByProjectIdsAsync(projectIds);
+        var purged = await _projectRepository.PurgeManyAsync(projectIds);
+
+        // A file that cannot be deleted is only logged: the projects are already gone
+        foreach (var key in storageKeys)
+        {
+            try
+            {
+                await _fileStorage.DeleteAsync(key, cancellationToken);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Orphaned attachment file {StorageKey} could not be deleted", key);
+            }
+        }
+
+        return purged;
+    }
+}
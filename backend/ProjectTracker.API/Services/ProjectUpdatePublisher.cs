@@ -0,0 +1,73 @@
+using System.Globalization;
+using Microsoft.AspNetCore.SignalR;
+using ProjectTracker.API.Data.Repositories;
+using ProjectTracker.API.Hubs;
+using ProjectTracker.API.Models.Dtos.Projects;
+using ProjectTracker.API.Models.Entities;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// SignalR implementation of IProjectUpdatePublisher: each recipient gets one
+/// ProjectsChanged message with the changes to the projects it can see.
+/// The actor is skipped: their own page already reloads after the change
+/// </summary>
+public class ProjectUpdatePublisher : IProjectUpdatePublisher
+{
+    private readonly IHubContext<ProjectHub> _hubContext;
+    private readonly IProjectMemberRepository _memberRepository;
+    private readonly IUserRepository _userRepository;
+    private readonly ILogger<ProjectUpdatePublisher> _logger;
+
+    public ProjectUpdatePublisher(
+        IHubContext<ProjectHub> hubContext,
+        IProjectMemberRepository memberRepository,
+        IUserRepository userRepository,
+        ILogger<ProjectUpdatePublisher> logger)
+    {
+        _hubContext = hubContext;
+        _memberRepository = memberRepository;
+        _userRepository = userRepository;
+        _logger = logger;
+    }
+
+    public async Task PublishAsync(IReadOnlyList<ProjectHistoryEntry> entries)
+    {
+        if (entries.Count == 0)
+        {
+            return;
+        }
+
+        try
+        {
+            var actor = await _userRepository.GetByIdAsync(entries[0].UserId);
+            var projectUsers = await _memberRepository.GetUserIdsAsync(
+                entries.Select(e => e.ProjectId).Distinct().ToList());
+
+            var messagesByUser = entries
+                .SelectMany(entry => projectUsers.GetValueOrDefault(entry.ProjectId, [])
+                    .Where(userId => userId != entry.UserId)
+                    .Select(userId => (UserId: userId, Message: new ProjectChangedMessage
+                    {
+                        ProjectId = entry.ProjectId,
+                        Action = entry.Action,
+                        ActorId = entry.UserId,
+                        ActorName = string.IsNullOrEmpty(actor?.FullName) ? null : actor.FullName,
+                        ActorEmail = actor?.Email
+                    })))
+                .GroupBy(x => x.UserId, x => x.Message);
+
+            foreach (var messages in messagesByUser)
+            {
+                await _hubContext.Clients
+                    .User(messages.Key.ToString(CultureInfo.InvariantCulture))
+                    .SendAsync(ProjectHub.ProjectsChangedMethod, messages.ToList());
+            }
+        }
+        catch (Exception ex)
+        {
+            // Clients catch up on their next reload: a failed push must not fail the change itself
+            _logger.LogError(ex, "Error publishing {Count} project changes", entries.Count);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+using ProjectTracker.API.Configuration;
+using ProjectTracker.API.Data.Repositories;
+
+namespace ProjectTracker.API.Services;
+
+/// <summary>
+/// Purges projects that have been in the trash longer than Trash:RetentionDays
+/// Runs every Trash:PurgeIntervalMinutes; each run works in batches until nothing has expired
+/// </summary>
+public class TrashPurgeBackgroundService : BackgroundService
+{
+    private const int BatchSize = 100;
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly TrashOptions _options;
+    private readonly ILogger<TrashPurgeBackgroundService> _logger;
+
+    public TrashPurgeBackgroundService(
+        IServiceScopeFactory scopeFactory,
+        TrashOptions options,
+        ILogger<TrashPurgeBackgroundService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _options = options;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(TimeSpan.FromMinutes(_options.PurgeIntervalMinutes));
+
+        do
+        {
+            try
+            {
+                await PurgeExpiredAsync(stoppingToken);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                // Logged and retried on the next tick: a failed run must not stop the service
+                _logger.LogError(ex, "Error purging expired projects from trash");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+
+    private async Task PurgeExpiredAsync(CancellationToken cancellationToken)
+    {
+        // Repositories are scoped: resolve them in a scope per run
+        using var scope = _scopeFactory.CreateScope();
+        var projectRepository = scope.ServiceProvider.GetRequiredService<IProjectRepository>();
+        var purgeService = scope.ServiceProvider.GetRequiredService<IProjectPurgeService>();
+
+        var cutoff = DateTime.UtcNow.AddDays(-_options.RetentionDays);
+        var total = 0;
+
+        while (!cancellationToken.IsCancellationRequested)
+        {
+            var ids = await projectRepository.GetDeletedBeforeAsync(cutoff, BatchSize);
+            if (ids.Count == 0)
+            {
+                break;
+            }
+
+            total += await purgeService.PurgeAsync(ids, cancellationToken);
+        }
+
+        if (total > 0)
+        {
+            _logger.LogInformation("Purged {Count} projects deleted before {Cutoff}", total, cutoff);
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import { Routes } from '@angular/router';
 import { authGuard } from './core/guards/auth.guard';
+import { roleGuard } from './core/guards/role.guard';
 
 export const routes: Routes = [
   // Lazy load auth feature
@@ -8,6 +9,13 @@ export const routes: Routes = [
     loadChildren: () => import('./features/auth/auth.routes').then(m => m.authRoutes)
   },
 
+  // Lazy load dashboard feature (protected)
+  {
+    path: 'dashboard',
+    canActivate: [authGuard],
+    loadChildren: () => import('./features/dashboard/dashboard.routes').then(m => m.dashboardRoutes)
+  },
+
   // Lazy load projects feature (protected)
   {
     path: 'projects',
@@ -15,10 +23,25 @@ export const routes: Routes = [
     loadChildren: () => import('./features/projects/projects.routes').then(m => m.projectRoutes)
   },
 
+  // Lazy load notifications feature (protected)
+  {
+    path: 'notifications',
+    canActivate: [authGuard],
+    loadChildren: () => import('./features/notifications/notifications.routes').then(m => m.notificationRoutes)
+  },
+
+  // Lazy load admin feature (administrators only)
+  {
+    path: 'admin',
+    canActivate: [authGuard, roleGuard],
+    data: { roles: ['Admin'] },
+    loadChildren: () => import('./features/admin/admin.routes').then(m => m.adminRoutes)
+  },
+
   // Default redirect
   {
     path: '',
-    redirectTo: '/projects',
+    redirectTo: '/dashboard',
     pathMatch: 'full'
   },
 
@@ -31,7 +31,7 @@ export const guestGuard: CanActivateFn = () => {
   const router = inject(Router);
 
   if (authService.isAuthenticated$()()) {
-    router.navigate(['/projects']);
+    router.navigate(['/dashboard']);
     return false;
   }
 
@@ -0,0 +1,32 @@
+import { inject } from '@angular/core';
+import { Router, CanActivateFn } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+import { LoggerService } from '../../shared/services/logger.service';
+import { UserRole } from '../../shared/models/user.model';
+
+/// <summary>
+/// Role guard to restrict routes to users having one of the roles in route data
+/// Usage in routes: canActivate: [authGuard, roleGuard], data: { roles: ['Admin'] }
+/// Routes without roles only require authentication
+/// </summary>
+export const roleGuard: CanActivateFn = (route, state) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+  const logger = inject(LoggerService);
+
+  if (!authService.isAuthenticated$()()) {
+    router.navigate(['/auth/login'], {
+      queryParams: { returnUrl: state.url }
+    });
+    return false;
+  }
+
+  const roles: UserRole[] = route.data['roles'] ?? [];
+  if (roles.length === 0 || authService.hasRole(roles)) {
+    return true;
+  }
+
+  logger.warning('roleGuard: Access denied', { url: state.url, roles });
+  router.navigate(['/dashboard']);
+  return false;
+};
@@ -0,0 +1,36 @@
+import { inject } from '@angular/core';
+import { CanDeactivateFn } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+import { TranslationService } from '../../shared/services/translation.service';
+
+/// <summary>
+/// Implemented by routed components holding user input that is not saved yet
+/// </summary>
+export interface HasUnsavedChanges {
+  hasUnsavedChanges(): boolean;
+  /// <summary>
+  /// Called when the user confirms leaving without saving
+  /// </summary>
+  discardUnsavedChanges(): void;
+}
+
+/// <summary>
+/// Unsaved changes guard asking for confirmation before leaving a dirty form
+/// Usage in routes: canDeactivate: [unsavedChangesGuard]
+/// After a logout the user leaves without a prompt; the component keeps its draft to restore later
+/// </summary>
+export const unsavedChangesGuard: CanDeactivateFn<HasUnsavedChanges> = (component) => {
+  const authService = inject(AuthService);
+  const translationService = inject(TranslationService);
+
+  if (!component.hasUnsavedChanges() || !authService.isAuthenticated$()()) {
+    return true;
+  }
+
+  if (confirm(translationService.translate('common.unsavedChanges'))) {
+    component.discardUnsavedChanges();
+    return true;
+  }
+
+  return false;
+};
@@ -1,12 +1,17 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpInterceptorFn, HttpErrorResponse, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { AuthService } from '../services/auth.service';
 import { LoggerService } from '../../shared/services/logger.service';
-import { catchError, throwError } from 'rxjs';
+import { catchError, of, switchMap, throwError } from 'rxjs';
 
 /**
  * HTTP Interceptor function for adding JWT token to requests
  * This is the modern Angular 14+ approach for standalone components
+ *
+ * Keeps the session alive without user interaction:
+ * - proactive: refreshes the access token shortly before its exp claim
+ * - reactive: on 401, refreshes once and replays the failed request
+ * Concurrent requests share a single in-flight refresh (see AuthService.refreshAccessToken)
  */
 export const authHttpInterceptor: HttpInterceptorFn = (req, next) => {
   const authService = inject(AuthService);
@@ -17,43 +22,84 @@ export const authHttpInterceptor: HttpInterceptorFn = (req, next) => {
 
   // Don't add token to public endpoints (translations, auth)
   const isPublicEndpoint = req.url.includes('/auth/') || req.url.includes('/translations/');
-  
-  if (token && !isPublicEndpoint) {
-    logger.debug('authHttpInterceptor: Adding Bearer token to request', { url: req.url });
-    req = req.clone({
-      setHeaders: {
-        Authorization: `Bearer ${token}`,
-        'Accept': 'application/json'
-      }
-    });
-    logger.debug('authHttpInterceptor: Authorization header set', { 
-      authHeader: req.headers.get('Authorization')?.substring(0, 30) + '...' 
-    });
-  } else {
-    logger.debug('authHttpInterceptor: Skipping token add', { 
-      url: req.url, 
+
+  if (!token || isPublicEndpoint) {
+    logger.debug('authHttpInterceptor: Skipping token add', {
+      url: req.url,
       hasToken: !!token,
       isPublicEndpoint: isPublicEndpoint
     });
     // Set Accept header for all requests
-    req = req.clone({
-      setHeaders: {
-        'Accept': 'application/json'
-      }
-    });
+    return next(req.clone({ setHeaders: { 'Accept': 'application/json' } })).pipe(
+      catchError((error: HttpErrorResponse) => {
+        logger.error('authHttpInterceptor: HTTP Error', { status: error.status, url: error.url, message: error.message });
+
+        if (error.status === 401 && !isPublicEndpoint) {
+          logger.warning('authHttpInterceptor: 401 received without token, clearing session');
+          authService.logout();
+        }
+
+        return throwError(() => error);
+      })
+    );
   }
 
-  return next(req).pipe(
+  // Proactive refresh: wait for a fresh token when the current one is about to expire.
+  // If the refresh fails, fall back to the current token and let the 401 path decide.
+  const token$ = authService.isTokenExpiring(token) && authService.hasRefreshToken()
+    ? authService.refreshAccessToken().pipe(
+        catchError(refreshError => {
+          logger.warning('authHttpInterceptor: Proactive refresh failed, using current token', refreshError);
+          return of(token);
+        })
+      )
+    : of(token);
+
+  return token$.pipe(
+    switchMap(currentToken => next(withBearerToken(req, currentToken))),
     catchError((error: HttpErrorResponse) => {
       logger.error('authHttpInterceptor: HTTP Error', { status: error.status, url: error.url, message: error.message });
-      
-      if (error.status === 401) {
-        // Token might be expired, clear it
-        logger.warning('authHttpInterceptor: 401 received, clearing token');
+
+      if (error.status !== 401) {
+        return throwError(() => error);
+      }
+
+      if (!authService.hasRefreshToken()) {
+        logger.warning('authHttpInterceptor: 401 received and no refresh token, clearing token');
         authService.logout();
+        return throwError(() => error);
       }
-      
-      return throwError(() => error);
+
+      // Reactive refresh: get a new token and replay the request once
+      logger.warning('authHttpInterceptor: 401 received, refreshing token and retrying', { url: req.url });
+      return authService.refreshAccessToken().pipe(
+        catchError(refreshError => {
+          logger.warning('authHttpInterceptor: Token refresh failed, clearing token', refreshError);
+          authService.logout();
+          return throwError(() => error);
+        }),
+        switchMap(newToken => next(withBearerToken(req, newToken)).pipe(
+          catchError((retryError: HttpErrorResponse) => {
+            if (retryError.status === 401) {
+              logger.warning('authHttpInterceptor: 401 received after refresh, clearing token');
+              authService.logout();
+            }
+            return throwError(() => retryError);
+          })
+        ))
+      );
     })
   );
 };
+
+/**
+ * Clone the request with Authorization and Accept headers
+ */
+function withBearerToken(req: HttpRequest<unknown>, token: string): HttpRequest<unknown> {
+  return req.clone({
+    setHeaders: {
+      Authorization: `Bearer ${token}`,
+      'Accept': 'application/json'
+    }
+  });
+}
@@ -1,10 +1,16 @@
-import { HttpInterceptorFn, HttpErrorResponse } from '@angular/common/http';
+import { HttpInterceptorFn, HttpErrorResponse, HttpContextToken } from '@angular/common/http';
 import { inject } from '@angular/core';
 import { catchError, throwError } from 'rxjs';
 import { LoggerService } from '../../shared/services/logger.service';
 import { NotificationService } from '../../shared/services/notification.service';
 import { Router } from '@angular/router';
 
+/**
+ * Set on background requests (e.g. polling) the user did not trigger:
+ * their errors are logged but no notification is shown
+ */
+export const SKIP_ERROR_NOTIFICATION = new HttpContextToken<boolean>(() => false);
+
 /**
  * HTTP error interceptor
  * Handles all HTTP errors globally with appropriate user feedback
@@ -35,7 +41,9 @@ export const errorHttpInterceptor: HttpInterceptorFn = (req, next) => {
       }
 
       // Handle specific status codes
-      handleStatusCode(error.status, errorMessage, notificationService, router);
+      if (!req.context.get(SKIP_ERROR_NOTIFICATION)) {
+        handleStatusCode(error.status, errorMessage, notificationService, router);
+      }
 
       // Re-throw the error so components can handle it if needed
       return throwError(() => error);
@@ -1,14 +1,15 @@
 import { Injectable, inject, signal, computed } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { environment } from '../../../environments/environment';
-import { BehaviorSubject } from 'rxjs';
+import { BehaviorSubject, Observable, finalize, map, shareReplay, throwError } from 'rxjs';
 import { jwtDecode } from 'jwt-decode';
 import { LoggerService } from '../../shared/services/logger.service';
+import { UserRole, USER_ROLES } from '../../shared/models/user.model';
 
 export interface User {
   name: string;
   email: string;
-  role: string;
+  role: UserRole;
 }
 
 export interface LoginRequest {
@@ -43,6 +44,12 @@ export class AuthService {
   private readonly tokenSubject = new BehaviorSubject<string | null>(null);
   readonly currentUser = signal<User | null>(null);
 
+  // Refresh the access token this many seconds before its exp claim
+  private readonly REFRESH_THRESHOLD_SECONDS = 60;
+
+  // Shared in-flight refresh request; concurrent callers wait on the same result
+  private refreshInFlight$: Observable<string> | null = null;
+
   constructor() {
     // Initialize from localStorage
     const storedToken = this.getStoredToken();
@@ -117,6 +124,74 @@ export class AuthService {
     return this.isAuthenticated;
   }
 
+  /**
+   * Check whether the current user has one of the given roles
+   * Reads the currentUser signal, so it is reactive inside computed() and effect()
+   */
+  hasRole(roles: UserRole | readonly UserRole[]): boolean {
+    const role = this.currentUser()?.role;
+    if (!role) {
+      return false;
+    }
+    return typeof roles === 'string' ? role === roles : roles.includes(role);
+  }
+
+  /**
+   * Check whether a refresh token is available
+   */
+  hasRefreshToken(): boolean {
+    return !!this.getStoredRefreshToken();
+  }
+
+  /**
+   * Check whether the token expires within the refresh threshold (or already expired)
+   */
+  isTokenExpiring(token: string, thresholdSeconds: number = this.REFRESH_THRESHOLD_SECONDS): boolean {
+    try {
+      const { exp } = jwtDecode<{ exp?: number }>(token);
+      if (!exp) {
+        return false;
+      }
+      return exp * 1000 - Date.now() <= thresholdSeconds * 1000;
+    } catch (error) {
+      this.logger.error('AuthService: Failed to decode token expiration', error);
+      return true;
+    }
+  }
+
+  /**
+   * Exchange the stored refresh token for a new token pair
+   * Only one refresh request is sent at a time: callers arriving while a refresh
+   * is in flight share its result, so queued requests are replayed once
+   */
+  refreshAccessToken(): Observable<string> {
+    if (this.refreshInFlight$) {
+      this.logger.debug('AuthService: Refresh already in progress, waiting for result');
+      return this.refreshInFlight$;
+    }
+
+    const refreshToken = this.getStoredRefreshToken();
+    if (!refreshToken) {
+      return throwError(() => new Error('No refresh token available'));
+    }
+
+    this.logger.debug('AuthService: Refreshing access token');
+    this.refreshInFlight$ = this.http
+      .post<ApiResponse<TokenResponse>>(`${this.apiUrl}/refresh`, { refreshToken })
+      .pipe(
+        map(response => {
+          this.setToken(response.data.accessToken, response.data.refreshToken);
+          return response.data.accessToken;
+        }),
+        finalize(() => {
+          this.refreshInFlight$ = null;
+        }),
+        shareReplay({ bufferSize: 1, refCount: false })
+      );
+
+    return this.refreshInFlight$;
+  }
+
   /**
    * Logout and clear tokens
    */
@@ -138,6 +213,16 @@ export class AuthService {
     return null;
   }
 
+  /**
+   * Get stored refresh token from localStorage
+   */
+  private getStoredRefreshToken(): string | null {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem('refreshToken');
+    }
+    return null;
+  }
+
   /**
    * Decode token and set user signal
    */
@@ -149,10 +234,13 @@ export class AuthService {
       const lastName = decodedToken.family_name || '';
       const name = `${firstName} ${lastName}`.trim() || decodedToken.email || 'User';
 
+      // Unknown or missing role claims fall back to the least privileged role
+      const role = USER_ROLES.includes(decodedToken.role) ? decodedToken.role as UserRole : 'User';
+
       this.currentUser.set({
         name: name,
         email: decodedToken.email,
-        role: decodedToken.role || 'User'
+        role: role
       });
       this.logger.debug('AuthService: User decoded and set', this.currentUser());
     } catch (error) {
@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+export const adminRoutes: Routes = [
+  {
+    path: 'users',
+    loadComponent: () => import('./components/user-management/user-management.component')
+      .then(m => m.UserManagementComponent)
+  },
+  {
+    path: '',
+    redirectTo: 'users',
+    pathMatch: 'full'
+  }
+];
@@ -0,0 +1,108 @@
+import { Component, inject, signal, computed, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import { AdminUserService } from '../../services/admin-user.service';
+import { AuthService } from '../../../../core/services/auth.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { UserAccount, UserRole, USER_ROLES } from '../../../../shared/models/user.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+/// <summary>
+/// Admin page listing the registered users: change their role and activate or deactivate them
+/// Administrators cannot change their own row
+/// </summary>
+@Component({
+  selector: 'app-user-management',
+  imports: [TranslatePipe, LocalizedDatePipe],
+  templateUrl: './user-management.component.html',
+  styleUrl: './user-management.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UserManagementComponent implements OnInit {
+  private readonly adminUserService = inject(AdminUserService);
+  private readonly authService = inject(AuthService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+
+  protected readonly roles = USER_ROLES;
+
+  // Service state
+  protected readonly users = this.adminUserService.getUsersSignal();
+  protected readonly loading = this.adminUserService.getLoadingSignal();
+
+  // Client-side filter on name and email
+  protected readonly searchTerm = signal('');
+  protected readonly filteredUsers = computed(() => {
+    const term = this.searchTerm().trim().toLowerCase();
+    if (!term) {
+      return this.users();
+    }
+    return this.users().filter(u =>
+      u.email.toLowerCase().includes(term) || u.fullName.toLowerCase().includes(term));
+  });
+
+  // Users with a pending update
+  protected readonly savingIds = signal<ReadonlySet<number>>(new Set());
+
+  private readonly currentEmail = computed(() => this.authService.currentUser()?.email);
+
+  ngOnInit(): void {
+    this.adminUserService.loadUsers().subscribe();
+  }
+
+  isCurrentUser(user: UserAccount): boolean {
+    return user.email === this.currentEmail();
+  }
+
+  isSaving(user: UserAccount): boolean {
+    return this.savingIds().has(user.id);
+  }
+
+  onSearch(event: Event): void {
+    this.searchTerm.set((event.target as HTMLInputElement).value);
+  }
+
+  changeRole(user: UserAccount, event: Event): void {
+    const role = (event.target as HTMLSelectElement).value as UserRole;
+    this.update(user, role, user.isActive);
+  }
+
+  toggleActive(user: UserAccount): void {
+    this.update(user, user.role, !user.isActive);
+  }
+
+  /// <summary>
+  /// Save the role and status; changes apply to the user's next token refresh
+  /// </summary>
+  private update(user: UserAccount, role: UserRole, isActive: boolean): void {
+    this.setSaving(user.id, true);
+    this.adminUserService.updateUser(user.id, { role, isActive }).subscribe({
+      next: (updated) => {
+        this.setSaving(user.id, false);
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('admin.userUpdated', { name: updated.fullName || updated.email })
+        );
+      },
+      error: (error: any) => {
+        this.logger.error('Error updating user:', error);
+        // Error notification is handled by HTTP interceptor
+        this.setSaving(user.id, false);
+      }
+    });
+  }
+
+  private setSaving(id: number, saving: boolean): void {
+    this.savingIds.update(ids => {
+      const next = new Set(ids);
+      if (saving) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  }
+}
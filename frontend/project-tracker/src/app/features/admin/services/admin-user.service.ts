@@ -0,0 +1,68 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import { UserAccount, UpdateUserRequest } from '../../../shared/models/user.model';
+
+/// <summary>
+/// Service for administrators managing the registered users
+/// Endpoints require the Admin role; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class AdminUserService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/admin/users`;
+
+  // State signals
+  private readonly users = signal<UserAccount[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load all registered users, newest first
+  /// </summary>
+  loadUsers(): Observable<UserAccount[]> {
+    this.loading.set(true);
+
+    return this.http.get<UserAccount[]>(this.apiUrl).pipe(
+      tap(users => {
+        this.users.set(users);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading users', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Change the role or status of a user
+  /// </summary>
+  updateUser(id: number, request: UpdateUserRequest): Observable<UserAccount> {
+    return this.http.put<UserAccount>(`${this.apiUrl}/${id}`, request).pipe(
+      tap(updated => {
+        this.users.update(users => users.map(u => u.id === updated.id ? updated : u));
+      }),
+      catchError(error => {
+        this.logger.error('Error updating user', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getUsersSignal() {
+    return this.users.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
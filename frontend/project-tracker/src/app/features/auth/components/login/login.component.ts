@@ -48,7 +48,7 @@ export class LoginComponent {
           console.log('LoginComponent: Token stored, checking localStorage...');
           console.log('LoginComponent: accessToken in localStorage:', localStorage.getItem('accessToken')?.substring(0, 50) + '...');
           console.log('LoginComponent: refreshToken in localStorage:', localStorage.getItem('refreshToken')?.substring(0, 50) + '...');
-          this.router.navigate(['/projects']);
+          this.router.navigate(['/dashboard']);
         } else {
           this.error.set(response.message || 'Login failed');
           this.loginForm.enable();
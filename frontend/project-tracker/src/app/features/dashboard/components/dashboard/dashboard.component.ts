@@ -0,0 +1,105 @@
+import { Component, inject, computed, OnInit, ChangeDetectionStrategy, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { formatDate } from '@angular/common';
+import { RouterLink, Params } from '@angular/router';
+import { DashboardService } from '../../services/dashboard.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+// Statuses counted as open by the overdue and due-this-week cards
+const OPEN_STATUSES = ['Active', 'OnHold'];
+
+/// <summary>
+/// Dashboard landing page: project counts by status, overdue and due this week,
+/// priority distribution and the weekly completion trend
+/// Every count links to the project list filtered to the same projects
+/// </summary>
+@Component({
+  selector: 'app-dashboard',
+  imports: [RouterLink, TranslatePipe, LocalizedDatePipe],
+  templateUrl: './dashboard.component.html',
+  styleUrl: './dashboard.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class DashboardComponent implements OnInit {
+  private readonly dashboardService = inject(DashboardService);
+  private readonly logger = inject(LoggerService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // Weeks shown in the completion trend
+  protected readonly trendWeeks = 12;
+
+  // Service state
+  protected readonly stats = this.dashboardService.getStatsSignal();
+  protected readonly loading = this.dashboardService.getLoadingSignal();
+
+  // Local dates (yyyy-MM-dd) used by the due counts and their list filters
+  private readonly today = new Date();
+  private readonly todayParam = this.toDateParam(this.today);
+
+  // List filters of the due cards (overdue: due until yesterday)
+  protected readonly overdueParams: Params = {
+    status: OPEN_STATUSES,
+    dueDateTo: this.toDateParam(new Date(this.today.getFullYear(), this.today.getMonth(), this.today.getDate() - 1))
+  };
+  protected readonly dueThisWeekParams = computed<Params>(() => ({
+    status: OPEN_STATUSES,
+    dueDateFrom: this.todayParam,
+    dueDateTo: this.stats()?.weekEnd.substring(0, 10)
+  }));
+
+  // Bar scales: the largest bar fills the chart
+  protected readonly maxPriorityCount = computed(() =>
+    Math.max(1, ...(this.stats()?.byPriority ?? []).map(p => p.count)));
+  protected readonly maxCompleted = computed(() =>
+    Math.max(1, ...(this.stats()?.completionTrend ?? []).map(w => w.completed)));
+  protected readonly completedInTrend = computed(() =>
+    (this.stats()?.completionTrend ?? []).reduce((sum, w) => sum + w.completed, 0));
+
+  ngOnInit(): void {
+    this.loadStats();
+  }
+
+  /// <summary>
+  /// Load the statistics for the local date
+  /// </summary>
+  loadStats(): void {
+    this.dashboardService.loadStats(this.todayParam, this.trendWeeks)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        error: (error: any) => {
+          this.logger.error('Error loading dashboard:', error);
+          // Error notification is handled by HTTP interceptor
+        }
+      });
+  }
+
+  protected statusParams(status: string): Params {
+    return { status };
+  }
+
+  protected priorityParams(priority: number): Params {
+    return { priorityMin: priority, priorityMax: priority };
+  }
+
+  /// <summary>
+  /// Badge color for a status (same colors as the project table)
+  /// </summary>
+  protected statusClass(status: string): string {
+    switch (status) {
+      case 'Active': return 'text-bg-success';
+      case 'OnHold': return 'text-bg-secondary';
+      case 'Completed': return 'text-bg-info';
+      default: return 'text-bg-danger';
+    }
+  }
+
+  protected percent(count: number, max: number): number {
+    return Math.round((count / max) * 100);
+  }
+
+  private toDateParam(date: Date): string {
+    return formatDate(date, 'yyyy-MM-dd', 'en-US');
+  }
+}
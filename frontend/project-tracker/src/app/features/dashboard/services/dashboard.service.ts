@@ -0,0 +1,53 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, tap, catchError } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import { DashboardStats } from '../../../shared/models/dashboard.model';
+
+/// <summary>
+/// Service for the dashboard statistics (aggregated by the server)
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class DashboardService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/dashboard`;
+
+  // State signals
+  private readonly stats = signal<DashboardStats | null>(null);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load the statistics; today is the local date (yyyy-MM-dd) the due counts are relative to
+  /// </summary>
+  loadStats(today: string, weeks: number): Observable<DashboardStats> {
+    this.loading.set(true);
+    const params = new HttpParams().set('today', today).set('weeks', weeks);
+
+    return this.http.get<DashboardStats>(this.apiUrl, { params }).pipe(
+      tap(stats => {
+        this.stats.set(stats);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading dashboard', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getStatsSignal() {
+    return this.stats.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
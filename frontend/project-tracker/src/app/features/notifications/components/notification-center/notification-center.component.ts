@@ -0,0 +1,118 @@
+import { Component, inject, signal, computed, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import { Router, RouterModule } from '@angular/router';
+import { NotificationCenterService } from '../../../../shared/services/notification-center.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { NotificationPreferences, UserNotification } from '../../../../shared/models/notification.model';
+import { NotificationItemComponent } from '../../../../shared/components/notification-item/notification-item.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/// <summary>
+/// Notifications page: the latest notifications with an unread filter,
+/// and the notification types the user wants to receive
+/// </summary>
+@Component({
+  selector: 'app-notification-center',
+  imports: [RouterModule, NotificationItemComponent, TranslatePipe],
+  templateUrl: './notification-center.component.html',
+  styleUrl: './notification-center.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class NotificationCenterComponent implements OnInit {
+  private readonly notificationCenter = inject(NotificationCenterService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly router = inject(Router);
+
+  // Service state
+  protected readonly notifications = this.notificationCenter.getNotificationsSignal();
+  protected readonly unreadCount = this.notificationCenter.getUnreadCountSignal();
+  protected readonly loading = this.notificationCenter.getLoadingSignal();
+
+  // List filter
+  protected readonly unreadOnly = signal(false);
+  protected readonly visibleNotifications = computed(() =>
+    this.unreadOnly() ? this.notifications().filter(n => !n.isRead) : this.notifications());
+
+  // Preferences (null until loaded)
+  protected readonly preferences = signal<NotificationPreferences | null>(null);
+  protected readonly savingPreferences = signal(false);
+  protected readonly preferenceOptions: { key: keyof NotificationPreferences; icon: string }[] = [
+    { key: 'dueSoon', icon: 'fas fa-hourglass-half text-warning' },
+    { key: 'overdue', icon: 'fas fa-triangle-exclamation text-danger' },
+    { key: 'projectChanged', icon: 'fas fa-pen text-info' }
+  ];
+
+  ngOnInit(): void {
+    this.notificationCenter.loadNotifications().subscribe({
+      error: (error) => {
+        this.logger.error('Error loading notifications:', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+    this.notificationCenter.getPreferences().subscribe({
+      next: (preferences) => this.preferences.set(preferences),
+      error: (error) => {
+        this.logger.error('Error loading notification preferences:', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+
+  /// <summary>
+  /// Mark the notification as read and open its project (unless it was moved to the trash)
+  /// </summary>
+  open(notification: UserNotification): void {
+    if (!notification.isRead) {
+      this.markAsRead(notification);
+    }
+    if (notification.action !== 'Deleted') {
+      this.router.navigate(['/projects', notification.projectId]);
+    }
+  }
+
+  markAsRead(notification: UserNotification): void {
+    this.notificationCenter.markAsRead(notification.id).subscribe({
+      error: (error) => {
+        this.logger.error('Error marking notification as read:', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+
+  markAllAsRead(): void {
+    this.notificationCenter.markAllAsRead().subscribe({
+      error: (error) => {
+        this.logger.error('Error marking all notifications as read:', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+
+  /// <summary>
+  /// Turn a notification type on or off; saved immediately
+  /// </summary>
+  togglePreference(key: keyof NotificationPreferences, enabled: boolean): void {
+    const current = this.preferences();
+    if (!current) return;
+
+    this.savingPreferences.set(true);
+    this.notificationCenter.updatePreferences({ ...current, [key]: enabled }).subscribe({
+      next: (preferences) => {
+        this.preferences.set(preferences);
+        this.savingPreferences.set(false);
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('notifications.preferencesSaved')
+        );
+      },
+      error: (error) => {
+        this.logger.error('Error saving notification preferences:', error);
+        // Error notification is handled by HTTP interceptor
+        this.savingPreferences.set(false);
+      }
+    });
+  }
+}
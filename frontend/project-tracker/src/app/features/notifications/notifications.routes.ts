@@ -0,0 +1,9 @@
+import { Routes } from '@angular/router';
+
+export const notificationRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./components/notification-center/notification-center.component')
+      .then(m => m.NotificationCenterComponent)
+  }
+];
@@ -0,0 +1,30 @@
+import { Component, input, output, ChangeDetectionStrategy } from '@angular/core';
+import { ProjectExportFormat, PROJECT_STATUSES } from '../../../../shared/models/project.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/// <summary>
+/// Toolbar shown while projects are selected in the list
+/// Emits the chosen bulk action; confirmation and execution are up to the parent
+/// </summary>
+@Component({
+  selector: 'app-bulk-actions-bar',
+  imports: [TranslatePipe],
+  templateUrl: './bulk-actions-bar.component.html',
+  styleUrl: './bulk-actions-bar.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class BulkActionsBarComponent {
+  // Inputs
+  readonly selectedCount = input.required<number>();
+  readonly busy = input<boolean>(false);
+
+  // Outputs
+  readonly statusSelected = output<string>();
+  readonly prioritySelected = output<number>();
+  readonly deleteRequested = output<void>();
+  readonly exportRequested = output<ProjectExportFormat>();
+  readonly selectionCleared = output<void>();
+
+  protected readonly statuses = PROJECT_STATUSES;
+  protected readonly priorities = [1, 2, 3, 4, 5];
+}
@@ -0,0 +1,125 @@
+import { Component, inject, signal, computed, effect, input, output, ChangeDetectionStrategy } from '@angular/core';
+import { ReactiveFormsModule, FormControl, FormGroup } from '@angular/forms';
+import { ExportService } from '../../../../shared/services/export.service';
+import { ProjectExportFormat } from '../../../../shared/models/project.model';
+import {
+  ExportOptions,
+  ExportDelimiter,
+  ExportDateFormat,
+  ProjectExportColumn,
+  EXPORT_DATE_FORMATS,
+  PROJECT_EXPORT_COLUMNS
+} from '../../../../shared/models/export.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/// <summary>
+/// Export options dialog: columns and their order, CSV delimiter, UTF-8 BOM and date format
+/// Opens with the last used options; the chosen options are remembered on confirm
+/// </summary>
+@Component({
+  selector: 'app-export-options-dialog',
+  imports: [ReactiveFormsModule, TranslatePipe],
+  templateUrl: './export-options-dialog.component.html',
+  styleUrl: './export-options-dialog.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ExportOptionsDialogComponent {
+  private readonly exportService = inject(ExportService);
+
+  // Inputs
+  readonly show = input.required<boolean>();
+  readonly format = input<ProjectExportFormat>('csv');
+
+  // Outputs
+  readonly confirmed = output<ExportOptions>();
+  readonly cancelled = output<void>();
+
+  // All columns in export order, with their selection state
+  protected readonly columns = signal<{ key: ProjectExportColumn; selected: boolean }[]>([]);
+  protected readonly hasSelection = computed(() => this.columns().some(c => c.selected));
+
+  protected readonly optionsForm = new FormGroup({
+    delimiter: new FormControl<ExportDelimiter>('comma', { nonNullable: true }),
+    includeBom: new FormControl(false, { nonNullable: true }),
+    dateFormat: new FormControl<ExportDateFormat>('yyyy-MM-dd', { nonNullable: true })
+  });
+
+  protected readonly delimiters: ExportDelimiter[] = ['comma', 'semicolon', 'tab'];
+  protected readonly dateFormats = EXPORT_DATE_FORMATS;
+
+  constructor() {
+    // Reset to the last used options each time the dialog opens
+    effect(() => {
+      if (this.show()) {
+        this.reset(this.exportService.getSavedOptions());
+      }
+    });
+  }
+
+  /// <summary>
+  /// Translated header of a column (as it will appear in the file)
+  /// </summary>
+  protected getColumnLabel(column: ProjectExportColumn): string {
+    return this.exportService.getColumnLabel(column);
+  }
+
+  /// <summary>
+  /// Include or exclude a column
+  /// </summary>
+  toggleColumn(index: number): void {
+    this.columns.update(columns => columns.map((c, i) => i === index ? { ...c, selected: !c.selected } : c));
+  }
+
+  /// <summary>
+  /// Move a column up (-1) or down (+1) in the export order
+  /// </summary>
+  moveColumn(index: number, offset: -1 | 1): void {
+    const target = index + offset;
+    this.columns.update(columns => {
+      if (target < 0 || target >= columns.length) return columns;
+      const reordered = [...columns];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  }
+
+  /// <summary>
+  /// Confirm and remember the options
+  /// </summary>
+  confirm(): void {
+    if (!this.hasSelection()) return;
+
+    const options: ExportOptions = {
+      ...this.optionsForm.getRawValue(),
+      columns: this.columns().filter(c => c.selected).map(c => c.key)
+    };
+    this.exportService.saveOptions(options);
+    this.confirmed.emit(options);
+  }
+
+  /// <summary>
+  /// Close without exporting
+  /// </summary>
+  cancel(): void {
+    this.cancelled.emit();
+  }
+
+  /// <summary>
+  /// Selected columns first (in saved order), then the remaining ones in default order
+  /// </summary>
+  private reset(options: ExportOptions): void {
+    const unselected = PROJECT_EXPORT_COLUMNS
+      .map(c => c.key)
+      .filter(key => !options.columns.includes(key));
+
+    this.columns.set([
+      ...options.columns.map(key => ({ key, selected: true })),
+      ...unselected.map(key => ({ key, selected: false }))
+    ]);
+    this.optionsForm.setValue({
+      delimiter: options.delimiter,
+      includeBom: options.includeBom,
+      dateFormat: options.dateFormat
+    });
+  }
+}
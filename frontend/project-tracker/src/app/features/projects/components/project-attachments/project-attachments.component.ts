@@ -0,0 +1,186 @@
+import { Component, inject, input, signal, ChangeDetectionStrategy, DestroyRef, OnInit } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { HttpEventType } from '@angular/common/http';
+import { from, EMPTY } from 'rxjs';
+import { switchMap, concatMap, catchError } from 'rxjs/operators';
+import { AttachmentService } from '../../services/attachment.service';
+import { ExportService } from '../../../../shared/services/export.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import {
+  ProjectAttachment,
+  ATTACHMENT_ALLOWED_EXTENSIONS,
+  ATTACHMENT_MAX_SIZE_BYTES
+} from '../../../../shared/models/attachment.model';
+import { FileUploadInput } from '../../../../shared/components/file-upload-input/file-upload-input';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+import { FileSizePipe } from '../../../../shared/pipes/file-size.pipe';
+
+/// <summary>
+/// Progress of the files being uploaded (one at a time)
+/// </summary>
+interface UploadProgress {
+  fileName: string;
+  index: number;
+  count: number;
+  percent: number;
+}
+
+/// <summary>
+/// Files attached to a project: upload by drag and drop or file picker,
+/// download and delete
+/// </summary>
+@Component({
+  selector: 'app-project-attachments',
+  imports: [FileUploadInput, ConfirmDialogComponent, TranslatePipe, LocalizedDatePipe, FileSizePipe],
+  templateUrl: './project-attachments.component.html',
+  styleUrl: './project-attachments.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectAttachmentsComponent implements OnInit {
+  private readonly attachmentService = inject(AttachmentService);
+  private readonly exportService = inject(ExportService);
+  private readonly logger = inject(LoggerService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  protected readonly allowedExtensions = ATTACHMENT_ALLOWED_EXTENSIONS;
+  protected readonly maxSizeBytes = ATTACHMENT_MAX_SIZE_BYTES;
+
+  // Inputs
+  readonly projectId = input.required<number>();
+  readonly readOnly = input(false);
+
+  // Service state
+  protected readonly attachments = this.attachmentService.getAttachmentsSignal();
+  protected readonly loading = this.attachmentService.getLoadingSignal();
+
+  // Upload state (null when idle)
+  protected readonly uploadProgress = signal<UploadProgress | null>(null);
+
+  // Attachments with a download in flight
+  protected readonly downloadingIds = signal<ReadonlySet<number>>(new Set());
+
+  // Delete confirmation state
+  protected readonly attachmentToDelete = signal<ProjectAttachment | null>(null);
+  protected readonly deleting = signal(false);
+
+  private readonly projectId$ = toObservable(this.projectId);
+
+  ngOnInit(): void {
+    // Reload when the detail page switches to another project
+    this.projectId$
+      .pipe(
+        switchMap(projectId => this.attachmentService.loadAttachments(projectId)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+  }
+
+  /// <summary>
+  /// Upload the selected files one after the other, reporting the progress of each
+  /// A failed upload is skipped so the remaining files are still sent
+  /// </summary>
+  uploadFiles(files: File[]): void {
+    const projectId = this.projectId();
+    const count = files.length;
+
+    from(files.map((file, index) => ({ file, index })))
+      .pipe(
+        concatMap(({ file, index }) => {
+          this.uploadProgress.set({ fileName: file.name, index: index + 1, count, percent: 0 });
+          return this.attachmentService.uploadAttachment(projectId, file).pipe(
+            catchError(error => {
+              this.logger.error('Error uploading attachment:', error);
+              // Error notification is handled by HTTP interceptor
+              return EMPTY;
+            })
+          );
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: event => {
+          if (event.type === HttpEventType.UploadProgress && event.total) {
+            const percent = Math.round((event.loaded / event.total) * 100);
+            this.uploadProgress.update(progress => progress ? { ...progress, percent } : progress);
+          }
+        },
+        complete: () => this.uploadProgress.set(null)
+      });
+  }
+
+  /// <summary>
+  /// Download an attachment and save it under its original name
+  /// </summary>
+  downloadAttachment(attachment: ProjectAttachment): void {
+    this.setDownloading(attachment.id, true);
+    this.attachmentService.downloadAttachment(attachment).subscribe({
+      next: blob => {
+        this.exportService.saveBlob(blob, attachment.fileName);
+        this.setDownloading(attachment.id, false);
+      },
+      error: (error: any) => {
+        this.logger.error('Error downloading attachment:', error);
+        // Error notification is handled by HTTP interceptor
+        this.setDownloading(attachment.id, false);
+      }
+    });
+  }
+
+  deleteAttachment(attachment: ProjectAttachment): void {
+    this.attachmentToDelete.set(attachment);
+  }
+
+  confirmDelete(): void {
+    const attachment = this.attachmentToDelete();
+    if (!attachment) return;
+
+    this.deleting.set(true);
+    this.attachmentService.deleteAttachment(attachment).subscribe({
+      next: () => {
+        this.deleting.set(false);
+        this.attachmentToDelete.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error deleting attachment:', error);
+        // Error notification is handled by HTTP interceptor
+        this.deleting.set(false);
+      }
+    });
+  }
+
+  cancelDelete(): void {
+    this.attachmentToDelete.set(null);
+  }
+
+  /// <summary>
+  /// Font Awesome icon matching the file type
+  /// </summary>
+  protected fileIcon(attachment: ProjectAttachment): string {
+    const name = attachment.fileName.toLowerCase();
+    if (attachment.contentType.startsWith('image/')) return 'fas fa-file-image';
+    if (name.endsWith('.pdf')) return 'fas fa-file-pdf';
+    if (name.endsWith('.doc') || name.endsWith('.docx')) return 'fas fa-file-word';
+    if (name.endsWith('.xls') || name.endsWith('.xlsx') || name.endsWith('.csv')) return 'fas fa-file-excel';
+    if (name.endsWith('.ppt') || name.endsWith('.pptx')) return 'fas fa-file-powerpoint';
+    if (name.endsWith('.zip')) return 'fas fa-file-zipper';
+    return 'fas fa-file-lines';
+  }
+
+  protected isDownloading(attachment: ProjectAttachment): boolean {
+    return this.downloadingIds().has(attachment.id);
+  }
+
+  private setDownloading(id: number, downloading: boolean): void {
+    this.downloadingIds.update(ids => {
+      const updated = new Set(ids);
+      if (downloading) {
+        updated.add(id);
+      } else {
+        updated.delete(id);
+      }
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,290 @@
+import { Component, inject, signal, computed, OnInit, ChangeDetectionStrategy, DestroyRef, Injector, afterNextRender } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ReactiveFormsModule, FormControl } from '@angular/forms';
+import { Router, RouterLink } from '@angular/router';
+import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import { ProjectService } from '../../services/project.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { Project, ProjectStatus, PROJECT_STATUSES } from '../../../../shared/models/project.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+/// <summary>
+/// Kanban board: one column per status
+/// Cards are moved by drag and drop or with the keyboard (Space to pick up,
+/// arrows to choose the column, Space/Enter to drop, Escape to cancel).
+/// Moves are applied optimistically and rolled back if the update fails
+/// </summary>
+@Component({
+  selector: 'app-project-board',
+  imports: [ReactiveFormsModule, RouterLink, TranslatePipe, LocalizedDatePipe],
+  templateUrl: './project-board.component.html',
+  styleUrl: './project-board.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectBoardComponent implements OnInit {
+  private readonly projectService = inject(ProjectService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly injector = inject(Injector);
+
+  protected readonly statuses = PROJECT_STATUSES;
+  protected readonly searchControl = new FormControl('', { nonNullable: true });
+
+  // Board state
+  protected readonly projects = signal<Project[]>([]);
+  protected readonly loading = signal(false);
+  protected readonly columns = computed(() => PROJECT_STATUSES.map(status => ({
+    status,
+    projects: this.projects().filter(p => p.status === status)
+  })));
+
+  // Cards with an update in flight (not movable until it completes)
+  protected readonly pendingIds = signal<ReadonlySet<number>>(new Set());
+
+  // Drag and drop state
+  protected readonly draggedId = signal<number | null>(null);
+  protected readonly dropTarget = signal<ProjectStatus | null>(null);
+
+  // Keyboard move state: card picked up and the column it would be dropped in
+  protected readonly grabbed = signal<{ id: number; target: ProjectStatus } | null>(null);
+
+  // Screen reader announcements
+  protected readonly announcement = signal('');
+
+  ngOnInit(): void {
+    this.loadProjects();
+
+    this.searchControl.valueChanges
+      .pipe(
+        debounceTime(300),
+        distinctUntilChanged(),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(() => this.loadProjects());
+  }
+
+  /// <summary>
+  /// Load all projects (the board is not paged)
+  /// </summary>
+  loadProjects(): void {
+    this.loading.set(true);
+    this.projectService.getProjects(this.searchControl.value.trim() || undefined)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (projects) => {
+          this.projects.set(projects);
+          this.loading.set(false);
+        },
+        error: (error: any) => {
+          this.logger.error('Error loading board projects:', error);
+          // Error notification is handled by HTTP interceptor
+          this.loading.set(false);
+        }
+      });
+  }
+
+  /// <summary>
+  /// Badge color for a status (same colors as the project table)
+  /// </summary>
+  protected statusClass(status: string): string {
+    switch (status) {
+      case 'Active': return 'bg-success';
+      case 'OnHold': return 'bg-secondary';
+      case 'Completed': return 'bg-info';
+      default: return 'bg-danger';
+    }
+  }
+
+  protected isPending(project: Project): boolean {
+    return this.pendingIds().has(project.id);
+  }
+
+  /// <summary>
+  /// Viewers cannot change the status of a shared project
+  /// </summary>
+  protected canMove(project: Project): boolean {
+    return project.role !== 'Viewer' && !this.isPending(project);
+  }
+
+  // Drag and drop
+
+  onDragStart(event: DragEvent, project: Project): void {
+    if (!this.canMove(project)) {
+      event.preventDefault();
+      return;
+    }
+    this.grabbed.set(null);
+    this.draggedId.set(project.id);
+    event.dataTransfer?.setData('text/plain', String(project.id));
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+  }
+
+  onDragOver(event: DragEvent, status: ProjectStatus): void {
+    if (this.draggedId() === null) return;
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    this.dropTarget.set(status);
+  }
+
+  onDragLeave(event: DragEvent, status: ProjectStatus): void {
+    // Ignore leave events fired when moving over child elements
+    const related = event.relatedTarget as Node | null;
+    if (related && (event.currentTarget as HTMLElement).contains(related)) return;
+    if (this.dropTarget() === status) {
+      this.dropTarget.set(null);
+    }
+  }
+
+  onDrop(event: DragEvent, status: ProjectStatus): void {
+    event.preventDefault();
+    const project = this.projects().find(p => p.id === this.draggedId());
+    this.onDragEnd();
+    if (project) {
+      this.moveProject(project, status);
+    }
+  }
+
+  onDragEnd(): void {
+    this.draggedId.set(null);
+    this.dropTarget.set(null);
+  }
+
+  // Keyboard moves
+
+  /// <summary>
+  /// Space/Enter picks up or drops the card, arrows choose the column, Escape cancels
+  /// Keys pressed on elements inside the card (e.g. the title link) are ignored
+  /// </summary>
+  onCardKeydown(event: KeyboardEvent, project: Project): void {
+    if (event.target !== event.currentTarget) return;
+
+    const grabbed = this.grabbed();
+    const isGrabbed = grabbed?.id === project.id;
+
+    switch (event.key) {
+      case ' ':
+      case 'Enter':
+        event.preventDefault();
+        if (!isGrabbed) {
+          if (!this.canMove(project)) return;
+          this.grabbed.set({ id: project.id, target: project.status as ProjectStatus });
+          this.announce('projects.boardGrabbed', { title: project.title, status: this.statusLabel(project.status) });
+        } else {
+          this.grabbed.set(null);
+          this.moveProject(project, grabbed.target);
+          this.focusCard(project.id);
+        }
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        if (!isGrabbed) return;
+        event.preventDefault();
+        const index = PROJECT_STATUSES.indexOf(grabbed.target) + (event.key === 'ArrowLeft' ? -1 : 1);
+        if (index < 0 || index >= PROJECT_STATUSES.length) return;
+        const target = PROJECT_STATUSES[index];
+        this.grabbed.set({ id: project.id, target });
+        this.announce('projects.boardOverColumn', { status: this.statusLabel(target) });
+        break;
+      }
+      case 'Escape':
+        if (!isGrabbed) return;
+        event.preventDefault();
+        this.grabbed.set(null);
+        this.announce('projects.boardMoveCancelled', { title: project.title });
+        break;
+    }
+  }
+
+  /// <summary>
+  /// Column highlighted as drop target (mouse drag or keyboard move)
+  /// </summary>
+  protected isDropTarget(status: ProjectStatus): boolean {
+    return this.dropTarget() === status || this.grabbed()?.target === status;
+  }
+
+  /// <summary>
+  /// Change the status of a project: the card moves immediately and
+  /// returns to its column if the update is rejected
+  /// </summary>
+  private moveProject(project: Project, status: ProjectStatus): void {
+    const previousStatus = project.status;
+    if (previousStatus === status || this.isPending(project)) return;
+
+    this.setStatus(project.id, status);
+    this.setPending(project.id, true);
+
+    this.projectService.updateProject(project.id, {
+      title: project.title,
+      description: project.description,
+      status,
+      priority: project.priority,
+      startDate: project.startDate,
+      dueDate: project.dueDate
+    }, project.version).subscribe({
+      next: (version) => {
+        this.projects.update(projects => projects.map(p => p.id === project.id ? { ...p, version } : p));
+        this.setPending(project.id, false);
+        this.announce('projects.boardMoved', { title: project.title, status: this.statusLabel(status) });
+      },
+      error: (error: any) => {
+        this.logger.error('Error moving project:', error);
+        // Error notification is handled by HTTP interceptor
+        // A card changed by someone else shows their version instead of the previous one
+        const current = this.projectService.getConflict(error);
+        if (current) {
+          this.projects.update(projects => projects.map(p => p.id === project.id ? current : p));
+        } else {
+          this.setStatus(project.id, previousStatus);
+        }
+        this.setPending(project.id, false);
+        this.announce('projects.boardMoveFailed', { title: project.title, status: this.statusLabel(current?.status ?? previousStatus) });
+      }
+    });
+  }
+
+  private setStatus(id: number, status: string): void {
+    this.projects.update(projects => projects.map(p => p.id === id ? { ...p, status } : p));
+  }
+
+  private setPending(id: number, pending: boolean): void {
+    this.pendingIds.update(ids => {
+      const updated = new Set(ids);
+      if (pending) {
+        updated.add(id);
+      } else {
+        updated.delete(id);
+      }
+      return updated;
+    });
+  }
+
+  /// <summary>
+  /// Keep keyboard focus on the card after it is re-rendered in its new column
+  /// </summary>
+  private focusCard(id: number): void {
+    afterNextRender(() => document.getElementById(`board-card-${id}`)?.focus(), { injector: this.injector });
+  }
+
+  private statusLabel(status: string): string {
+    return this.translationService.translate('projects.status_' + status);
+  }
+
+  private announce(key: string, params: Record<string, string>): void {
+    this.announcement.set(this.translationService.translate(key, params));
+  }
+
+  /// <summary>
+  /// Switch to the table view
+  /// </summary>
+  goToList(): void {
+    this.router.navigate(['/projects']);
+  }
+}
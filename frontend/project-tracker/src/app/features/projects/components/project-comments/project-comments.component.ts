@@ -0,0 +1,206 @@
+import { Component, inject, input, signal, ChangeDetectionStrategy, DestroyRef, OnInit } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { NgTemplateOutlet } from '@angular/common';
+import { ReactiveFormsModule, FormControl, FormGroup, Validators } from '@angular/forms';
+import { switchMap } from 'rxjs/operators';
+import { CommentService } from '../../services/comment.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { ProjectComment } from '../../../../shared/models/comment.model';
+import { TextareaInput } from '../../../../shared/components/textarea-input/textarea-input';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+/// <summary>
+/// Comment threads of a project: post comments, reply in a thread,
+/// and edit or delete your own comments
+/// </summary>
+@Component({
+  selector: 'app-project-comments',
+  imports: [NgTemplateOutlet, ReactiveFormsModule, TextareaInput, ConfirmDialogComponent, TranslatePipe, LocalizedDatePipe],
+  templateUrl: './project-comments.component.html',
+  styleUrl: './project-comments.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectCommentsComponent implements OnInit {
+  private readonly commentService = inject(CommentService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  protected readonly bodyMaxLength = 4000;
+
+  // Inputs
+  readonly projectId = input.required<number>();
+
+  // Service state
+  protected readonly threads = this.commentService.getThreadsSignal();
+  protected readonly comments = this.commentService.getCommentsSignal();
+  protected readonly loading = this.commentService.getLoadingSignal();
+
+  // New comment form
+  protected readonly posting = signal(false);
+  protected readonly commentForm = this.createBodyForm();
+
+  // Reply form (shown under the thread being replied to)
+  protected readonly replyThreadId = signal<number | null>(null);
+  protected readonly replyForm = this.createBodyForm();
+
+  // Edit form (replaces the comment text)
+  protected readonly editingId = signal<number | null>(null);
+  protected readonly editForm = this.createBodyForm();
+
+  // Delete confirmation state
+  protected readonly commentToDelete = signal<ProjectComment | null>(null);
+  protected readonly deleting = signal(false);
+
+  private readonly projectId$ = toObservable(this.projectId);
+
+  ngOnInit(): void {
+    // Reload when the detail page switches to another project
+    this.projectId$
+      .pipe(
+        switchMap(projectId => this.commentService.loadComments(projectId)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+  }
+
+  /// <summary>
+  /// Post a new top-level comment
+  /// </summary>
+  postComment(): void {
+    if (this.commentForm.invalid) {
+      this.commentForm.markAllAsTouched();
+      return;
+    }
+
+    this.posting.set(true);
+    this.commentService.createComment(this.projectId(), {
+      body: this.commentForm.controls.body.value.trim()
+    }).subscribe({
+      next: () => {
+        this.posting.set(false);
+        this.commentForm.reset();
+      },
+      error: (error: any) => {
+        this.logger.error('Error posting comment:', error);
+        // Error notification is handled by HTTP interceptor
+        this.posting.set(false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Show the reply form under a thread (or hide it when already open)
+  /// </summary>
+  toggleReply(thread: ProjectComment): void {
+    this.replyForm.reset();
+    this.replyThreadId.set(this.replyThreadId() === thread.id ? null : thread.id);
+  }
+
+  postReply(thread: ProjectComment): void {
+    if (this.replyForm.invalid) {
+      this.replyForm.markAllAsTouched();
+      return;
+    }
+
+    this.posting.set(true);
+    this.commentService.createComment(this.projectId(), {
+      body: this.replyForm.controls.body.value.trim(),
+      parentCommentId: thread.id
+    }).subscribe({
+      next: () => {
+        this.posting.set(false);
+        this.replyForm.reset();
+        this.replyThreadId.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error posting reply:', error);
+        // Error notification is handled by HTTP interceptor
+        this.posting.set(false);
+      }
+    });
+  }
+
+  startEdit(comment: ProjectComment): void {
+    this.editForm.reset({ body: comment.body });
+    this.editingId.set(comment.id);
+  }
+
+  cancelEdit(): void {
+    this.editingId.set(null);
+  }
+
+  saveEdit(comment: ProjectComment): void {
+    if (this.editForm.invalid) {
+      this.editForm.markAllAsTouched();
+      return;
+    }
+
+    const body = this.editForm.controls.body.value.trim();
+    if (body === comment.body) {
+      this.editingId.set(null);
+      return;
+    }
+
+    this.posting.set(true);
+    this.commentService.updateComment(comment, { body }).subscribe({
+      next: () => {
+        this.posting.set(false);
+        this.editingId.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error updating comment:', error);
+        // Error notification is handled by HTTP interceptor
+        this.posting.set(false);
+      }
+    });
+  }
+
+  deleteComment(comment: ProjectComment): void {
+    this.commentToDelete.set(comment);
+  }
+
+  confirmDelete(): void {
+    const comment = this.commentToDelete();
+    if (!comment) return;
+
+    this.deleting.set(true);
+    this.commentService.deleteComment(comment).subscribe({
+      next: () => {
+        this.deleting.set(false);
+        this.commentToDelete.set(null);
+        if (this.editingId() === comment.id) {
+          this.editingId.set(null);
+        }
+      },
+      error: (error: any) => {
+        this.logger.error('Error deleting comment:', error);
+        // Error notification is handled by HTTP interceptor
+        this.deleting.set(false);
+      }
+    });
+  }
+
+  cancelDelete(): void {
+    this.commentToDelete.set(null);
+  }
+
+  /// <summary>
+  /// Author display name (falls back to the email for users without a name)
+  /// </summary>
+  protected authorLabel(comment: ProjectComment): string {
+    return comment.authorName || comment.authorEmail || this.translationService.translate('comments.unknownAuthor');
+  }
+
+  private createBodyForm() {
+    return new FormGroup({
+      body: new FormControl('', {
+        nonNullable: true,
+        validators: [Validators.required, Validators.pattern(/\S/), Validators.maxLength(this.bodyMaxLength)]
+      })
+    });
+  }
+}
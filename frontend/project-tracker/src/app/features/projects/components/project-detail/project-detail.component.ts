@@ -0,0 +1,219 @@
+import { Component, inject, signal, computed, OnInit, ChangeDetectionStrategy, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Router, ActivatedRoute, RouterModule } from '@angular/router';
+import { ProjectService } from '../../services/project.service';
+import { TrashService } from '../../services/trash.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { Project } from '../../../../shared/models/project.model';
+import { TaskChecklistComponent } from '../task-checklist/task-checklist.component';
+import { ProjectAttachmentsComponent } from '../project-attachments/project-attachments.component';
+import { ProjectCommentsComponent } from '../project-comments/project-comments.component';
+import { ProjectHistoryComponent } from '../project-history/project-history.component';
+import { ProjectMembersComponent } from '../project-members/project-members.component';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TagChipComponent } from '../../../../shared/components/tag-chip/tag-chip.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+/// <summary>
+/// Entry of the project activity timeline
+/// </summary>
+interface TimelineEvent {
+  type: 'created' | 'updated';
+  date: Date;
+  icon: string;
+  labelKey: string;
+}
+
+/// <summary>
+/// Project detail page with activity timeline, members, task checklist, attachments and comments
+/// Editing is offered according to the role of the current user on the project
+/// Reachable via deep link at /projects/:id
+/// </summary>
+@Component({
+  selector: 'app-project-detail',
+  imports: [
+    RouterModule,
+    ConfirmDialogComponent,
+    TagChipComponent,
+    TaskChecklistComponent,
+    ProjectAttachmentsComponent,
+    ProjectCommentsComponent,
+    ProjectHistoryComponent,
+    ProjectMembersComponent,
+    TranslatePipe,
+    LocalizedDatePipe
+  ],
+  templateUrl: './project-detail.component.html',
+  styleUrl: './project-detail.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectDetailComponent implements OnInit {
+  private readonly projectService = inject(ProjectService);
+  private readonly trashService = inject(TrashService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // Component state
+  protected readonly project = signal<Project | null>(null);
+  protected readonly loading = signal(false);
+
+  // Permissions of the current user: viewers only read, only the owner deletes
+  protected readonly canEdit = computed(() => this.project()?.role !== 'Viewer');
+  protected readonly canDelete = computed(() => this.project()?.role === 'Owner');
+
+  // Tab shown below the attachments
+  protected readonly activeTab = signal<'comments' | 'history'>('comments');
+
+  // Delete confirmation state
+  protected readonly showDeleteConfirm = signal(false);
+  protected readonly deleting = signal(false);
+
+  /// <summary>
+  /// Chronological list of created/updated events (oldest first)
+  /// </summary>
+  protected readonly timeline = computed<TimelineEvent[]>(() => {
+    const project = this.project();
+    if (!project) return [];
+
+    const events: TimelineEvent[] = [{
+      type: 'created',
+      date: new Date(project.createdAt),
+      icon: 'fas fa-plus',
+      labelKey: 'projects.timelineCreated'
+    }];
+
+    // Skip the update event when the record was never modified after creation
+    const updatedAt = new Date(project.updatedAt);
+    if (updatedAt.getTime() > events[0].date.getTime()) {
+      events.push({
+        type: 'updated',
+        date: updatedAt,
+        icon: 'fas fa-pencil',
+        labelKey: 'projects.timelineUpdated'
+      });
+    }
+
+    return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+  });
+
+  ngOnInit(): void {
+    // Reload when navigating between projects while the component is reused
+    this.route.paramMap
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(params => {
+        const id = parseInt(params.get('id') ?? '', 10);
+        if (isNaN(id)) {
+          this.router.navigate(['/projects']);
+          return;
+        }
+        this.loadProject(id);
+      });
+  }
+
+  /// <summary>
+  /// Load project by ID
+  /// </summary>
+  private loadProject(id: number): void {
+    this.loading.set(true);
+    this.projectService.getProject(id).subscribe({
+      next: (project) => {
+        this.project.set(project);
+        this.loading.set(false);
+      },
+      error: (error) => {
+        this.logger.error('Error loading project:', error);
+        // Error notification is handled by HTTP interceptor
+        this.loading.set(false);
+        this.router.navigate(['/projects']);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Get translated label for a status value
+  /// </summary>
+  getStatusLabel(status: string): string {
+    return this.translationService.translate(`projects.status_${status}`);
+  }
+
+  /// <summary>
+  /// Get translated label for a priority value
+  /// </summary>
+  getPriorityLabel(priority: number): string {
+    return this.translationService.translate(`projects.priority_${priority}`);
+  }
+
+  /// <summary>
+  /// Navigate to edit page
+  /// </summary>
+  editProject(): void {
+    const project = this.project();
+    if (!project) return;
+    this.router.navigate(['/projects', project.id, 'edit']);
+  }
+
+  /// <summary>
+  /// Ask for delete confirmation
+  /// </summary>
+  deleteProject(): void {
+    this.showDeleteConfirm.set(true);
+  }
+
+  /// <summary>
+  /// Confirm delete and return to the list
+  /// </summary>
+  confirmDelete(): void {
+    const project = this.project();
+    if (!project) return;
+
+    this.deleting.set(true);
+    this.projectService.deleteProject(project.id).subscribe({
+      next: () => {
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('trash.movedToTrash', { title: project.title }),
+          8000,
+          {
+            label: this.translationService.translate('trash.undo'),
+            callback: () => this.undoDelete(project.id)
+          }
+        );
+        this.deleting.set(false);
+        this.showDeleteConfirm.set(false);
+        this.router.navigate(['/projects']);
+      },
+      error: (error: any) => {
+        this.logger.error('Delete failed', error);
+        // Error notification is handled by HTTP interceptor
+        this.deleting.set(false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Restore the project from the trash and open it again
+  /// </summary>
+  private undoDelete(id: number): void {
+    this.trashService.restore([id]).subscribe({
+      next: () => this.router.navigate(['/projects', id]),
+      error: (error: any) => {
+        this.logger.error('Undo delete failed', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+
+  /// <summary>
+  /// Cancel delete
+  /// </summary>
+  cancelDelete(): void {
+    this.showDeleteConfirm.set(false);
+  }
+}
@@ -1,46 +1,108 @@
-import { Component, inject, signal, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import { Component, inject, signal, computed, effect, untracked, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { interval } from 'rxjs';
 
 import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { Router, ActivatedRoute } from '@angular/router';
 import { ProjectService } from '../../services/project.service';
+import { TagService } from '../../services/tag.service';
 import { NotificationService } from '../../../../shared/services/notification.service';
 import { TranslationService } from '../../../../shared/services/translation.service';
 import { LoggerService } from '../../../../shared/services/logger.service';
-import { CreateProjectRequest, UpdateProjectRequest } from '../../../../shared/models/project.model';
+import { FormDraftService, FormDraft } from '../../../../shared/services/form-draft.service';
+import { AuthService } from '../../../../core/services/auth.service';
+import { HasUnsavedChanges } from '../../../../core/guards/unsaved-changes.guard';
+import { Project, CreateProjectRequest, UpdateProjectRequest, PROJECT_STATUSES } from '../../../../shared/models/project.model';
+import { ProjectTag, TAG_COLORS } from '../../../../shared/models/tag.model';
+import { ProjectRole } from '../../../../shared/models/member.model';
 import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
 import {
   TextInput,
   TextareaInput,
   DropdownInput,
   IntegerInput,
-  DateInputComponent
+  DateInputComponent,
+  TagInput,
+  TagChipComponent
 } from '../../../../shared/components';
 
+/**
+ * Form field compared when a save is rejected because someone else saved first
+ */
+type ConflictField = 'title' | 'description' | 'status' | 'priority' | 'startDate' | 'dueDate' | 'tagIds';
+
+type ConflictChoice = 'yours' | 'theirs';
+
+interface FieldConflict {
+  field: ConflictField;
+  labelKey: string;
+  yours: string;
+  theirs: string;
+  theirsValue: unknown;
+}
+
+/**
+ * Draft saved while editing: form values plus the version and values the edit started from,
+ * so a restored draft still gets the conflict check when saved
+ */
+interface ProjectDraft {
+  values: Record<ConflictField, unknown>;
+  version?: string;
+  baseline?: Record<ConflictField, unknown> | null;
+}
+
+// Interval of the draft autosave while the form has unsaved changes
+const DRAFT_AUTOSAVE_MS = 10_000;
+
+const CONFLICT_LABELS: Record<ConflictField, string> = {
+  title: 'projects.projectTitle',
+  description: 'projects.description',
+  status: 'projects.status',
+  priority: 'projects.priority',
+  startDate: 'projects.startDate',
+  dueDate: 'projects.dueDate',
+  tagIds: 'tags.title'
+};
+
 /**
  * Form component for creating and editing projects
  * Uses same component for both create and edit modes
+ * Shared projects open read-only for viewers; only the owner changes the tags
+ * Saving a project someone else changed meanwhile shows their values next to yours, field by field
+ * Unsaved changes are autosaved as a local draft, offered back when the form reopens
  */
 @Component({
   selector: 'app-project-form',
   imports: [
     ReactiveFormsModule,
     TranslatePipe,
+    LocalizedDatePipe,
     TextInput,
     TextareaInput,
     DropdownInput,
     IntegerInput,
-    DateInputComponent
+    DateInputComponent,
+    TagInput,
+    TagChipComponent
 ],
   templateUrl: './project-form.component.html',
   styleUrl: './project-form.component.scss',
-  changeDetection: ChangeDetectionStrategy.OnPush
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(window:beforeunload)': 'onBeforeUnload($event)'
+  }
 })
-export class ProjectFormComponent implements OnInit {
+export class ProjectFormComponent implements OnInit, HasUnsavedChanges {
   private readonly fb = inject(FormBuilder);
   private readonly projectService = inject(ProjectService);
+  private readonly tagService = inject(TagService);
   private readonly notificationService = inject(NotificationService);
   private readonly translationService = inject(TranslationService);
   private readonly logger = inject(LoggerService);
+  private readonly formDraftService = inject(FormDraftService);
+  private readonly authService = inject(AuthService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
 
@@ -48,17 +110,39 @@ export class ProjectFormComponent implements OnInit {
   protected readonly isEditMode = signal(false);
   protected readonly loading = signal(false);
   protected readonly projectId = signal<number | null>(null);
+  protected readonly tags = this.tagService.getTagsSignal();
+  protected readonly creatingTag = signal(false);
+
+  // Role of the current user on the edited project (new projects are owned)
+  protected readonly role = signal<ProjectRole>('Owner');
+  protected readonly readOnly = computed(() => this.role() === 'Viewer');
+  // Tags belong to the owner: other users see the project's tags as chips
+  protected readonly canEditTags = computed(() => this.role() === 'Owner');
+  protected readonly projectTags = signal<ProjectTag[]>([]);
+
+  // Version the edit started from, and the values loaded with it
+  private version: string | undefined;
+  private baseline: Record<ConflictField, unknown> | null = null;
+
+  // Fields where the saved project differs from the form after a rejected save
+  protected readonly conflicts = signal<FieldConflict[]>([]);
+  protected readonly conflictChoices = signal<Partial<Record<ConflictField, ConflictChoice>>>({});
+
+  // Local draft: key per user and project ("new" when creating), the draft offered
+  // for restore when the form opens and the time of the last autosave
+  private draftKey = '';
+  private lastDraftJson: string | null = null;
+  protected readonly offeredDraft = signal<FormDraft<ProjectDraft> | null>(null);
+  protected readonly draftSavedAt = signal<string | null>(null);
 
   // Form
   protected readonly form: FormGroup;
 
   // Status options
-  protected readonly statusOptions = [
-    { value: 'Active', label: 'Active' },
-    { value: 'Completed', label: 'Completed' },
-    { value: 'OnHold', label: 'On Hold' },
-    { value: 'Cancelled', label: 'Cancelled' }
-  ];
+  protected readonly statusOptions = computed(() => PROJECT_STATUSES.map(status => ({
+    value: status,
+    label: this.translationService.translate('projects.status_' + status)
+  })));
   protected readonly descriptionMaxLength = 1000;
 
   constructor() {
@@ -69,17 +153,35 @@ export class ProjectFormComponent implements OnInit {
       status: ['Active', [Validators.required]],
       priority: [3, [Validators.required, Validators.min(1), Validators.max(5)]],
       startDate: [null],
-      dueDate: [null]
+      dueDate: [null],
+      tagIds: [[] as number[]]
+    });
+
+    interval(DRAFT_AUTOSAVE_MS)
+      .pipe(takeUntilDestroyed())
+      .subscribe(() => this.saveDraft());
+
+    // The auth interceptor logs out without leaving the page: keep what was typed
+    const isAuthenticated = this.authService.isAuthenticated$();
+    effect(() => {
+      if (!isAuthenticated()) {
+        untracked(() => this.saveDraft());
+      }
     });
   }
 
   ngOnInit(): void {
+    this.tagService.loadTags().subscribe();
+
     // Check if we're in edit mode
     const id = this.route.snapshot.paramMap.get('id');
+    this.draftKey = `project:${this.authService.currentUser()?.email ?? ''}:${id ?? 'new'}`;
     if (id) {
       this.isEditMode.set(true);
       this.projectId.set(parseInt(id, 10));
       this.loadProject(parseInt(id, 10));
+    } else {
+      this.offerDraft();
     }
   }
 
@@ -90,15 +192,10 @@ export class ProjectFormComponent implements OnInit {
     this.loading.set(true);
     this.projectService.getProject(id).subscribe({
       next: (project) => {
-        this.form.patchValue({
-          title: project.title,
-          description: project.description,
-          status: project.status,
-          priority: project.priority,
-          startDate: project.startDate,
-          dueDate: project.dueDate
-        });
+        this.form.patchValue(this.toFormValue(project));
+        this.setSavedProject(project);
         this.loading.set(false);
+        this.offerDraft();
       },
       error: (error) => {
         this.logger.error('Error loading project:', error);
@@ -110,10 +207,39 @@ export class ProjectFormComponent implements OnInit {
   }
 
 
+  private toFormValue(project: Project): Record<ConflictField, unknown> {
+    return {
+      title: project.title,
+      description: project.description,
+      status: project.status,
+      priority: project.priority,
+      startDate: project.startDate,
+      dueDate: project.dueDate,
+      tagIds: project.tags?.map(tag => tag.id) ?? []
+    };
+  }
+
+  /**
+   * Remember the saved project the form edits: its version, values, role and tags
+   */
+  private setSavedProject(project: Project): void {
+    this.version = project.version;
+    this.baseline = this.toFormValue(project);
+    this.role.set(project.role);
+    this.projectTags.set(project.tags ?? []);
+    if (this.readOnly()) {
+      this.form.disable();
+    }
+  }
+
   /**
    * Submit form
    */
   onSubmit(): void {
+    if (this.readOnly()) {
+      return;
+    }
+
     if (this.form.invalid) {
       this.form.markAllAsTouched();
       // Don't show toast notification - inline validation messages are sufficient
@@ -135,14 +261,18 @@ export class ProjectFormComponent implements OnInit {
       status: formValue.status,
       priority: formValue.priority,
       startDate: formValue.startDate && formValue.startDate !== '' ? new Date(formValue.startDate) : null,
-      dueDate: formValue.dueDate && formValue.dueDate !== '' ? new Date(formValue.dueDate) : null
+      dueDate: formValue.dueDate && formValue.dueDate !== '' ? new Date(formValue.dueDate) : null,
+      // Omitted tags are left unchanged by the server
+      tagIds: this.canEditTags() ? formValue.tagIds : undefined
     } as const;
 
     this.logger.debug('Project data:', projectData);
 
     if (this.isEditMode()) {
-      this.projectService.updateProject(this.projectId()!, projectData as UpdateProjectRequest).subscribe({
+      this.projectService.updateProject(this.projectId()!, projectData as UpdateProjectRequest, this.version).subscribe({
         next: () => {
+          this.conflicts.set([]);
+          this.discardUnsavedChanges();
           this.notificationService.success(
             this.translationService.translate('common.success'),
             this.translationService.translate('projects.updateSuccess')
@@ -154,11 +284,16 @@ export class ProjectFormComponent implements OnInit {
           this.logger.error('Error updating project:', error);
           // Error notification is handled by HTTP interceptor
           this.loading.set(false);
+          const current = this.projectService.getConflict(error);
+          if (current) {
+            this.showConflicts(current);
+          }
         }
       });
     } else {
       this.projectService.createProject(projectData as CreateProjectRequest).subscribe({
         next: () => {
+          this.discardUnsavedChanges();
           this.notificationService.success(
             this.translationService.translate('common.success'),
             this.translationService.translate('projects.createSuccess')
@@ -175,17 +310,225 @@ export class ProjectFormComponent implements OnInit {
     }
   }
 
+  /**
+   * Compare the form with the project someone else saved and list the differing fields
+   * Each field defaults to your value if you changed it, otherwise to theirs
+   */
+  private showConflicts(current: Project): void {
+    const base = this.baseline;
+    const yours = this.form.getRawValue() as Record<ConflictField, unknown>;
+    const theirs = this.toFormValue(current);
+    const tagNames = new Map<number, string>([
+      ...this.tags().map(tag => [tag.id, tag.name] as const),
+      ...(current.tags ?? []).map(tag => [tag.id, tag.name] as const)
+    ]);
+
+    const fields = (Object.keys(CONFLICT_LABELS) as ConflictField[])
+      .filter(field => field !== 'tagIds' || this.canEditTags());
+    const conflicts = fields
+      .filter(field => this.normalize(field, yours[field]) !== this.normalize(field, theirs[field]))
+      .map(field => ({
+        field,
+        labelKey: CONFLICT_LABELS[field],
+        yours: this.display(field, yours[field], tagNames),
+        theirs: this.display(field, theirs[field], tagNames),
+        theirsValue: theirs[field]
+      }));
+
+    const choices: Partial<Record<ConflictField, ConflictChoice>> = {};
+    for (const conflict of conflicts) {
+      const changedByYou = !base || this.normalize(conflict.field, yours[conflict.field]) !== this.normalize(conflict.field, base[conflict.field]);
+      choices[conflict.field] = changedByYou ? 'yours' : 'theirs';
+    }
+
+    this.setSavedProject(current);
+    this.conflictChoices.set(choices);
+    this.conflicts.set(conflicts);
+  }
+
+  chooseConflict(field: ConflictField, choice: ConflictChoice): void {
+    this.conflictChoices.update(choices => ({ ...choices, [field]: choice }));
+  }
+
+  /**
+   * Take the chosen values into the form and save again on top of their version
+   */
+  resolveConflicts(): void {
+    this.applyTheirs(conflict => this.conflictChoices()[conflict.field] === 'theirs');
+    this.conflicts.set([]);
+    this.onSubmit();
+  }
+
+  /**
+   * Drop your changes to the differing fields and keep editing their version
+   */
+  discardConflicts(): void {
+    this.applyTheirs(() => true);
+    this.conflicts.set([]);
+  }
+
+  private applyTheirs(predicate: (conflict: FieldConflict) => boolean): void {
+    for (const conflict of this.conflicts().filter(predicate)) {
+      this.form.controls[conflict.field].setValue(conflict.theirsValue);
+    }
+  }
+
+  /**
+   * Comparable form of a field value (dates as yyyy-MM-dd, tags in id order)
+   */
+  private normalize(field: ConflictField, value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+    switch (field) {
+      case 'startDate':
+      case 'dueDate':
+        return String(value).split('T')[0];
+      case 'tagIds':
+        return [...(value as number[])].sort((a, b) => a - b).join(',');
+      default:
+        return String(value);
+    }
+  }
+
+  private display(field: ConflictField, value: unknown, tagNames: Map<number, string>): string {
+    const normalized = this.normalize(field, value);
+    if (!normalized) {
+      return '';
+    }
+    switch (field) {
+      case 'status':
+        return this.translationService.translate('projects.status_' + normalized);
+      case 'priority':
+        return `${normalized}/5`;
+      case 'startDate':
+      case 'dueDate':
+        return formatDate(normalized, 'mediumDate', this.translationService.currentLanguage());
+      case 'tagIds':
+        return (value as number[]).map(id => tagNames.get(id) ?? `#${id}`).join(', ');
+      default:
+        return normalized;
+    }
+  }
+
+  hasUnsavedChanges(): boolean {
+    return this.form.dirty && !this.readOnly();
+  }
+
+  /**
+   * Forget the changes: removes the draft and lets the guard pass
+   */
+  discardUnsavedChanges(): void {
+    this.formDraftService.clear(this.draftKey);
+    this.lastDraftJson = null;
+    this.draftSavedAt.set(null);
+    this.form.markAsPristine();
+  }
+
+  /**
+   * Save the draft before a reload or tab close and let the browser ask for confirmation
+   */
+  onBeforeUnload(event: BeforeUnloadEvent): void {
+    if (this.hasUnsavedChanges()) {
+      this.saveDraft();
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Autosave the form as a local draft when it has changed since the last save
+   */
+  private saveDraft(): void {
+    if (!this.draftKey || !this.hasUnsavedChanges()) {
+      return;
+    }
+
+    const draft: ProjectDraft = {
+      values: this.form.getRawValue(),
+      version: this.version,
+      baseline: this.baseline
+    };
+    const json = JSON.stringify(draft);
+    if (json === this.lastDraftJson) {
+      return;
+    }
+
+    this.lastDraftJson = json;
+    this.draftSavedAt.set(this.formDraftService.save(this.draftKey, draft).savedAt);
+  }
+
+  /**
+   * Offer the saved draft, unless it holds the same values as the form
+   */
+  private offerDraft(): void {
+    if (this.readOnly()) {
+      return;
+    }
+
+    const draft = this.formDraftService.load<ProjectDraft>(this.draftKey);
+    if (!draft) {
+      return;
+    }
+
+    const values = this.form.getRawValue() as Record<ConflictField, unknown>;
+    const unchanged = (Object.keys(CONFLICT_LABELS) as ConflictField[])
+      .every(field => this.normalize(field, draft.value.values[field]) === this.normalize(field, values[field]));
+    if (unchanged) {
+      this.formDraftService.clear(this.draftKey);
+      return;
+    }
+
+    this.offeredDraft.set(draft);
+  }
+
+  restoreDraft(): void {
+    const draft = this.offeredDraft();
+    if (!draft) return;
+
+    this.form.patchValue(draft.value.values);
+    // Saving goes against the version the draft started from, so changes
+    // saved by someone else since then show up as conflicts
+    if (draft.value.version) {
+      this.version = draft.value.version;
+      this.baseline = draft.value.baseline ?? this.baseline;
+    }
+    this.form.markAsDirty();
+    this.offeredDraft.set(null);
+  }
+
+  dismissDraft(): void {
+    this.formDraftService.clear(this.draftKey);
+    this.offeredDraft.set(null);
+  }
+
+  /**
+   * Create a tag typed in the tag input and select it
+   * New tags get the next color of the palette
+   */
+  createTag(name: string): void {
+    this.creatingTag.set(true);
+    const color = TAG_COLORS[this.tags().length % TAG_COLORS.length];
+    this.tagService.createTag({ name, color }).subscribe({
+      next: (tag) => {
+        const control = this.form.controls['tagIds'];
+        control.setValue([...control.value, tag.id]);
+        control.markAsDirty();
+        this.creatingTag.set(false);
+      },
+      error: (error: any) => {
+        this.logger.error('Error creating tag:', error);
+        // Error notification is handled by HTTP interceptor
+        this.creatingTag.set(false);
+      }
+    });
+  }
+
   /**
    * Cancel and go back
    */
   cancel(): void {
-    if (this.form.dirty) {
-      if (confirm(this.translationService.translate('projects.unsavedChanges'))) {
-        this.router.navigate(['/projects']);
-      }
-    } else {
-      this.router.navigate(['/projects']);
-    }
+    // Unsaved changes are confirmed by the route's unsavedChangesGuard
+    this.router.navigate(['/projects']);
   }
 
   /**
@@ -0,0 +1,67 @@
+import { Component, inject, input, ChangeDetectionStrategy, DestroyRef, OnInit } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { NgTemplateOutlet } from '@angular/common';
+import { switchMap } from 'rxjs/operators';
+import { HistoryService } from '../../services/history.service';
+import { HistoryAction, HistoryEntry, HistoryField } from '../../../../shared/models/history.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+/// <summary>
+/// Audit history of a project: who created, changed, deleted or restored it and when,
+/// with the before and after value of every changed field
+/// </summary>
+@Component({
+  selector: 'app-project-history',
+  imports: [NgTemplateOutlet, TranslatePipe, LocalizedDatePipe],
+  templateUrl: './project-history.component.html',
+  styleUrl: './project-history.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectHistoryComponent implements OnInit {
+  private readonly historyService = inject(HistoryService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // Field labels (same as the project form)
+  protected readonly fieldLabels: Record<HistoryField, string> = {
+    title: 'projects.projectTitle',
+    description: 'projects.description',
+    status: 'projects.status',
+    priority: 'projects.priority',
+    startDate: 'projects.startDate',
+    dueDate: 'projects.dueDate'
+  };
+
+  // Inputs
+  readonly projectId = input.required<number>();
+
+  // Service state
+  protected readonly entries = this.historyService.getEntriesSignal();
+  protected readonly loading = this.historyService.getLoadingSignal();
+
+  private readonly projectId$ = toObservable(this.projectId);
+
+  ngOnInit(): void {
+    // Reload when the detail page switches to another project
+    this.projectId$
+      .pipe(
+        switchMap(projectId => this.historyService.loadHistory(projectId)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+  }
+
+  protected actorLabel(entry: HistoryEntry): string {
+    return entry.actorName || entry.actorEmail || `#${entry.actorId}`;
+  }
+
+  protected actionIcon(action: HistoryAction): string {
+    switch (action) {
+      case 'Created': return 'fas fa-plus text-success';
+      case 'StatusChanged': return 'fas fa-right-left text-info';
+      case 'Deleted': return 'fas fa-trash text-danger';
+      case 'Restored': return 'fas fa-rotate-left text-primary';
+      default: return 'fas fa-pencil text-secondary';
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { Component, inject, signal, computed, ChangeDetectionStrategy } from '@angular/core';
+import { Router } from '@angular/router';
+import { ProjectService } from '../../services/project.service';
+import { ProjectImportService } from '../../services/project-import.service';
+import { SpreadsheetReaderService, SpreadsheetTable } from '../../../../shared/services/spreadsheet-reader.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { ImportProjectsResponse } from '../../../../shared/models/project.model';
+import {
+  PROJECT_IMPORT_FIELDS,
+  IMPORT_DATE_FORMATS,
+  IMPORT_MAX_ROWS,
+  ImportDateFormat,
+  ProjectImportField,
+  ProjectImportMapping
+} from '../../../../shared/models/import.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'summary';
+
+/// <summary>
+/// Import wizard: upload a CSV/XLSX file, map its columns to project fields,
+/// review per-row validation errors and create the valid rows in bulk
+/// </summary>
+@Component({
+  selector: 'app-project-import',
+  imports: [TranslatePipe, LocalizedDatePipe],
+  templateUrl: './project-import.component.html',
+  styleUrl: './project-import.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectImportComponent {
+  private readonly projectService = inject(ProjectService);
+  private readonly importService = inject(ProjectImportService);
+  private readonly spreadsheetReader = inject(SpreadsheetReaderService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly router = inject(Router);
+
+  protected readonly steps: ImportStep[] = ['upload', 'mapping', 'preview', 'summary'];
+  protected readonly fields = PROJECT_IMPORT_FIELDS;
+  protected readonly dateFormats = IMPORT_DATE_FORMATS;
+  protected readonly maxRows = IMPORT_MAX_ROWS;
+
+  // Wizard state
+  protected readonly step = signal<ImportStep>('upload');
+  protected readonly fileName = signal<string | null>(null);
+  protected readonly table = signal<SpreadsheetTable | null>(null);
+  protected readonly reading = signal(false);
+  protected readonly readError = signal<string | null>(null);
+  protected readonly mapping = signal<ProjectImportMapping | null>(null);
+  protected readonly dateFormat = signal<ImportDateFormat>('yyyy-MM-dd');
+  protected readonly showOnlyErrors = signal(false);
+  protected readonly importing = signal(false);
+  protected readonly result = signal<ImportProjectsResponse | null>(null);
+
+  /// <summary>
+  /// Title is the only column that must be mapped (other fields have defaults)
+  /// </summary>
+  protected readonly canPreview = computed(() => {
+    const mapping = this.mapping();
+    return !!mapping && PROJECT_IMPORT_FIELDS.every(f => !f.required || mapping[f.key] !== null);
+  });
+
+  /// <summary>
+  /// Mapped and validated rows, recomputed when the mapping or date format changes
+  /// </summary>
+  protected readonly previewRows = computed(() => {
+    const table = this.table();
+    const mapping = this.mapping();
+    return table && mapping ? this.importService.buildPreview(table, mapping, this.dateFormat()) : [];
+  });
+
+  protected readonly validRows = computed(() => this.previewRows().filter(row => row.errors.length === 0));
+  protected readonly invalidCount = computed(() => this.previewRows().length - this.validRows().length);
+  protected readonly visibleRows = computed(() => this.showOnlyErrors()
+    ? this.previewRows().filter(row => row.errors.length > 0)
+    : this.previewRows());
+
+  /// <summary>
+  /// Rows not created: rejected in the preview plus rows rejected by the server
+  /// </summary>
+  protected readonly failedRows = computed(() => {
+    const serverFailed = this.result()?.failed ?? [];
+    return [
+      ...this.previewRows()
+        .filter(row => row.errors.length > 0)
+        .map(row => ({ rowNumber: row.rowNumber, errors: row.errors })),
+      ...serverFailed
+    ].sort((a, b) => a.rowNumber - b.rowNumber);
+  });
+
+  /// <summary>
+  /// Read the selected file and move to the mapping step
+  /// </summary>
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.reading.set(true);
+    this.readError.set(null);
+
+    try {
+      const table = await this.spreadsheetReader.read(file);
+      if (table.rows.length === 0) {
+        this.readError.set(this.translationService.translate('projects.importEmptyFile'));
+      } else if (table.rows.length > IMPORT_MAX_ROWS) {
+        this.readError.set(this.translationService.translate('projects.importTooManyRows', { max: IMPORT_MAX_ROWS }));
+      } else {
+        this.fileName.set(file.name);
+        this.table.set(table);
+        this.mapping.set(this.importService.autoMap(table.headers));
+        this.step.set('mapping');
+      }
+    } catch (error) {
+      this.logger.error('Error reading import file:', error);
+      this.readError.set(this.translationService.translate('projects.importReadError'));
+    } finally {
+      this.reading.set(false);
+    }
+  }
+
+  /// <summary>
+  /// Map a field to a source column (empty value = not imported)
+  /// </summary>
+  setMapping(field: ProjectImportField, value: string): void {
+    this.mapping.update(mapping => mapping && { ...mapping, [field]: value === '' ? null : Number(value) });
+  }
+
+  setDateFormat(value: string): void {
+    this.dateFormat.set(value as ImportDateFormat);
+  }
+
+  toggleShowOnlyErrors(): void {
+    this.showOnlyErrors.update(value => !value);
+  }
+
+  goToStep(step: ImportStep): void {
+    if (step === 'preview' && !this.canPreview()) return;
+    this.step.set(step);
+  }
+
+  /// <summary>
+  /// Create the valid rows and show the summary
+  /// </summary>
+  importValidRows(): void {
+    const rows = this.validRows().map(row => ({ ...row.request, rowNumber: row.rowNumber }));
+    if (rows.length === 0) return;
+
+    this.importing.set(true);
+    this.projectService.importProjects(rows).subscribe({
+      next: (result) => {
+        this.result.set(result);
+        this.importing.set(false);
+        this.step.set('summary');
+
+        if (result.created > 0) {
+          this.notificationService.success(
+            this.translationService.translate('common.success'),
+            this.translationService.translate('projects.importCreated', { count: result.created })
+          );
+        }
+      },
+      error: (error: any) => {
+        this.logger.error('Error importing projects:', error);
+        // Error notification is handled by HTTP interceptor
+        this.importing.set(false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Start over with another file
+  /// </summary>
+  reset(): void {
+    this.fileName.set(null);
+    this.table.set(null);
+    this.mapping.set(null);
+    this.readError.set(null);
+    this.showOnlyErrors.set(false);
+    this.result.set(null);
+    this.step.set('upload');
+  }
+
+  /// <summary>
+  /// Navigate back to the project list
+  /// </summary>
+  goBack(): void {
+    this.router.navigate(['/projects']);
+  }
+}
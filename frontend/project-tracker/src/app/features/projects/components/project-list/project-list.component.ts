@@ -1,20 +1,44 @@
-import { Component, inject, signal, OnInit, ChangeDetectionStrategy, DestroyRef } from '@angular/core';
+import { Component, inject, signal, computed, OnInit, ChangeDetectionStrategy, DestroyRef } from '@angular/core';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
-import { ReactiveFormsModule, FormControl } from '@angular/forms';
+import { HttpEventType, HttpResponse } from '@angular/common/http';
+import { Subscription } from 'rxjs';
+import { ReactiveFormsModule, FormControl, FormGroup } from '@angular/forms';
 import { Router } from '@angular/router';
 import { ProjectService } from '../../services/project.service';
+import { TrashService } from '../../services/trash.service';
+import { SavedViewService } from '../../services/saved-view.service';
+import { TagService } from '../../services/tag.service';
 import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
 import { ExportService } from '../../../../shared/services/export.service';
 import { LoggerService } from '../../../../shared/services/logger.service';
-import { Project, PaginationParams } from '../../../../shared/models/project.model';
+import { ListStateService, ListStateSchema, PAGINATION_STATE_SCHEMA } from '../../../../shared/services/list-state.service';
+import {
+  Project,
+  PaginationParams,
+  ProjectFilters,
+  ProjectExportFormat,
+  PROJECT_STATUSES,
+  BulkProjectAction,
+  BulkProjectActionRequest,
+  BulkProjectActionResponse
+} from '../../../../shared/models/project.model';
+import { SavedView, SavedViewFilters } from '../../../../shared/models/saved-view.model';
+import { TagMatch } from '../../../../shared/models/tag.model';
+import { ExportOptions } from '../../../../shared/models/export.model';
 import { PaginationComponent } from '../../../../shared/components/pagination/pagination.component';
 import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TagChipComponent } from '../../../../shared/components/tag-chip/tag-chip.component';
+import { TagInput } from '../../../../shared/components/tag-input/tag-input';
+import { SavedViewsComponent } from '../saved-views/saved-views.component';
+import { ExportOptionsDialogComponent } from '../export-options-dialog/export-options-dialog.component';
+import { BulkActionsBarComponent } from '../bulk-actions-bar/bulk-actions-bar.component';
 import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
 import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
-import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import { debounceTime, filter } from 'rxjs/operators';
 
 /// <summary>
-/// Project list page with server-side pagination, search, sorting, and export
+/// Project list page with server-side pagination, search, sorting, tag filters, export and bulk actions
 /// </summary>
 @Component({
   selector: 'app-project-list',
@@ -22,18 +46,29 @@ import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
     ReactiveFormsModule,
     PaginationComponent,
     ConfirmDialogComponent,
+    TagChipComponent,
+    TagInput,
+    SavedViewsComponent,
+    ExportOptionsDialogComponent,
+    BulkActionsBarComponent,
     TranslatePipe,
     LocalizedDatePipe
   ],
   templateUrl: 'project-list.component.html',
   styleUrl: 'project-list.component.scss',
-  changeDetection: ChangeDetectionStrategy.OnPush
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  providers: [ListStateService]
 })
 export class ProjectListComponent implements OnInit {
   private readonly projectService = inject(ProjectService);
+  private readonly trashService = inject(TrashService);
+  private readonly savedViewService = inject(SavedViewService);
+  private readonly tagService = inject(TagService);
   private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
   private readonly exportService = inject(ExportService);
   private readonly router = inject(Router);
+  private readonly listState = inject(ListStateService);
   private readonly destroyRef = inject(DestroyRef);
   private readonly logger = inject(LoggerService);
 
@@ -45,11 +80,25 @@ export class ProjectListComponent implements OnInit {
   protected readonly pageSize = this.projectService.getPageSizeSignal();
   protected readonly totalCount = this.projectService.getTotalCountSignal();
   protected readonly totalPages = this.projectService.getTotalPagesSignal();
+  // Rows recently changed by another user (pushed by the server)
+  protected readonly recentChanges = this.projectService.getRecentChangesSignal();
+  protected readonly tags = this.tagService.getTagsSignal();
 
-  // Form controls for search
+  // Form controls for search and filters
   protected readonly searchControl = new FormControl('');
-  protected readonly statusFilter = new FormControl('');
-  protected readonly statuses = ['Active', 'OnHold', 'Completed', 'Cancelled'];
+  protected readonly filtersForm = new FormGroup({
+    status: new FormControl<string[]>([], { nonNullable: true }),
+    priorityMin: new FormControl<number | null>(null),
+    priorityMax: new FormControl<number | null>(null),
+    startDateFrom: new FormControl(''),
+    startDateTo: new FormControl(''),
+    dueDateFrom: new FormControl(''),
+    dueDateTo: new FormControl(''),
+    tagIds: new FormControl<number[]>([], { nonNullable: true }),
+    tagMatch: new FormControl<TagMatch>('any', { nonNullable: true })
+  });
+  protected readonly statuses = PROJECT_STATUSES;
+  protected readonly priorities = [1, 2, 3, 4, 5];
 
   // Current sort state
   protected currentSortBy = 'CreatedAt';
@@ -58,6 +107,26 @@ export class ProjectListComponent implements OnInit {
   // Default page size - must match service default
   private readonly DEFAULT_PAGE_SIZE = 5;
 
+  // List state defaults and query param types (state is kept in the URL)
+  private readonly DEFAULT_STATE: ProjectFilters = {
+    pageNumber: 1,
+    pageSize: this.DEFAULT_PAGE_SIZE,
+    sortBy: 'CreatedAt',
+    sortDirection: 'desc'
+  };
+  private readonly STATE_SCHEMA: ListStateSchema<ProjectFilters> = {
+    ...PAGINATION_STATE_SCHEMA,
+    status: 'string[]',
+    priorityMin: 'number',
+    priorityMax: 'number',
+    startDateFrom: 'string',
+    startDateTo: 'string',
+    dueDateFrom: 'string',
+    dueDateTo: 'string',
+    tagIds: 'number[]',
+    tagMatch: 'string'
+  };
+
   // Track current pagination state
   private readonly currentPagination = signal<PaginationParams>({
     pageNumber: 1,
@@ -66,28 +135,141 @@ export class ProjectListComponent implements OnInit {
     sortDirection: 'desc'
   });
 
+  // Filters and sort currently applied (without paging), compared against saved views
+  protected readonly currentViewFilters = signal<SavedViewFilters>({});
+
+  // Server-side export state (null when no export is running)
+  protected readonly exportProgress = signal<{
+    format: ProjectExportFormat;
+    loadedBytes: number;
+    totalRows: number | null;
+  } | null>(null);
+  private exportSubscription: Subscription | null = null;
+
+  // Export waiting for the options dialog (current page, all results or the selection)
+  protected readonly pendingExport = signal<{ scope: 'page' | 'all' | 'selection'; format: ProjectExportFormat } | null>(null);
+
+  // Selection: rows picked across pages, or every project matching the current filters
+  protected readonly selectedProjects = signal<Map<number, Project>>(new Map());
+  protected readonly selectAllMatching = signal(false);
+  protected readonly selectedCount = computed(() =>
+    this.selectAllMatching() ? this.totalCount() : this.selectedProjects().size);
+  protected readonly pageSelection = computed<'all' | 'some' | 'none'>(() => {
+    const projects = this.projects();
+    if (this.selectAllMatching() && projects.length > 0) return 'all';
+    const selected = projects.filter(p => this.selectedProjects().has(p.id)).length;
+    if (selected === 0) return 'none';
+    return selected === projects.length ? 'all' : 'some';
+  });
+
+  // Filters the selection belongs to (search and filters only: paging and sort keep it)
+  private selectionFilterKey = '';
+
+  // Bulk action waiting for confirmation, and bulk request state
+  protected readonly pendingBulkAction = signal<{
+    action: BulkProjectAction;
+    status?: string;
+    priority?: number;
+  } | null>(null);
+  protected readonly bulkProcessing = signal(false);
+  protected readonly bulkConfirmMessage = computed(() => {
+    const pending = this.pendingBulkAction();
+    if (!pending) return '';
+    const count = this.selectedCount();
+    switch (pending.action) {
+      case 'status':
+        return this.translationService.translate('projects.bulkStatusConfirm', {
+          count,
+          status: this.translationService.translate('projects.status_' + pending.status)
+        });
+      case 'priority':
+        return this.translationService.translate('projects.bulkPriorityConfirm', { count, priority: pending.priority ?? '' });
+      default:
+        return this.translationService.translate('projects.bulkDeleteConfirm', { count });
+    }
+  });
+
+  // Failed items reported one by one; the rest are summarized
+  private readonly MAX_ITEM_NOTIFICATIONS = 5;
+
+  // How long the Undo button stays available after a delete
+  private readonly UNDO_DURATION = 8000;
+
   // Delete confirmation state
   protected readonly showDeleteConfirm = signal(false);
   protected readonly projectToDelete = signal<Project | null>(null);
   protected readonly deleting = signal(false);
 
   ngOnInit(): void {
-    this.loadProjects();
+    this.tagService.loadTags()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe();
+
+    // Pushed changes only matter while the list is shown
+    this.destroyRef.onDestroy(() => this.projectService.stopRemoteUpdates());
+
+    // Checked before the first navigation so a default view never overrides a shared link.
+    // Without URL state the first load waits for the saved views, so a pinned default view
+    // is loaded instead of the unfiltered page (one request, not two)
+    let awaitingDefaultView = !this.listState.hasState(this.STATE_SCHEMA);
+    let initialState = true;
+    let loaded = false;
+
+    // On first visit without URL state, open the user's default view (if pinned)
+    this.savedViewService.loadViews()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(views => {
+        if (!awaitingDefaultView) return;
+        awaitingDefaultView = false;
+
+        const defaultView = views.find(v => v.isDefault);
+        if (!defaultView) {
+          this.loadProjects();
+          return;
+        }
+        // The URL change loads the list; a view matching the current state changes no URL
+        this.applySavedView(defaultView, true).then(() => {
+          if (!loaded) {
+            this.loadProjects();
+          }
+        });
+      });
+
+    // The URL is the source of truth: restore state on init and on back/forward
+    this.listState.watch(this.DEFAULT_STATE, this.STATE_SCHEMA)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(state => {
+        this.applyState(state);
+        // Any later state change comes from the user: the default view no longer applies
+        if (awaitingDefaultView && initialState) {
+          initialState = false;
+          return;
+        }
+        initialState = false;
+        awaitingDefaultView = false;
+        loaded = true;
+        this.loadProjects();
+      });
 
     // Subscribe to search changes with debounce
+    // Compared with the URL state rather than the last typed term: restoring state
+    // (back/forward, saved views) sets the box without emitting
     this.searchControl.valueChanges
       .pipe(
         debounceTime(300),
-        distinctUntilChanged(),
+        filter(term => (term || undefined) !== (this.currentViewFilters().searchTerm || undefined)),
         takeUntilDestroyed(this.destroyRef)
       )
       .subscribe(() => {
         this.resetPageAndLoad();
       });
 
-    // Subscribe to status filter changes
-    this.statusFilter.valueChanges
-      .pipe(takeUntilDestroyed(this.destroyRef))
+    // Subscribe to filter changes (debounced for typed date values)
+    this.filtersForm.valueChanges
+      .pipe(
+        debounceTime(300),
+        takeUntilDestroyed(this.destroyRef)
+      )
       .subscribe(() => {
         this.resetPageAndLoad();
       });
@@ -113,71 +295,163 @@ export class ProjectListComponent implements OnInit {
   /// Reset to page 1 and reload (used when filters change)
   /// </summary>
   private resetPageAndLoad(): void {
-    this.currentPagination.update(current => ({
-      ...current,
-      pageNumber: 1
-    }));
-    this.loadProjects();
+    this.updateListState({ pageNumber: 1 });
+  }
+
+  /// <summary>
+  /// Write the current state plus changes to the URL
+  /// The resulting query param change triggers the reload
+  /// </summary>
+  private updateListState(changes: Partial<ProjectFilters>): void {
+    this.listState.update(
+      { ...this.DEFAULT_STATE, ...this.buildFilters(), ...changes },
+      this.DEFAULT_STATE,
+      this.STATE_SCHEMA
+    );
+  }
+
+  /// <summary>
+  /// Apply a saved view: its filters and sort replace the current ones, page size is kept
+  /// </summary>
+  applySavedView(view: SavedView, replaceUrl = false): Promise<boolean> {
+    return this.listState.update(
+      {
+        ...this.DEFAULT_STATE,
+        pageSize: this.currentPagination().pageSize,
+        ...view.filters,
+        pageNumber: 1
+      },
+      this.DEFAULT_STATE,
+      this.STATE_SCHEMA,
+      { replaceUrl }
+    );
+  }
+
+  /// <summary>
+  /// Apply state restored from the URL to form controls and pagination
+  /// Controls are updated without emitting to avoid writing the URL back
+  /// </summary>
+  private applyState(state: ProjectFilters): void {
+    this.currentPagination.set({
+      pageNumber: state.pageNumber,
+      pageSize: state.pageSize,
+      sortBy: state.sortBy,
+      sortDirection: state.sortDirection
+    });
+    const { pageNumber, pageSize, ...viewFilters } = state;
+    this.currentViewFilters.set(viewFilters);
+
+    // A selection only makes sense for the filters it was made with
+    const { sortBy, sortDirection, ...selectionFilters } = viewFilters;
+    const selectionFilterKey = JSON.stringify(selectionFilters);
+    if (selectionFilterKey !== this.selectionFilterKey) {
+      this.selectionFilterKey = selectionFilterKey;
+      this.clearSelection();
+    }
+    this.currentSortBy = state.sortBy ?? 'CreatedAt';
+    this.currentSortDirection = state.sortDirection ?? 'desc';
+
+    this.searchControl.setValue(state.searchTerm ?? '', { emitEvent: false });
+    this.filtersForm.setValue({
+      status: state.status ?? [],
+      priorityMin: state.priorityMin ?? null,
+      priorityMax: state.priorityMax ?? null,
+      startDateFrom: state.startDateFrom ?? '',
+      startDateTo: state.startDateTo ?? '',
+      dueDateFrom: state.dueDateFrom ?? '',
+      dueDateTo: state.dueDateTo ?? '',
+      tagIds: state.tagIds ?? [],
+      tagMatch: state.tagMatch === 'all' ? 'all' : 'any'
+    }, { emitEvent: false });
   }
 
   /// <summary>
   /// Build filter object from form controls and internal state
   /// </summary>
-  private buildFilters(): Partial<PaginationParams> {
+  private buildFilters(): Partial<ProjectFilters> {
     const pagination = this.currentPagination();
-    const filters: Partial<PaginationParams> = {
+    const values = this.filtersForm.getRawValue();
+
+    return {
       ...pagination,
-      searchTerm: this.searchControl.value || undefined
+      searchTerm: this.searchControl.value || undefined,
+      status: values.status.length > 0 ? values.status : undefined,
+      priorityMin: values.priorityMin ?? undefined,
+      priorityMax: values.priorityMax ?? undefined,
+      startDateFrom: values.startDateFrom || undefined,
+      startDateTo: values.startDateTo || undefined,
+      dueDateFrom: values.dueDateFrom || undefined,
+      dueDateTo: values.dueDateTo || undefined,
+      tagIds: values.tagIds.length > 0 ? values.tagIds : undefined,
+      // "any" is the server default: only sent (and kept in the URL) for "all"
+      tagMatch: values.tagIds.length > 0 && values.tagMatch === 'all' ? 'all' : undefined
     };
+  }
 
-    if (this.statusFilter.value) {
-      (filters as any).status = this.statusFilter.value;
-    }
+  /// <summary>
+  /// Check if a status is part of the multi-select status filter
+  /// </summary>
+  isStatusSelected(status: string): boolean {
+    return this.filtersForm.controls.status.value.includes(status);
+  }
+
+  /// <summary>
+  /// Add or remove a status from the multi-select status filter
+  /// </summary>
+  toggleStatus(status: string): void {
+    const control = this.filtersForm.controls.status;
+    const selected = control.value;
+    control.setValue(
+      selected.includes(status)
+        ? selected.filter(s => s !== status)
+        : [...selected, status]
+    );
+  }
+
+  /// <summary>
+  /// Check if any status, priority, date or tag filter is set
+  /// </summary>
+  hasActiveFilters(): boolean {
+    // The tag match mode is not a filter by itself
+    const { tagMatch, ...filters } = this.filtersForm.getRawValue();
+    return Object.values(filters)
+      .some(value => Array.isArray(value) ? value.length > 0 : value !== null && value !== '');
+  }
 
-    return filters;
+  /// <summary>
+  /// Reset status, priority, date and tag filters
+  /// </summary>
+  clearFilters(): void {
+    this.filtersForm.reset();
   }
 
   /// <summary>
   /// Handle page navigation
   /// </summary>
   onPageChanged(page: number): void {
-    this.currentPagination.update(current => ({
-      ...current,
-      pageNumber: page
-    }));
-    this.loadProjects();
+    this.updateListState({ pageNumber: page });
   }
 
   /// <summary>
   /// Handle page size change
   /// </summary>
   onPageSizeChanged(size: number): void {
-    this.currentPagination.update(current => ({
-      ...current,
-      pageSize: size,
-      pageNumber: 1
-    }));
-    this.loadProjects();
+    this.updateListState({ pageSize: size, pageNumber: 1 });
   }
 
   /// <summary>
   /// Sort by column
   /// </summary>
   sortByColumn(column: 'Title' | 'Status' | 'Priority' | 'DueDate' | 'CreatedAt'): void {
-    if (this.currentSortBy === column) {
-      this.currentSortDirection = this.currentSortDirection === 'asc' ? 'desc' : 'asc';
-    } else {
-      this.currentSortBy = column;
-      this.currentSortDirection = 'asc';
-    }
+    const sortDirection = this.currentSortBy === column && this.currentSortDirection === 'asc'
+      ? 'desc'
+      : 'asc';
 
-    this.currentPagination.update(current => ({
-      ...current,
-      sortBy: this.currentSortBy,
-      sortDirection: this.currentSortDirection,
+    this.updateListState({
+      sortBy: column,
+      sortDirection,
       pageNumber: 1
-    }));
-    this.loadProjects();
+    });
   }
 
   /// <summary>
@@ -192,48 +466,325 @@ export class ProjectListComponent implements OnInit {
   /// Export current page to CSV
   /// </summary>
   exportCurrentPageToCSV(): void {
-    this.exportService.exportToCSV(
-      this.projects(),
-      `projects-page-${this.pageNumber()}.csv`
-    );
+    this.pendingExport.set({ scope: 'page', format: 'csv' });
   }
 
   /// <summary>
   /// Export current page to Excel
   /// </summary>
   exportCurrentPageToExcel(): void {
-    this.exportService.exportToExcel(
-      this.projects(),
-      `projects-page-${this.pageNumber()}.xlsx`
-    );
+    this.pendingExport.set({ scope: 'page', format: 'xlsx' });
   }
 
   /// <summary>
-  /// Export all filtered projects to CSV (fetches with large page size)
+  /// Export all filtered projects to CSV (streamed by the server)
   /// </summary>
   exportAllToCSV(): void {
-    const allFilters = {
-      ...this.buildFilters(),
-      pageSize: 10000
-    };
-    this.projectService.loadProjectsPaged(allFilters).subscribe(result => {
-      this.exportService.exportToCSV(result.items, 'projects-all.csv');
-    });
+    this.pendingExport.set({ scope: 'all', format: 'csv' });
   }
 
   /// <summary>
-  /// Export all filtered projects to Excel
+  /// Export all filtered projects to Excel (streamed by the server)
   /// </summary>
   exportAllToExcel(): void {
-    const allFilters = {
-      ...this.buildFilters(),
-      pageSize: 10000
+    this.pendingExport.set({ scope: 'all', format: 'xlsx' });
+  }
+
+  /// <summary>
+  /// Run the pending export with the options chosen in the dialog
+  /// </summary>
+  onExportOptionsConfirmed(options: ExportOptions): void {
+    const pending = this.pendingExport();
+    this.pendingExport.set(null);
+    if (!pending) return;
+
+    if (pending.scope === 'all') {
+      this.exportAll(pending.format, options);
+    } else if (pending.scope === 'selection') {
+      const selected = [...this.selectedProjects().values()];
+      if (pending.format === 'csv') {
+        this.exportService.exportToCSV(selected, 'projects-selection.csv', options);
+      } else {
+        this.exportService.exportToExcel(selected, 'projects-selection.xlsx', this.buildFilters(), options);
+      }
+    } else if (pending.format === 'csv') {
+      this.exportService.exportToCSV(this.projects(), `projects-page-${this.pageNumber()}.csv`, options);
+    } else {
+      this.exportService.exportToExcel(
+        this.projects(),
+        `projects-page-${this.pageNumber()}.xlsx`,
+        this.buildFilters(),
+        options
+      );
+    }
+  }
+
+  /// <summary>
+  /// Close the export options dialog without exporting
+  /// </summary>
+  onExportOptionsCancelled(): void {
+    this.pendingExport.set(null);
+  }
+
+  /// <summary>
+  /// Cancel the running export (aborts the download)
+  /// </summary>
+  cancelExport(): void {
+    if (!this.exportSubscription) return;
+
+    this.exportSubscription.unsubscribe();
+    this.exportSubscription = null;
+    this.exportProgress.set(null);
+    this.notificationService.info(
+      this.translationService.translate('common.export'),
+      this.translationService.translate('projects.exportCancelled')
+    );
+  }
+
+  /// <summary>
+  /// Download the server export for the current filters with progress tracking
+  /// Runs independently of the list: the visible page and its signals are not touched
+  /// </summary>
+  private exportAll(format: ProjectExportFormat, options: ExportOptions): void {
+    if (this.exportSubscription) return;
+
+    this.exportProgress.set({ format, loadedBytes: 0, totalRows: null });
+
+    this.exportSubscription = this.projectService.exportProjects(format, this.buildFilters(), options)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: event => {
+          switch (event.type) {
+            case HttpEventType.ResponseHeader: {
+              // A missing header means the row count is unknown, not zero
+              const header = event.headers.get('X-Total-Count');
+              const totalRows = header !== null ? Number(header) : NaN;
+              this.exportProgress.update(p => p && {
+                ...p,
+                totalRows: Number.isFinite(totalRows) ? totalRows : null
+              });
+              break;
+            }
+            case HttpEventType.DownloadProgress:
+              // Streamed responses have no Content-Length: only the downloaded size is known
+              this.exportProgress.update(p => p && { ...p, loadedBytes: event.loaded });
+              break;
+            case HttpEventType.Response:
+              this.saveExport(event, format);
+              break;
+          }
+        },
+        error: (error: any) => {
+          this.logger.error('Failed to export projects', error);
+          // Error notification is handled by HTTP interceptor
+          this.exportSubscription = null;
+          this.exportProgress.set(null);
+        }
+      });
+  }
+
+  /// <summary>
+  /// Save the downloaded export using the file name sent by the server
+  /// </summary>
+  private saveExport(response: HttpResponse<Blob>, format: ProjectExportFormat): void {
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? `projects-all.${format}`;
+
+    if (response.body) {
+      this.exportService.saveBlob(response.body, filename);
+    }
+
+    this.exportSubscription = null;
+    this.exportProgress.set(null);
+  }
+
+  /// <summary>
+  /// Human readable size for the export progress (KB/MB)
+  /// </summary>
+  protected formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(0)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  /// <summary>
+  /// Checklist completion of a project, rounded down like on the detail page
+  /// </summary>
+  taskPercent(project: Project): number {
+    return project.taskCount ? Math.floor(((project.completedTaskCount ?? 0) / project.taskCount) * 100) : 0;
+  }
+
+  /// <summary>
+  /// Check if a row is selected
+  /// </summary>
+  isSelected(project: Project): boolean {
+    return this.selectAllMatching() || this.selectedProjects().has(project.id);
+  }
+
+  /// <summary>
+  /// Select or deselect a single row
+  /// Deselecting while all matching projects are selected keeps the rest of the current page
+  /// </summary>
+  toggleSelection(project: Project): void {
+    if (this.selectAllMatching()) {
+      this.selectAllMatching.set(false);
+      this.selectedProjects.set(new Map(this.projects().map(p => [p.id, p])));
+    }
+
+    this.selectedProjects.update(selected => {
+      const updated = new Map(selected);
+      if (updated.has(project.id)) {
+        updated.delete(project.id);
+      } else {
+        updated.set(project.id, project);
+      }
+      return updated;
+    });
+  }
+
+  /// <summary>
+  /// Select or deselect all rows of the current page
+  /// </summary>
+  togglePageSelection(): void {
+    if (this.pageSelection() === 'all') {
+      this.selectAllMatching.set(false);
+      this.selectedProjects.update(selected => {
+        const updated = new Map(selected);
+        this.projects().forEach(p => updated.delete(p.id));
+        return updated;
+      });
+    } else {
+      this.selectedProjects.update(selected => {
+        const updated = new Map(selected);
+        this.projects().forEach(p => updated.set(p.id, p));
+        return updated;
+      });
+    }
+  }
+
+  /// <summary>
+  /// Extend the selection to every project matching the current filters
+  /// </summary>
+  selectAllMatchingFilter(): void {
+    this.selectAllMatching.set(true);
+  }
+
+  /// <summary>
+  /// Clear the selection
+  /// </summary>
+  clearSelection(): void {
+    this.selectAllMatching.set(false);
+    this.selectedProjects.set(new Map());
+  }
+
+  /// <summary>
+  /// Ask confirmation to change the status of the selection
+  /// </summary>
+  bulkChangeStatus(status: string): void {
+    this.pendingBulkAction.set({ action: 'status', status });
+  }
+
+  /// <summary>
+  /// Ask confirmation to change the priority of the selection
+  /// </summary>
+  bulkChangePriority(priority: number): void {
+    this.pendingBulkAction.set({ action: 'priority', priority });
+  }
+
+  /// <summary>
+  /// Ask confirmation to delete the selection
+  /// </summary>
+  bulkDelete(): void {
+    this.pendingBulkAction.set({ action: 'delete' });
+  }
+
+  /// <summary>
+  /// Export the selection: all matching projects are streamed by the server,
+  /// rows picked by hand are exported from the loaded data
+  /// </summary>
+  bulkExport(format: ProjectExportFormat): void {
+    this.pendingExport.set({ scope: this.selectAllMatching() ? 'all' : 'selection', format });
+  }
+
+  /// <summary>
+  /// Run the confirmed bulk action with a single request
+  /// </summary>
+  confirmBulkAction(): void {
+    const pending = this.pendingBulkAction();
+    if (!pending) return;
+
+    const request: BulkProjectActionRequest = {
+      ...pending,
+      ...(this.selectAllMatching()
+        ? { filter: this.buildFilters() }
+        : { ids: [...this.selectedProjects().keys()] })
     };
-    this.projectService.loadProjectsPaged(allFilters).subscribe(result => {
-      this.exportService.exportToExcel(result.items, 'projects-all.xlsx');
+
+    this.bulkProcessing.set(true);
+    this.projectService.bulkAction(request).subscribe({
+      next: (response) => {
+        this.bulkProcessing.set(false);
+        this.pendingBulkAction.set(null);
+        this.reportBulkResult(pending.action, response);
+
+        // Keep failed rows selected so they can be fixed and retried
+        const failedIds = new Set(response.failed.map(f => f.id));
+        this.selectAllMatching.set(false);
+        this.selectedProjects.update(selected =>
+          new Map([...selected].filter(([id]) => failedIds.has(id))));
+
+        if (pending.action === 'delete' && this.pageNumber() > 1) {
+          this.resetPageAndLoad();
+        } else {
+          this.loadProjects();
+        }
+      },
+      error: (error: any) => {
+        this.logger.error('Bulk action failed', error);
+        // Error notification is handled by HTTP interceptor
+        this.bulkProcessing.set(false);
+      }
     });
   }
 
+  /// <summary>
+  /// Cancel the pending bulk action
+  /// </summary>
+  cancelBulkAction(): void {
+    if (this.bulkProcessing()) return;
+    this.pendingBulkAction.set(null);
+  }
+
+  /// <summary>
+  /// Notify the outcome: one summary for succeeded items, one warning per failed item
+  /// </summary>
+  private reportBulkResult(action: BulkProjectAction, response: BulkProjectActionResponse): void {
+    if (response.succeeded.length > 0 && action === 'delete') {
+      this.notifyDeleted(
+        this.translationService.translate('projects.bulkDeleted', { count: response.succeeded.length }),
+        response.succeeded
+      );
+    } else if (response.succeeded.length > 0) {
+      this.notificationService.success(
+        this.translationService.translate('common.success'),
+        this.translationService.translate('projects.bulkUpdated', { count: response.succeeded.length })
+      );
+    }
+
+    response.failed.slice(0, this.MAX_ITEM_NOTIFICATIONS).forEach(item => {
+      this.notificationService.warning(item.title ?? `#${item.id}`, item.error);
+    });
+
+    const remaining = response.failed.length - this.MAX_ITEM_NOTIFICATIONS;
+    if (remaining > 0) {
+      this.notificationService.warning(
+        this.translationService.translate('common.warning'),
+        this.translationService.translate('projects.bulkMoreFailed', { count: remaining })
+      );
+    }
+  }
+
   /// <summary>
   /// Navigate to create project page
   /// </summary>
@@ -241,6 +792,41 @@ export class ProjectListComponent implements OnInit {
     this.router.navigate(['/projects/create']);
   }
 
+  /// <summary>
+  /// Switch to the board view
+  /// </summary>
+  openBoard(): void {
+    this.router.navigate(['/projects/board']);
+  }
+
+  /// <summary>
+  /// Switch to the timeline view
+  /// </summary>
+  openTimeline(): void {
+    this.router.navigate(['/projects/timeline']);
+  }
+
+  /// <summary>
+  /// Open the tag management page
+  /// </summary>
+  manageTags(): void {
+    this.router.navigate(['/projects/tags']);
+  }
+
+  /// <summary>
+  /// Open the CSV/XLSX import wizard
+  /// </summary>
+  importProjects(): void {
+    this.router.navigate(['/projects/import']);
+  }
+
+  /// <summary>
+  /// Open the trash of deleted projects
+  /// </summary>
+  openTrash(): void {
+    this.router.navigate(['/projects/trash']);
+  }
+
   /// <summary>
   /// View project details
   /// </summary>
@@ -273,13 +859,18 @@ export class ProjectListComponent implements OnInit {
     this.deleting.set(true);
     this.projectService.deleteProject(project.id).subscribe({
       next: () => {
-        this.notificationService.success(
-          'Success',
-          `Project "${project.title}" deleted successfully`
+        this.notifyDeleted(
+          this.translationService.translate('trash.movedToTrash', { title: project.title }),
+          [project.id]
         );
         this.deleting.set(false);
         this.showDeleteConfirm.set(false);
         this.projectToDelete.set(null);
+        this.selectedProjects.update(selected => {
+          const updated = new Map(selected);
+          updated.delete(project.id);
+          return updated;
+        });
         this.loadProjects();
       },
       error: (error: any) => {
@@ -293,6 +884,41 @@ export class ProjectListComponent implements OnInit {
     });
   }
 
+  /// <summary>
+  /// Confirm a delete with a toast offering to undo it: deleted projects go to the trash
+  /// and Undo restores them
+  /// </summary>
+  private notifyDeleted(message: string, ids: number[]): void {
+    this.notificationService.success(
+      this.translationService.translate('common.success'),
+      message,
+      this.UNDO_DURATION,
+      {
+        label: this.translationService.translate('trash.undo'),
+        callback: () => this.undoDelete(ids)
+      }
+    );
+  }
+
+  /// <summary>
+  /// Restore just-deleted projects and show them again in the list
+  /// </summary>
+  private undoDelete(ids: number[]): void {
+    this.trashService.restore(ids).subscribe({
+      next: (restored) => {
+        this.notificationService.info(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('trash.restored', { count: restored.length })
+        );
+        this.loadProjects();
+      },
+      error: (error: any) => {
+        this.logger.error('Undo delete failed', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+
   /// <summary>
   /// Cancel delete
   /// </summary>
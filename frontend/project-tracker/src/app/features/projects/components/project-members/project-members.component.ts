@@ -0,0 +1,182 @@
+import { Component, inject, input, signal, computed, ChangeDetectionStrategy, DestroyRef, OnInit } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { ReactiveFormsModule, FormControl, FormGroup, Validators } from '@angular/forms';
+import { Router } from '@angular/router';
+import { switchMap } from 'rxjs/operators';
+import { MemberService } from '../../services/member.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import {
+  ProjectMember,
+  ProjectMemberRole,
+  ProjectRole,
+  PROJECT_MEMBER_ROLES
+} from '../../../../shared/models/member.model';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/// <summary>
+/// Members panel of a project: the owner invites registered users by email,
+/// changes their role and removes them; members can leave the project
+/// </summary>
+@Component({
+  selector: 'app-project-members',
+  imports: [ReactiveFormsModule, ConfirmDialogComponent, TranslatePipe],
+  templateUrl: './project-members.component.html',
+  styleUrl: './project-members.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectMembersComponent implements OnInit {
+  private readonly memberService = inject(MemberService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+
+  protected readonly memberRoles = PROJECT_MEMBER_ROLES;
+
+  // Inputs
+  readonly projectId = input.required<number>();
+  readonly role = input.required<ProjectRole>();
+
+  // Service state
+  protected readonly members = this.memberService.getMembersSignal();
+  protected readonly loading = this.memberService.getLoadingSignal();
+
+  protected readonly canManage = computed(() => this.role() === 'Owner');
+
+  // Invite form
+  protected readonly inviting = signal(false);
+  protected readonly inviteForm = new FormGroup({
+    email: new FormControl('', { nonNullable: true, validators: [Validators.required, Validators.email] }),
+    role: new FormControl<ProjectMemberRole>('Editor', { nonNullable: true })
+  });
+
+  // Members with a role change in flight
+  protected readonly pendingIds = signal<ReadonlySet<number>>(new Set());
+
+  // Remove (or leave) confirmation state
+  protected readonly memberToRemove = signal<ProjectMember | null>(null);
+  protected readonly removing = signal(false);
+
+  private readonly projectId$ = toObservable(this.projectId);
+
+  ngOnInit(): void {
+    // Reload when the detail page switches to another project
+    this.projectId$
+      .pipe(
+        switchMap(projectId => this.memberService.loadMembers(projectId)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+  }
+
+  /// <summary>
+  /// Invite a registered user by email
+  /// </summary>
+  invite(): void {
+    if (this.inviteForm.invalid) {
+      this.inviteForm.markAllAsTouched();
+      return;
+    }
+
+    const { email, role } = this.inviteForm.getRawValue();
+    this.inviting.set(true);
+    this.memberService.addMember(this.projectId(), { email: email.trim(), role }).subscribe({
+      next: (member) => {
+        this.inviting.set(false);
+        this.inviteForm.reset({ email: '', role });
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('members.invited', { name: this.memberLabel(member) })
+        );
+      },
+      error: (error: any) => {
+        this.logger.error('Error inviting member:', error);
+        // Error notification is handled by HTTP interceptor
+        this.inviting.set(false);
+      }
+    });
+  }
+
+  changeRole(member: ProjectMember, event: Event): void {
+    const role = (event.target as HTMLSelectElement).value as ProjectMemberRole;
+    if (role === member.role) return;
+
+    this.setPending(member.userId, true);
+    this.memberService.updateMember(this.projectId(), member.userId, { role }).subscribe({
+      next: () => this.setPending(member.userId, false),
+      error: (error: any) => {
+        this.logger.error('Error changing member role:', error);
+        // Error notification is handled by HTTP interceptor
+        this.setPending(member.userId, false);
+        // Put the select back on the unchanged role
+        (event.target as HTMLSelectElement).value = member.role;
+      }
+    });
+  }
+
+  removeMember(member: ProjectMember): void {
+    this.memberToRemove.set(member);
+  }
+
+  confirmRemove(): void {
+    const member = this.memberToRemove();
+    if (!member) return;
+
+    this.removing.set(true);
+    this.memberService.removeMember(this.projectId(), member.userId).subscribe({
+      next: () => {
+        this.removing.set(false);
+        this.memberToRemove.set(null);
+        // A member who left no longer has access to the project
+        if (member.isCurrentUser) {
+          this.router.navigate(['/projects']);
+        }
+      },
+      error: (error: any) => {
+        this.logger.error('Error removing member:', error);
+        // Error notification is handled by HTTP interceptor
+        this.removing.set(false);
+      }
+    });
+  }
+
+  cancelRemove(): void {
+    this.memberToRemove.set(null);
+  }
+
+  protected isPending(member: ProjectMember): boolean {
+    return this.pendingIds().has(member.userId);
+  }
+
+  /// <summary>
+  /// Display name of a member (falls back to the email for users without a name)
+  /// </summary>
+  protected memberLabel(member: ProjectMember): string {
+    return member.name || member.email;
+  }
+
+  /// <summary>
+  /// Remove confirmation text: leaving the project or removing someone else
+  /// </summary>
+  protected removeMessage(member: ProjectMember): string {
+    return member.isCurrentUser
+      ? this.translationService.translate('members.leaveConfirm')
+      : this.translationService.translate('members.removeConfirm', { name: this.memberLabel(member) });
+  }
+
+  private setPending(userId: number, pending: boolean): void {
+    this.pendingIds.update(ids => {
+      const updated = new Set(ids);
+      if (pending) {
+        updated.add(userId);
+      } else {
+        updated.delete(userId);
+      }
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,386 @@
+import {
+  Component,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  ChangeDetectionStrategy,
+  DestroyRef,
+  ElementRef,
+  Injector,
+  afterNextRender,
+  viewChild
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { formatDate } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { ProjectService } from '../../services/project.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { Project } from '../../../../shared/models/project.model';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+type TimelineZoom = 'week' | 'month' | 'quarter';
+type DragMode = 'move' | 'start' | 'end';
+
+/// <summary>
+/// Bar of a scheduled project; days are UTC day numbers (days since 1970-01-01), due day inclusive
+/// </summary>
+interface TimelineBar {
+  project: Project;
+  startDay: number;
+  dueDay: number;
+  left: number;
+  width: number;
+  overdue: boolean;
+}
+
+const DAY_MS = 86400000;
+
+/// <summary>
+/// Timeline (Gantt) view: one bar per project from start date to due date
+/// Zoom by week, month or quarter; bars can be dragged to move the project
+/// or resized from either edge to change one date (arrow keys do the same).
+/// Changes are applied optimistically and rolled back if the update fails
+/// </summary>
+@Component({
+  selector: 'app-project-timeline',
+  imports: [RouterLink, TranslatePipe],
+  templateUrl: './project-timeline.component.html',
+  styleUrl: './project-timeline.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:pointermove)': 'onPointerMove($event)',
+    '(document:pointerup)': 'onPointerUp()'
+  }
+})
+export class ProjectTimelineComponent implements OnInit {
+  private readonly projectService = inject(ProjectService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly injector = inject(Injector);
+
+  private readonly scroller = viewChild<ElementRef<HTMLElement>>('scroller');
+
+  protected readonly zooms: TimelineZoom[] = ['week', 'month', 'quarter'];
+  protected readonly ROW_HEIGHT = 40;
+  protected readonly HEADER_HEIGHT = 40;
+
+  // Horizontal scale of each zoom level
+  private readonly PIXELS_PER_DAY: Record<TimelineZoom, number> = { week: 24, month: 6, quarter: 2.5 };
+
+  // Statuses that can no longer be overdue
+  private readonly CLOSED_STATUSES = ['Completed', 'Cancelled'];
+
+  protected readonly projects = signal<Project[]>([]);
+  protected readonly loading = signal(false);
+  protected readonly zoom = signal<TimelineZoom>('month');
+  protected readonly pendingIds = signal<ReadonlySet<number>>(new Set());
+  protected readonly today = this.toDay(new Date(), true);
+
+  // Pointer drag in progress (deltaDays is the preview offset)
+  protected readonly drag = signal<{ id: number; mode: DragMode; originX: number; deltaDays: number } | null>(null);
+
+  protected readonly pixelsPerDay = computed(() => this.PIXELS_PER_DAY[this.zoom()]);
+
+  /// <summary>
+  /// Projects with both dates are drawn; the others are listed as unscheduled
+  /// </summary>
+  protected readonly scheduled = computed(() => this.projects().filter(p => p.startDate && p.dueDate));
+  protected readonly unscheduled = computed(() => this.projects().filter(p => !p.startDate || !p.dueDate));
+
+  /// <summary>
+  /// Visible range: all bars and today, with some padding, aligned to whole zoom units
+  /// </summary>
+  protected readonly range = computed(() => {
+    const days = this.scheduled().flatMap(p => [this.toDay(p.startDate!), this.toDay(p.dueDate!)]);
+    const first = Math.min(this.today, ...days) - 7;
+    const last = Math.max(this.today, ...days) + 14;
+
+    const start = this.unitStart(first);
+    let end = start;
+    while (end <= last) {
+      end = this.nextUnit(end);
+    }
+    return { start, end };
+  });
+
+  protected readonly totalWidth = computed(() => (this.range().end - this.range().start) * this.pixelsPerDay());
+
+  /// <summary>
+  /// Header cells: weeks, months or quarters depending on zoom
+  /// </summary>
+  protected readonly units = computed(() => {
+    const { start, end } = this.range();
+    const units: { label: string; left: number; width: number }[] = [];
+    for (let day = start; day < end; day = this.nextUnit(day)) {
+      units.push({
+        label: this.unitLabel(day),
+        left: (day - start) * this.pixelsPerDay(),
+        width: (this.nextUnit(day) - day) * this.pixelsPerDay()
+      });
+    }
+    return units;
+  });
+
+  protected readonly todayOffset = computed(() => (this.today - this.range().start + 0.5) * this.pixelsPerDay());
+
+  protected readonly bars = computed<TimelineBar[]>(() => {
+    const { start } = this.range();
+    const pixels = this.pixelsPerDay();
+    const drag = this.drag();
+
+    return this.scheduled().map(project => {
+      let startDay = this.toDay(project.startDate!);
+      let dueDay = this.toDay(project.dueDate!);
+      if (drag?.id === project.id) {
+        [startDay, dueDay] = this.applyDelta(startDay, dueDay, drag.mode, drag.deltaDays);
+      }
+
+      return {
+        project,
+        startDay,
+        dueDay,
+        left: (startDay - start) * pixels,
+        width: (dueDay - startDay + 1) * pixels,
+        overdue: dueDay < this.today && !this.CLOSED_STATUSES.includes(project.status)
+      };
+    });
+  });
+
+  ngOnInit(): void {
+    this.loading.set(true);
+    this.projectService.getProjects()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (projects) => {
+          this.projects.set(projects);
+          this.loading.set(false);
+          this.scrollToToday();
+        },
+        error: (error: any) => {
+          this.logger.error('Error loading timeline projects:', error);
+          // Error notification is handled by HTTP interceptor
+          this.loading.set(false);
+        }
+      });
+  }
+
+  setZoom(zoom: TimelineZoom): void {
+    this.zoom.set(zoom);
+    this.scrollToToday();
+  }
+
+  /// <summary>
+  /// Badge color for a bar (same colors as the project table; overdue bars are red)
+  /// </summary>
+  protected barClass(bar: TimelineBar): string {
+    if (bar.overdue) return 'bg-danger';
+    switch (bar.project.status) {
+      case 'Active': return 'bg-success';
+      case 'OnHold': return 'bg-secondary';
+      case 'Completed': return 'bg-info';
+      default: return 'bg-dark';
+    }
+  }
+
+  protected formatDay(day: number): string {
+    return formatDate(day * DAY_MS, 'shortDate', this.translationService.currentLanguage(), 'UTC');
+  }
+
+  protected isPending(project: Project): boolean {
+    return this.pendingIds().has(project.id);
+  }
+
+  /// <summary>
+  /// Viewers cannot reschedule a shared project
+  /// </summary>
+  protected canReschedule(project: Project): boolean {
+    return project.role !== 'Viewer';
+  }
+
+  // Pointer drag and resize
+
+  onBarPointerDown(event: PointerEvent, bar: TimelineBar, mode: DragMode): void {
+    if (event.button !== 0 || !this.canReschedule(bar.project) || this.isPending(bar.project)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    this.drag.set({ id: bar.project.id, mode, originX: event.clientX, deltaDays: 0 });
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    const drag = this.drag();
+    if (!drag) return;
+
+    const deltaDays = Math.round((event.clientX - drag.originX) / this.pixelsPerDay());
+    if (deltaDays !== drag.deltaDays) {
+      this.drag.set({ ...drag, deltaDays });
+    }
+  }
+
+  onPointerUp(): void {
+    const drag = this.drag();
+    if (!drag) return;
+
+    this.drag.set(null);
+    const bar = this.bars().find(b => b.project.id === drag.id);
+    if (bar && drag.deltaDays !== 0) {
+      const [startDay, dueDay] = this.applyDelta(bar.startDay, bar.dueDay, drag.mode, drag.deltaDays);
+      this.reschedule(bar.project, startDay, dueDay);
+    }
+  }
+
+  // Keyboard: arrows move the bar by one day, Shift+arrows change the due date
+
+  onBarKeydown(event: KeyboardEvent, bar: TimelineBar): void {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    event.preventDefault();
+    if (!this.canReschedule(bar.project) || this.isPending(bar.project)) return;
+
+    const delta = event.key === 'ArrowLeft' ? -1 : 1;
+    const [startDay, dueDay] = this.applyDelta(bar.startDay, bar.dueDay, event.shiftKey ? 'end' : 'move', delta);
+    this.reschedule(bar.project, startDay, dueDay);
+  }
+
+  /// <summary>
+  /// Apply a day offset; resizing keeps the due date at least one day after the start date
+  /// </summary>
+  private applyDelta(startDay: number, dueDay: number, mode: DragMode, delta: number): [number, number] {
+    switch (mode) {
+      case 'move':
+        return [startDay + delta, dueDay + delta];
+      case 'start':
+        return [Math.min(startDay + delta, dueDay - 1), dueDay];
+      case 'end':
+        return [startDay, Math.max(dueDay + delta, startDay + 1)];
+    }
+  }
+
+  /// <summary>
+  /// Save new dates: the bar moves immediately and returns if the update is rejected
+  /// </summary>
+  private reschedule(project: Project, startDay: number, dueDay: number): void {
+    const previous = { startDate: project.startDate, dueDate: project.dueDate };
+    const startDate = new Date(startDay * DAY_MS);
+    const dueDate = new Date(dueDay * DAY_MS);
+
+    this.setDates(project.id, startDate, dueDate);
+    this.setPending(project.id, true);
+
+    this.projectService.updateProject(project.id, {
+      title: project.title,
+      description: project.description,
+      status: project.status,
+      priority: project.priority,
+      startDate,
+      dueDate
+    }, project.version).subscribe({
+      next: (version) => {
+        this.projects.update(projects => projects.map(p => p.id === project.id ? { ...p, version } : p));
+        this.setPending(project.id, false);
+      },
+      error: (error: any) => {
+        this.logger.error('Error rescheduling project:', error);
+        // Error notification is handled by HTTP interceptor
+        // A bar changed by someone else shows their version instead of the previous one
+        const current = this.projectService.getConflict(error);
+        if (current) {
+          this.projects.update(projects => projects.map(p => p.id === project.id ? current : p));
+        } else {
+          this.setDates(project.id, previous.startDate, previous.dueDate);
+        }
+        this.setPending(project.id, false);
+      }
+    });
+  }
+
+  private setDates(id: number, startDate: Date | undefined, dueDate: Date | undefined): void {
+    this.projects.update(projects => projects.map(p => p.id === id ? { ...p, startDate, dueDate } : p));
+  }
+
+  private setPending(id: number, pending: boolean): void {
+    this.pendingIds.update(ids => {
+      const updated = new Set(ids);
+      if (pending) {
+        updated.add(id);
+      } else {
+        updated.delete(id);
+      }
+      return updated;
+    });
+  }
+
+  /// <summary>
+  /// Center the today marker once the timeline is rendered
+  /// </summary>
+  private scrollToToday(): void {
+    afterNextRender(() => {
+      const element = this.scroller()?.nativeElement;
+      if (element) {
+        element.scrollLeft = Math.max(0, this.todayOffset() - element.clientWidth / 2);
+      }
+    }, { injector: this.injector });
+  }
+
+  // Day arithmetic (UTC day numbers avoid time zone and DST shifts)
+
+  /// <summary>
+  /// Day number of a date; API dates are date-only values, so only the calendar part is used
+  /// </summary>
+  private toDay(value: Date | string, local = false): number {
+    if (local && value instanceof Date) {
+      return Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()) / DAY_MS;
+    }
+    const iso = typeof value === 'string' ? value : value.toISOString();
+    return Date.UTC(+iso.slice(0, 4), +iso.slice(5, 7) - 1, +iso.slice(8, 10)) / DAY_MS;
+  }
+
+  /// <summary>
+  /// First day of the unit containing a day (Monday, first of month or first of quarter)
+  /// </summary>
+  private unitStart(day: number): number {
+    const date = new Date(day * DAY_MS);
+    switch (this.zoom()) {
+      case 'week':
+        return day - (date.getUTCDay() + 6) % 7;
+      case 'month':
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / DAY_MS;
+      case 'quarter':
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - date.getUTCMonth() % 3, 1) / DAY_MS;
+    }
+  }
+
+  private nextUnit(day: number): number {
+    const date = new Date(day * DAY_MS);
+    switch (this.zoom()) {
+      case 'week':
+        return day + 7;
+      case 'month':
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / DAY_MS;
+      case 'quarter':
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 3, 1) / DAY_MS;
+    }
+  }
+
+  private unitLabel(day: number): string {
+    const locale = this.translationService.currentLanguage();
+    const date = new Date(day * DAY_MS);
+    switch (this.zoom()) {
+      case 'week':
+        return formatDate(date, 'd MMM', locale, 'UTC');
+      case 'month':
+        return formatDate(date, 'MMM yyyy', locale, 'UTC');
+      case 'quarter':
+        return `Q${Math.floor(date.getUTCMonth() / 3) + 1} ${date.getUTCFullYear()}`;
+    }
+  }
+
+  /// <summary>
+  /// Switch to the table view
+  /// </summary>
+  goToList(): void {
+    this.router.navigate(['/projects']);
+  }
+}
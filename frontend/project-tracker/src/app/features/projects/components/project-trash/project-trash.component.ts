@@ -0,0 +1,150 @@
+import { Component, inject, signal, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { TrashService } from '../../services/trash.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { DeletedProject } from '../../../../shared/models/project.model';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+/// <summary>
+/// Trash page: projects deleted by the user, restorable until they are purged
+/// (permanently deleted here or automatically at the end of the retention period)
+/// </summary>
+@Component({
+  selector: 'app-project-trash',
+  imports: [RouterModule, ConfirmDialogComponent, TranslatePipe, LocalizedDatePipe],
+  templateUrl: './project-trash.component.html',
+  styleUrl: './project-trash.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProjectTrashComponent implements OnInit {
+  private readonly trashService = inject(TrashService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+
+  // Service state
+  protected readonly projects = this.trashService.getProjectsSignal();
+  protected readonly loading = this.trashService.getLoadingSignal();
+
+  // Projects with a restore or purge in flight
+  protected readonly busyIds = signal<ReadonlySet<number>>(new Set());
+
+  // Confirmation state: one project to purge, or the whole trash
+  protected readonly projectToPurge = signal<DeletedProject | null>(null);
+  protected readonly showEmptyConfirm = signal(false);
+  protected readonly purging = signal(false);
+
+  ngOnInit(): void {
+    this.trashService.loadTrash().subscribe();
+  }
+
+  protected isBusy(project: DeletedProject): boolean {
+    return this.busyIds().has(project.id);
+  }
+
+  /// <summary>
+  /// Badge color for a status (same colors as the project table)
+  /// </summary>
+  protected statusClass(status: string): string {
+    switch (status) {
+      case 'Active': return 'bg-success';
+      case 'OnHold': return 'bg-secondary';
+      case 'Completed': return 'bg-info';
+      default: return 'bg-danger';
+    }
+  }
+
+  /// <summary>
+  /// Take a project out of the trash
+  /// </summary>
+  restore(project: DeletedProject): void {
+    this.setBusy(project.id, true);
+    this.trashService.restore([project.id]).subscribe({
+      next: () => {
+        this.setBusy(project.id, false);
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('trash.restoredProject', { title: project.title })
+        );
+      },
+      error: (error: any) => {
+        this.logger.error('Error restoring project:', error);
+        // Error notification is handled by HTTP interceptor
+        this.setBusy(project.id, false);
+      }
+    });
+  }
+
+  purge(project: DeletedProject): void {
+    this.projectToPurge.set(project);
+  }
+
+  confirmPurge(): void {
+    const project = this.projectToPurge();
+    if (!project) return;
+
+    this.purging.set(true);
+    this.trashService.purge(project.id).subscribe({
+      next: () => {
+        this.purging.set(false);
+        this.projectToPurge.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error purging project:', error);
+        // Error notification is handled by HTTP interceptor
+        this.purging.set(false);
+      }
+    });
+  }
+
+  cancelPurge(): void {
+    this.projectToPurge.set(null);
+  }
+
+  emptyTrash(): void {
+    this.showEmptyConfirm.set(true);
+  }
+
+  confirmEmpty(): void {
+    this.purging.set(true);
+    this.trashService.emptyTrash().subscribe({
+      next: () => {
+        this.purging.set(false);
+        this.showEmptyConfirm.set(false);
+      },
+      error: (error: any) => {
+        this.logger.error('Error emptying trash:', error);
+        // Error notification is handled by HTTP interceptor
+        this.purging.set(false);
+      }
+    });
+  }
+
+  cancelEmpty(): void {
+    this.showEmptyConfirm.set(false);
+  }
+
+  protected purgeMessage(project: DeletedProject): string {
+    return this.translationService.translate('trash.purgeConfirm', { title: project.title });
+  }
+
+  protected emptyMessage(): string {
+    return this.translationService.translate('trash.emptyConfirm', { count: this.projects().length });
+  }
+
+  private setBusy(id: number, busy: boolean): void {
+    this.busyIds.update(ids => {
+      const updated = new Set(ids);
+      if (busy) {
+        updated.add(id);
+      } else {
+        updated.delete(id);
+      }
+      return updated;
+    });
+  }
+}
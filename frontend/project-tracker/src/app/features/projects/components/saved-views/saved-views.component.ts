@@ -0,0 +1,201 @@
+import { Component, inject, signal, computed, input, output, ChangeDetectionStrategy } from '@angular/core';
+import { ReactiveFormsModule, FormControl, Validators } from '@angular/forms';
+import { Observable } from 'rxjs';
+import { SavedViewService } from '../../services/saved-view.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { SavedView, SavedViewFilters } from '../../../../shared/models/saved-view.model';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/// <summary>
+/// Saved views dropdown for the project list
+/// Lets users save the current filters and sort as a named view, apply,
+/// rename, delete and pin one view as their default
+/// </summary>
+@Component({
+  selector: 'app-saved-views',
+  imports: [ReactiveFormsModule, ConfirmDialogComponent, TranslatePipe],
+  templateUrl: './saved-views.component.html',
+  styleUrl: './saved-views.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class SavedViewsComponent {
+  private readonly savedViewService = inject(SavedViewService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+
+  // Inputs
+  readonly currentFilters = input.required<SavedViewFilters>();
+
+  // Outputs
+  readonly viewSelected = output<SavedView>();
+
+  // Read-only signals from service
+  protected readonly views = this.savedViewService.getViewsSignal();
+  protected readonly loading = this.savedViewService.getLoadingSignal();
+
+  /// <summary>
+  /// View matching the filters currently applied to the list (if any)
+  /// </summary>
+  protected readonly activeView = computed(() => {
+    const current = this.normalize(this.currentFilters());
+    return this.views().find(v => this.normalize(v.filters) === current) ?? null;
+  });
+
+  // Name dialog state (create or rename)
+  protected readonly dialogMode = signal<'create' | 'rename' | null>(null);
+  protected readonly viewToRename = signal<SavedView | null>(null);
+  protected readonly saving = signal(false);
+  protected readonly nameControl = new FormControl('', {
+    nonNullable: true,
+    validators: [Validators.required, Validators.maxLength(100)]
+  });
+  protected readonly pinControl = new FormControl(false, { nonNullable: true });
+
+  // Delete confirmation state
+  protected readonly viewToDelete = signal<SavedView | null>(null);
+  protected readonly deleting = signal(false);
+
+  /// <summary>
+  /// Apply a saved view to the list
+  /// </summary>
+  selectView(view: SavedView): void {
+    this.viewSelected.emit(view);
+  }
+
+  /// <summary>
+  /// Open the dialog to save the current filters as a new view
+  /// </summary>
+  openCreateDialog(): void {
+    this.nameControl.reset('');
+    this.pinControl.reset(false);
+    this.viewToRename.set(null);
+    this.dialogMode.set('create');
+  }
+
+  /// <summary>
+  /// Open the dialog to rename a view
+  /// </summary>
+  openRenameDialog(view: SavedView): void {
+    this.nameControl.reset(view.name);
+    this.viewToRename.set(view);
+    this.dialogMode.set('rename');
+  }
+
+  /// <summary>
+  /// Close the name dialog
+  /// </summary>
+  closeDialog(): void {
+    if (this.saving()) return;
+    this.dialogMode.set(null);
+    this.viewToRename.set(null);
+  }
+
+  /// <summary>
+  /// Save the new view or the new name
+  /// </summary>
+  submitDialog(): void {
+    if (this.nameControl.invalid) {
+      this.nameControl.markAsTouched();
+      return;
+    }
+
+    const name = this.nameControl.value.trim();
+    const view = this.viewToRename();
+    this.saving.set(true);
+
+    const request$: Observable<unknown> = this.dialogMode() === 'rename' && view
+      ? this.savedViewService.updateView(view.id, { name, filters: view.filters })
+      : this.savedViewService.createView({
+          name,
+          filters: this.currentFilters(),
+          isDefault: this.pinControl.value
+        });
+
+    request$.subscribe({
+      next: () => {
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate(view ? 'projects.viewRenamed' : 'projects.viewSaved')
+        );
+        this.saving.set(false);
+        this.closeDialog();
+      },
+      error: (error: any) => {
+        this.logger.error('Error saving view:', error);
+        // Error notification is handled by HTTP interceptor
+        this.saving.set(false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Pin or unpin a view as the default
+  /// </summary>
+  toggleDefault(view: SavedView): void {
+    const request$ = view.isDefault
+      ? this.savedViewService.clearDefault(view.id)
+      : this.savedViewService.setDefault(view.id);
+
+    request$.subscribe({
+      error: (error: any) => {
+        this.logger.error('Error changing default view:', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+
+  /// <summary>
+  /// Ask for delete confirmation
+  /// </summary>
+  deleteView(view: SavedView): void {
+    this.viewToDelete.set(view);
+  }
+
+  /// <summary>
+  /// Confirm delete
+  /// </summary>
+  confirmDelete(): void {
+    const view = this.viewToDelete();
+    if (!view) return;
+
+    this.deleting.set(true);
+    this.savedViewService.deleteView(view.id).subscribe({
+      next: () => {
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('projects.viewDeleted')
+        );
+        this.deleting.set(false);
+        this.viewToDelete.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error deleting view:', error);
+        // Error notification is handled by HTTP interceptor
+        this.deleting.set(false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Cancel delete
+  /// </summary>
+  cancelDelete(): void {
+    this.viewToDelete.set(null);
+  }
+
+  /// <summary>
+  /// Stable representation of filters for comparison (empty values dropped, keys sorted)
+  /// </summary>
+  private normalize(filters: SavedViewFilters): string {
+    const entries = Object.entries(filters)
+      .filter(([, value]) => value !== undefined && value !== null && value !== ''
+        && !(Array.isArray(value) && value.length === 0))
+      .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value] as const)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return JSON.stringify(entries);
+  }
+}
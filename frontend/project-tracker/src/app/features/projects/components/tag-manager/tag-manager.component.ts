@@ -0,0 +1,249 @@
+import { Component, inject, signal, computed, OnInit, ChangeDetectionStrategy } from '@angular/core';
+import { ReactiveFormsModule, FormControl, FormGroup, Validators } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { TagService } from '../../services/tag.service';
+import { NotificationService } from '../../../../shared/services/notification.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { Tag, TAG_COLORS } from '../../../../shared/models/tag.model';
+import { TagChipComponent } from '../../../../shared/components/tag-chip/tag-chip.component';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+
+/// <summary>
+/// Tag management page: create, rename, recolor, merge and delete the user's tags
+/// </summary>
+@Component({
+  selector: 'app-tag-manager',
+  imports: [RouterModule, ReactiveFormsModule, TagChipComponent, ConfirmDialogComponent, TranslatePipe],
+  templateUrl: './tag-manager.component.html',
+  styleUrl: './tag-manager.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TagManagerComponent implements OnInit {
+  private readonly tagService = inject(TagService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+
+  protected readonly nameMaxLength = 50;
+  protected readonly palette = TAG_COLORS;
+
+  // Service state
+  protected readonly tags = this.tagService.getTagsSignal();
+  protected readonly loading = this.tagService.getLoadingSignal();
+
+  // New tag form
+  protected readonly saving = signal(false);
+  protected readonly newTagForm = this.createTagForm();
+
+  // Inline edit form (replaces the tag row)
+  protected readonly editingId = signal<number | null>(null);
+  protected readonly editForm = this.createTagForm();
+
+  // Merge: selected tags and the one they are merged into
+  protected readonly selectedIds = signal<ReadonlySet<number>>(new Set());
+  protected readonly selectedTags = computed(() => this.tags().filter(t => this.selectedIds().has(t.id)));
+  protected readonly mergeTargetId = new FormControl<number | null>(null);
+  protected readonly showMergeConfirm = signal(false);
+  protected readonly merging = signal(false);
+
+  // Delete confirmation state
+  protected readonly tagToDelete = signal<Tag | null>(null);
+  protected readonly deleting = signal(false);
+
+  ngOnInit(): void {
+    this.tagService.loadTags().subscribe();
+  }
+
+  /// <summary>
+  /// Create a tag; the color picker then moves on to the next palette color
+  /// </summary>
+  addTag(): void {
+    if (this.newTagForm.invalid) {
+      this.newTagForm.markAllAsTouched();
+      return;
+    }
+
+    const { name, color } = this.newTagForm.getRawValue();
+    this.saving.set(true);
+    this.tagService.createTag({ name: name.trim(), color }).subscribe({
+      next: () => {
+        this.saving.set(false);
+        this.newTagForm.reset({ name: '', color: this.nextColor() });
+      },
+      error: (error: any) => {
+        this.logger.error('Error creating tag:', error);
+        // Error notification is handled by HTTP interceptor
+        this.saving.set(false);
+      }
+    });
+  }
+
+  startEdit(tag: Tag): void {
+    this.editForm.reset({ name: tag.name, color: tag.color });
+    this.editingId.set(tag.id);
+  }
+
+  cancelEdit(): void {
+    this.editingId.set(null);
+  }
+
+  saveEdit(tag: Tag): void {
+    if (this.editForm.invalid) {
+      this.editForm.markAllAsTouched();
+      return;
+    }
+
+    const { name, color } = this.editForm.getRawValue();
+    this.saving.set(true);
+    this.tagService.updateTag(tag.id, { name: name.trim(), color }).subscribe({
+      next: () => {
+        this.saving.set(false);
+        this.editingId.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error updating tag:', error);
+        // Error notification is handled by HTTP interceptor
+        this.saving.set(false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Add or remove a tag from the merge selection
+  /// The first selected tag is proposed as merge target
+  /// </summary>
+  toggleSelection(tag: Tag): void {
+    this.selectedIds.update(ids => {
+      const updated = new Set(ids);
+      if (updated.has(tag.id)) {
+        updated.delete(tag.id);
+      } else {
+        updated.add(tag.id);
+      }
+      return updated;
+    });
+
+    const target = this.mergeTargetId.value;
+    if (target === null || !this.selectedIds().has(target)) {
+      this.mergeTargetId.setValue(this.selectedTags()[0]?.id ?? null);
+    }
+  }
+
+  isSelected(tag: Tag): boolean {
+    return this.selectedIds().has(tag.id);
+  }
+
+  clearSelection(): void {
+    this.selectedIds.set(new Set());
+    this.mergeTargetId.setValue(null);
+  }
+
+  mergeSelected(): void {
+    if (this.selectedTags().length < 2 || this.mergeTargetId.value === null) return;
+    this.showMergeConfirm.set(true);
+  }
+
+  confirmMerge(): void {
+    const targetId = this.mergeTargetId.value;
+    if (targetId === null) return;
+
+    const sourceTagIds = [...this.selectedIds()].filter(id => id !== targetId);
+    this.merging.set(true);
+    this.tagService.mergeTags(targetId, { sourceTagIds }).subscribe({
+      next: (merged) => {
+        this.merging.set(false);
+        this.showMergeConfirm.set(false);
+        this.clearSelection();
+        this.notificationService.success(
+          this.translationService.translate('common.success'),
+          this.translationService.translate('tags.mergeSuccess', { count: sourceTagIds.length, name: merged.name })
+        );
+      },
+      error: (error: any) => {
+        this.logger.error('Error merging tags:', error);
+        // Error notification is handled by HTTP interceptor
+        this.merging.set(false);
+      }
+    });
+  }
+
+  cancelMerge(): void {
+    this.showMergeConfirm.set(false);
+  }
+
+  deleteTag(tag: Tag): void {
+    this.tagToDelete.set(tag);
+  }
+
+  confirmDelete(): void {
+    const tag = this.tagToDelete();
+    if (!tag) return;
+
+    this.deleting.set(true);
+    this.tagService.deleteTag(tag.id).subscribe({
+      next: () => {
+        this.deleting.set(false);
+        this.tagToDelete.set(null);
+        if (this.isSelected(tag)) {
+          this.toggleSelection(tag);
+        }
+      },
+      error: (error: any) => {
+        this.logger.error('Error deleting tag:', error);
+        // Error notification is handled by HTTP interceptor
+        this.deleting.set(false);
+      }
+    });
+  }
+
+  cancelDelete(): void {
+    this.tagToDelete.set(null);
+  }
+
+  /// <summary>
+  /// Merge confirmation text naming the target tag
+  /// </summary>
+  protected mergeMessage(): string {
+    const target = this.tags().find(t => t.id === this.mergeTargetId.value);
+    return this.translationService.translate('tags.mergeConfirm', {
+      count: this.selectedTags().length - 1,
+      name: target?.name ?? ''
+    });
+  }
+
+  /// <summary>
+  /// Delete confirmation text, mentioning the projects that lose the tag
+  /// </summary>
+  protected deleteMessage(tag: Tag): string {
+    return tag.projectCount > 0
+      ? this.translationService.translate('tags.deleteUsedConfirm', { name: tag.name, count: tag.projectCount })
+      : this.translationService.translate('tags.deleteConfirm', { name: tag.name });
+  }
+
+  /// <summary>
+  /// Live preview of the tag being created or edited
+  /// </summary>
+  protected preview(form: FormGroup<{ name: FormControl<string>; color: FormControl<string> }>): { name: string; color: string } {
+    const { name, color } = form.getRawValue();
+    return { name: name.trim() || this.translationService.translate('tags.preview'), color };
+  }
+
+  private nextColor(): string {
+    return this.palette[this.tags().length % this.palette.length];
+  }
+
+  private createTagForm() {
+    return new FormGroup({
+      name: new FormControl('', {
+        nonNullable: true,
+        validators: [Validators.required, Validators.pattern(/\S/), Validators.maxLength(this.nameMaxLength)]
+      }),
+      color: new FormControl(TAG_COLORS[0], {
+        nonNullable: true,
+        validators: [Validators.required, Validators.pattern(/^#[0-9A-Fa-f]{6}$/)]
+      })
+    });
+  }
+}
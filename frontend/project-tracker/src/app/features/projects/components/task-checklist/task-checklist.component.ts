@@ -0,0 +1,272 @@
+import { Component, inject, input, signal, ChangeDetectionStrategy, DestroyRef, OnInit } from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { NgTemplateOutlet } from '@angular/common';
+import { ReactiveFormsModule, FormControl, FormGroup, Validators } from '@angular/forms';
+import { switchMap } from 'rxjs/operators';
+import { TaskService } from '../../services/task.service';
+import { TranslationService } from '../../../../shared/services/translation.service';
+import { LoggerService } from '../../../../shared/services/logger.service';
+import { ProjectTask, UpdateTaskRequest } from '../../../../shared/models/task.model';
+import { ConfirmDialogComponent } from '../../../../shared/components/confirm-dialog/confirm-dialog.component';
+import { TranslatePipe } from '../../../../shared/pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../../../shared/pipes/localized-date.pipe';
+
+/// <summary>
+/// Task checklist of a project: add, check off, assign, schedule, reorder and
+/// delete tasks, with one level of subtasks and a progress bar
+/// </summary>
+@Component({
+  selector: 'app-task-checklist',
+  imports: [NgTemplateOutlet, ReactiveFormsModule, ConfirmDialogComponent, TranslatePipe, LocalizedDatePipe],
+  templateUrl: './task-checklist.component.html',
+  styleUrl: './task-checklist.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TaskChecklistComponent implements OnInit {
+  private readonly taskService = inject(TaskService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // Inputs
+  readonly projectId = input.required<number>();
+  readonly readOnly = input(false);
+
+  // Service state
+  protected readonly taskTree = this.taskService.getTaskTreeSignal();
+  protected readonly progress = this.taskService.getProgressSignal();
+  protected readonly loading = this.taskService.getLoadingSignal();
+
+  // Tasks with an update in flight
+  protected readonly pendingIds = signal<ReadonlySet<number>>(new Set());
+
+  // New task form
+  protected readonly saving = signal(false);
+  protected readonly newTaskForm = this.createTaskForm();
+
+  // Inline subtask form (shown under its parent)
+  protected readonly subtaskParentId = signal<number | null>(null);
+  protected readonly subtaskTitle = new FormControl('', {
+    nonNullable: true,
+    validators: [Validators.required, Validators.pattern(/\S/), Validators.maxLength(200)]
+  });
+
+  // Inline edit form (replaces the task row)
+  protected readonly editingTaskId = signal<number | null>(null);
+  protected readonly editForm = this.createTaskForm();
+
+  // Delete confirmation state
+  protected readonly taskToDelete = signal<ProjectTask | null>(null);
+  protected readonly deleting = signal(false);
+
+  private readonly projectId$ = toObservable(this.projectId);
+
+  ngOnInit(): void {
+    // Reload when the detail page switches to another project
+    this.projectId$
+      .pipe(
+        switchMap(projectId => this.taskService.loadTasks(projectId)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+  }
+
+  /// <summary>
+  /// Add a top-level task at the end of the checklist
+  /// </summary>
+  addTask(): void {
+    if (this.newTaskForm.invalid) {
+      this.newTaskForm.markAllAsTouched();
+      return;
+    }
+
+    const { title, assigneeEmail, dueDate } = this.newTaskForm.getRawValue();
+    this.saving.set(true);
+    this.taskService.createTask(this.projectId(), {
+      title: title.trim(),
+      assigneeEmail: assigneeEmail.trim() || null,
+      dueDate: dueDate ? new Date(dueDate) : null
+    }).subscribe({
+      next: () => {
+        this.saving.set(false);
+        this.newTaskForm.reset();
+      },
+      error: (error: any) => {
+        this.logger.error('Error adding task:', error);
+        // Error notification is handled by HTTP interceptor
+        this.saving.set(false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Show the subtask form under a task (or hide it when already open)
+  /// </summary>
+  toggleSubtaskForm(task: ProjectTask): void {
+    this.subtaskTitle.reset();
+    this.subtaskParentId.set(this.subtaskParentId() === task.id ? null : task.id);
+  }
+
+  addSubtask(parent: ProjectTask): void {
+    if (this.subtaskTitle.invalid) {
+      this.subtaskTitle.markAsTouched();
+      return;
+    }
+
+    this.saving.set(true);
+    this.taskService.createTask(this.projectId(), {
+      title: this.subtaskTitle.value.trim(),
+      parentTaskId: parent.id
+    }).subscribe({
+      next: () => {
+        this.saving.set(false);
+        this.subtaskTitle.reset();
+      },
+      error: (error: any) => {
+        this.logger.error('Error adding subtask:', error);
+        // Error notification is handled by HTTP interceptor
+        this.saving.set(false);
+      }
+    });
+  }
+
+  toggleDone(task: ProjectTask, event: Event): void {
+    const isDone = (event.target as HTMLInputElement).checked;
+    this.setPending(task.id, true);
+    this.taskService.setDone(task, isDone).subscribe({
+      next: () => this.setPending(task.id, false),
+      error: (error: any) => {
+        this.logger.error('Error updating task:', error);
+        // Error notification is handled by HTTP interceptor
+        (event.target as HTMLInputElement).checked = task.isDone;
+        this.setPending(task.id, false);
+      }
+    });
+  }
+
+  moveTask(task: ProjectTask, direction: -1 | 1): void {
+    this.setPending(task.id, true);
+    this.taskService.moveTask(task, direction).subscribe({
+      next: () => this.setPending(task.id, false),
+      error: (error: any) => {
+        this.logger.error('Error reordering tasks:', error);
+        // Error notification is handled by HTTP interceptor
+        this.setPending(task.id, false);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Replace a task row with the edit form
+  /// </summary>
+  startEdit(task: ProjectTask): void {
+    this.editForm.reset({
+      title: task.title,
+      assigneeEmail: task.assigneeEmail ?? '',
+      dueDate: task.dueDate ? String(task.dueDate).slice(0, 10) : ''
+    });
+    this.editingTaskId.set(task.id);
+  }
+
+  cancelEdit(): void {
+    this.editingTaskId.set(null);
+  }
+
+  saveEdit(task: ProjectTask): void {
+    if (this.editForm.invalid) {
+      this.editForm.markAllAsTouched();
+      return;
+    }
+
+    const { title, assigneeEmail, dueDate } = this.editForm.getRawValue();
+    const request: UpdateTaskRequest = {
+      title: title.trim(),
+      isDone: task.isDone,
+      assigneeEmail: assigneeEmail.trim() || null,
+      dueDate: dueDate ? new Date(dueDate) : null
+    };
+
+    this.saving.set(true);
+    this.taskService.updateTask(task, request).subscribe({
+      next: () => {
+        this.saving.set(false);
+        this.editingTaskId.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error updating task:', error);
+        // Error notification is handled by HTTP interceptor
+        this.saving.set(false);
+      }
+    });
+  }
+
+  deleteTask(task: ProjectTask): void {
+    this.taskToDelete.set(task);
+  }
+
+  confirmDelete(): void {
+    const task = this.taskToDelete();
+    if (!task) return;
+
+    this.deleting.set(true);
+    this.taskService.deleteTask(task).subscribe({
+      next: () => {
+        this.deleting.set(false);
+        this.taskToDelete.set(null);
+      },
+      error: (error: any) => {
+        this.logger.error('Error deleting task:', error);
+        // Error notification is handled by HTTP interceptor
+        this.deleting.set(false);
+      }
+    });
+  }
+
+  cancelDelete(): void {
+    this.taskToDelete.set(null);
+  }
+
+  /// <summary>
+  /// Delete confirmation text, mentioning the subtasks deleted along with the task
+  /// </summary>
+  protected deleteMessage(task: ProjectTask): string {
+    const subtasks = this.taskTree().find(node => node.task.id === task.id)?.subtasks.length ?? 0;
+    return subtasks > 0
+      ? this.translationService.translate('tasks.deleteWithSubtasksConfirm', { title: task.title, count: subtasks })
+      : this.translationService.translate('tasks.deleteConfirm', { title: task.title });
+  }
+
+  protected isPending(task: ProjectTask): boolean {
+    return this.pendingIds().has(task.id);
+  }
+
+  /// <summary>
+  /// Open task past its due date (dates are compared as calendar days)
+  /// </summary>
+  protected isOverdue(task: ProjectTask): boolean {
+    if (task.isDone || !task.dueDate) return false;
+    const today = new Date();
+    const todayIso = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    return String(task.dueDate).slice(0, 10) < todayIso;
+  }
+
+  private setPending(id: number, pending: boolean): void {
+    this.pendingIds.update(ids => {
+      const updated = new Set(ids);
+      if (pending) {
+        updated.add(id);
+      } else {
+        updated.delete(id);
+      }
+      return updated;
+    });
+  }
+
+  private createTaskForm() {
+    return new FormGroup({
+      title: new FormControl('', { nonNullable: true, validators: [Validators.required, Validators.pattern(/\S/), Validators.maxLength(200)] }),
+      assigneeEmail: new FormControl('', { nonNullable: true, validators: [Validators.email, Validators.maxLength(255)] }),
+      dueDate: new FormControl('', { nonNullable: true })
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { Routes } from '@angular/router';
+import { unsavedChangesGuard } from '../../core/guards/unsaved-changes.guard';
 
 export const projectRoutes: Routes = [
   {
@@ -8,11 +9,43 @@ export const projectRoutes: Routes = [
   },
   {
     path: 'create',
+    canDeactivate: [unsavedChangesGuard],
     loadComponent: () => import('./components/project-form/project-form.component')
       .then(m => m.ProjectFormComponent)
   },
+  {
+    path: 'board',
+    loadComponent: () => import('./components/project-board/project-board.component')
+      .then(m => m.ProjectBoardComponent)
+  },
+  {
+    path: 'timeline',
+    loadComponent: () => import('./components/project-timeline/project-timeline.component')
+      .then(m => m.ProjectTimelineComponent)
+  },
+  {
+    path: 'import',
+    loadComponent: () => import('./components/project-import/project-import.component')
+      .then(m => m.ProjectImportComponent)
+  },
+  {
+    path: 'tags',
+    loadComponent: () => import('./components/tag-manager/tag-manager.component')
+      .then(m => m.TagManagerComponent)
+  },
+  {
+    path: 'trash',
+    loadComponent: () => import('./components/project-trash/project-trash.component')
+      .then(m => m.ProjectTrashComponent)
+  },
+  {
+    path: ':id',
+    loadComponent: () => import('./components/project-detail/project-detail.component')
+      .then(m => m.ProjectDetailComponent)
+  },
   {
     path: ':id/edit',
+    canDeactivate: [unsavedChangesGuard],
     loadComponent: () => import('./components/project-form/project-form.component')
       .then(m => m.ProjectFormComponent)
   }
@@ -0,0 +1,117 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient, HttpEvent, HttpEventType } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import { ProjectAttachment } from '../../../shared/models/attachment.model';
+
+/// <summary>
+/// Service for project file attachments
+/// Holds the attachments of one project at a time; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class AttachmentService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/projects`;
+
+  // State signals
+  private readonly projectId = signal<number | null>(null);
+  private readonly attachments = signal<ProjectAttachment[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load the attachments of a project (newest first), replacing those of the previous one
+  /// </summary>
+  loadAttachments(projectId: number): Observable<ProjectAttachment[]> {
+    if (this.projectId() !== projectId) {
+      this.projectId.set(projectId);
+      this.attachments.set([]);
+    }
+    this.loading.set(true);
+
+    return this.http.get<ProjectAttachment[]>(this.attachmentsUrl(projectId)).pipe(
+      tap(attachments => {
+        this.attachments.set(attachments);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading attachments', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Upload a file as multipart form data
+  /// Emits the HTTP events so callers can follow the upload progress;
+  /// the stored attachment is added to the list when the response arrives
+  /// </summary>
+  uploadAttachment(projectId: number, file: File): Observable<HttpEvent<ProjectAttachment>> {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+
+    return this.http.post<ProjectAttachment>(this.attachmentsUrl(projectId), formData, {
+      observe: 'events',
+      reportProgress: true
+    }).pipe(
+      tap(event => {
+        if (event.type === HttpEventType.Response && event.body && this.projectId() === projectId) {
+          const attachment = event.body;
+          this.attachments.update(attachments => [attachment, ...attachments]);
+        }
+      }),
+      catchError(error => {
+        this.logger.error('Error uploading attachment', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Download the content of an attachment
+  /// </summary>
+  downloadAttachment(attachment: ProjectAttachment): Observable<Blob> {
+    return this.http.get(`${this.attachmentsUrl(attachment.projectId)}/${attachment.id}/content`, {
+      responseType: 'blob'
+    }).pipe(
+      catchError(error => {
+        this.logger.error('Error downloading attachment', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Delete an attachment and its stored file
+  /// </summary>
+  deleteAttachment(attachment: ProjectAttachment): Observable<void> {
+    return this.http.delete<void>(`${this.attachmentsUrl(attachment.projectId)}/${attachment.id}`).pipe(
+      tap(() => {
+        this.attachments.update(attachments => attachments.filter(a => a.id !== attachment.id));
+      }),
+      catchError(error => {
+        this.logger.error('Error deleting attachment', error);
+        throw error;
+      })
+    );
+  }
+
+  private attachmentsUrl(projectId: number): string {
+    return `${this.apiUrl}/${projectId}/attachments`;
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getAttachmentsSignal() {
+    return this.attachments.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import {
+  ProjectComment,
+  CommentThread,
+  CreateCommentRequest,
+  UpdateCommentRequest
+} from '../../../shared/models/comment.model';
+
+/// <summary>
+/// Service for project comment threads
+/// Holds the comments of one project at a time; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class CommentService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/projects`;
+
+  // State signals
+  private readonly projectId = signal<number | null>(null);
+  private readonly comments = signal<ProjectComment[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Top-level comments with their replies (the server returns comments in posting order)
+  /// </summary>
+  private readonly threads = computed<CommentThread[]>(() => {
+    const comments = this.comments();
+    return comments
+      .filter(c => c.parentCommentId == null)
+      .map(comment => ({
+        comment,
+        replies: comments.filter(c => c.parentCommentId === comment.id)
+      }));
+  });
+
+  /// <summary>
+  /// Load the comments of a project, replacing the comments of the previous one
+  /// </summary>
+  loadComments(projectId: number): Observable<ProjectComment[]> {
+    if (this.projectId() !== projectId) {
+      this.projectId.set(projectId);
+      this.comments.set([]);
+    }
+    this.loading.set(true);
+
+    return this.http.get<ProjectComment[]>(this.commentsUrl(projectId)).pipe(
+      tap(comments => {
+        this.comments.set(comments);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading comments', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Post a comment or a reply
+  /// </summary>
+  createComment(projectId: number, request: CreateCommentRequest): Observable<ProjectComment> {
+    return this.http.post<ProjectComment>(this.commentsUrl(projectId), request).pipe(
+      tap(comment => {
+        if (this.projectId() === projectId) {
+          this.comments.update(comments => [...comments, comment]);
+        }
+      }),
+      catchError(error => {
+        this.logger.error('Error creating comment', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Edit the text of a comment
+  /// </summary>
+  updateComment(comment: ProjectComment, request: UpdateCommentRequest): Observable<ProjectComment> {
+    return this.http.put<ProjectComment>(`${this.commentsUrl(comment.projectId)}/${comment.id}`, request).pipe(
+      tap(updated => {
+        this.comments.update(comments => comments.map(c => c.id === updated.id ? updated : c));
+      }),
+      catchError(error => {
+        this.logger.error('Error updating comment', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Delete a comment, mirroring the server: a comment with replies becomes a placeholder,
+  /// and a placeholder left without replies disappears
+  /// </summary>
+  deleteComment(comment: ProjectComment): Observable<void> {
+    return this.http.delete<void>(`${this.commentsUrl(comment.projectId)}/${comment.id}`).pipe(
+      tap(() => {
+        this.comments.update(comments => {
+          if (comments.some(c => c.parentCommentId === comment.id)) {
+            return comments.map(c => c.id === comment.id ? { ...c, body: '', isDeleted: true } : c);
+          }
+          const remaining = comments.filter(c => c.id !== comment.id);
+          return remaining.filter(c =>
+            !(c.id === comment.parentCommentId && c.isDeleted && !remaining.some(r => r.parentCommentId === c.id))
+          );
+        });
+      }),
+      catchError(error => {
+        this.logger.error('Error deleting comment', error);
+        throw error;
+      })
+    );
+  }
+
+  private commentsUrl(projectId: number): string {
+    return `${this.apiUrl}/${projectId}/comments`;
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getCommentsSignal() {
+    return this.comments.asReadonly();
+  }
+
+  getThreadsSignal() {
+    return this.threads;
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
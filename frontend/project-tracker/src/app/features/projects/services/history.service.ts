@@ -0,0 +1,58 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import { HistoryEntry } from '../../../shared/models/history.model';
+
+/// <summary>
+/// Service for the audit history of a project (read-only, recorded by the server)
+/// Holds the history of one project at a time; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/projects`;
+
+  // State signals
+  private readonly projectId = signal<number | null>(null);
+  private readonly entries = signal<HistoryEntry[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load the history of a project, newest first, replacing the history of the previous one
+  /// </summary>
+  loadHistory(projectId: number): Observable<HistoryEntry[]> {
+    if (this.projectId() !== projectId) {
+      this.projectId.set(projectId);
+      this.entries.set([]);
+    }
+    this.loading.set(true);
+
+    return this.http.get<HistoryEntry[]>(`${this.apiUrl}/${projectId}/history`).pipe(
+      tap(entries => {
+        this.entries.set(entries);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading project history', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getEntriesSignal() {
+    return this.entries.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
@@ -0,0 +1,113 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import {
+  ProjectMember,
+  AddMemberRequest,
+  UpdateMemberRequest
+} from '../../../shared/models/member.model';
+
+/// <summary>
+/// Service for the members a project is shared with
+/// Holds the members of one project at a time; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class MemberService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/projects`;
+
+  // State signals
+  private readonly projectId = signal<number | null>(null);
+  private readonly members = signal<ProjectMember[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load the owner and members of a project, replacing those of the previous one
+  /// </summary>
+  loadMembers(projectId: number): Observable<ProjectMember[]> {
+    if (this.projectId() !== projectId) {
+      this.projectId.set(projectId);
+      this.members.set([]);
+    }
+    this.loading.set(true);
+
+    return this.http.get<ProjectMember[]>(this.membersUrl(projectId)).pipe(
+      tap(members => {
+        this.members.set(members);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading members', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Invite a registered user by email
+  /// </summary>
+  addMember(projectId: number, request: AddMemberRequest): Observable<ProjectMember> {
+    return this.http.post<ProjectMember>(this.membersUrl(projectId), request).pipe(
+      tap(member => {
+        if (this.projectId() === projectId) {
+          this.members.update(members => [...members, member]);
+        }
+      }),
+      catchError(error => {
+        this.logger.error('Error adding member', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Change the role of a member
+  /// </summary>
+  updateMember(projectId: number, userId: number, request: UpdateMemberRequest): Observable<ProjectMember> {
+    return this.http.put<ProjectMember>(`${this.membersUrl(projectId)}/${userId}`, request).pipe(
+      tap(updated => {
+        this.members.update(members => members.map(m => m.userId === updated.userId ? updated : m));
+      }),
+      catchError(error => {
+        this.logger.error('Error updating member', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Remove a member, or leave the project when userId is the current user
+  /// </summary>
+  removeMember(projectId: number, userId: number): Observable<void> {
+    return this.http.delete<void>(`${this.membersUrl(projectId)}/${userId}`).pipe(
+      tap(() => {
+        this.members.update(members => members.filter(m => m.userId !== userId));
+      }),
+      catchError(error => {
+        this.logger.error('Error removing member', error);
+        throw error;
+      })
+    );
+  }
+
+  private membersUrl(projectId: number): string {
+    return `${this.apiUrl}/${projectId}/members`;
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getMembersSignal() {
+    return this.members.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, inject, effect } from '@angular/core';
+import { HubConnection, HubConnectionBuilder, HubConnectionState, LogLevel } from '@microsoft/signalr';
+import { Observable, Subject, firstValueFrom } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { AuthService } from '../../../core/services/auth.service';
+import { LoggerService } from '../../../shared/services/logger.service';
+import { ProjectChange } from '../../../shared/models/project.model';
+
+/// <summary>
+/// Real-time connection to the project hub
+/// Connected while the user is signed in; reconnects automatically and emits the
+/// project changes pushed by the server (see ProjectService for how they are merged)
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectHubService {
+  private readonly authService = inject(AuthService);
+  private readonly logger = inject(LoggerService);
+  private readonly hubUrl = `${environment.apiUrl}/hubs/projects`;
+
+  private connection: HubConnection | null = null;
+  private readonly changes = new Subject<ProjectChange[]>();
+
+  constructor() {
+    // Follow the sign-in state: connect after login, disconnect on logout
+    effect(() => {
+      if (this.authService.isAuthenticated$()()) {
+        this.connect();
+      } else {
+        this.disconnect();
+      }
+    });
+  }
+
+  /// <summary>
+  /// Project changes in the order the server sent them
+  /// </summary>
+  getChanges(): Observable<ProjectChange[]> {
+    return this.changes.asObservable();
+  }
+
+  private connect(): void {
+    if (this.connection) return;
+
+    const connection = new HubConnectionBuilder()
+      .withUrl(this.hubUrl, { accessTokenFactory: () => this.getFreshToken() })
+      .withAutomaticReconnect()
+      .configureLogging(environment.production ? LogLevel.Error : LogLevel.Warning)
+      .build();
+
+    connection.on('ProjectsChanged', (changes: ProjectChange[]) => this.changes.next(changes));
+    connection.onreconnected(() => this.logger.debug('ProjectHubService: Reconnected'));
+
+    this.connection = connection;
+    connection.start().catch(error => {
+      // Pages still work without push updates, they are just not refreshed live; retried on next sign-in
+      this.logger.error('ProjectHubService: Connection failed', error);
+      if (this.connection === connection) {
+        this.connection = null;
+      }
+    });
+  }
+
+  private disconnect(): void {
+    const connection = this.connection;
+    this.connection = null;
+    if (connection && connection.state !== HubConnectionState.Disconnected) {
+      connection.stop().catch(error => this.logger.error('ProjectHubService: Disconnect failed', error));
+    }
+  }
+
+  /// <summary>
+  /// Access token for (re)connecting, refreshed first when it is about to expire
+  /// </summary>
+  private async getFreshToken(): Promise<string> {
+    const token = this.authService.getToken() ?? '';
+    if (token && this.authService.isTokenExpiring(token) && this.authService.hasRefreshToken()) {
+      return firstValueFrom(this.authService.refreshAccessToken());
+    }
+    return token;
+  }
+}
@@ -0,0 +1,113 @@
+import { TestBed } from '@angular/core/testing';
+import { ProjectImportService } from './project-import.service';
+import { TranslationService } from '../../../shared/services/translation.service';
+import { SpreadsheetCell } from '../../../shared/services/spreadsheet-reader.service';
+import {
+  PROJECT_IMPORT_FIELDS,
+  ProjectImportField,
+  ProjectImportMapping,
+  ProjectImportPreviewRow
+} from '../../../shared/models/import.model';
+
+describe('ProjectImportService', () => {
+  let service: ProjectImportService;
+
+  // Columns in PROJECT_IMPORT_FIELDS order
+  const mapping = Object.fromEntries(
+    PROJECT_IMPORT_FIELDS.map((field, index) => [field.key, index])
+  ) as ProjectImportMapping;
+
+  const validRow: Record<ProjectImportField, SpreadsheetCell> = {
+    title: 'Website redesign',
+    description: 'New landing page',
+    status: 'Active',
+    priority: 3,
+    startDate: '2024-01-15',
+    dueDate: '2024-03-01'
+  };
+
+  const preview = (values: Partial<Record<ProjectImportField, SpreadsheetCell>>): ProjectImportPreviewRow => {
+    const row = { ...validRow, ...values };
+    return service.buildPreview(
+      {
+        headers: PROJECT_IMPORT_FIELDS.map(field => field.key),
+        rows: [{ rowNumber: 2, cells: PROJECT_IMPORT_FIELDS.map(field => row[field.key]) }]
+      },
+      mapping,
+      'dd/MM/yyyy'
+    )[0];
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        // Keys are returned untranslated so errors can be matched by key
+        { provide: TranslationService, useValue: { translate: (key: string) => key } }
+      ]
+    });
+    service = TestBed.inject(ProjectImportService);
+  });
+
+  it('should map a valid row to a create request', () => {
+    const result = preview({ startDate: '15/01/2024', dueDate: 45352 });
+
+    expect(result.rowNumber).toBe(2);
+    expect(result.errors).toEqual([]);
+    expect(result.request).toEqual({
+      title: 'Website redesign',
+      description: 'New landing page',
+      status: 'Active',
+      priority: 3,
+      startDate: new Date(Date.UTC(2024, 0, 15)),
+      dueDate: new Date(Date.UTC(2024, 2, 1))
+    });
+  });
+
+  it('should auto-map the field names used as headers', () => {
+    expect(service.autoMap(PROJECT_IMPORT_FIELDS.map(field => field.key))).toEqual(mapping);
+  });
+
+  it('should reject a missing or too short title', () => {
+    expect(preview({ title: null }).errors).toEqual(['projects.projectTitle: validation.required']);
+    expect(preview({ title: 'ab' }).errors).toEqual(['projects.projectTitle: validation.minLength']);
+  });
+
+  it('should reject an unknown status', () => {
+    expect(preview({ status: 'Done' }).errors).toEqual(['projects.status: projects.importInvalidStatus']);
+  });
+
+  it('should accept a status regardless of case and spacing', () => {
+    const result = preview({ status: 'on hold' });
+
+    expect(result.errors).toEqual([]);
+    expect(result.request.status).toBe('OnHold');
+  });
+
+  it('should reject priorities outside 1-5', () => {
+    expect(preview({ priority: 0 }).errors).toEqual(['projects.priority: projects.importInvalidPriority']);
+    expect(preview({ priority: 6 }).errors).toEqual(['projects.priority: projects.importInvalidPriority']);
+    expect(preview({ priority: '2.5' }).errors).toEqual(['projects.priority: projects.importInvalidPriority']);
+  });
+
+  it('should use the default priority when the cell is empty', () => {
+    expect(preview({ priority: null }).request.priority).toBe(3);
+  });
+
+  it('should reject a due date that is not after the start date', () => {
+    expect(preview({ dueDate: '2024-01-15' }).errors).toEqual(['projects.dueDate: projects.importDueBeforeStart']);
+    expect(preview({ dueDate: '2024-01-14' }).errors).toEqual(['projects.dueDate: projects.importDueBeforeStart']);
+  });
+
+  it('should reject invalid dates in the chosen format', () => {
+    expect(preview({ startDate: '31/02/2024' }).errors).toEqual(['projects.startDate: validation.invalidDateFormat']);
+    expect(preview({ dueDate: '03/01/24' }).errors).toEqual(['projects.dueDate: validation.invalidDateFormat']);
+  });
+
+  it('should require both dates for a completed project', () => {
+    expect(preview({ status: 'Completed', startDate: null, dueDate: null }).errors)
+      .toEqual(['projects.status: projects.importCompletedDates']);
+    expect(preview({ status: 'Completed', dueDate: null }).errors)
+      .toEqual(['projects.status: projects.importCompletedDates']);
+    expect(preview({ status: 'Completed' }).errors).toEqual([]);
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, inject } from '@angular/core';
+import { TranslationService } from '../../../shared/services/translation.service';
+import { SpreadsheetCell, SpreadsheetTable } from '../../../shared/services/spreadsheet-reader.service';
+import { CreateProjectRequest, PROJECT_STATUSES } from '../../../shared/models/project.model';
+import { TranslationParams } from '../../../shared/models/translation.model';
+import { PROJECT_EXPORT_COLUMNS } from '../../../shared/models/export.model';
+import {
+  PROJECT_IMPORT_FIELDS,
+  ProjectImportField,
+  ProjectImportMapping,
+  ProjectImportPreviewRow,
+  ImportDateFormat
+} from '../../../shared/models/import.model';
+
+/// <summary>
+/// Maps spreadsheet rows to CreateProjectRequest and validates them
+/// with the same rules as ProjectFormComponent and the API
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectImportService {
+  private readonly translationService = inject(TranslationService);
+
+  // Same rules and defaults as the project form
+  private readonly TITLE_MIN_LENGTH = 3;
+  private readonly TITLE_MAX_LENGTH = 200;
+  private readonly DESCRIPTION_MAX_LENGTH = 1000;
+  private readonly PRIORITY_MIN = 1;
+  private readonly PRIORITY_MAX = 5;
+  private readonly DEFAULT_STATUS = 'Active';
+  private readonly DEFAULT_PRIORITY = 3;
+
+  // Day zero of Excel date serial numbers (1900 date system)
+  private readonly EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+  /// <summary>
+  /// Guess the column of each field from the headers
+  /// Matches the field name, its translated label or the export header (so exported files re-import as-is)
+  /// </summary>
+  autoMap(headers: string[]): ProjectImportMapping {
+    const normalizedHeaders = headers.map(header => this.normalize(header));
+    const mapping = {} as ProjectImportMapping;
+
+    for (const field of PROJECT_IMPORT_FIELDS) {
+      const exportLabelKey = PROJECT_EXPORT_COLUMNS.find(c => c.key === field.key)?.labelKey;
+      const candidates = [field.key, field.labelKey, exportLabelKey]
+        .filter((key): key is string => !!key)
+        .flatMap(key => [key, this.translationService.translate(key)])
+        .map(candidate => this.normalize(candidate.replace(/^projects\./, '')));
+
+      const index = normalizedHeaders.findIndex(header => candidates.includes(header));
+      mapping[field.key] = index >= 0 ? index : null;
+    }
+
+    return mapping;
+  }
+
+  /// <summary>
+  /// Build the preview: one entry per data row with the mapped request and its validation errors
+  /// </summary>
+  buildPreview(
+    table: SpreadsheetTable,
+    mapping: ProjectImportMapping,
+    dateFormat: ImportDateFormat
+  ): ProjectImportPreviewRow[] {
+    return table.rows.map(row => {
+      const cell = (field: ProjectImportField): SpreadsheetCell => {
+        const index = mapping[field];
+        return index === null ? null : row.cells[index] ?? null;
+      };
+      return this.validateRow(row.rowNumber, cell, dateFormat);
+    });
+  }
+
+  /// <summary>
+  /// Convert and validate a single row
+  /// </summary>
+  private validateRow(
+    rowNumber: number,
+    cell: (field: ProjectImportField) => SpreadsheetCell,
+    dateFormat: ImportDateFormat
+  ): ProjectImportPreviewRow {
+    const errors: string[] = [];
+    const addError = (field: ProjectImportField, key: string, params?: TranslationParams) => {
+      const label = this.translationService.translate(PROJECT_IMPORT_FIELDS.find(f => f.key === field)!.labelKey);
+      errors.push(`${label}: ${this.translationService.translate(key, params)}`);
+    };
+
+    // Title
+    const title = this.text(cell('title'));
+    if (!title) {
+      addError('title', 'validation.required');
+    } else if (title.length < this.TITLE_MIN_LENGTH) {
+      addError('title', 'validation.minLength', { min: this.TITLE_MIN_LENGTH });
+    } else if (title.length > this.TITLE_MAX_LENGTH) {
+      addError('title', 'validation.maxLength', { max: this.TITLE_MAX_LENGTH });
+    }
+
+    // Description
+    const description = this.text(cell('description'));
+    if (description.length > this.DESCRIPTION_MAX_LENGTH) {
+      addError('description', 'validation.maxLength', { max: this.DESCRIPTION_MAX_LENGTH });
+    }
+
+    // Status (value or translated label, case and spacing ignored)
+    const statusText = this.text(cell('status'));
+    const status = statusText ? this.parseStatus(statusText) : this.DEFAULT_STATUS;
+    if (!status) {
+      addError('status', 'projects.importInvalidStatus', {
+        values: PROJECT_STATUSES.map(s => this.translationService.translate('projects.status_' + s)).join(', ')
+      });
+    }
+
+    // Priority (integer 1-5)
+    const priority = this.parsePriority(cell('priority'));
+    if (priority === null) {
+      addError('priority', 'projects.importInvalidPriority', { min: this.PRIORITY_MIN, max: this.PRIORITY_MAX });
+    }
+
+    // Dates
+    const startDate = this.parseDate(cell('startDate'), dateFormat);
+    if (startDate === null) {
+      addError('startDate', 'validation.invalidDateFormat', { format: dateFormat });
+    }
+    const dueDate = this.parseDate(cell('dueDate'), dateFormat);
+    if (dueDate === null) {
+      addError('dueDate', 'validation.invalidDateFormat', { format: dateFormat });
+    }
+    if (startDate && dueDate && dueDate.getTime() <= startDate.getTime()) {
+      addError('dueDate', 'projects.importDueBeforeStart');
+    }
+    if (status === 'Completed' && (!startDate || !dueDate)) {
+      addError('status', 'projects.importCompletedDates');
+    }
+
+    const request: CreateProjectRequest = {
+      title,
+      description: description || undefined,
+      status: status ?? statusText,
+      priority: priority ?? 0,
+      startDate: startDate ?? undefined,
+      dueDate: dueDate ?? undefined
+    };
+
+    return { rowNumber, request, errors };
+  }
+
+  private parseStatus(value: string): string | null {
+    const normalized = this.normalize(value);
+    return PROJECT_STATUSES.find(status =>
+      this.normalize(status) === normalized
+      || this.normalize(this.translationService.translate('projects.status_' + status)) === normalized) ?? null;
+  }
+
+  /// <summary>
+  /// Empty cells use the form default; returns null when the value is not an integer in range
+  /// </summary>
+  private parsePriority(value: SpreadsheetCell): number | null {
+    const text = this.text(value);
+    if (!text) return this.DEFAULT_PRIORITY;
+    if (!/^\d+$/.test(text)) return null;
+
+    const priority = Number(text);
+    return priority >= this.PRIORITY_MIN && priority <= this.PRIORITY_MAX ? priority : null;
+  }
+
+  /// <summary>
+  /// Parse a date cell to a UTC midnight Date
+  /// Accepts XLSX date serials, ISO dates and the chosen format; undefined when empty, null when invalid
+  /// </summary>
+  private parseDate(value: SpreadsheetCell, format: ImportDateFormat): Date | undefined | null {
+    if (typeof value === 'number') {
+      return new Date(this.EXCEL_EPOCH + Math.floor(value) * 86400000);
+    }
+
+    const text = this.text(value);
+    if (!text) return undefined;
+
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+    if (iso) {
+      return this.createDate(+iso[1], +iso[2], +iso[3]);
+    }
+
+    // Turn the pattern into a regex, remembering the order of day, month and year
+    const order: string[] = [];
+    const pattern = format.replace(/yyyy|MM|dd|[.*+?^${}()|[\]\\/]/g, token => {
+      if (token === 'yyyy' || token === 'MM' || token === 'dd') {
+        order.push(token);
+        return token === 'yyyy' ? '(\\d{4})' : '(\\d{1,2})';
+      }
+      return '\\' + token;
+    });
+    const match = text.match(new RegExp(`^${pattern}$`));
+    if (!match) return null;
+
+    const part = (token: string) => Number(match[order.indexOf(token) + 1]);
+    return this.createDate(part('yyyy'), part('MM'), part('dd'));
+  }
+
+  /// <summary>
+  /// Create a UTC date, rejecting overflow such as 31/02
+  /// </summary>
+  private createDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+      ? date
+      : null;
+  }
+
+  private text(value: SpreadsheetCell): string {
+    return value === null ? '' : String(value).trim();
+  }
+
+  /// <summary>
+  /// Lower case without spaces and punctuation ("On Hold" = "onhold", "Due date" = "duedate")
+  /// </summary>
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  }
+}
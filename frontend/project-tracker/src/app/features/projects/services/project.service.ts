@@ -1,21 +1,33 @@
 import { Injectable, inject, signal } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, tap, catchError, of } from 'rxjs';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { HttpClient, HttpErrorResponse, HttpEvent, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable, tap, catchError, of, map } from 'rxjs';
 import { environment } from '../../../../environments/environment';
 import { PerformanceService } from '../../../shared/services/performance.service';
 import { LoggerService } from '../../../shared/services/logger.service';
+import { TranslationService } from '../../../shared/services/translation.service';
+import { ProjectHubService } from './project-hub.service';
+import { ExportOptions, DEFAULT_EXPORT_OPTIONS } from '../../../shared/models/export.model';
 import { 
   Project, 
+  ProjectConflictResponse,
   ProjectPaginatedResponse,
-  PaginationParams,
+  ProjectFilters,
+  ProjectExportFormat,
   CreateProjectRequest,
-  UpdateProjectRequest
+  UpdateProjectRequest,
+  ImportProjectRow,
+  ImportProjectsResponse,
+  BulkProjectActionRequest,
+  BulkProjectActionResponse,
+  ProjectChange
 } from '../../../shared/models/project.model';
 
 
 /// <summary>
 /// Service for managing projects with pagination support
 /// Uses signals for state management and server-side pagination
+/// Changes pushed by the project hub are merged into the loaded page
 /// </summary>
 @Injectable({
   providedIn: 'root'
@@ -24,11 +36,15 @@ export class ProjectService {
   private readonly http = inject(HttpClient);
   private readonly performanceService = inject(PerformanceService);
   private readonly logger = inject(LoggerService);
+  private readonly translationService = inject(TranslationService);
   private readonly apiUrl = `${environment.apiUrl}/projects`;
 
   // Default page size - must match component default
   private readonly DEFAULT_PAGE_SIZE = 5;
 
+  // How long a row changed by someone else stays highlighted
+  private readonly HIGHLIGHT_DURATION = 6000;
+
   // State signals for pagination
   private readonly projects = signal<Project[]>([]);
   private readonly loading = signal(false);
@@ -38,13 +54,27 @@ export class ProjectService {
   private readonly totalCount = signal(0);
   private readonly totalPages = signal(0);
 
+  // Filters of the last page load, reused to refresh the page when projects are added remotely
+  // (null while the list page is not open: pushed changes are then ignored)
+  private lastFilters: Partial<ProjectFilters> | null = null;
+
+  // Projects on the page recently changed by another user, with the change
+  private readonly recentChanges = signal<ReadonlyMap<number, ProjectChange>>(new Map());
+
+  constructor() {
+    inject(ProjectHubService).getChanges()
+      .pipe(takeUntilDestroyed())
+      .subscribe(changes => this.applyRemoteChanges(changes));
+  }
+
   /// <summary>
   /// Load paginated projects with optional filters
-  /// Supports searching, sorting, and filtering
+  /// Supports searching, sorting, and filtering by status, priority range, date ranges and tags
   /// </summary>
-  loadProjectsPaged(filters?: Partial<PaginationParams>): Observable<ProjectPaginatedResponse> {
+  loadProjectsPaged(filters?: Partial<ProjectFilters>): Observable<ProjectPaginatedResponse> {
     this.loading.set(true);
     this.error.set(null);
+    this.lastFilters = filters ?? {};
 
     // Extract and pre-set pagination parameters to ensure immediate signal updates
     const pageNumber = filters?.pageNumber ?? 1;
@@ -54,20 +84,7 @@ export class ProjectService {
     this.pageNumber.set(pageNumber);
     this.pageSize.set(pageSize);
 
-    // Build query parameters from filters
-    let params = new HttpParams()
-      .set('pageNumber', pageNumber.toString())
-      .set('pageSize', pageSize.toString());
-
-    if (filters?.searchTerm) {
-      params = params.set('searchTerm', filters.searchTerm);
-    }
-    if (filters?.sortBy) {
-      params = params.set('sortBy', filters.sortBy);
-    }
-    if (filters?.sortDirection) {
-      params = params.set('sortDirection', filters.sortDirection);
-    }
+    const params = this.buildPagedParams(filters);
 
     return this.http.get<ProjectPaginatedResponse>(`${this.apiUrl}/paged`, { params }).pipe(
       tap(response => {
@@ -93,6 +110,185 @@ export class ProjectService {
     );
   }
 
+  /// <summary>
+  /// Download all projects matching the filters as a file streamed by the server
+  /// Emits HTTP events for download progress; list state signals are not touched.
+  /// Unsubscribing aborts the request (the server stops the export)
+  /// </summary>
+  exportProjects(
+    format: ProjectExportFormat,
+    filters?: Partial<ProjectFilters>,
+    options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+  ): Observable<HttpEvent<Blob>> {
+    // Headers are translated server-side for the current culture
+    let params = new HttpParams()
+      .set('format', format)
+      .set('delimiter', options.delimiter)
+      .set('bom', options.includeBom)
+      .set('dateFormat', options.dateFormat)
+      .set('culture', this.translationService.currentLanguage());
+    options.columns.forEach(column => {
+      params = params.append('columns', column);
+    });
+
+    if (filters?.searchTerm) {
+      params = params.set('searchTerm', filters.searchTerm);
+    }
+    if (filters?.sortBy) {
+      params = params.set('sortBy', filters.sortBy);
+    }
+    if (filters?.sortDirection) {
+      params = params.set('sortDirection', filters.sortDirection);
+    }
+    params = this.appendFilterParams(params, filters);
+
+    return this.http.get(`${this.apiUrl}/export`, {
+      params,
+      responseType: 'blob',
+      observe: 'events',
+      reportProgress: true
+    });
+  }
+
+  /// <summary>
+  /// Append status, priority, date range and tag filters to query parameters
+  /// Multi-select status and tags are sent as repeated 'status' / 'tagIds' keys
+  /// </summary>
+  private appendFilterParams(params: HttpParams, filters?: Partial<ProjectFilters>): HttpParams {
+    filters?.status?.forEach(status => {
+      params = params.append('status', status);
+    });
+    if (filters?.priorityMin != null) {
+      params = params.set('priorityMin', filters.priorityMin.toString());
+    }
+    if (filters?.priorityMax != null) {
+      params = params.set('priorityMax', filters.priorityMax.toString());
+    }
+    if (filters?.startDateFrom) {
+      params = params.set('startDateFrom', filters.startDateFrom);
+    }
+    if (filters?.startDateTo) {
+      params = params.set('startDateTo', filters.startDateTo);
+    }
+    if (filters?.dueDateFrom) {
+      params = params.set('dueDateFrom', filters.dueDateFrom);
+    }
+    if (filters?.dueDateTo) {
+      params = params.set('dueDateTo', filters.dueDateTo);
+    }
+    filters?.tagIds?.forEach(tagId => {
+      params = params.append('tagIds', tagId.toString());
+    });
+    if (filters?.tagIds?.length && filters.tagMatch) {
+      params = params.set('tagMatch', filters.tagMatch);
+    }
+    return params;
+  }
+
+  /// <summary>
+  /// Build the query parameters of the paged endpoint from filters
+  /// </summary>
+  private buildPagedParams(filters?: Partial<ProjectFilters>): HttpParams {
+    let params = new HttpParams()
+      .set('pageNumber', (filters?.pageNumber ?? 1).toString())
+      .set('pageSize', (filters?.pageSize ?? this.DEFAULT_PAGE_SIZE).toString());
+
+    if (filters?.searchTerm) {
+      params = params.set('searchTerm', filters.searchTerm);
+    }
+    if (filters?.sortBy) {
+      params = params.set('sortBy', filters.sortBy);
+    }
+    if (filters?.sortDirection) {
+      params = params.set('sortDirection', filters.sortDirection);
+    }
+    return this.appendFilterParams(params, filters);
+  }
+
+  /// <summary>
+  /// Merge changes pushed by the hub into the loaded page
+  /// Edited rows are refetched in place and deleted rows removed; created or restored
+  /// projects reload the page, since the server decides whether and where they appear
+  /// </summary>
+  private applyRemoteChanges(changes: ProjectChange[]): void {
+    if (this.lastFilters === null) return;
+
+    let reload = false;
+
+    for (const change of changes) {
+      const onPage = this.projects().some(p => p.id === change.projectId);
+      switch (change.action) {
+        case 'Created':
+        case 'Restored':
+          reload = true;
+          break;
+        case 'Deleted':
+          if (onPage) {
+            this.projects.update(projects => projects.filter(p => p.id !== change.projectId));
+            this.totalCount.update(count => Math.max(count - 1, 0));
+            this.totalPages.set(Math.ceil(this.totalCount() / this.pageSize()));
+          }
+          break;
+        default:
+          if (onPage) {
+            this.refreshProject(change.projectId);
+          }
+      }
+
+      // The hub only sends changes made by other users
+      if (change.action !== 'Deleted') {
+        this.highlight(change);
+      }
+    }
+
+    if (reload) {
+      this.http.get<ProjectPaginatedResponse>(`${this.apiUrl}/paged`, { params: this.buildPagedParams(this.lastFilters) })
+        .subscribe({
+          next: response => this.updatePaginationState(response),
+          error: error => this.logger.error('Error refreshing projects', error)
+        });
+    }
+  }
+
+  /// <summary>
+  /// Stop merging pushed changes into the page (called when the list page is left)
+  /// </summary>
+  stopRemoteUpdates(): void {
+    this.lastFilters = null;
+    this.recentChanges.set(new Map());
+  }
+
+  /// <summary>
+  /// Replace a row with the current version of the project (checklist counts are kept:
+  /// they come with the paged list only and do not change with the project)
+  /// </summary>
+  private refreshProject(id: number): void {
+    this.getProject(id).subscribe({
+      next: project => {
+        this.projects.update(projects => projects.map(p => p.id === id
+          ? { ...project, taskCount: p.taskCount, completedTaskCount: p.completedTaskCount }
+          : p));
+      },
+      error: error => this.logger.error('Error refreshing project', error)
+    });
+  }
+
+  /// <summary>
+  /// Mark a project as changed by another user for HIGHLIGHT_DURATION
+  /// </summary>
+  private highlight(change: ProjectChange): void {
+    this.recentChanges.update(changes => new Map(changes).set(change.projectId, change));
+    setTimeout(() => {
+      this.recentChanges.update(changes => {
+        // A newer change restarted the highlight
+        if (changes.get(change.projectId) !== change) return changes;
+        const next = new Map(changes);
+        next.delete(change.projectId);
+        return next;
+      });
+    }, this.HIGHLIGHT_DURATION);
+  }
+
   /// <summary>
   /// Update internal pagination state from response
   /// </summary>
@@ -120,6 +316,43 @@ export class ProjectService {
     );
   }
 
+  /// <summary>
+  /// Create projects in bulk from imported rows
+  /// The server creates valid rows and reports rejected ones; the list is not reloaded here
+  /// </summary>
+  importProjects(rows: ImportProjectRow[]): Observable<ImportProjectsResponse> {
+    return this.http.post<ImportProjectsResponse>(`${this.apiUrl}/import`, { rows }).pipe(
+      catchError(error => {
+        this.logger.error('Error importing projects', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Apply a status change, priority change or delete to many projects in one request
+  /// </summary>
+  bulkAction(request: BulkProjectActionRequest): Observable<BulkProjectActionResponse> {
+    return this.http.post<BulkProjectActionResponse>(`${this.apiUrl}/bulk`, request).pipe(
+      catchError(error => {
+        this.logger.error('Error running bulk action', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Get all projects of the user (unpaged), optionally filtered by search term
+  /// Used by the board view; list state signals are not touched
+  /// </summary>
+  getProjects(search?: string): Observable<Project[]> {
+    let params = new HttpParams();
+    if (search) {
+      params = params.set('search', search);
+    }
+    return this.http.get<Project[]>(this.apiUrl, { params });
+  }
+
   /// <summary>
   /// Get a single project by ID
   /// </summary>
@@ -129,9 +362,13 @@ export class ProjectService {
 
   /// <summary>
   /// Update an existing project
+  /// With the version the edit started from, a stale write fails with 409 (see getConflict)
+  /// Emits the new version of the project
   /// </summary>
-  updateProject(id: number, request: UpdateProjectRequest): Observable<void> {
-    return this.http.put<void>(`${this.apiUrl}/${id}`, request).pipe(
+  updateProject(id: number, request: UpdateProjectRequest, version?: string): Observable<string> {
+    const headers = version ? new HttpHeaders({ 'If-Match': `"${version}"` }) : undefined;
+    return this.http.put<void>(`${this.apiUrl}/${id}`, request, { headers, observe: 'response' }).pipe(
+      map(response => (response.headers.get('ETag') ?? '').replace(/^W\//, '').replace(/"/g, '')),
       tap(() => {
         this.error.set(null);
       }),
@@ -143,6 +380,16 @@ export class ProjectService {
     );
   }
 
+  /// <summary>
+  /// The project as currently saved when an update failed because someone else saved first
+  /// </summary>
+  getConflict(error: unknown): Project | null {
+    if (error instanceof HttpErrorResponse && error.status === 409) {
+      return (error.error as ProjectConflictResponse | null)?.current ?? null;
+    }
+    return null;
+  }
+
   /// <summary>
   /// Delete a project
   /// </summary>
@@ -189,4 +436,8 @@ export class ProjectService {
   getTotalPagesSignal() {
     return this.totalPages.asReadonly();
   }
+
+  getRecentChangesSignal() {
+    return this.recentChanges.asReadonly();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import {
+  SavedView,
+  CreateSavedViewRequest,
+  UpdateSavedViewRequest
+} from '../../../shared/models/saved-view.model';
+
+/// <summary>
+/// Service for managing saved views (named project list filter presets)
+/// Views are stored server-side per user; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedViewService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/savedviews`;
+
+  // State signals
+  private readonly views = signal<SavedView[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load all saved views for the current user
+  /// </summary>
+  loadViews(): Observable<SavedView[]> {
+    this.loading.set(true);
+
+    return this.http.get<SavedView[]>(this.apiUrl).pipe(
+      tap(views => {
+        this.views.set(views);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading saved views', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Save filters as a new named view
+  /// </summary>
+  createView(request: CreateSavedViewRequest): Observable<SavedView> {
+    return this.http.post<SavedView>(this.apiUrl, request).pipe(
+      tap(view => {
+        this.views.update(views => this.sortByName([
+          ...views.map(v => view.isDefault ? { ...v, isDefault: false } : v),
+          view
+        ]));
+      }),
+      catchError(error => {
+        this.logger.error('Error creating saved view', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Rename a view or replace its filters
+  /// </summary>
+  updateView(id: number, request: UpdateSavedViewRequest): Observable<void> {
+    return this.http.put<void>(`${this.apiUrl}/${id}`, request).pipe(
+      tap(() => {
+        this.views.update(views => this.sortByName(
+          views.map(v => v.id === id ? { ...v, ...request } : v)
+        ));
+      }),
+      catchError(error => {
+        this.logger.error('Error updating saved view', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Delete a saved view
+  /// </summary>
+  deleteView(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${id}`).pipe(
+      tap(() => {
+        this.views.update(views => views.filter(v => v.id !== id));
+      }),
+      catchError(error => {
+        this.logger.error('Error deleting saved view', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Pin a view as the default (unpins any other view)
+  /// </summary>
+  setDefault(id: number): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/${id}/default`, {}).pipe(
+      tap(() => {
+        this.views.update(views => views.map(v => ({ ...v, isDefault: v.id === id })));
+      }),
+      catchError(error => {
+        this.logger.error('Error pinning saved view', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Unpin the default view
+  /// </summary>
+  clearDefault(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${id}/default`).pipe(
+      tap(() => {
+        this.views.update(views => views.map(v => ({ ...v, isDefault: false })));
+      }),
+      catchError(error => {
+        this.logger.error('Error unpinning saved view', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Keep views in the same order as the API (by name)
+  /// </summary>
+  private sortByName(views: SavedView[]): SavedView[] {
+    return [...views].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getViewsSignal() {
+    return this.views.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
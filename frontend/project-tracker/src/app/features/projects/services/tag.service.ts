@@ -0,0 +1,119 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import { Tag, CreateTagRequest, UpdateTagRequest, MergeTagsRequest } from '../../../shared/models/tag.model';
+
+/// <summary>
+/// Service for the current user's project tags
+/// Tags are kept in name order; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class TagService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/tags`;
+
+  // State signals
+  private readonly tags = signal<Tag[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load all tags of the current user with their usage counts
+  /// </summary>
+  loadTags(): Observable<Tag[]> {
+    this.loading.set(true);
+
+    return this.http.get<Tag[]>(this.apiUrl).pipe(
+      tap(tags => {
+        this.tags.set(tags);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading tags', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Create a tag
+  /// </summary>
+  createTag(request: CreateTagRequest): Observable<Tag> {
+    return this.http.post<Tag>(this.apiUrl, request).pipe(
+      tap(tag => {
+        this.tags.update(tags => this.sortByName([...tags, tag]));
+      }),
+      catchError(error => {
+        this.logger.error('Error creating tag', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Rename and/or recolor a tag
+  /// </summary>
+  updateTag(id: number, request: UpdateTagRequest): Observable<Tag> {
+    return this.http.put<Tag>(`${this.apiUrl}/${id}`, request).pipe(
+      tap(updated => {
+        this.tags.update(tags => this.sortByName(tags.map(t => t.id === id ? updated : t)));
+      }),
+      catchError(error => {
+        this.logger.error('Error updating tag', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Merge tags into a target tag; the merged tags are removed from the list
+  /// </summary>
+  mergeTags(targetId: number, request: MergeTagsRequest): Observable<Tag> {
+    return this.http.post<Tag>(`${this.apiUrl}/${targetId}/merge`, request).pipe(
+      tap(merged => {
+        this.tags.update(tags => tags
+          .filter(t => !request.sourceTagIds.includes(t.id))
+          .map(t => t.id === merged.id ? merged : t));
+      }),
+      catchError(error => {
+        this.logger.error('Error merging tags', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Delete a tag (it is removed from all projects)
+  /// </summary>
+  deleteTag(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${id}`).pipe(
+      tap(() => {
+        this.tags.update(tags => tags.filter(t => t.id !== id));
+      }),
+      catchError(error => {
+        this.logger.error('Error deleting tag', error);
+        throw error;
+      })
+    );
+  }
+
+  private sortByName(tags: Tag[]): Tag[] {
+    return [...tags].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getTagsSignal() {
+    return this.tags.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
@@ -0,0 +1,230 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import {
+  ProjectTask,
+  ProjectTaskNode,
+  TaskProgress,
+  CreateTaskRequest,
+  UpdateTaskRequest
+} from '../../../shared/models/task.model';
+
+/// <summary>
+/// Service for managing the task checklist of a project
+/// Holds the tasks of one project at a time; state is exposed through signals
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class TaskService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/projects`;
+
+  // State signals
+  private readonly projectId = signal<number | null>(null);
+  private readonly tasks = signal<ProjectTask[]>([]);
+  private readonly loading = signal(false);
+  private readonly error = signal<string | null>(null);
+
+  /// <summary>
+  /// Top-level tasks with their subtasks, each level sorted by checklist order
+  /// </summary>
+  private readonly tree = computed<ProjectTaskNode[]>(() => {
+    const tasks = this.tasks();
+    return this.sortTasks(tasks.filter(t => t.parentTaskId == null)).map(task => ({
+      task,
+      subtasks: this.sortTasks(tasks.filter(t => t.parentTaskId === task.id))
+    }));
+  });
+
+  /// <summary>
+  /// Done and total task counts (subtasks included)
+  /// </summary>
+  private readonly progress = computed<TaskProgress>(() => {
+    const tasks = this.tasks();
+    const done = tasks.filter(t => t.isDone).length;
+    return {
+      total: tasks.length,
+      done,
+      // Rounded down so 100% is only shown when everything is done
+      percent: tasks.length > 0 ? Math.floor((done / tasks.length) * 100) : 0
+    };
+  });
+
+  /// <summary>
+  /// Load the tasks of a project, replacing the tasks of the previous one
+  /// </summary>
+  loadTasks(projectId: number): Observable<ProjectTask[]> {
+    if (this.projectId() !== projectId) {
+      this.projectId.set(projectId);
+      this.tasks.set([]);
+    }
+    this.loading.set(true);
+    this.error.set(null);
+
+    return this.http.get<ProjectTask[]>(this.tasksUrl(projectId)).pipe(
+      tap(tasks => {
+        this.tasks.set(tasks);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.error.set('Failed to load tasks');
+        this.loading.set(false);
+        this.logger.error('Error loading tasks', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Add a task (or subtask) at the end of its list
+  /// </summary>
+  createTask(projectId: number, request: CreateTaskRequest): Observable<ProjectTask> {
+    return this.http.post<ProjectTask>(this.tasksUrl(projectId), request).pipe(
+      tap(task => {
+        this.error.set(null);
+        if (this.projectId() === projectId) {
+          this.tasks.update(tasks => [...tasks, task]);
+        }
+      }),
+      catchError(error => {
+        this.error.set('Failed to create task');
+        this.logger.error('Error creating task', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Update a task; the returned task (with resolved assignee) replaces the local copy
+  /// </summary>
+  updateTask(task: ProjectTask, request: UpdateTaskRequest): Observable<ProjectTask> {
+    return this.http.put<ProjectTask>(`${this.tasksUrl(task.projectId)}/${task.id}`, request).pipe(
+      tap(updated => {
+        this.error.set(null);
+        this.replaceTask(updated);
+      }),
+      catchError(error => {
+        this.error.set('Failed to update task');
+        this.logger.error('Error updating task', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Check or uncheck a task
+  /// The checkbox changes immediately and is restored if the update fails
+  /// </summary>
+  setDone(task: ProjectTask, isDone: boolean): Observable<ProjectTask> {
+    this.replaceTask({ ...task, isDone });
+
+    return this.http.put<ProjectTask>(`${this.tasksUrl(task.projectId)}/${task.id}`, {
+      title: task.title,
+      isDone,
+      assigneeEmail: task.assigneeEmail,
+      dueDate: task.dueDate
+    } satisfies UpdateTaskRequest).pipe(
+      tap(updated => {
+        this.error.set(null);
+        this.replaceTask(updated);
+      }),
+      catchError(error => {
+        this.replaceTask(task);
+        this.error.set('Failed to update task');
+        this.logger.error('Error updating task', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Move a task one position up or down among its siblings
+  /// The new order is applied immediately and restored if the update fails
+  /// </summary>
+  moveTask(task: ProjectTask, direction: -1 | 1): Observable<void> {
+    const siblings = this.sortTasks(this.tasks().filter(t => (t.parentTaskId ?? null) === (task.parentTaskId ?? null)));
+    const index = siblings.findIndex(t => t.id === task.id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= siblings.length) {
+      return of(undefined);
+    }
+
+    const reordered = [...siblings];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    const previous = this.tasks();
+    const sortOrders = new Map(reordered.map((t, i) => [t.id, i]));
+    this.tasks.update(tasks => tasks.map(t => sortOrders.has(t.id) ? { ...t, sortOrder: sortOrders.get(t.id)! } : t));
+
+    return this.http.put<void>(`${this.tasksUrl(task.projectId)}/order`, {
+      parentTaskId: task.parentTaskId ?? null,
+      taskIds: reordered.map(t => t.id)
+    }).pipe(
+      tap(() => {
+        this.error.set(null);
+      }),
+      catchError(error => {
+        this.tasks.set(previous);
+        this.error.set('Failed to reorder tasks');
+        this.logger.error('Error reordering tasks', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Delete a task; its subtasks are deleted with it
+  /// </summary>
+  deleteTask(task: ProjectTask): Observable<void> {
+    return this.http.delete<void>(`${this.tasksUrl(task.projectId)}/${task.id}`).pipe(
+      tap(() => {
+        this.error.set(null);
+        this.tasks.update(tasks => tasks.filter(t => t.id !== task.id && t.parentTaskId !== task.id));
+      }),
+      catchError(error => {
+        this.error.set('Failed to delete task');
+        this.logger.error('Error deleting task', error);
+        throw error;
+      })
+    );
+  }
+
+  private tasksUrl(projectId: number): string {
+    return `${this.apiUrl}/${projectId}/tasks`;
+  }
+
+  private replaceTask(task: ProjectTask): void {
+    this.tasks.update(tasks => tasks.map(t => t.id === task.id ? task : t));
+  }
+
+  private sortTasks(tasks: ProjectTask[]): ProjectTask[] {
+    return [...tasks].sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getTasksSignal() {
+    return this.tasks.asReadonly();
+  }
+
+  getTaskTreeSignal() {
+    return this.tree;
+  }
+
+  getProgressSignal() {
+    return this.progress;
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+
+  getErrorSignal() {
+    return this.error.asReadonly();
+  }
+}
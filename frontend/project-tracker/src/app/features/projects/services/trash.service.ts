@@ -0,0 +1,98 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap, catchError, of } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { LoggerService } from '../../../shared/services/logger.service';
+import { DeletedProject } from '../../../shared/models/project.model';
+
+/// <summary>
+/// Service for the trash of deleted projects
+/// Deleted projects can be restored (also from the Undo toast) or purged permanently
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class TrashService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/projects/trash`;
+
+  // State signals
+  private readonly projects = signal<DeletedProject[]>([]);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load the projects in the trash, most recently deleted first
+  /// </summary>
+  loadTrash(): Observable<DeletedProject[]> {
+    this.loading.set(true);
+
+    return this.http.get<DeletedProject[]>(this.apiUrl).pipe(
+      tap(projects => {
+        this.projects.set(projects);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading trash', error);
+        return of([]);
+      })
+    );
+  }
+
+  /// <summary>
+  /// Restore projects from the trash; emits the IDs actually restored
+  /// </summary>
+  restore(ids: number[]): Observable<number[]> {
+    return this.http.post<number[]>(`${this.apiUrl}/restore`, { ids }).pipe(
+      tap(restored => {
+        this.projects.update(projects => projects.filter(p => !restored.includes(p.id)));
+      }),
+      catchError(error => {
+        this.logger.error('Error restoring projects', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Permanently delete a project in the trash
+  /// </summary>
+  purge(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${id}`).pipe(
+      tap(() => {
+        this.projects.update(projects => projects.filter(p => p.id !== id));
+      }),
+      catchError(error => {
+        this.logger.error('Error purging project', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Permanently delete every project in the trash
+  /// </summary>
+  emptyTrash(): Observable<void> {
+    return this.http.delete<void>(this.apiUrl).pipe(
+      tap(() => {
+        this.projects.set([]);
+      }),
+      catchError(error => {
+        this.logger.error('Error emptying trash', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getProjectsSignal() {
+    return this.projects.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
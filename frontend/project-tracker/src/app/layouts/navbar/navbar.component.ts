@@ -1,4 +1,4 @@
-import { Component, inject, signal, ChangeDetectionStrategy, isDevMode } from '@angular/core';
+import { Component, inject, signal, ChangeDetectionStrategy, isDevMode, effect, viewChild, ViewContainerRef } from '@angular/core';
 
 import { RouterModule } from '@angular/router';
 import { AuthService } from '../../core/services/auth.service';
@@ -6,15 +6,16 @@ import { LoggerService } from '../../shared/services/logger.service';
 import { ThemeToggleComponent } from '../../shared/components/theme-toggle/theme-toggle.component';
 import { LanguageSelectorComponent } from '../../shared/components/language-selector/language-selector.component';
 import { TranslatePipe } from '../../shared/pipes/translate.pipe';
+import { HasRoleDirective } from '../../shared/directives/has-role.directive';
 import { environment } from '../../../environments/environment';
 
 /// <summary>
 /// Main navigation bar component
-/// Responsive navbar with theme toggle and language selector
+/// Responsive navbar with notification bell, theme toggle and language selector
 /// </summary>
 @Component({
   selector: 'app-navbar',
-  imports: [RouterModule, ThemeToggleComponent, LanguageSelectorComponent, TranslatePipe],
+  imports: [RouterModule, ThemeToggleComponent, LanguageSelectorComponent, TranslatePipe, HasRoleDirective],
   templateUrl: './navbar.component.html',
   styleUrl: './navbar.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -31,6 +32,34 @@ export class NavbarComponent {
   // Derive profiler URL from API base URL (remove /api or /api/ suffix and add /profiler path)
   protected readonly profilerUrl = this.getProfilerUrl();
 
+  // Slot of the notification bell (only present while signed in)
+  private readonly notificationBellHost = viewChild('notificationBell', { read: ViewContainerRef });
+
+  constructor() {
+    effect(() => {
+      const host = this.notificationBellHost();
+      if (host) {
+        this.loadNotificationBell(host);
+      }
+    });
+  }
+
+  /// <summary>
+  /// Load the notification bell with a dynamic import so it stays out of the initial bundle
+  /// (@defer would add its own runtime to that bundle)
+  /// </summary>
+  private async loadNotificationBell(host: ViewContainerRef): Promise<void> {
+    const { NotificationBellComponent } = await import(
+      '../../shared/components/notification-bell/notification-bell.component');
+
+    // The user signed out (or in again) while the chunk was loading
+    if (this.notificationBellHost() !== host) return;
+
+    host.clear();
+    const bell = host.createComponent(NotificationBellComponent);
+    bell.instance.navigated.subscribe(() => this.closeMenu());
+  }
+
   /**
    * Constructs the profiler URL robustly, handling various API URL formats.
    * Removes trailing '/api' or '/api/' if present, otherwise uses the base URL as-is.
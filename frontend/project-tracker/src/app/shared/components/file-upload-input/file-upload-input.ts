@@ -0,0 +1,135 @@
+import { Component, input, output, signal, computed, ChangeDetectionStrategy, inject, OnInit } from '@angular/core';
+import { TranslationService } from '../../services/translation.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { FileSizePipe } from '../../pipes/file-size.pipe';
+
+/// <summary>
+/// File rejected by the size/type checks, with the translated reason
+/// </summary>
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+/// <summary>
+/// Reusable drag-and-drop file picker with Bootstrap 5.3 styling
+/// Files can be dropped on the zone or chosen with the browse button;
+/// size and extension are checked before emitting, and upload progress can be shown.
+/// Emits the accepted files; uploading them is up to the parent
+/// </summary>
+@Component({
+  selector: 'app-file-upload-input',
+  imports: [TranslatePipe, FileSizePipe],
+  templateUrl: './file-upload-input.html',
+  styleUrl: './file-upload-input.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class FileUploadInput implements OnInit {
+  private readonly translationService = inject(TranslationService);
+  private readonly fileSizePipe = new FileSizePipe();
+
+  // Common inputs
+  readonly label = input<string>('');
+  readonly helpText = input<string>();
+  readonly disabled = input<boolean>(false);
+
+  // Specific inputs
+  readonly accept = input<string[]>([]); // Allowed extensions including the dot, empty for any
+  readonly maxSizeBytes = input<number>();
+  readonly multiple = input<boolean>(true);
+  readonly progress = input<number | null>(null); // Upload percent, null when idle
+
+  // Outputs
+  readonly filesSelected = output<File[]>();
+
+  protected readonly dragOver = signal(false);
+  protected readonly rejected = signal<RejectedFile[]>([]);
+  protected inputId!: string;
+
+  protected readonly acceptAttribute = computed(() => this.accept().join(','));
+
+  ngOnInit(): void {
+    // Generate a stable, unique input ID once per component instance
+    this.inputId = `file-upload-${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  // Drag and drop
+
+  onDragOver(event: DragEvent): void {
+    if (this.disabled() || !event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    this.dragOver.set(true);
+  }
+
+  onDragLeave(event: DragEvent): void {
+    // Ignore leave events fired when moving over child elements
+    const related = event.relatedTarget as Node | null;
+    if (related && (event.currentTarget as HTMLElement).contains(related)) return;
+    this.dragOver.set(false);
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.dragOver.set(false);
+    if (this.disabled()) return;
+
+    const files = Array.from(event.dataTransfer?.files ?? []);
+    this.selectFiles(this.multiple() ? files : files.slice(0, 1));
+  }
+
+  onFileInputChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.selectFiles(Array.from(input.files ?? []));
+
+    // Allow choosing the same file again
+    input.value = '';
+  }
+
+  dismissRejected(): void {
+    this.rejected.set([]);
+  }
+
+  /// <summary>
+  /// Check size and extension, remember the rejected files and emit the others
+  /// </summary>
+  private selectFiles(files: File[]): void {
+    const accepted: File[] = [];
+    const rejected: RejectedFile[] = [];
+
+    for (const file of files) {
+      const reason = this.validate(file);
+      if (reason) {
+        rejected.push({ name: file.name, reason });
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    this.rejected.set(rejected);
+    if (accepted.length > 0) {
+      this.filesSelected.emit(accepted);
+    }
+  }
+
+  private validate(file: File): string | null {
+    const extensions = this.accept();
+    const dot = file.name.lastIndexOf('.');
+    const extension = dot >= 0 ? file.name.substring(dot).toLowerCase() : '';
+
+    if (extensions.length > 0 && !extensions.includes(extension)) {
+      return this.translationService.translate('validation.fileType', { types: extensions.join(', ') });
+    }
+
+    const maxSize = this.maxSizeBytes();
+    if (maxSize && file.size > maxSize) {
+      return this.translationService.translate('validation.fileSize', { max: this.fileSizePipe.transform(maxSize) ?? '' });
+    }
+
+    if (file.size === 0) {
+      return this.translationService.translate('validation.fileEmpty');
+    }
+
+    return null;
+  }
+}
@@ -8,6 +8,8 @@ export * from './decimal-input/decimal-input';
 export * from './checkbox-input/checkbox-input';
 export * from './radio-input/radio-input';
 export * from './dropdown-input/dropdown-input';
+export * from './file-upload-input/file-upload-input';
+export * from './tag-input/tag-input';
 
 // Utility components
 export * from './card/card-component';
@@ -15,5 +17,6 @@ export * from './confirm-dialog/confirm-dialog.component';
 export * from './language-selector/language-selector.component';
 export * from './not-found/not-found.component';
 export * from './pagination/pagination.component';
+export * from './tag-chip/tag-chip.component';
 export * from './theme-toggle/theme-toggle.component';
 export * from './toast-container/toast-container.component';
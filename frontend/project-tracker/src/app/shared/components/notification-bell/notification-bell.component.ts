@@ -0,0 +1,103 @@
+import { Component, inject, computed, output, OnInit, ChangeDetectionStrategy, DestroyRef } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Router, RouterModule } from '@angular/router';
+import { timer, switchMap, catchError, EMPTY } from 'rxjs';
+import { NotificationCenterService } from '../../services/notification-center.service';
+import { LoggerService } from '../../services/logger.service';
+import { UserNotification } from '../../models/notification.model';
+import { NotificationItemComponent } from '../notification-item/notification-item.component';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+// How often the unread count is refreshed while the bell is shown
+const POLL_INTERVAL = 60000;
+
+// Notifications listed in the dropdown; the rest are on the notifications page
+const DROPDOWN_SIZE = 8;
+
+/// <summary>
+/// Navbar bell with the unread count and a dropdown of the latest notifications
+/// Polls the server while the user is signed in (the bell is only rendered then)
+/// </summary>
+@Component({
+  selector: 'app-notification-bell',
+  imports: [RouterModule, NotificationItemComponent, TranslatePipe],
+  templateUrl: './notification-bell.component.html',
+  styleUrl: './notification-bell.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class NotificationBellComponent implements OnInit {
+  private readonly notificationCenter = inject(NotificationCenterService);
+  private readonly logger = inject(LoggerService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // Emitted when a notification or the page link is opened (the navbar closes its mobile menu)
+  readonly navigated = output<void>();
+
+  protected readonly unreadCount = this.notificationCenter.getUnreadCountSignal();
+  protected readonly notifications = computed(() =>
+    this.notificationCenter.getNotificationsSignal()().slice(0, DROPDOWN_SIZE));
+
+  ngOnInit(): void {
+    timer(0, POLL_INTERVAL)
+      .pipe(
+        // A failed poll is logged by the service without a notification; keep polling
+        switchMap(() => this.notificationCenter.loadNotifications(true).pipe(catchError(() => EMPTY))),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe();
+  }
+
+  /// <summary>
+  /// Refresh the list when the dropdown is opened
+  /// </summary>
+  refresh(): void {
+    this.notificationCenter.loadNotifications().subscribe({
+      error: (error) => {
+        this.logger.error('Error refreshing notifications:', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+
+  /// <summary>
+  /// Mark the notification as read and open its project
+  /// Projects moved to the trash are not opened: members can no longer see them
+  /// </summary>
+  open(notification: UserNotification): void {
+    if (!notification.isRead) {
+      this.notificationCenter.markAsRead(notification.id).subscribe({
+        error: (error) => {
+          this.logger.error('Error marking notification as read:', error);
+          // Error notification is handled by HTTP interceptor
+        }
+      });
+    }
+
+    if (notification.action !== 'Deleted') {
+      this.router.navigate(['/projects', notification.projectId]);
+      this.close();
+    }
+  }
+
+  /// <summary>
+  /// Close the dropdown after navigating
+  /// </summary>
+  close(): void {
+    const dropdownButton = document.getElementById('notificationDropdown');
+    (window as any).bootstrap?.Dropdown?.getInstance(dropdownButton)?.hide();
+    this.navigated.emit();
+  }
+
+  /// <summary>
+  /// Mark every notification as read
+  /// </summary>
+  markAllAsRead(): void {
+    this.notificationCenter.markAllAsRead().subscribe({
+      error: (error) => {
+        this.logger.error('Error marking all notifications as read:', error);
+        // Error notification is handled by HTTP interceptor
+      }
+    });
+  }
+}
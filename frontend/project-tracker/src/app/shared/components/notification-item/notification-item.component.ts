@@ -0,0 +1,45 @@
+import { Component, input, computed, ChangeDetectionStrategy } from '@angular/core';
+import { UserNotification } from '../../models/notification.model';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { LocalizedDatePipe } from '../../pipes/localized-date.pipe';
+
+/// <summary>
+/// Icon, localized message and time of a notification
+/// Shared by the navbar bell and the notifications page
+/// </summary>
+@Component({
+  selector: 'app-notification-item',
+  imports: [TranslatePipe, LocalizedDatePipe],
+  templateUrl: './notification-item.component.html',
+  styleUrl: './notification-item.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class NotificationItemComponent {
+  readonly notification = input.required<UserNotification>();
+
+  /// <summary>
+  /// Translation key of the message: the change action selects the text of ProjectChanged
+  /// </summary>
+  protected readonly messageKey = computed(() => {
+    const notification = this.notification();
+    return notification.type === 'ProjectChanged'
+      ? `notifications.changed_${notification.action}`
+      : `notifications.type_${notification.type}`;
+  });
+
+  protected readonly icon = computed(() => {
+    const notification = this.notification();
+    switch (notification.type) {
+      case 'DueSoon': return 'fas fa-hourglass-half text-warning';
+      case 'Overdue': return 'fas fa-triangle-exclamation text-danger';
+      default: return notification.action === 'Deleted'
+        ? 'fas fa-trash text-danger'
+        : 'fas fa-pen text-info';
+    }
+  });
+
+  protected readonly actor = computed(() => {
+    const notification = this.notification();
+    return notification.actorName || notification.actorEmail || '';
+  });
+}
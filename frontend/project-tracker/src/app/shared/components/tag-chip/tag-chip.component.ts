@@ -0,0 +1,35 @@
+import { Component, input, output, computed, ChangeDetectionStrategy } from '@angular/core';
+import { ProjectTag } from '../../models/tag.model';
+
+/// <summary>
+/// Colored tag chip (Bootstrap badge) with optional remove button
+/// Text is black or white depending on the brightness of the tag color
+/// </summary>
+@Component({
+  selector: 'app-tag-chip',
+  imports: [],
+  templateUrl: './tag-chip.component.html',
+  styleUrl: './tag-chip.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TagChipComponent {
+  // Inputs
+  readonly tag = input.required<Pick<ProjectTag, 'name' | 'color'>>();
+  readonly removable = input<boolean>(false);
+  readonly removeLabel = input<string>('Remove');
+
+  // Outputs
+  readonly removed = output<void>();
+
+  /// <summary>
+  /// Readable text color for the chip background (perceived brightness, YIQ)
+  /// </summary>
+  protected readonly textColor = computed(() => {
+    const hex = this.tag().color.replace('#', '');
+    const r = parseInt(hex.substring(0, 2), 16);
+    const g = parseInt(hex.substring(2, 4), 16);
+    const b = parseInt(hex.substring(4, 6), 16);
+    if ([r, g, b].some(Number.isNaN)) return '#000';
+    return (r * 299 + g * 587 + b * 114) / 1000 >= 150 ? '#000' : '#fff';
+  });
+}
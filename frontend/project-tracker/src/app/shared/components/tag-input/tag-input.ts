@@ -0,0 +1,257 @@
+import { Component, input, output, forwardRef, signal, computed, ChangeDetectionStrategy, inject, effect, OnInit } from '@angular/core';
+
+import { ControlValueAccessor, NG_VALUE_ACCESSOR, FormGroup } from '@angular/forms';
+import { TranslationService } from '../../services/translation.service';
+import { ProjectTag } from '../../models/tag.model';
+import { TagChipComponent } from '../tag-chip/tag-chip.component';
+
+/// <summary>
+/// Reusable multi-select tag input with Bootstrap 5.3 styling
+/// Selected tags are shown as chips; typing filters the suggestions, which are
+/// picked with mouse or keyboard (arrows, Enter, Backspace removes the last chip).
+/// Optionally offers to create a tag from the typed text (the parent creates it).
+/// Value is the array of selected tag IDs.
+/// Implements ControlValueAccessor for reactive forms integration
+/// </summary>
+@Component({
+  selector: 'app-tag-input',
+  imports: [TagChipComponent],
+  templateUrl: './tag-input.html',
+  styleUrl: './tag-input.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  providers: [{
+    provide: NG_VALUE_ACCESSOR,
+    useExisting: forwardRef(() => TagInput),
+    multi: true
+  }]
+})
+export class TagInput implements ControlValueAccessor, OnInit {
+  private readonly translationService = inject(TranslationService);
+
+  // Common inputs
+  readonly label = input<string>('');
+  readonly controlName = input.required<string>();
+  readonly required = input<boolean>(false);
+  readonly parentForm = input.required<FormGroup>();
+  readonly placeholder = input<string>();
+  readonly helpText = input<string>();
+
+  // Specific inputs
+  readonly options = input<ProjectTag[]>([]);
+  readonly allowCreate = input<boolean>(false); // Offer "Create tag" for unknown names
+
+  // Outputs
+  readonly createRequested = output<string>(); // Name of the tag to create
+
+  constructor() {
+    // Watch for control status changes to show validation errors
+    effect((onCleanup) => {
+      const ctrl = this.control();
+      if (ctrl) {
+        this.updateErrorState();
+
+        const statusSub = ctrl.statusChanges.subscribe(() => {
+          this.updateErrorState();
+        });
+        const valueSub = ctrl.valueChanges.subscribe(() => {
+          this.updateErrorState();
+        });
+
+        onCleanup(() => {
+          statusSub.unsubscribe();
+          valueSub.unsubscribe();
+        });
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    // Generate a stable, unique input ID once per component instance
+    this.inputId = `${this.controlName()}-${Math.random().toString(36).substring(2, 11)}`;
+  }
+
+  // Internal state
+  protected readonly value = signal<number[]>([]);
+  protected readonly disabled = signal<boolean>(false);
+  protected readonly touched = signal<boolean>(false);
+  protected readonly hasError = signal<boolean>(false);
+  protected readonly query = signal('');
+  protected readonly open = signal(false);
+  protected readonly activeIndex = signal(-1);
+
+  // Computed properties
+  protected readonly control = computed(() => {
+    return this.parentForm()?.get(this.controlName());
+  });
+
+  protected readonly errorMessage = computed(() => {
+    const ctrl = this.control();
+    if (!ctrl || !ctrl.errors) return '';
+
+    if (ctrl.errors['required']) {
+      return this.translationService.translate('validation.required');
+    }
+
+    return this.translationService.translate('validation.invalidValue');
+  });
+
+  /// <summary>
+  /// Selected tags in selection order (IDs without a known tag are skipped)
+  /// </summary>
+  protected readonly selectedTags = computed(() => {
+    const options = this.options();
+    return this.value()
+      .map(id => options.find(tag => tag.id === id))
+      .filter((tag): tag is ProjectTag => tag !== undefined);
+  });
+
+  /// <summary>
+  /// Unselected tags matching the typed text
+  /// </summary>
+  protected readonly suggestions = computed(() => {
+    const selected = this.value();
+    const query = this.query().trim().toLocaleLowerCase();
+    return this.options().filter(tag =>
+      !selected.includes(tag.id) && tag.name.toLocaleLowerCase().includes(query));
+  });
+
+  /// <summary>
+  /// Whether the typed text can become a new tag (no tag has that name yet)
+  /// </summary>
+  protected readonly canCreate = computed(() => {
+    const name = this.query().trim().toLocaleLowerCase();
+    return this.allowCreate() && name.length > 0 &&
+      !this.options().some(tag => tag.name.toLocaleLowerCase() === name);
+  });
+
+  // Suggestions plus the create entry
+  protected readonly optionCount = computed(() => this.suggestions().length + (this.canCreate() ? 1 : 0));
+
+  protected inputId!: string;
+
+  // ControlValueAccessor implementation
+  private onChange: (value: number[]) => void = () => {};
+  private onTouched: () => void = () => {};
+
+  writeValue(value: number[] | null): void {
+    this.value.set(value ?? []);
+  }
+
+  registerOnChange(fn: (value: number[]) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(isDisabled: boolean): void {
+    this.disabled.set(isDisabled);
+    if (isDisabled) {
+      this.open.set(false);
+    }
+  }
+
+  // Event handlers
+  onQueryInput(event: Event): void {
+    this.query.set((event.target as HTMLInputElement).value);
+    this.open.set(true);
+    this.activeIndex.set(this.optionCount() > 0 ? 0 : -1);
+  }
+
+  onFocus(): void {
+    this.open.set(true);
+  }
+
+  onBlur(): void {
+    this.open.set(false);
+    this.activeIndex.set(-1);
+    this.touched.set(true);
+    this.onTouched();
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    const count = this.optionCount();
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.open.set(true);
+        if (count > 0) this.activeIndex.set((this.activeIndex() + 1) % count);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.open.set(true);
+        if (count > 0) this.activeIndex.set((this.activeIndex() - 1 + count) % count);
+        break;
+      case 'Enter': {
+        // Never submit the surrounding form from the tag input
+        event.preventDefault();
+        const index = this.activeIndex();
+        const suggestions = this.suggestions();
+        if (this.open() && index >= 0 && index < suggestions.length) {
+          this.select(suggestions[index]);
+        } else if (this.canCreate() && (index === suggestions.length || suggestions.length === 0)) {
+          this.create();
+        }
+        break;
+      }
+      case 'Escape':
+        if (this.open()) {
+          event.preventDefault();
+          this.open.set(false);
+        }
+        break;
+      case 'Backspace':
+        if (this.query() === '' && this.value().length > 0) {
+          this.remove(this.value()[this.value().length - 1]);
+        }
+        break;
+    }
+  }
+
+  select(tag: ProjectTag): void {
+    this.setValue([...this.value(), tag.id]);
+    this.query.set('');
+    this.activeIndex.set(this.optionCount() > 0 ? 0 : -1);
+  }
+
+  remove(tagId: number): void {
+    this.setValue(this.value().filter(id => id !== tagId));
+  }
+
+  /// <summary>
+  /// Ask the parent to create a tag with the typed name
+  /// The parent adds the new tag to options and to the control value
+  /// </summary>
+  create(): void {
+    const name = this.query().trim();
+    if (!name) return;
+    this.createRequested.emit(name);
+    this.query.set('');
+    this.activeIndex.set(-1);
+  }
+
+  protected optionId(index: number): string {
+    return `${this.inputId}-option-${index}`;
+  }
+
+  protected createText(): string {
+    return this.translationService.translate('tags.createNamed', { name: this.query().trim() });
+  }
+
+  protected removeText(): string {
+    return this.translationService.translate('common.remove');
+  }
+
+  private setValue(value: number[]): void {
+    this.value.set(value);
+    this.onChange(value);
+  }
+
+  private updateErrorState(): void {
+    const ctrl = this.control();
+    const hasErr = !!(ctrl && ctrl.invalid && (ctrl.dirty || ctrl.touched || this.touched()));
+    this.hasError.set(hasErr);
+  }
+}
@@ -1,6 +1,6 @@
 import { Component, inject, ChangeDetectionStrategy } from '@angular/core';
 
-import { NotificationService, NotificationType } from '../../services/notification.service';
+import { NotificationService, NotificationType, Toast } from '../../services/notification.service';
 
 /// <summary>
 /// Container component for displaying toast notifications
@@ -44,6 +44,13 @@ export class ToastContainerComponent {
     return icons[type];
   }
 
+  /// <summary>
+  /// Run the toast action (e.g. Undo) and close the toast
+  /// </summary>
+  runAction(toast: Toast): void {
+    this.notificationService.runAction(toast);
+  }
+
   /// <summary>
   /// Close toast
   /// </summary>
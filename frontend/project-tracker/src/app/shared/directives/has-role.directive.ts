@@ -0,0 +1,34 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { AuthService } from '../../core/services/auth.service';
+import { UserRole } from '../models/user.model';
+
+/// <summary>
+/// Structural directive rendering its content only for users having one of the given roles
+/// Usage: <a *appHasRole="'Admin'">...</a> or *appHasRole="['Admin', 'User']"
+/// Updates when the current user changes (login, logout, token refresh)
+/// </summary>
+@Directive({
+  selector: '[appHasRole]'
+})
+export class HasRoleDirective {
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+  private readonly authService = inject(AuthService);
+
+  readonly appHasRole = input.required<UserRole | UserRole[]>();
+
+  private hasView = false;
+
+  constructor() {
+    effect(() => {
+      const allowed = this.authService.hasRole(this.appHasRole());
+      if (allowed && !this.hasView) {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+        this.hasView = true;
+      } else if (!allowed && this.hasView) {
+        this.viewContainer.clear();
+        this.hasView = false;
+      }
+    });
+  }
+}
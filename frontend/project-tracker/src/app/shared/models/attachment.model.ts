@@ -0,0 +1,27 @@
+/// <summary>
+/// Maximum attachment size - must match FileStorage:MaxFileSizeBytes on the server
+/// </summary>
+export const ATTACHMENT_MAX_SIZE_BYTES = 10 * 1024 * 1024;
+
+/// <summary>
+/// Accepted attachment extensions - must match FileStorage:AllowedExtensions on the server
+/// </summary>
+export const ATTACHMENT_ALLOWED_EXTENSIONS = [
+  '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.txt', '.csv', '.md',
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.zip'
+];
+
+/// <summary>
+/// File attached to a project (metadata; the content is downloaded separately)
+/// </summary>
+export interface ProjectAttachment {
+  id: number;
+  projectId: number;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedById: number;
+  uploadedByName?: string | null;
+  uploadedByEmail?: string | null;
+  createdAt: Date;
+}
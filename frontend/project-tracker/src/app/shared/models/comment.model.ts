@@ -0,0 +1,39 @@
+/// <summary>
+/// Comment on a project (top-level comment or reply in its thread)
+/// </summary>
+export interface ProjectComment {
+  id: number;
+  projectId: number;
+  parentCommentId?: number | null;
+  body: string;
+  authorId: number;
+  authorName?: string | null;
+  authorEmail?: string | null;
+  isOwn: boolean;
+  isDeleted: boolean;
+  createdAt: Date;
+  editedAt?: Date | null;
+}
+
+/// <summary>
+/// Top-level comment with its replies, both in posting order
+/// </summary>
+export interface CommentThread {
+  comment: ProjectComment;
+  replies: ProjectComment[];
+}
+
+/// <summary>
+/// Request to post a comment (or a reply when parentCommentId is set)
+/// </summary>
+export interface CreateCommentRequest {
+  body: string;
+  parentCommentId?: number | null;
+}
+
+/// <summary>
+/// Request to edit the text of a comment
+/// </summary>
+export interface UpdateCommentRequest {
+  body: string;
+}
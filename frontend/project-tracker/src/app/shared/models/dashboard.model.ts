@@ -0,0 +1,16 @@
+/// <summary>
+/// Project statistics shown on the dashboard
+/// Overdue and due-this-week only count open (Active or OnHold) projects
+/// </summary>
+export interface DashboardStats {
+  total: number;
+  byStatus: { status: string; count: number }[];
+  byPriority: { priority: number; count: number }[];
+  overdue: number;
+  dueThisWeek: number;
+  // Dates the due counts are relative to (today + 6 days for weekEnd)
+  today: string;
+  weekEnd: string;
+  // Projects completed per week (weeks start on Monday), oldest first
+  completionTrend: { weekStart: string; completed: number }[];
+}
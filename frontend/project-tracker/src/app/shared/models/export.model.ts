@@ -0,0 +1,74 @@
+/// <summary>
+/// Project fields that can be exported, in default order
+/// </summary>
+export type ProjectExportColumn =
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'startDate'
+  | 'dueDate'
+  | 'createdAt'
+  | 'updatedAt';
+
+/// <summary>
+/// Column definitions: translation key used for the header
+/// </summary>
+export const PROJECT_EXPORT_COLUMNS: { key: ProjectExportColumn; labelKey: string }[] = [
+  { key: 'id', labelKey: 'projects.id' },
+  { key: 'title', labelKey: 'projects.projectTitle' },
+  { key: 'description', labelKey: 'projects.description' },
+  { key: 'status', labelKey: 'projects.status' },
+  { key: 'priority', labelKey: 'projects.priority' },
+  { key: 'startDate', labelKey: 'projects.startDate' },
+  { key: 'dueDate', labelKey: 'projects.dueDate' },
+  { key: 'createdAt', labelKey: 'projects.createdAt' },
+  { key: 'updatedAt', labelKey: 'projects.updatedAt' }
+];
+
+/// <summary>
+/// CSV field delimiter (semicolon is what Excel expects in most European locales)
+/// </summary>
+export type ExportDelimiter = 'comma' | 'semicolon' | 'tab';
+
+export const EXPORT_DELIMITERS: Record<ExportDelimiter, string> = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t'
+};
+
+/// <summary>
+/// Date formats offered for CSV export
+/// Patterns use the same tokens in Angular formatDate and .NET; 'shortDate' follows the current culture
+/// </summary>
+export const EXPORT_DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'shortDate'] as const;
+
+export type ExportDateFormat = typeof EXPORT_DATE_FORMATS[number];
+
+/// <summary>
+/// Pattern of the 'shortDate' format per culture; ProjectExportOptions on the server uses the
+/// same table so page, selection and full exports write identical dates (other cultures: ISO)
+/// </summary>
+export const SHORT_DATE_PATTERNS: Readonly<Record<string, string>> = {
+  'en-US': 'M/d/yyyy',
+  'it-IT': 'dd/MM/yyyy'
+};
+
+/// <summary>
+/// Options chosen in the export dialog
+/// Delimiter, BOM and date format only apply to CSV (XLSX cells are typed)
+/// </summary>
+export interface ExportOptions {
+  columns: ProjectExportColumn[];
+  delimiter: ExportDelimiter;
+  includeBom: boolean;
+  dateFormat: ExportDateFormat;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  columns: ['id', 'title', 'description', 'status', 'priority', 'startDate', 'dueDate', 'createdAt'],
+  delimiter: 'comma',
+  includeBom: false,
+  dateFormat: 'yyyy-MM-dd'
+};
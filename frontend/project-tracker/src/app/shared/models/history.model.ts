@@ -0,0 +1,33 @@
+/// <summary>
+/// Actions recorded in the project history (labels: history.action_{action} translations)
+/// StatusChanged is an update that changed only the status
+/// </summary>
+export type HistoryAction = 'Created' | 'Updated' | 'StatusChanged' | 'Deleted' | 'Restored';
+
+/// <summary>
+/// Project fields tracked by the history
+/// </summary>
+export type HistoryField = 'title' | 'description' | 'status' | 'priority' | 'startDate' | 'dueDate';
+
+/// <summary>
+/// Before and after value of one field
+/// Values are invariant strings: dates as yyyy-MM-dd, status as its code, null when empty
+/// </summary>
+export interface FieldChange {
+  field: HistoryField;
+  oldValue?: string | null;
+  newValue?: string | null;
+}
+
+/// <summary>
+/// One change to a project: who did what and when
+/// </summary>
+export interface HistoryEntry {
+  id: number;
+  action: HistoryAction;
+  actorId: number;
+  actorName?: string | null;
+  actorEmail?: string | null;
+  createdAt: Date;
+  changes: FieldChange[];
+}
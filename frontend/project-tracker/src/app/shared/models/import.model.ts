@@ -0,0 +1,45 @@
+import { ExportDateFormat } from './export.model';
+import { CreateProjectRequest } from './project.model';
+
+/// <summary>
+/// Project fields that can be filled from an imported column
+/// </summary>
+export type ProjectImportField = 'title' | 'description' | 'status' | 'priority' | 'startDate' | 'dueDate';
+
+/// <summary>
+/// Import field definitions: translation key of the label and whether a column is required
+/// </summary>
+export const PROJECT_IMPORT_FIELDS: { key: ProjectImportField; labelKey: string; required: boolean }[] = [
+  { key: 'title', labelKey: 'projects.projectTitle', required: true },
+  { key: 'description', labelKey: 'projects.description', required: false },
+  { key: 'status', labelKey: 'projects.status', required: false },
+  { key: 'priority', labelKey: 'projects.priority', required: false },
+  { key: 'startDate', labelKey: 'projects.startDate', required: false },
+  { key: 'dueDate', labelKey: 'projects.dueDate', required: false }
+];
+
+/// <summary>
+/// Index of the source column mapped to each field (null = not imported)
+/// </summary>
+export type ProjectImportMapping = Record<ProjectImportField, number | null>;
+
+/// <summary>
+/// Date formats accepted for text dates (ISO dates and XLSX date cells are always accepted)
+/// </summary>
+export type ImportDateFormat = Exclude<ExportDateFormat, 'shortDate'>;
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy'];
+
+/// <summary>
+/// Maximum rows per import (must match ImportProjectsRequest.MaxRows on the server)
+/// </summary>
+export const IMPORT_MAX_ROWS = 1000;
+
+/// <summary>
+/// Parsed and validated source row shown in the import preview
+/// </summary>
+export interface ProjectImportPreviewRow {
+  rowNumber: number;
+  request: CreateProjectRequest;
+  errors: string[];
+}
@@ -0,0 +1,41 @@
+/// <summary>
+/// Roles of a user on a project: the owner created it, members are editors or viewers
+/// (labels: members.role_{role} translations)
+/// </summary>
+export const PROJECT_ROLES = ['Owner', 'Editor', 'Viewer'] as const;
+
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+/// <summary>
+/// Roles that can be given to a member
+/// </summary>
+export const PROJECT_MEMBER_ROLES: Exclude<ProjectRole, 'Owner'>[] = ['Editor', 'Viewer'];
+
+export type ProjectMemberRole = typeof PROJECT_MEMBER_ROLES[number];
+
+/// <summary>
+/// Owner or member of a project
+/// </summary>
+export interface ProjectMember {
+  userId: number;
+  email: string;
+  name?: string | null;
+  role: ProjectRole;
+  isCurrentUser: boolean;
+  addedAt: Date;
+}
+
+/// <summary>
+/// Request to invite a registered user to a project
+/// </summary>
+export interface AddMemberRequest {
+  email: string;
+  role: ProjectMemberRole;
+}
+
+/// <summary>
+/// Request to change the role of a member
+/// </summary>
+export interface UpdateMemberRequest {
+  role: ProjectMemberRole;
+}
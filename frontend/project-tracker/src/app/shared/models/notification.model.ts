@@ -0,0 +1,44 @@
+import { HistoryAction } from './history.model';
+
+/// <summary>
+/// Types of notifications generated by the server (labels: notifications.type_{type} translations)
+/// DueSoon and Overdue are due date reminders, ProjectChanged is a change made by another user
+/// </summary>
+export type NotificationType = 'DueSoon' | 'Overdue' | 'ProjectChanged';
+
+/// <summary>
+/// In-app notification about a project
+/// Named UserNotification to avoid clashing with the DOM Notification type
+/// </summary>
+export interface UserNotification {
+  id: number;
+  type: NotificationType;
+  projectId: number;
+  projectTitle: string;
+  // ProjectChanged only
+  action?: HistoryAction | null;
+  actorId?: number | null;
+  actorName?: string | null;
+  actorEmail?: string | null;
+  // DueSoon/Overdue only: due date the reminder was sent for
+  dueDate?: Date | null;
+  isRead: boolean;
+  createdAt: Date;
+}
+
+/// <summary>
+/// Latest notifications with the total unread count
+/// </summary>
+export interface NotificationList {
+  items: UserNotification[];
+  unreadCount: number;
+}
+
+/// <summary>
+/// Notification types the user receives
+/// </summary>
+export interface NotificationPreferences {
+  dueSoon: boolean;
+  overdue: boolean;
+  projectChanged: boolean;
+}
@@ -1,3 +1,14 @@
+import { ProjectTag, TagMatch } from './tag.model';
+import { ProjectRole } from './member.model';
+import { HistoryAction } from './history.model';
+
+/// <summary>
+/// Project statuses in workflow order (labels: projects.status_{status} translations)
+/// </summary>
+export const PROJECT_STATUSES = ['Active', 'OnHold', 'Completed', 'Cancelled'] as const;
+
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
 /// <summary>
 /// Project entity model
 /// </summary>
@@ -12,6 +23,23 @@ export interface Project {
   dueDate?: Date;
   createdAt: Date;
   updatedAt: Date;
+  // Checklist counts (subtasks included), filled in by the paged list only
+  taskCount?: number;
+  completedTaskCount?: number;
+  // Tag chips in name order
+  tags?: ProjectTag[];
+  // Role of the current user: viewers cannot edit, only the owner deletes and manages members
+  role: ProjectRole;
+  // Concurrency token: send it back when updating so a stale write is rejected with 409
+  version: string;
+}
+
+/// <summary>
+/// Body of the 409 response to a stale update: the project as currently saved
+/// </summary>
+export interface ProjectConflictResponse {
+  message: string;
+  current: Project;
 }
 
 /// <summary>
@@ -24,6 +52,7 @@ export interface CreateProjectRequest {
   priority: number;
   startDate?: Date;
   dueDate?: Date;
+  tagIds?: number[];
 }
 
 /// <summary>
@@ -60,10 +89,86 @@ export interface PaginationParams {
   sortDirection?: 'asc' | 'desc';
 }
 
+/// <summary>
+/// File formats supported by the server-side project export
+/// </summary>
+export type ProjectExportFormat = 'csv' | 'xlsx';
+
 /// <summary>
 /// Project filters with pagination
+/// Dates are ISO strings (YYYY-MM-DD); range bounds are inclusive
 /// </summary>
 export interface ProjectFilters extends PaginationParams {
+  status?: string[];
+  priorityMin?: number;
+  priorityMax?: number;
+  startDateFrom?: string;
+  startDateTo?: string;
+  dueDateFrom?: string;
+  dueDateTo?: string;
+  tagIds?: number[];
+  tagMatch?: TagMatch;
+}
+
+/// <summary>
+/// Row sent to the bulk import endpoint (row number refers to the source file)
+/// </summary>
+export interface ImportProjectRow extends CreateProjectRequest {
+  rowNumber: number;
+}
+
+/// <summary>
+/// Result of a bulk import: created projects and rows rejected by the server
+/// </summary>
+export interface ImportProjectsResponse {
+  created: number;
+  createdIds: number[];
+  failed: { rowNumber: number; errors: string[] }[];
+}
+
+/// <summary>
+/// Actions available for bulk operations on selected projects
+/// </summary>
+export type BulkProjectAction = 'status' | 'priority' | 'delete';
+
+/// <summary>
+/// Bulk action request: targets explicit IDs or every project matching the filter
+/// </summary>
+export interface BulkProjectActionRequest {
+  action: BulkProjectAction;
+  ids?: number[];
+  filter?: Partial<ProjectFilters>;
   status?: string;
   priority?: number;
 }
+
+/// <summary>
+/// Per-item result of a bulk action
+/// </summary>
+export interface BulkProjectActionResponse {
+  succeeded: number[];
+  failed: { id: number; title?: string; error: string }[];
+}
+
+/// <summary>
+/// Project in the trash: restorable until purgeAt, when it is deleted permanently
+/// </summary>
+export interface DeletedProject {
+  id: number;
+  title: string;
+  status: string;
+  priority: number;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+/// <summary>
+/// Change to a project pushed by the server to everyone with access to it (the actor included)
+/// </summary>
+export interface ProjectChange {
+  projectId: number;
+  action: HistoryAction;
+  actorId: number;
+  actorName?: string | null;
+  actorEmail?: string | null;
+}
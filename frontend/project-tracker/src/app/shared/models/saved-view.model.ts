@@ -0,0 +1,36 @@
+import { ProjectFilters } from './project.model';
+
+/// <summary>
+/// Search, filters and sort captured by a saved view
+/// Page number and size are not part of a view
+/// </summary>
+export type SavedViewFilters = Omit<ProjectFilters, 'pageNumber' | 'pageSize'>;
+
+/// <summary>
+/// Named filter preset for the project list
+/// </summary>
+export interface SavedView {
+  id: number;
+  name: string;
+  filters: SavedViewFilters;
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/// <summary>
+/// Request to save the current filters as a named view
+/// </summary>
+export interface CreateSavedViewRequest {
+  name: string;
+  filters: SavedViewFilters;
+  isDefault?: boolean;
+}
+
+/// <summary>
+/// Request to rename a saved view or replace its filters
+/// </summary>
+export interface UpdateSavedViewRequest {
+  name: string;
+  filters: SavedViewFilters;
+}
@@ -0,0 +1,51 @@
+/// <summary>
+/// Colors offered when creating a tag (any #RRGGBB value is accepted)
+/// </summary>
+export const TAG_COLORS = [
+  '#1E88E5', '#43A047', '#FB8C00', '#E53935', '#8E24AA',
+  '#00897B', '#FDD835', '#6D4C41', '#546E7A', '#D81B60'
+];
+
+/// <summary>
+/// How the selected tags of the project list filter combine
+/// any: projects with at least one of the tags; all: projects with every tag
+/// </summary>
+export type TagMatch = 'any' | 'all';
+
+/// <summary>
+/// Tag as shown on a project (chip)
+/// </summary>
+export interface ProjectTag {
+  id: number;
+  name: string;
+  color: string;
+}
+
+/// <summary>
+/// Tag of the current user with its usage count
+/// </summary>
+export interface Tag extends ProjectTag {
+  projectCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/// <summary>
+/// Request to create a tag
+/// </summary>
+export interface CreateTagRequest {
+  name: string;
+  color: string;
+}
+
+/// <summary>
+/// Request to rename and/or recolor a tag
+/// </summary>
+export interface UpdateTagRequest extends CreateTagRequest {}
+
+/// <summary>
+/// Request to merge tags into another tag (the merged tags are deleted)
+/// </summary>
+export interface MergeTagsRequest {
+  sourceTagIds: number[];
+}
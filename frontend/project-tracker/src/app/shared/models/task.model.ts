@@ -0,0 +1,55 @@
+/// <summary>
+/// Checklist task of a project (top-level task or subtask of one)
+/// </summary>
+export interface ProjectTask {
+  id: number;
+  projectId: number;
+  parentTaskId?: number | null;
+  title: string;
+  isDone: boolean;
+  assigneeId?: number | null;
+  assigneeEmail?: string | null;
+  assigneeName?: string | null;
+  dueDate?: Date | null;
+  sortOrder: number;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/// <summary>
+/// Top-level task with its subtasks, both in checklist order
+/// </summary>
+export interface ProjectTaskNode {
+  task: ProjectTask;
+  subtasks: ProjectTask[];
+}
+
+/// <summary>
+/// Request to add a task (or a subtask when parentTaskId is set)
+/// </summary>
+export interface CreateTaskRequest {
+  title: string;
+  parentTaskId?: number | null;
+  assigneeEmail?: string | null;
+  dueDate?: Date | null;
+}
+
+/// <summary>
+/// Request to update a task
+/// </summary>
+export interface UpdateTaskRequest {
+  title: string;
+  isDone: boolean;
+  assigneeEmail?: string | null;
+  dueDate?: Date | null;
+}
+
+/// <summary>
+/// Checklist completion (subtasks included)
+/// </summary>
+export interface TaskProgress {
+  total: number;
+  done: number;
+  percent: number;
+}
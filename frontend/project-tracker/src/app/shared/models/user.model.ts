@@ -0,0 +1,29 @@
+/// <summary>
+/// Application-wide roles issued in the role claim of the access token
+/// (labels: admin.role_{role} translations)
+/// </summary>
+export const USER_ROLES = ['User', 'Admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+/// <summary>
+/// Registered user as listed in the admin area
+/// </summary>
+export interface UserAccount {
+  id: number;
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  fullName: string;
+  isActive: boolean;
+  role: UserRole;
+  createdAt: Date;
+}
+
+/// <summary>
+/// Request to change the role or status of a user (administrators only)
+/// </summary>
+export interface UpdateUserRequest {
+  role: UserRole;
+  isActive: boolean;
+}
@@ -0,0 +1,32 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { DecimalPipe } from '@angular/common';
+import { TranslationService } from '../services/translation.service';
+
+const UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/// <summary>
+/// Pipe for formatting a byte count as a human readable size in the current locale
+/// Usage: {{ attachment.sizeBytes | fileSize }}
+/// </summary>
+@Pipe({
+  name: 'fileSize',
+  pure: false
+})
+export class FileSizePipe implements PipeTransform {
+  private readonly translationService = inject(TranslationService);
+
+  transform(bytes: number | null | undefined): string | null {
+    if (bytes == null || !Number.isFinite(bytes)) return null;
+
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < UNITS.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+
+    const locale = this.translationService.currentLanguage();
+    const decimalPipe = new DecimalPipe(locale);
+    return `${decimalPipe.transform(value, unit === 0 ? '1.0-0' : '1.0-1')} ${UNITS[unit]}`;
+  }
+}
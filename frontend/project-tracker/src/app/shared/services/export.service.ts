@@ -1,122 +1,269 @@
-import { Injectable } from '@angular/core';
-import { Project } from '../models/project.model';
+import { Injectable, inject } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { Project, ProjectFilters } from '../models/project.model';
+import {
+  ExportOptions,
+  ProjectExportColumn,
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_DATE_FORMATS,
+  EXPORT_DELIMITERS,
+  PROJECT_EXPORT_COLUMNS,
+  SHORT_DATE_PATTERNS
+} from '../models/export.model';
+import { TranslationService } from './translation.service';
+import { LoggerService } from './logger.service';
+import { XlsxWriterService, XlsxColumn, XlsxSheet, XlsxCellValue, XLSX_MIME_TYPE } from './xlsx-writer.service';
 
 /// <summary>
 /// Service for exporting project data to CSV and Excel formats
+/// Columns, order, CSV delimiter, BOM and date format come from ExportOptions;
+/// headers are translated for the current culture
 /// </summary>
 @Injectable({
   providedIn: 'root'
 })
 export class ExportService {
+  private readonly xlsxWriter = inject(XlsxWriterService);
+  private readonly translationService = inject(TranslationService);
+  private readonly logger = inject(LoggerService);
+
+  private readonly STORAGE_KEY_OPTIONS = 'export-options';
+
   /// <summary>
   /// Export projects to CSV format
   /// CSV is widely compatible and suitable for data analysis
   /// </summary>
-  exportToCSV(projects: Project[], filename: string = 'projects.csv'): void {
-    const headers = ['ID', 'Title', 'Description', 'Status', 'Priority', 'Start Date', 'Due Date', 'Created At'];
-    const csvData = projects.map(p => [
-      p.id,
-      this.escapeCsvValue(p.title),
-      this.escapeCsvValue(p.description || ''),
-      p.status,
-      p.priority,
-      this.formatDate(p.startDate),
-      this.formatDate(p.dueDate),
-      this.formatDate(p.createdAt)
+  exportToCSV(
+    projects: Project[],
+    filename: string = 'projects.csv',
+    options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+  ): void {
+    const delimiter = EXPORT_DELIMITERS[options.delimiter];
+    const headers = options.columns.map(column => this.getColumnLabel(column));
+    const rows = projects.map(p =>
+      options.columns.map(column => this.formatCsvCell(p, column, options)));
+
+    const csvContent = [headers, ...rows]
+      .map(row => row.map(value => this.escapeCsvValue(value, delimiter)).join(delimiter))
+      .join('\r\n');
+
+    // The BOM lets Excel detect UTF-8 (accented characters) when opening the file directly
+    this.downloadFile(
+      options.includeBom ? '\uFEFF' + csvContent : csvContent,
+      filename,
+      'text/csv;charset=utf-8;'
+    );
+  }
+
+  /// <summary>
+  /// Export projects to Excel format (Office Open XML)
+  /// Dates and numbers are typed cells; the header row is frozen with autoFilter.
+  /// A second sheet lists the applied filters and the export timestamp
+  /// </summary>
+  exportToExcel(
+    projects: Project[],
+    filename: string = 'projects.xlsx',
+    filters: Partial<ProjectFilters> = {},
+    options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+  ): void {
+    const columns: XlsxColumn[] = options.columns.map(column => ({
+      header: this.getColumnLabel(column),
+      ...this.getXlsxColumnType(column)
+    }));
+    const rows = projects.map(p =>
+      options.columns.map(column => this.getXlsxCellValue(p, column)));
+
+    const workbook = this.xlsxWriter.createWorkbook([
+      { name: this.translationService.translate('projects.title'), columns, rows, autoFilter: true },
+      this.buildFiltersSheet(filters, projects.length)
     ]);
 
-    const csvContent = [
-      headers.join(','),
-      ...csvData.map(row => row.join(','))
-    ].join('\n');
+    this.downloadFile(workbook, filename, XLSX_MIME_TYPE);
+  }
+
+  /// <summary>
+  /// Last options used in the export dialog (falls back to defaults)
+  /// </summary>
+  getSavedOptions(): ExportOptions {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY_OPTIONS);
+      if (!stored) return DEFAULT_EXPORT_OPTIONS;
+
+      const parsed = JSON.parse(stored) as Partial<ExportOptions>;
+      const validColumns = PROJECT_EXPORT_COLUMNS.map(c => c.key);
+      const columns = (parsed.columns ?? []).filter(c => validColumns.includes(c));
 
-    this.downloadFile(csvContent, filename, 'text/csv;charset=utf-8;');
+      return {
+        columns: columns.length > 0 ? columns : DEFAULT_EXPORT_OPTIONS.columns,
+        delimiter: parsed.delimiter && parsed.delimiter in EXPORT_DELIMITERS
+          ? parsed.delimiter
+          : DEFAULT_EXPORT_OPTIONS.delimiter,
+        includeBom: parsed.includeBom ?? DEFAULT_EXPORT_OPTIONS.includeBom,
+        dateFormat: parsed.dateFormat && EXPORT_DATE_FORMATS.includes(parsed.dateFormat)
+          ? parsed.dateFormat
+          : DEFAULT_EXPORT_OPTIONS.dateFormat
+      };
+    } catch (error) {
+      this.logger.warning('Invalid stored export options, using defaults', error);
+      return DEFAULT_EXPORT_OPTIONS;
+    }
   }
 
   /// <summary>
-  /// Export projects to Excel format
-  /// Uses HTML table approach - suitable for basic Excel files
-  /// For production with complex formatting, consider using 'xlsx' or 'exceljs' libraries
+  /// Remember the options for the next export
   /// </summary>
-  exportToExcel(projects: Project[], filename: string = 'projects.xlsx'): void {
-    const headers = ['ID', 'Title', 'Description', 'Status', 'Priority', 'Start Date', 'Due Date', 'Created At'];
-    
-    let excelContent = `
-      <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel">
-        <head>
-          <meta charset="UTF-8">
-          <style>
-            table { border-collapse: collapse; width: 100%; }
-            th, td { border: 1px solid #999; padding: 8px; text-align: left; }
-            th { background-color: #0d6efd; color: white; font-weight: bold; }
-            tr:nth-child(even) { background-color: #f8f9fa; }
-          </style>
-        </head>
-        <body>
-          <table>
-            <thead>
-              <tr>${headers.map(h => `<th>${this.escapeHtml(h)}</th>`).join('')}</tr>
-            </thead>
-            <tbody>
-    `;
-
-    projects.forEach(p => {
-      excelContent += `
-        <tr>
-          <td>${p.id}</td>
-          <td>${this.escapeHtml(p.title)}</td>
-          <td>${this.escapeHtml(p.description || '')}</td>
-          <td>${p.status}</td>
-          <td>${p.priority}</td>
-          <td>${this.formatDate(p.startDate)}</td>
-          <td>${this.formatDate(p.dueDate)}</td>
-          <td>${this.formatDate(p.createdAt)}</td>
-        </tr>
-      `;
-    });
-
-    excelContent += `
-            </tbody>
-          </table>
-        </body>
-      </html>
-    `;
-
-    this.downloadFile(excelContent, filename, 'application/vnd.ms-excel');
+  saveOptions(options: ExportOptions): void {
+    localStorage.setItem(this.STORAGE_KEY_OPTIONS, JSON.stringify(options));
+  }
+
+  /// <summary>
+  /// Translated header for a column
+  /// </summary>
+  getColumnLabel(column: ProjectExportColumn): string {
+    const labelKey = PROJECT_EXPORT_COLUMNS.find(c => c.key === column)?.labelKey ?? column;
+    return this.translationService.translate(labelKey);
+  }
+
+  /// <summary>
+  /// Text value of a project field for CSV
+  /// </summary>
+  private formatCsvCell(project: Project, column: ProjectExportColumn, options: ExportOptions): string {
+    switch (column) {
+      case 'startDate':
+      case 'dueDate':
+        return this.formatDate(project[column], options.dateFormat);
+      case 'createdAt':
+      case 'updatedAt':
+        return this.formatDate(project[column], options.dateFormat, true);
+      default:
+        return String(project[column] ?? '');
+    }
+  }
+
+  /// <summary>
+  /// Typed value of a project field for XLSX
+  /// </summary>
+  private getXlsxCellValue(project: Project, column: ProjectExportColumn): XlsxCellValue {
+    switch (column) {
+      case 'startDate':
+      case 'dueDate':
+      case 'createdAt':
+      case 'updatedAt':
+        return this.toDate(project[column]);
+      default:
+        return project[column];
+    }
+  }
+
+  private getXlsxColumnType(column: ProjectExportColumn): Omit<XlsxColumn, 'header'> {
+    switch (column) {
+      case 'id':
+      case 'priority':
+        return { type: 'number' };
+      case 'description':
+        return { width: 50 };
+      case 'startDate':
+      case 'dueDate':
+        return { type: 'date' };
+      case 'createdAt':
+      case 'updatedAt':
+        return { type: 'datetime' };
+      default:
+        return {};
+    }
+  }
+
+  /// <summary>
+  /// Sheet describing how the export was produced (timestamp, row count, active filters)
+  /// </summary>
+  private buildFiltersSheet(filters: Partial<ProjectFilters>, rowCount: number): XlsxSheet {
+    const t = (key: string) => this.translationService.translate(key);
+    const rows: XlsxCellValue[][] = [
+      [t('projects.exportedAt'), new Date()],
+      [t('projects.exportRowCount'), rowCount]
+    ];
+
+    const labels: [keyof ProjectFilters, string][] = [
+      ['searchTerm', 'common.search'],
+      ['status', 'projects.status'],
+      ['priorityMin', 'projects.priorityMin'],
+      ['priorityMax', 'projects.priorityMax'],
+      ['startDateFrom', 'projects.startDateFrom'],
+      ['startDateTo', 'projects.startDateTo'],
+      ['dueDateFrom', 'projects.dueDateFrom'],
+      ['dueDateTo', 'projects.dueDateTo'],
+      ['sortBy', 'projects.sortBy'],
+      ['sortDirection', 'projects.sortDirection']
+    ];
+
+    for (const [key, labelKey] of labels) {
+      const value = filters[key];
+      if (value === undefined || value === null || value === '') continue;
+      if (Array.isArray(value)) {
+        if (value.length > 0) rows.push([t(labelKey), value.join(', ')]);
+      } else {
+        rows.push([t(labelKey), value]);
+      }
+    }
+
+    return {
+      name: t('common.filters'),
+      columns: [{ header: t('common.filter'), width: 24 }, { header: t('common.value'), type: 'datetime', width: 30 }],
+      rows
+    };
+  }
+
+  /// <summary>
+  /// Save a file produced by the server (e.g. streamed export)
+  /// </summary>
+  saveBlob(blob: Blob, filename: string): void {
+    this.downloadFile(blob, filename, blob.type);
   }
 
   /// <summary>
-  /// Escape CSV special characters (comma, quote, newline)
+  /// Quote values containing the delimiter, quotes or line breaks
+  /// Values Excel would run as a formula (=, +, -, @, tab, CR) are prefixed with '
   /// </summary>
-  private escapeCsvValue(value: string): string {
-    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+  private escapeCsvValue(value: string, delimiter: string): string {
+    if (/^[=+\-@\t\r]/.test(value)) {
+      value = `'${value}`;
+    }
+    if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
       return `"${value.replace(/"/g, '""')}"`;
     }
     return value;
   }
 
   /// <summary>
-  /// Escape HTML special characters
+  /// Format a date with the chosen pattern ('shortDate' uses the pattern of the current culture)
   /// </summary>
-  private escapeHtml(value: string): string {
-    const div = document.createElement('div');
-    div.textContent = value;
-    return div.innerHTML;
+  private formatDate(date: Date | string | null | undefined, format: string, includeTime = false): string {
+    const d = this.toDate(date);
+    if (!d) return '';
+
+    const locale = this.translationService.currentLanguage();
+    const pattern = format === 'shortDate' ? SHORT_DATE_PATTERNS[locale] ?? 'yyyy-MM-dd' : format;
+    const text = formatDate(d, pattern, locale);
+    return includeTime ? `${text} ${formatDate(d, 'HH:mm', locale)}` : text;
   }
 
   /// <summary>
-  /// Format date to locale string (MM/DD/YYYY)
+  /// Parse an API date value; date-only strings are read as local dates
   /// </summary>
-  private formatDate(date: Date | null | undefined): string {
-    if (!date) return '';
+  private toDate(date: Date | string | null | undefined): Date | null {
+    if (!date) return null;
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      const [year, month, day] = date.split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }
     const d = new Date(date);
-    return d.toLocaleDateString('en-US');
+    return isNaN(d.getTime()) ? null : d;
   }
 
   /// <summary>
   /// Download file to user's computer using blob and link
   /// </summary>
-  private downloadFile(content: string, filename: string, mimeType: string): void {
+  private downloadFile(content: BlobPart, filename: string, mimeType: string): void {
     const blob = new Blob([content], { type: mimeType });
     const link = document.createElement('a');
     
@@ -0,0 +1,60 @@
+import { Injectable, inject } from '@angular/core';
+import { LoggerService } from './logger.service';
+
+/// <summary>
+/// Form values saved locally, with the time they were saved
+/// </summary>
+export interface FormDraft<T> {
+  value: T;
+  savedAt: string;
+}
+
+/// <summary>
+/// Keeps unsaved form drafts in localStorage so they survive navigation, reloads and logouts
+/// Keys are chosen by the form (e.g. the edited record id or "new")
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class FormDraftService {
+  private readonly logger = inject(LoggerService);
+  private readonly STORAGE_PREFIX = 'formDraft:';
+
+  /// <summary>
+  /// Save a draft, replacing the previous one under the same key
+  /// </summary>
+  save<T>(key: string, value: T): FormDraft<T> {
+    const draft: FormDraft<T> = { value, savedAt: new Date().toISOString() };
+    try {
+      localStorage.setItem(this.STORAGE_PREFIX + key, JSON.stringify(draft));
+    } catch (error) {
+      // Storage full or unavailable: the form keeps working without drafts
+      this.logger.warning('Could not save form draft', { key, error });
+    }
+    return draft;
+  }
+
+  /// <summary>
+  /// Saved draft for a key, or null (unreadable drafts are removed)
+  /// </summary>
+  load<T>(key: string): FormDraft<T> | null {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_PREFIX + key);
+      if (!stored) return null;
+
+      const draft = JSON.parse(stored) as FormDraft<T>;
+      return draft?.savedAt && draft.value ? draft : null;
+    } catch (error) {
+      this.logger.warning('Invalid stored form draft, discarding it', { key, error });
+      this.clear(key);
+      return null;
+    }
+  }
+
+  /// <summary>
+  /// Remove the draft of a key
+  /// </summary>
+  clear(key: string): void {
+    localStorage.removeItem(this.STORAGE_PREFIX + key);
+  }
+}
@@ -0,0 +1,132 @@
+import { Injectable, inject } from '@angular/core';
+import { ActivatedRoute, ParamMap, Params, Router } from '@angular/router';
+import { Observable, distinctUntilChanged, map } from 'rxjs';
+import { PaginationParams } from '../models/project.model';
+
+/// <summary>
+/// How a list state value is serialized to/from a query parameter
+/// </summary>
+export type ListStateParamType = 'string' | 'number' | 'string[]' | 'number[]';
+
+/// <summary>
+/// Describes the query parameter type of every key of a list state object
+/// </summary>
+export type ListStateSchema<T> = { [K in keyof T]-?: ListStateParamType };
+
+/// <summary>
+/// Schema for the pagination, sorting and search keys shared by all list pages
+/// </summary>
+export const PAGINATION_STATE_SCHEMA: ListStateSchema<PaginationParams> = {
+  pageNumber: 'number',
+  pageSize: 'number',
+  searchTerm: 'string',
+  sortBy: 'string',
+  sortDirection: 'string'
+};
+
+/// <summary>
+/// Keeps list page state (pagination, sort, search and filters) in the router URL
+/// so refresh, back/forward and shared links restore the same view.
+/// Provide it at component level: providers: [ListStateService]
+/// </summary>
+@Injectable()
+export class ListStateService {
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+
+  /// <summary>
+  /// Emit the list state parsed from the URL on subscribe and on every query param change
+  /// Missing or invalid values fall back to the defaults
+  /// </summary>
+  watch<T extends PaginationParams>(defaults: T, schema: ListStateSchema<T>): Observable<T> {
+    return this.route.queryParamMap.pipe(
+      map(params => this.parse(params, defaults, schema)),
+      distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b))
+    );
+  }
+
+  /// <summary>
+  /// Check whether the current URL carries any list state
+  /// Used to decide if a default view may be applied on first visit
+  /// </summary>
+  hasState<T extends PaginationParams>(schema: ListStateSchema<T>): boolean {
+    const params = this.route.snapshot.queryParamMap;
+    return Object.keys(schema).some(key => params.has(key));
+  }
+
+  /// <summary>
+  /// Write the list state to the URL
+  /// Empty values and values equal to the defaults are removed to keep links short
+  /// Resolves when the navigation is done (watch has emitted by then if the state changed)
+  /// </summary>
+  update<T extends PaginationParams>(
+    state: T,
+    defaults: T,
+    schema: ListStateSchema<T>,
+    options: { replaceUrl?: boolean } = {}
+  ): Promise<boolean> {
+    const queryParams: Params = {};
+
+    for (const key of Object.keys(schema) as (keyof T & string)[]) {
+      const value = this.serialize(state[key]);
+      const defaultValue = this.serialize(defaults[key]);
+      queryParams[key] = value === null || JSON.stringify(value) === JSON.stringify(defaultValue)
+        ? null
+        : value;
+    }
+
+    return this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      queryParamsHandling: 'merge',
+      replaceUrl: options.replaceUrl ?? false
+    });
+  }
+
+  /// <summary>
+  /// Parse query params into a typed state object
+  /// </summary>
+  private parse<T extends PaginationParams>(params: ParamMap, defaults: T, schema: ListStateSchema<T>): T {
+    const state = { ...defaults } as Record<string, unknown>;
+
+    for (const [key, type] of Object.entries(schema) as [string, ListStateParamType][]) {
+      if (!params.has(key)) continue;
+
+      switch (type) {
+        case 'number': {
+          const value = Number(params.get(key));
+          if (Number.isFinite(value)) {
+            state[key] = value;
+          }
+          break;
+        }
+        case 'string[]':
+          state[key] = params.getAll(key).filter(v => v !== '');
+          break;
+        case 'number[]':
+          state[key] = params.getAll(key).filter(v => v !== '').map(Number).filter(Number.isFinite);
+          break;
+        default:
+          state[key] = params.get(key) || undefined;
+      }
+    }
+
+    // Guard values that would break paging or sorting
+    if ((state['pageNumber'] as number) < 1) state['pageNumber'] = defaults.pageNumber;
+    if ((state['pageSize'] as number) < 1) state['pageSize'] = defaults.pageSize;
+    if (state['sortDirection'] !== 'asc' && state['sortDirection'] !== 'desc') {
+      state['sortDirection'] = defaults.sortDirection;
+    }
+
+    return state as T;
+  }
+
+  /// <summary>
+  /// Convert a state value to its query param representation (null = omit)
+  /// </summary>
+  private serialize(value: unknown): string | string[] | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (Array.isArray(value)) return value.length > 0 ? value.map(v => String(v)) : null;
+    return String(value);
+  }
+}
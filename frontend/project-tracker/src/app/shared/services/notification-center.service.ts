@@ -0,0 +1,125 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { Observable, tap, catchError } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { LoggerService } from './logger.service';
+import { SKIP_ERROR_NOTIFICATION } from '../../core/interceptors/error.http-interceptor';
+import { NotificationList, NotificationPreferences, UserNotification } from '../models/notification.model';
+
+/// <summary>
+/// Service for the persistent notification center (unlike NotificationService, which shows toasts)
+/// Notifications are generated by the server; the navbar bell polls loadNotifications
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationCenterService {
+  private readonly http = inject(HttpClient);
+  private readonly logger = inject(LoggerService);
+  private readonly apiUrl = `${environment.apiUrl}/notifications`;
+
+  // Latest notifications kept in the list shared by the bell and the notifications page
+  private readonly maxNotifications = 50;
+
+  // State signals
+  private readonly notifications = signal<UserNotification[]>([]);
+  private readonly unreadCount = signal(0);
+  private readonly loading = signal(false);
+
+  /// <summary>
+  /// Load the latest notifications and the unread count
+  /// Background loads (polling) show no error notification when they fail
+  /// </summary>
+  loadNotifications(background = false): Observable<NotificationList> {
+    this.loading.set(true);
+    const params = new HttpParams().set('take', this.maxNotifications);
+    const context = new HttpContext().set(SKIP_ERROR_NOTIFICATION, background);
+
+    return this.http.get<NotificationList>(this.apiUrl, { params, context }).pipe(
+      tap(list => {
+        this.notifications.set(list.items);
+        this.unreadCount.set(list.unreadCount);
+        this.loading.set(false);
+      }),
+      catchError(error => {
+        this.loading.set(false);
+        this.logger.error('Error loading notifications', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Mark a notification as read
+  /// </summary>
+  markAsRead(id: number): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/${id}/read`, {}).pipe(
+      tap(() => {
+        const wasUnread = this.notifications().some(n => n.id === id && !n.isRead);
+        this.notifications.update(list => list.map(n => n.id === id ? { ...n, isRead: true } : n));
+        if (wasUnread) {
+          this.unreadCount.update(count => Math.max(count - 1, 0));
+        }
+      }),
+      catchError(error => {
+        this.logger.error('Error marking notification as read', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Mark every notification as read
+  /// </summary>
+  markAllAsRead(): Observable<void> {
+    return this.http.post<void>(`${this.apiUrl}/read-all`, {}).pipe(
+      tap(() => {
+        this.notifications.update(list => list.map(n => ({ ...n, isRead: true })));
+        this.unreadCount.set(0);
+      }),
+      catchError(error => {
+        this.logger.error('Error marking all notifications as read', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Get the notification types the user receives
+  /// </summary>
+  getPreferences(): Observable<NotificationPreferences> {
+    return this.http.get<NotificationPreferences>(`${this.apiUrl}/preferences`).pipe(
+      catchError(error => {
+        this.logger.error('Error loading notification preferences', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Choose the notification types the user receives
+  /// </summary>
+  updatePreferences(preferences: NotificationPreferences): Observable<NotificationPreferences> {
+    return this.http.put<NotificationPreferences>(`${this.apiUrl}/preferences`, preferences).pipe(
+      catchError(error => {
+        this.logger.error('Error saving notification preferences', error);
+        throw error;
+      })
+    );
+  }
+
+  /// <summary>
+  /// Read-only signal accessors for template binding
+  /// </summary>
+  getNotificationsSignal() {
+    return this.notifications.asReadonly();
+  }
+
+  getUnreadCountSignal() {
+    return this.unreadCount.asReadonly();
+  }
+
+  getLoadingSignal() {
+    return this.loading.asReadonly();
+  }
+}
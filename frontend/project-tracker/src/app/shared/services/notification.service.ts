@@ -5,6 +5,14 @@ import { Injectable, signal } from '@angular/core';
 /// </summary>
 export type NotificationType = 'success' | 'error' | 'warning' | 'info';
 
+/// <summary>
+/// Button shown in a toast (e.g. Undo); the toast closes when it is clicked
+/// </summary>
+export interface ToastAction {
+  label: string;
+  callback: () => void;
+}
+
 /// <summary>
 /// Toast notification model
 /// </summary>
@@ -14,6 +22,7 @@ export interface Toast {
   title: string;
   message: string;
   duration: number;
+  action?: ToastAction;
 }
 
 /// <summary>
@@ -37,41 +46,42 @@ export class NotificationService {
   /// <summary>
   /// Show success notification
   /// </summary>
-  success(title: string, message: string, duration: number = 3000): void {
-    this.show('success', title, message, duration);
+  success(title: string, message: string, duration: number = 3000, action?: ToastAction): void {
+    this.show('success', title, message, duration, action);
   }
 
   /// <summary>
   /// Show error notification
   /// </summary>
-  error(title: string, message: string, duration: number = 5000): void {
-    this.show('error', title, message, duration);
+  error(title: string, message: string, duration: number = 5000, action?: ToastAction): void {
+    this.show('error', title, message, duration, action);
   }
 
   /// <summary>
   /// Show warning notification
   /// </summary>
-  warning(title: string, message: string, duration: number = 4000): void {
-    this.show('warning', title, message, duration);
+  warning(title: string, message: string, duration: number = 4000, action?: ToastAction): void {
+    this.show('warning', title, message, duration, action);
   }
 
   /// <summary>
   /// Show info notification
   /// </summary>
-  info(title: string, message: string, duration: number = 3000): void {
-    this.show('info', title, message, duration);
+  info(title: string, message: string, duration: number = 3000, action?: ToastAction): void {
+    this.show('info', title, message, duration, action);
   }
 
   /// <summary>
   /// Show notification
   /// </summary>
-  private show(type: NotificationType, title: string, message: string, duration: number): void {
+  private show(type: NotificationType, title: string, message: string, duration: number, action?: ToastAction): void {
     const toast: Toast = {
       id: this.nextId++,
       type,
       title,
       message,
-      duration
+      duration,
+      action
     };
 
     this.toasts.update(toasts => [...toasts, toast]);
@@ -89,6 +99,14 @@ export class NotificationService {
     this.toasts.update(toasts => toasts.filter(t => t.id !== id));
   }
 
+  /// <summary>
+  /// Run the action of a toast and close it
+  /// </summary>
+  runAction(toast: Toast): void {
+    this.remove(toast.id);
+    toast.action?.callback();
+  }
+
   /// <summary>
   /// Clear all notifications
   /// </summary>
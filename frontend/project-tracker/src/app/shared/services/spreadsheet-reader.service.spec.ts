@@ -0,0 +1,71 @@
+import { TestBed } from '@angular/core/testing';
+import { SpreadsheetReaderService } from './spreadsheet-reader.service';
+import { XlsxWriterService } from './xlsx-writer.service';
+
+describe('SpreadsheetReaderService', () => {
+  let reader: SpreadsheetReaderService;
+  let writer: XlsxWriterService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    reader = TestBed.inject(SpreadsheetReaderService);
+    writer = TestBed.inject(XlsxWriterService);
+  });
+
+  it('should read back a workbook created by XlsxWriterService', async () => {
+    const workbook = writer.createWorkbook([{
+      name: 'Projects',
+      columns: [
+        { header: 'Title' },
+        { header: 'Priority', type: 'number' },
+        { header: 'Start date', type: 'date' },
+        { header: 'Updated', type: 'datetime' }
+      ],
+      rows: [
+        ['Alpha & <Beta> "quoted"', 3, new Date(2024, 0, 15), new Date(2024, 0, 15, 12, 0)],
+        ['  padded  ', 1.5, null, undefined]
+      ]
+    }]);
+
+    const table = await reader.read(new File([workbook], 'projects.xlsx'));
+
+    expect(table.headers).toEqual(['Title', 'Priority', 'Start date', 'Updated']);
+    expect(table.rows.map(row => row.rowNumber)).toEqual([2, 3]);
+    // Dates come back as Excel serial numbers (2024-01-15 = 45306)
+    expect(table.rows[0].cells).toEqual(['Alpha & <Beta> "quoted"', 3, 45306, 45306.5]);
+    expect(table.rows[1].cells).toEqual(['  padded  ', 1.5]);
+  });
+
+  it('should read only the first sheet', async () => {
+    const workbook = writer.createWorkbook([
+      { name: 'First', columns: [{ header: 'A' }], rows: [['first']] },
+      { name: 'Second', columns: [{ header: 'B' }], rows: [['second']] }
+    ]);
+
+    const table = await reader.read(new File([workbook], 'projects.xlsx'));
+
+    expect(table.headers).toEqual(['A']);
+    expect(table.rows[0].cells).toEqual(['first']);
+  });
+
+  it('should parse quoted CSV fields and detect the delimiter', () => {
+    const rows = reader.parseCsv('\uFEFFTitle;Description\r\n"A;B";"Line 1\nLine ""2"""\r\n');
+
+    expect(rows).toEqual([
+      ['Title', 'Description'],
+      ['A;B', 'Line 1\nLine "2"']
+    ]);
+  });
+
+  it('should skip empty rows and keep source row numbers', async () => {
+    const file = new File(['Title,Priority\n\nAlpha,2\n,\nBeta,4'], 'projects.csv');
+
+    const table = await reader.read(file);
+
+    expect(table.headers).toEqual(['Title', 'Priority']);
+    expect(table.rows).toEqual([
+      { rowNumber: 3, cells: ['Alpha', '2'] },
+      { rowNumber: 5, cells: ['Beta', '4'] }
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+import { Injectable } from '@angular/core';
+
+/// <summary>
+/// Raw cell value read from a file
+/// XLSX numbers (including date serials) stay numbers; CSV cells are always strings
+/// </summary>
+export type SpreadsheetCell = string | number | null;
+
+/// <summary>
+/// Data row with its 1-based row number in the source file
+/// </summary>
+export interface SpreadsheetRow {
+  rowNumber: number;
+  cells: SpreadsheetCell[];
+}
+
+/// <summary>
+/// First non-empty row of the file as headers, remaining non-empty rows as data
+/// </summary>
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+/// <summary>
+/// Reads CSV and XLSX files in the browser without third-party libraries
+/// XLSX parts are inflated with the native DecompressionStream API
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class SpreadsheetReaderService {
+  private readonly decoder = new TextDecoder('utf-8');
+
+  /// <summary>
+  /// Read a .csv or .xlsx file (chosen by extension)
+  /// Rejects when the file cannot be parsed
+  /// </summary>
+  async read(file: File): Promise<SpreadsheetTable> {
+    const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
+    const rows = isXlsx
+      ? await this.readXlsx(new Uint8Array(await file.arrayBuffer()))
+      : this.parseCsv(await file.text());
+
+    const [header, ...dataRows] = rows
+      .map((cells, index) => ({ rowNumber: index + 1, cells }))
+      .filter(row => row.cells.some(cell => cell !== null && String(cell).trim() !== ''));
+
+    return {
+      headers: (header?.cells ?? []).map(cell => String(cell ?? '').trim()),
+      rows: dataRows
+    };
+  }
+
+  /// <summary>
+  /// Parse CSV text (RFC 4180 quoting); the delimiter is detected from the header line
+  /// </summary>
+  parseCsv(text: string): SpreadsheetCell[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const delimiter = this.detectDelimiter(content);
+    const rows: SpreadsheetCell[][] = [];
+    let row: SpreadsheetCell[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /// <summary>
+  /// Pick the most frequent of comma, semicolon and tab in the first line (outside quotes)
+  /// </summary>
+  private detectDelimiter(content: string): string {
+    const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+    let inQuotes = false;
+
+    for (const char of content) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && (char === '\n' || char === '\r')) break;
+      else if (!inQuotes && char in counts) counts[char]++;
+    }
+
+    return Object.entries(counts).reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+  }
+
+  /// <summary>
+  /// Read the first worksheet of an XLSX workbook
+  /// </summary>
+  private async readXlsx(data: Uint8Array): Promise<SpreadsheetCell[][]> {
+    const entries = this.readZipEntries(data);
+    const readText = async (path: string) => {
+      const entry = entries.get(path);
+      return entry ? this.decoder.decode(await entry()) : null;
+    };
+
+    const sheetPath = await this.findFirstSheetPath(readText);
+    const sheetXml = await readText(sheetPath);
+    if (!sheetXml) {
+      throw new Error('Worksheet not found');
+    }
+
+    const sharedStringsXml = await readText('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXml
+      ? Array.from(this.parseXml(sharedStringsXml).getElementsByTagNameNS('*', 'si'), si => this.textContent(si))
+      : [];
+
+    const rows: SpreadsheetCell[][] = [];
+    for (const rowElement of Array.from(this.parseXml(sheetXml).getElementsByTagNameNS('*', 'row'))) {
+      const rowIndex = Number(rowElement.getAttribute('r') ?? rows.length + 1) - 1;
+      const row: SpreadsheetCell[] = [];
+
+      for (const cell of Array.from(rowElement.getElementsByTagNameNS('*', 'c'))) {
+        const columnIndex = this.columnIndex(cell.getAttribute('r')) ?? row.length;
+        row[columnIndex] = this.readCell(cell, sharedStrings);
+      }
+
+      rows[rowIndex] = Array.from(row, cell => cell ?? null);
+    }
+
+    return Array.from(rows, row => row ?? []);
+  }
+
+  /// <summary>
+  /// Resolve the first sheet of the workbook through its relationship
+  /// </summary>
+  private async findFirstSheetPath(readText: (path: string) => Promise<string | null>): Promise<string> {
+    const fallback = 'xl/worksheets/sheet1.xml';
+    const workbookXml = await readText('xl/workbook.xml');
+    const relsXml = await readText('xl/_rels/workbook.xml.rels');
+    if (!workbookXml || !relsXml) return fallback;
+
+    const firstSheet = this.parseXml(workbookXml).getElementsByTagNameNS('*', 'sheet')[0];
+    const relationId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const relation = Array.from(this.parseXml(relsXml).getElementsByTagNameNS('*', 'Relationship'))
+      .find(r => r.getAttribute('Id') === relationId);
+    const target = relation?.getAttribute('Target');
+    if (!target) return fallback;
+
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  private readCell(cell: Element, sharedStrings: string[]): SpreadsheetCell {
+    const type = cell.getAttribute('t');
+    const value = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent ?? null;
+
+    switch (type) {
+      case 's':
+        return value === null ? null : sharedStrings[Number(value)] ?? null;
+      case 'inlineStr':
+        return this.textContent(cell);
+      case 'str':
+      case 'e':
+        return value;
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE';
+      default:
+        return value === null || value === '' ? null : Number(value);
+    }
+  }
+
+  /// <summary>
+  /// Concatenate all text runs (<t>) of a string item
+  /// </summary>
+  private textContent(element: Element): string {
+    return Array.from(element.getElementsByTagNameNS('*', 't'), t => t.textContent ?? '').join('');
+  }
+
+  /// <summary>
+  /// Column letters of a cell reference to zero-based index (B3 = 1)
+  /// </summary>
+  private columnIndex(reference: string | null): number | null {
+    const letters = reference?.match(/^[A-Z]+/)?.[0];
+    if (!letters) return null;
+    return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  }
+
+  private parseXml(xml: string): Document {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid XML in workbook');
+    }
+    return document;
+  }
+
+  /// <summary>
+  /// Index the ZIP central directory; each entry is inflated lazily on read
+  /// </summary>
+  private readZipEntries(data: Uint8Array): Map<string, () => Promise<Uint8Array>> {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const entries = new Map<string, () => Promise<Uint8Array>>();
+
+    // End of central directory record (scan backwards past an optional comment)
+    let eocd = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+      if (view.getUint32(i, true) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('Not a valid XLSX (ZIP) file');
+    }
+
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const name = this.decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+      entries.set(name, () => {
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const start = localOffset + 30 + localNameLength + localExtraLength;
+        const compressed = data.slice(start, start + compressedSize);
+        return method === 0 ? Promise.resolve(compressed) : this.inflate(compressed);
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  private async inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+}
@@ -0,0 +1,82 @@
+import { TestBed } from '@angular/core/testing';
+import { XlsxWriterService, XLSX_MIME_TYPE } from './xlsx-writer.service';
+
+describe('XlsxWriterService', () => {
+  let writer: XlsxWriterService;
+
+  // Parts are stored uncompressed, so the package can be inspected as text
+  const packageText = (blob: Blob) => blob.text();
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    writer = TestBed.inject(XlsxWriterService);
+  });
+
+  it('should create a ZIP package with the XLSX mime type', async () => {
+    const workbook = writer.createWorkbook([{ name: 'Projects', columns: [{ header: 'Title' }], rows: [] }]);
+    const bytes = new Uint8Array(await workbook.arrayBuffer());
+
+    expect(workbook.type).toBe(XLSX_MIME_TYPE);
+    // Local file header signature "PK\x03\x04"
+    expect(Array.from(bytes.subarray(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+
+  it('should escape strings and drop control characters', async () => {
+    const workbook = writer.createWorkbook([{
+      name: 'Projects',
+      columns: [{ header: 'Title' }],
+      rows: [['A & B <c> "d"\u0001']]
+    }]);
+
+    const text = await packageText(workbook);
+
+    expect(text).toContain('<t>A &amp; B &lt;c&gt; &quot;d&quot;</t>');
+  });
+
+  it('should write dates as styled serial numbers and skip empty cells', async () => {
+    const workbook = writer.createWorkbook([{
+      name: 'Projects',
+      columns: [
+        { header: 'Start', type: 'date' },
+        { header: 'Updated', type: 'datetime' },
+        { header: 'Priority', type: 'number' }
+      ],
+      rows: [[new Date(2024, 0, 15, 18, 30), new Date(2024, 0, 15, 18, 0), null]]
+    }]);
+
+    const text = await packageText(workbook);
+
+    expect(text).toContain('<c r="A2" s="2"><v>45306</v></c>');
+    expect(text).toContain('<c r="B2" s="3"><v>45306.75</v></c>');
+    expect(text).not.toContain('r="C2"');
+  });
+
+  it('should freeze the header and add the autoFilter range', async () => {
+    const workbook = writer.createWorkbook([{
+      name: 'Projects',
+      columns: [{ header: 'Title' }, { header: 'Status' }],
+      rows: [['Alpha', 'Active'], ['Beta', 'OnHold']],
+      autoFilter: true
+    }]);
+
+    const text = await packageText(workbook);
+
+    expect(text).toContain('state="frozen"');
+    expect(text).toContain('<autoFilter ref="A1:B3"/>');
+    expect(text).toContain('_xlnm._FilterDatabase');
+  });
+
+  it('should sanitize and deduplicate sheet names', async () => {
+    const workbook = writer.createWorkbook([
+      { name: 'Q1/Q2', columns: [], rows: [] },
+      { name: 'q1 q2', columns: [], rows: [] },
+      { name: '', columns: [], rows: [] }
+    ]);
+
+    const text = await packageText(workbook);
+
+    expect(text).toContain('<sheet name="Q1 Q2" sheetId="1"');
+    expect(text).toContain('<sheet name="q1 q2-2" sheetId="2"');
+    expect(text).toContain('<sheet name="Sheet3" sheetId="3"');
+  });
+});
@@ -0,0 +1,397 @@
+import { Injectable } from '@angular/core';
+
+/// <summary>
+/// Cell value written to a worksheet
+/// Numbers and dates become typed cells, everything else an inline string
+/// </summary>
+export type XlsxCellValue = string | number | Date | null | undefined;
+
+/// <summary>
+/// Column definition: header text, value type and optional fixed width (in characters)
+/// </summary>
+export interface XlsxColumn {
+  header: string;
+  type?: 'string' | 'number' | 'date' | 'datetime';
+  width?: number;
+}
+
+/// <summary>
+/// Worksheet definition
+/// The header row is bold and frozen; autoFilter adds filter buttons to it
+/// </summary>
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+  autoFilter?: boolean;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Cell style indexes into cellXfs (see buildStyles)
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATETIME = 3;
+
+// Excel serial date epoch (1899-12-30, accounts for the 1900 leap year bug)
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+/// <summary>
+/// Builds Office Open XML (.xlsx) workbooks in the browser without third-party libraries
+/// Parts are written as XML and packed in an uncompressed ZIP container
+/// </summary>
+@Injectable({
+  providedIn: 'root'
+})
+export class XlsxWriterService {
+  private readonly encoder = new TextEncoder();
+  private crcTable: Uint32Array | null = null;
+
+  /// <summary>
+  /// Create a workbook containing the given sheets
+  /// </summary>
+  createWorkbook(sheets: XlsxSheet[]): Blob {
+    const sheetNames = this.uniqueSheetNames(sheets.map(s => s.name));
+
+    const files: { path: string; content: string }[] = [
+      { path: '[Content_Types].xml', content: this.buildContentTypes(sheets.length) },
+      { path: '_rels/.rels', content: this.buildRootRels() },
+      { path: 'xl/workbook.xml', content: this.buildWorkbook(sheets, sheetNames) },
+      { path: 'xl/_rels/workbook.xml.rels', content: this.buildWorkbookRels(sheets.length) },
+      { path: 'xl/styles.xml', content: this.buildStyles() },
+      ...sheets.map((sheet, i) => ({
+        path: `xl/worksheets/sheet${i + 1}.xml`,
+        content: this.buildWorksheet(sheet)
+      }))
+    ];
+
+    return new Blob([this.zip(files)], { type: XLSX_MIME_TYPE });
+  }
+
+  /// <summary>
+  /// Worksheet XML: frozen header, column widths, typed cells and optional autoFilter
+  /// </summary>
+  private buildWorksheet(sheet: XlsxSheet): string {
+    const lastColumn = this.columnName(Math.max(sheet.columns.length, 1) - 1);
+    const lastRow = sheet.rows.length + 1;
+
+    const header = `<row r="1">${sheet.columns.map((col, c) =>
+      this.stringCell(`${this.columnName(c)}1`, col.header, STYLE_HEADER)).join('')}</row>`;
+
+    const rows = sheet.rows.map((row, r) => {
+      const rowNumber = r + 2;
+      const cells = sheet.columns.map((col, c) =>
+        this.buildCell(`${this.columnName(c)}${rowNumber}`, row[c], col)).join('');
+      return `<row r="${rowNumber}">${cells}</row>`;
+    }).join('');
+
+    const cols = sheet.columns.map((col, c) =>
+      `<col min="${c + 1}" max="${c + 1}" width="${this.columnWidth(sheet, c)}" customWidth="1"/>`).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+      + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + `<dimension ref="A1:${lastColumn}${lastRow}"/>`
+      + '<sheetViews><sheetView workbookViewId="0">'
+      + '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+      + '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>'
+      + '</sheetView></sheetViews>'
+      + '<sheetFormatPr defaultRowHeight="15"/>'
+      + (cols ? `<cols>${cols}</cols>` : '')
+      + `<sheetData>${header}${rows}</sheetData>`
+      + (sheet.autoFilter ? `<autoFilter ref="A1:${lastColumn}${lastRow}"/>` : '')
+      + '<pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/>'
+      + '</worksheet>';
+  }
+
+  /// <summary>
+  /// Single cell XML; empty values produce no cell
+  /// </summary>
+  private buildCell(ref: string, value: XlsxCellValue, column: XlsxColumn): string {
+    if (value === null || value === undefined || value === '') return '';
+
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) return '';
+      const style = column.type === 'datetime' ? STYLE_DATETIME : STYLE_DATE;
+      return `<c r="${ref}" s="${style}"><v>${this.toExcelSerial(value, column.type === 'datetime')}</v></c>`;
+    }
+
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+    }
+
+    return this.stringCell(ref, value);
+  }
+
+  private stringCell(ref: string, value: string, style?: number): string {
+    const styleAttr = style ? ` s="${style}"` : '';
+    const space = value.trim() !== value ? ' xml:space="preserve"' : '';
+    return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t${space}>${this.escapeXml(value)}</t></is></c>`;
+  }
+
+  /// <summary>
+  /// Convert a date to an Excel serial number using its local wall-clock time
+  /// (date-only cells drop the time part)
+  /// </summary>
+  private toExcelSerial(date: Date, includeTime: boolean): number {
+    const utc = includeTime
+      ? Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds())
+      : Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+    return (utc - EXCEL_EPOCH_UTC) / MS_PER_DAY;
+  }
+
+  /// <summary>
+  /// Column width: explicit width, or fitted to the longest header/value
+  /// </summary>
+  private columnWidth(sheet: XlsxSheet, index: number): number {
+    const column = sheet.columns[index];
+    if (column.width) return column.width;
+
+    if (column.type === 'date') return 12;
+    if (column.type === 'datetime') return 20;
+
+    const longest = sheet.rows.reduce((max, row) => {
+      const value = row[index];
+      return value === null || value === undefined ? max : Math.max(max, String(value).length);
+    }, column.header.length);
+
+    return Math.min(Math.max(longest + 2, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH);
+  }
+
+  /// <summary>
+  /// Zero-based column index to letters (0 = A, 26 = AA)
+  /// </summary>
+  private columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  /// <summary>
+  /// Sheet names: max 31 characters, no []:*?/\ and unique (case-insensitive)
+  /// </summary>
+  private uniqueSheetNames(names: string[]): string[] {
+    const used = new Set<string>();
+    return names.map((name, i) => {
+      const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${i + 1}`;
+      let candidate = base;
+      for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        candidate = `${base.slice(0, 31 - String(n).length - 1)}-${n}`;
+      }
+      used.add(candidate.toLowerCase());
+      return candidate;
+    });
+  }
+
+  private buildContentTypes(sheetCount: number): string {
+    const sheets = Array.from({ length: sheetCount }, (_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" `
+      + 'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>').join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" '
+      + 'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/styles.xml" '
+      + 'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + sheets
+      + '</Types>';
+  }
+
+  private buildRootRels(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" '
+      + 'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" '
+      + 'Target="xl/workbook.xml"/>'
+      + '</Relationships>';
+  }
+
+  /// <summary>
+  /// Workbook XML; sheets with autoFilter need the hidden _FilterDatabase name
+  /// </summary>
+  private buildWorkbook(sheets: XlsxSheet[], names: string[]): string {
+    const sheetEntries = names.map((name, i) =>
+      `<sheet name="${this.escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('');
+
+    const filterNames = sheets.map((sheet, i) => {
+      if (!sheet.autoFilter) return '';
+      const ref = `$A$1:$${this.columnName(Math.max(sheet.columns.length, 1) - 1)}$${sheet.rows.length + 1}`;
+      const quotedName = `'${names[i].replace(/'/g, "''")}'`;
+      return `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">`
+        + `${this.escapeXml(quotedName)}!${ref}</definedName>`;
+    }).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+      + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + '<bookViews><workbookView/></bookViews>'
+      + `<sheets>${sheetEntries}</sheets>`
+      + (filterNames ? `<definedNames>${filterNames}</definedNames>` : '')
+      + '</workbook>';
+  }
+
+  private buildWorkbookRels(sheetCount: number): string {
+    const sheets = Array.from({ length: sheetCount }, (_, i) =>
+      `<Relationship Id="rId${i + 1}" `
+      + 'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" '
+      + `Target="worksheets/sheet${i + 1}.xml"/>`).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + sheets
+      + `<Relationship Id="rId${sheetCount + 1}" `
+      + 'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" '
+      + 'Target="styles.xml"/>'
+      + '</Relationships>';
+  }
+
+  /// <summary>
+  /// Styles: 0 = default, 1 = bold header, 2 = date, 3 = date and time
+  /// </summary>
+  private buildStyles(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<numFmts count="2">'
+      + '<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>'
+      + '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/>'
+      + '</numFmts>'
+      + '<fonts count="2">'
+      + '<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>'
+      + '<font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font>'
+      + '</fonts>'
+      + '<fills count="3">'
+      + '<fill><patternFill patternType="none"/></fill>'
+      + '<fill><patternFill patternType="gray125"/></fill>'
+      + '<fill><patternFill patternType="solid"><fgColor rgb="FFE9ECEF"/><bgColor indexed="64"/></patternFill></fill>'
+      + '</fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="4">'
+      + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+      + '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>'
+      + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+      + '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+      + '</cellXfs>'
+      + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+      + '</styleSheet>';
+  }
+
+  /// <summary>
+  /// Escape XML special characters and drop control characters XML cannot contain
+  /// </summary>
+  private escapeXml(value: string): string {
+    return value
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /// <summary>
+  /// Pack files in a ZIP archive (stored, no compression)
+  /// </summary>
+  private zip(files: { path: string; content: string }[]): Uint8Array<ArrayBuffer> {
+    const entries = files.map(file => {
+      const name = this.encoder.encode(file.path);
+      const data = this.encoder.encode(file.content);
+      return { name, data, crc: this.crc32(data), offset: 0 };
+    });
+
+    const localSize = entries.reduce((sum, e) => sum + 30 + e.name.length + e.data.length, 0);
+    const centralSize = entries.reduce((sum, e) => sum + 46 + e.name.length, 0);
+    const buffer = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(buffer.buffer);
+    const { time, date } = this.dosDateTime(new Date());
+    let offset = 0;
+
+    // Local file headers followed by file data
+    for (const entry of entries) {
+      entry.offset = offset;
+      view.setUint32(offset, 0x04034b50, true);
+      view.setUint16(offset + 4, 20, true);           // version needed
+      view.setUint16(offset + 6, 0x0800, true);       // UTF-8 names
+      view.setUint16(offset + 8, 0, true);            // stored
+      view.setUint16(offset + 10, time, true);
+      view.setUint16(offset + 12, date, true);
+      view.setUint32(offset + 14, entry.crc, true);
+      view.setUint32(offset + 18, entry.data.length, true);
+      view.setUint32(offset + 22, entry.data.length, true);
+      view.setUint16(offset + 26, entry.name.length, true);
+      view.setUint16(offset + 28, 0, true);
+      buffer.set(entry.name, offset + 30);
+      buffer.set(entry.data, offset + 30 + entry.name.length);
+      offset += 30 + entry.name.length + entry.data.length;
+    }
+
+    // Central directory
+    const centralOffset = offset;
+    for (const entry of entries) {
+      view.setUint32(offset, 0x02014b50, true);
+      view.setUint16(offset + 4, 20, true);           // version made by
+      view.setUint16(offset + 6, 20, true);           // version needed
+      view.setUint16(offset + 8, 0x0800, true);
+      view.setUint16(offset + 10, 0, true);
+      view.setUint16(offset + 12, time, true);
+      view.setUint16(offset + 14, date, true);
+      view.setUint32(offset + 16, entry.crc, true);
+      view.setUint32(offset + 20, entry.data.length, true);
+      view.setUint32(offset + 24, entry.data.length, true);
+      view.setUint16(offset + 28, entry.name.length, true);
+      view.setUint16(offset + 30, 0, true);           // extra length
+      view.setUint16(offset + 32, 0, true);           // comment length
+      view.setUint16(offset + 34, 0, true);           // disk number
+      view.setUint16(offset + 36, 0, true);           // internal attributes
+      view.setUint32(offset + 38, 0, true);           // external attributes
+      view.setUint32(offset + 42, entry.offset, true);
+      buffer.set(entry.name, offset + 46);
+      offset += 46 + entry.name.length;
+    }
+
+    // End of central directory record
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 8, entries.length, true);
+    view.setUint16(offset + 10, entries.length, true);
+    view.setUint32(offset + 12, offset - centralOffset, true);
+    view.setUint32(offset + 16, centralOffset, true);
+
+    return buffer;
+  }
+
+  private dosDateTime(date: Date): { time: number; date: number } {
+    return {
+      time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+      date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+  }
+
+  private crc32(data: Uint8Array): number {
+    const table = this.crcTable ??= this.buildCrcTable();
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private buildCrcTable(): Uint32Array {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      table[n] = c >>> 0;
+    }
+    return table;
+  }
+}